@@ -27,6 +27,7 @@ export const mockWildCardResults: LiveResults = {
         isRedZone: false,
         isHalftime: false,
         isEndOfQuarter: false,
+        homeWinPct: null,
       },
       {
         matchupId: "afc-wildCard-2",
@@ -44,6 +45,7 @@ export const mockWildCardResults: LiveResults = {
         isRedZone: false,
         isHalftime: false,
         isEndOfQuarter: false,
+        homeWinPct: null,
       },
       {
         matchupId: "afc-wildCard-3",
@@ -61,6 +63,7 @@ export const mockWildCardResults: LiveResults = {
         isRedZone: false,
         isHalftime: false,
         isEndOfQuarter: false,
+        homeWinPct: null,
       },
     ],
     divisional: [],
@@ -84,6 +87,7 @@ export const mockWildCardResults: LiveResults = {
         isRedZone: false,
         isHalftime: false,
         isEndOfQuarter: false,
+        homeWinPct: null,
       },
       {
         matchupId: "nfc-wildCard-2",
@@ -101,6 +105,7 @@ export const mockWildCardResults: LiveResults = {
         isRedZone: false,
         isHalftime: false,
         isEndOfQuarter: false,
+        homeWinPct: null,
       },
       {
         matchupId: "nfc-wildCard-3",
@@ -118,6 +123,7 @@ export const mockWildCardResults: LiveResults = {
         isRedZone: false,
         isHalftime: false,
         isEndOfQuarter: false,
+        homeWinPct: null,
       },
     ],
     divisional: [],
@@ -144,6 +150,7 @@ export const mockInProgressGame: LiveMatchupResult = {
   isRedZone: true,
   isHalftime: false,
   isEndOfQuarter: false,
+  homeWinPct: null,
 };
 
 // Mock no games available
@@ -299,6 +306,7 @@ export const mockGameBoxscore: GameBoxscore = {
   ],
   lastPlay: null,
   fetchedAt: Date.now(),
+  dataQuality: { status: "ok", errorCount: 0, warningCount: 0, issues: [] },
   momentum: {
     winProbability: [
       {
@@ -13,8 +13,8 @@ interface TestFixtures {
 export const test = base.extend<TestFixtures>({
   // Mock all ESPN API endpoints
   mockEspnApi: async ({ page }, use) => {
-    // Mock the standings endpoint
-    await page.route("**/api/standings", async (route) => {
+    // Mock the standings endpoint (any ?season= param)
+    await page.route(/\/api\/standings(\?.*)?$/, async (route) => {
       await route.fulfill({
         status: 200,
         contentType: "application/json",
@@ -23,11 +23,11 @@ export const test = base.extend<TestFixtures>({
     });
 
     // Mock the SSE stream to prevent real connections
-    await page.route("**/api/standings/stream", async (route) => {
+    await page.route(/\/api\/standings\/stream(\?.*)?$/, async (route) => {
       await route.fulfill({
         status: 200,
         contentType: "text/event-stream",
-        body: `data: ${JSON.stringify(mockWildCardResults)}\n\n`,
+        body: `id: e2e-1\nevent: snapshot\ndata: ${JSON.stringify(mockWildCardResults)}\n\n`,
       });
     });
 
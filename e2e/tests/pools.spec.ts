@@ -0,0 +1,85 @@
+import { expect, test } from "../fixtures/test-fixtures";
+
+const POOL_ID = "e2e-pool";
+
+const mockLeaderboard = {
+  pool: { id: POOL_ID, name: "E2E Pool", season: 2025, inviteCode: "ABCD2345", createdAt: 0 },
+  rows: [],
+  updatedAt: 0,
+};
+
+test.describe("Pool Entries", () => {
+  test.beforeEach(async ({ page, seedUser: _seedUser, mockEspnApi: _mockEspnApi }) => {
+    await page.route(`**/api/pools/${POOL_ID}/leaderboard`, async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: "application/json",
+        body: JSON.stringify(mockLeaderboard),
+      });
+    });
+
+    await page.goto("/");
+    await expect(page.locator('[data-testid="bracket"]')).toBeVisible();
+  });
+
+  test("enters a bracket, then updates it until picks are frozen", async ({ page }) => {
+    const autofillBtn = page.locator('[data-testid="autofill-btn"]');
+    if (!(await autofillBtn.isVisible())) {
+      test.skip();
+      return;
+    }
+
+    // Complete the bracket so it can be entered
+    await autofillBtn.click();
+    await page.locator('[data-testid="autofill-chalk"]').click();
+    await page.locator('[data-testid="autofill-fill-btn"]').click();
+    await expect
+      .poll(() => page.evaluate(() => localStorage.getItem("nfl-bracket:current")))
+      .toContain('"isComplete":true');
+
+    // The first entry is accepted; once a round kicks off the pool refuses updates
+    const submitted: { entryToken: string | null }[] = [];
+    await page.route(`**/api/pools/${POOL_ID}/entries`, async (route) => {
+      submitted.push(route.request().postDataJSON());
+      if (submitted.length === 1) {
+        await route.fulfill({
+          status: 201,
+          contentType: "application/json",
+          body: JSON.stringify({ entry: { id: "e2e-entry" }, entryToken: "e2e-token" }),
+        });
+      } else {
+        await route.fulfill({
+          status: 409,
+          contentType: "application/json",
+          body: JSON.stringify({ error: "Wild Card picks are locked" }),
+        });
+      }
+    });
+
+    await page.goto(`/pools/${POOL_ID}`);
+    const submitBtn = page.locator('[data-testid="submit-pool-entry-btn"]');
+
+    await submitBtn.click();
+    await expect(page.getByText("Bracket entered!")).toBeVisible();
+    expect(submitted[0].entryToken).toBeNull();
+
+    // Entering again sends back the token, so it updates the same entry
+    await submitBtn.click();
+    await expect(page.getByText("Wild Card picks are locked")).toBeVisible();
+    expect(submitted[1].entryToken).toBe("e2e-token");
+  });
+
+  test("won't enter an unfinished bracket", async ({ page }) => {
+    let posted = false;
+    await page.route(`**/api/pools/${POOL_ID}/entries`, async (route) => {
+      posted = true;
+      await route.abort();
+    });
+
+    await page.goto(`/pools/${POOL_ID}`);
+    await page.locator('[data-testid="submit-pool-entry-btn"]').click();
+
+    await expect(page.getByText("Finish your bracket first")).toBeVisible();
+    expect(posted).toBe(false);
+  });
+});
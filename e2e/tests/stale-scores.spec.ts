@@ -0,0 +1,60 @@
+import { mockWildCardResults } from "../fixtures/mock-data";
+import { expect, test } from "../fixtures/test-fixtures";
+
+const staleResults = {
+  ...mockWildCardResults,
+  stale: { since: Date.now() - 60_000, reason: "ESPN API error: 503" },
+};
+
+test.describe("Delayed Scores", () => {
+  test.beforeEach(async ({ page, seedUser: _seedUser, mockEspnApi: _mockEspnApi }) => {
+    // Routes added later win, so these replace the fresh results from mockEspnApi
+    await page.route(/\/api\/standings(\?.*)?$/, async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: "application/json",
+        body: JSON.stringify(staleResults),
+      });
+    });
+  });
+
+  test("flags scores served from before ESPN went down", async ({ page }) => {
+    await page.route(/\/api\/standings\/stream(\?.*)?$/, async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: "text/event-stream",
+        body: `id: e2e-1\nevent: snapshot\ndata: ${JSON.stringify(staleResults)}\n\n`,
+      });
+    });
+
+    await page.goto("/");
+    await expect(page.locator('[data-testid="bracket"]')).toBeVisible();
+
+    const badge = page.locator('[data-testid="scores-delayed"]');
+    await expect(badge).toBeVisible();
+    await expect(badge).toHaveText("Scores delayed");
+    await expect(badge).toHaveAttribute("title", /ESPN API error: 503/);
+  });
+
+  test("clears the flag once ESPN answers again", async ({ page }) => {
+    const recovered = {
+      games: [],
+      fetchedAt: Date.now(),
+      dataQuality: null,
+      stale: null,
+    };
+    await page.route(/\/api\/standings\/stream(\?.*)?$/, async (route) => {
+      await route.fulfill({
+        status: 200,
+        contentType: "text/event-stream",
+        body:
+          `id: e2e-1\nevent: snapshot\ndata: ${JSON.stringify(staleResults)}\n\n` +
+          `id: e2e-2\nevent: delta\ndata: ${JSON.stringify(recovered)}\n\n`,
+      });
+    });
+
+    await page.goto("/");
+    await expect(page.locator('[data-testid="bracket"]')).toBeVisible();
+    await expect(page.locator('[data-testid="scores-delayed"]')).not.toBeVisible();
+  });
+});
@@ -0,0 +1,44 @@
+import { readFile, stat, writeFile } from "node:fs/promises";
+import {
+  buildScoresRecording,
+  readCapturedPayloads,
+  readScoresRecording,
+} from "@/lib/scores-provider";
+import type { RecordedPayload } from "@/types";
+
+/**
+ * Compress captured ESPN responses into one replayable recording:
+ *
+ *   bun run scores:compress <output.json> <capture dir or recording>...
+ *
+ * Inputs can be capture directories (SCORES_CAPTURE_DIR) or earlier recordings,
+ * so a new game day can be added to an existing fixture.
+ */
+
+async function readInput(input: string): Promise<RecordedPayload[]> {
+  if ((await stat(input)).isDirectory()) return readCapturedPayloads(input);
+  return readScoresRecording(JSON.parse(await readFile(input, "utf8"))).payloads;
+}
+
+async function main() {
+  const [output, ...inputs] = process.argv.slice(2);
+  if (!output || inputs.length === 0) {
+    console.error("Usage: bun run scores:compress <output.json> <capture dir or recording>...");
+    process.exit(1);
+  }
+
+  const payloads = (await Promise.all(inputs.map(readInput))).flat();
+  const recording = buildScoresRecording(payloads);
+  await writeFile(output, JSON.stringify(recording));
+
+  console.log(
+    `Kept ${recording.payloads.length} of ${payloads.length} responses in ${output} (${
+      payloads.length - recording.payloads.length
+    } duplicates dropped)`,
+  );
+}
+
+main().catch((error) => {
+  console.error("Failed to compress scores recording:", error);
+  process.exit(1);
+});
@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import { getBracketStore } from "@/lib/bracket-store";
+import {
+  deleteSyncedBracket,
+  getRequestAccountId,
+  MAX_SYNCED_BRACKET_BYTES,
+  saveSyncedBracket,
+  SyncConflictError,
+  SyncError,
+} from "@/lib/bracket-sync";
+import { parseJsonBody, readBody } from "@/lib/request-body";
+
+type RouteContext = { params: Promise<{ bracketId: string }> };
+
+export const dynamic = "force-dynamic";
+
+function tooLarge() {
+  return NextResponse.json(
+    { error: `Brackets must be under ${MAX_SYNCED_BRACKET_BYTES / 1024} KB` },
+    { status: 413 },
+  );
+}
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof SyncConflictError) {
+    return NextResponse.json({ error: error.message, current: error.current }, { status: 409 });
+  }
+  if (error instanceof SyncError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(`Failed to ${action} synced bracket:`, error);
+  return NextResponse.json({ error: `Failed to ${action} bracket` }, { status: 500 });
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { bracketId } = await params;
+    const accountId = await getRequestAccountId(request);
+    const synced = await getBracketStore().getBracket(accountId, bracketId);
+    if (!synced?.bracket) {
+      return NextResponse.json({ error: "Bracket not found" }, { status: 404 });
+    }
+    return NextResponse.json(synced, { headers: { "Cache-Control": "private, no-store" } });
+  } catch (error) {
+    return errorResponse(error, "load");
+  }
+}
+
+/**
+ * Create or replace a bracket: `SavedBracket` -> the synced copy. Answers 409
+ * with the server's copy as `current` if that was saved later.
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    const { bracketId } = await params;
+    const accountId = await getRequestAccountId(request);
+    const text = await readBody(request, MAX_SYNCED_BRACKET_BYTES);
+    if (text === null) return tooLarge();
+    const body = parseJsonBody(text);
+    const synced = await saveSyncedBracket(getBracketStore(), accountId, bracketId, body);
+    return NextResponse.json(synced);
+  } catch (error) {
+    return errorResponse(error, "save");
+  }
+}
+
+/**
+ * Delete a bracket as of `?deletedAt=<timestamp>` (default now), unless it was saved after that
+ */
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { bracketId } = await params;
+    const accountId = await getRequestAccountId(request);
+    const deletedAt = new URL(request.url).searchParams.get("deletedAt");
+    const synced = await deleteSyncedBracket(
+      getBracketStore(),
+      accountId,
+      bracketId,
+      deletedAt ? Number(deletedAt) : Date.now(),
+    );
+    return NextResponse.json(synced);
+  } catch (error) {
+    return errorResponse(error, "delete");
+  }
+}
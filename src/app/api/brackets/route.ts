@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { getBracketStore } from "@/lib/bracket-store";
+import {
+  createSyncedBracket,
+  getRequestAccountId,
+  MAX_SYNCED_BRACKET_BYTES,
+  SyncConflictError,
+  SyncError,
+} from "@/lib/bracket-sync";
+import { parseJsonBody, readBody } from "@/lib/request-body";
+
+export const dynamic = "force-dynamic";
+
+function tooLarge() {
+  return NextResponse.json(
+    { error: `Brackets must be under ${MAX_SYNCED_BRACKET_BYTES / 1024} KB` },
+    { status: 413 },
+  );
+}
+
+/**
+ * Every synced bracket of the account, deletions included
+ */
+export async function GET(request: Request) {
+  try {
+    const accountId = await getRequestAccountId(request);
+    const brackets = await getBracketStore().listBrackets(accountId);
+    return NextResponse.json({ brackets }, { headers: { "Cache-Control": "private, no-store" } });
+  } catch (error) {
+    if (error instanceof SyncError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to list synced brackets:", error);
+    return NextResponse.json({ error: "Failed to list brackets" }, { status: 500 });
+  }
+}
+
+/**
+ * Add a saved bracket the server doesn't have yet: `SavedBracket` -> the synced copy
+ */
+export async function POST(request: Request) {
+  try {
+    const accountId = await getRequestAccountId(request);
+    const text = await readBody(request, MAX_SYNCED_BRACKET_BYTES);
+    if (text === null) return tooLarge();
+    const body = parseJsonBody(text);
+    const synced = await createSyncedBracket(getBracketStore(), accountId, body);
+    return NextResponse.json(synced, { status: 201 });
+  } catch (error) {
+    if (error instanceof SyncConflictError) {
+      return NextResponse.json({ error: error.message, current: error.current }, { status: 409 });
+    }
+    if (error instanceof SyncError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to create synced bracket:", error);
+    return NextResponse.json({ error: "Failed to save bracket" }, { status: 500 });
+  }
+}
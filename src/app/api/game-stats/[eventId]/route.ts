@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 import { fetchGameBoxscore } from "@/lib/espn-boxscore";
+import { DATA_QUALITY_HEADER, EspnParseError } from "@/lib/espn-validation";
+import { getScoresProvider } from "@/lib/scores-provider";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 30; // Cache for 30 seconds
@@ -12,15 +14,22 @@ export async function GET(_request: Request, { params }: { params: Promise<{ eve
       return NextResponse.json({ error: "Invalid event ID" }, { status: 400 });
     }
 
-    const boxscore = await fetchGameBoxscore(eventId);
+    const boxscore = await fetchGameBoxscore(getScoresProvider(), eventId);
 
     return NextResponse.json(boxscore, {
       headers: {
         "Cache-Control": "public, s-maxage=30, stale-while-revalidate=60",
+        [DATA_QUALITY_HEADER]: boxscore.dataQuality.status,
       },
     });
   } catch (error) {
     console.error("Error fetching game stats:", error);
+    if (error instanceof EspnParseError) {
+      return NextResponse.json(
+        { error: "ESPN sent game stats that couldn't be read", issues: error.issues },
+        { status: 502 },
+      );
+    }
     return NextResponse.json({ error: "Failed to fetch game stats" }, { status: 500 });
   }
 }
@@ -1,5 +1,7 @@
 import { ImageResponse } from "next/og";
 import type { NextRequest } from "next/server";
+import { getSeason } from "@/data/seasons";
+import { migrateBracket } from "@/lib/migrations";
 import type { BracketState, Matchup, SeededTeam } from "@/types";
 
 export const runtime = "edge";
@@ -388,7 +390,7 @@ function SuperBowlImage({
             letterSpacing: 3,
           }}
         >
-          Super Bowl LX
+          {getSeason(bracket.season).superBowl}
         </div>
       </div>
 
@@ -515,7 +517,10 @@ function SuperBowlImage({
 export async function POST(request: NextRequest) {
   try {
     const body: RequestBody = await request.json();
-    const { bracket, userName, bracketName } = body;
+    const { userName, bracketName } = body;
+    // Older saved brackets may be missing fields such as the season
+    const bracket = migrateBracket(body.bracket);
+    const season = getSeason(bracket.season);
 
     // Prefetch all logos
     const logoUrls = collectLogos(bracket);
@@ -595,7 +600,7 @@ export async function POST(request: NextRequest) {
             fontWeight: 600,
           }}
         >
-          bracket.build • NFL Playoffs 2025-26
+          {`bracket.build • NFL Playoffs ${season.label}`}
         </div>
       </div>,
       {
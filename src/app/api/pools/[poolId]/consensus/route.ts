@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { buildConsensusBracket } from "@/lib/consensus";
+import { getPoolStore } from "@/lib/pool-store";
+import { loadServerSeasonSeeds } from "@/lib/season-seeds";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * The pool's crowd bracket. Only the aggregate leaves the server, not anyone's picks.
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ poolId: string }> }) {
+  try {
+    const { poolId } = await params;
+    const store = getPoolStore();
+    const pool = await store.getPool(poolId);
+    if (!pool) {
+      return NextResponse.json({ error: "Pool not found" }, { status: 404 });
+    }
+
+    // The crowd bracket starts from the season's seeded field
+    const [entries, seedsLoaded] = await Promise.all([
+      store.listEntries(pool.id),
+      loadServerSeasonSeeds(pool.season),
+    ]);
+    if (!seedsLoaded) {
+      return NextResponse.json(
+        { error: "Can't load the season's playoff field right now, try again shortly" },
+        { status: 503 },
+      );
+    }
+    return NextResponse.json(
+      buildConsensusBracket(
+        entries.map((entry) => entry.bracket),
+        pool.season,
+        `${pool.name} Crowd`,
+      ),
+      { headers: { "Cache-Control": "no-store" } },
+    );
+  } catch (error) {
+    console.error("Failed to build consensus bracket:", error);
+    return NextResponse.json({ error: "Failed to load crowd bracket" }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { getPoolStore } from "@/lib/pool-store";
+import { MAX_ENTRY_BYTES, PoolError, submitEntry } from "@/lib/pools";
+import { parseJsonBody, readBody } from "@/lib/request-body";
+import { getSeasonResults } from "@/lib/season-results";
+
+function tooLarge() {
+  return NextResponse.json(
+    { error: `Entries must be under ${MAX_ENTRY_BYTES / 1024} KB` },
+    { status: 413 },
+  );
+}
+
+/**
+ * Enter or update a completed bracket:
+ * `{ inviteCode, displayName, bracket, entryToken? }` -> `{ entry, entryToken }`
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ poolId: string }> }) {
+  try {
+    const { poolId } = await params;
+    const text = await readBody(request, MAX_ENTRY_BYTES);
+    if (text === null) return tooLarge();
+    // Anything but an object leaves the body empty, so submitEntry says what's missing
+    const body = (parseJsonBody(text) ?? {}) as Record<string, unknown>;
+    const store = getPoolStore();
+    const pool = await store.getPool(poolId);
+
+    // Kickoff times decide which picks are frozen; submitEntry refuses entries
+    // during the playoffs when there are no results to check them against
+    const results = pool ? await getSeasonResults(pool.season) : null;
+
+    const submission = await submitEntry(
+      store,
+      poolId,
+      {
+        inviteCode: body.inviteCode,
+        displayName: body.displayName,
+        bracket: body.bracket,
+        entryToken: body.entryToken,
+      },
+      results,
+    );
+    return NextResponse.json(submission, { status: 201 });
+  } catch (error) {
+    if (error instanceof PoolError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to submit pool entry:", error);
+    return NextResponse.json({ error: "Failed to submit entry" }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { getPoolStore } from "@/lib/pool-store";
+import { buildLeaderboard, getPoolWinChances } from "@/lib/pools";
+import { DEFAULT_SCORING_RULES } from "@/lib/scoring";
+import { getSeasonResults } from "@/lib/season-results";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(_request: Request, { params }: { params: Promise<{ poolId: string }> }) {
+  try {
+    const { poolId } = await params;
+    const store = getPoolStore();
+    const pool = await store.getPool(poolId);
+    if (!pool) {
+      return NextResponse.json({ error: "Pool not found" }, { status: 404 });
+    }
+
+    const [entries, results] = await Promise.all([
+      store.listEntries(pool.id),
+      getSeasonResults(pool.season),
+    ]);
+
+    // Also loads the season's seeds, which scoring looks eliminated teams up by
+    const winChances = await getPoolWinChances(pool, entries, results);
+    return NextResponse.json(
+      buildLeaderboard(pool, entries, results, DEFAULT_SCORING_RULES, winChances),
+      {
+        headers: { "Cache-Control": "no-store" },
+      },
+    );
+  } catch (error) {
+    console.error("Failed to build leaderboard:", error);
+    return NextResponse.json({ error: "Failed to load leaderboard" }, { status: 500 });
+  }
+}
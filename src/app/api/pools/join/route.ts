@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { getPoolStore } from "@/lib/pool-store";
+import { joinPool, PoolError } from "@/lib/pools";
+
+/**
+ * Resolve an invite code: `{ inviteCode }` -> the pool it belongs to
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const pool = await joinPool(getPoolStore(), body.inviteCode);
+    return NextResponse.json(pool);
+  } catch (error) {
+    if (error instanceof PoolError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to join pool:", error);
+    return NextResponse.json({ error: "Failed to join pool" }, { status: 500 });
+  }
+}
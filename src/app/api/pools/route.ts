@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { getPoolStore } from "@/lib/pool-store";
+import { createPool, PoolError } from "@/lib/pools";
+
+/**
+ * Create a pool: `{ name, season }` -> the pool, including its invite code
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const pool = await createPool(getPoolStore(), { name: body.name, season: body.season });
+    return NextResponse.json(pool, { status: 201 });
+  } catch (error) {
+    if (error instanceof PoolError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to create pool:", error);
+    return NextResponse.json({ error: "Failed to create pool" }, { status: 500 });
+  }
+}
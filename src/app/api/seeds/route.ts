@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { DEFAULT_SEASON, parseSeasonParam } from "@/data/seasons";
+import { getServerSeasonSeeds } from "@/lib/season-seeds";
+import type { SeedsResponse } from "@/types";
+
+export async function GET(request: Request) {
+  const season =
+    parseSeasonParam(new URL(request.url).searchParams.get("season")) ?? DEFAULT_SEASON;
+
+  try {
+    // Cached for 10 minutes per season, and shared with pools and leaderboards
+    const { stale, ...body } = await getServerSeasonSeeds(season);
+    if (stale) console.error("Failed to fetch standings seeds, serving stale ones:", stale.reason);
+
+    return NextResponse.json(body satisfies SeedsResponse, {
+      headers: {
+        "Cache-Control": "public, max-age=600, stale-while-revalidate=3600",
+        ...(stale && { "X-Stale": "true" }),
+      },
+    });
+  } catch (error) {
+    console.error("Failed to fetch standings seeds:", error);
+    return NextResponse.json({ error: "Failed to fetch standings seeds" }, { status: 500 });
+  }
+}
@@ -1,46 +1,38 @@
 import { NextResponse } from "next/server";
+import { DEFAULT_SEASON, parseSeasonParam } from "@/data/seasons";
 import { fetchLiveResults } from "@/lib/espn-api";
+import { addWinProbabilities } from "@/lib/espn-boxscore";
+import { DATA_QUALITY_HEADER } from "@/lib/espn-validation";
+import { createStaleWhileErrorCache } from "@/lib/resilient-fetch";
+import { getScoresProvider } from "@/lib/scores-provider";
+import type { LiveResults } from "@/types";
 
-// Cache the results for 5 seconds for near real-time updates
-let cachedResults: Awaited<ReturnType<typeof fetchLiveResults>> | null = null;
-let cacheTimestamp = 0;
-const CACHE_TTL = 5 * 1000; // 5 seconds
+// Cache the results for 5 seconds per season for near real-time updates; when
+// ESPN fails, the last good results are served with `stale` set
+const cache = createStaleWhileErrorCache<number, LiveResults>(5 * 1000);
 
-export async function GET() {
-  const now = Date.now();
-
-  // Return cached results if still valid
-  if (cachedResults && now - cacheTimestamp < CACHE_TTL) {
-    return NextResponse.json(cachedResults, {
-      headers: {
-        "Cache-Control": "public, max-age=5, stale-while-revalidate=10",
-      },
-    });
-  }
+export async function GET(request: Request) {
+  const season =
+    parseSeasonParam(new URL(request.url).searchParams.get("season")) ?? DEFAULT_SEASON;
 
   try {
-    const results = await fetchLiveResults();
-    cachedResults = results;
-    cacheTimestamp = now;
+    const { value, stale } = await cache.get(season, async () => {
+      // Live win probabilities, like the stream sends, so polling clients get the same odds
+      const provider = getScoresProvider();
+      return addWinProbabilities(provider, await fetchLiveResults(provider, season));
+    });
+    if (stale) console.error("Failed to fetch live standings, serving stale ones:", stale.reason);
+    const results: LiveResults = stale ? { ...value, stale } : value;
 
     return NextResponse.json(results, {
       headers: {
         "Cache-Control": "public, max-age=5, stale-while-revalidate=10",
+        [DATA_QUALITY_HEADER]: results.dataQuality?.status ?? "ok",
+        ...(stale && { "X-Stale": "true" }),
       },
     });
   } catch (error) {
     console.error("Failed to fetch live standings:", error);
-
-    // If we have stale cached data, return it
-    if (cachedResults) {
-      return NextResponse.json(cachedResults, {
-        headers: {
-          "Cache-Control": "public, max-age=5, stale-while-revalidate=10",
-          "X-Stale": "true",
-        },
-      });
-    }
-
     return NextResponse.json({ error: "Failed to fetch live standings" }, { status: 500 });
   }
 }
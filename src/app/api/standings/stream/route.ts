@@ -1,41 +1,71 @@
+import { DEFAULT_SEASON, parseSeasonParam } from "@/data/seasons";
 import { fetchLiveResults } from "@/lib/espn-api";
+import { addWinProbabilities } from "@/lib/espn-boxscore";
+import {
+  createLiveResultsLog,
+  formatStreamEvent,
+  type LiveResultsLog,
+} from "@/lib/live-results-stream";
+import { createStaleWhileErrorCache } from "@/lib/resilient-fetch";
+import { getScoresProvider } from "@/lib/scores-provider";
 import type { LiveResults } from "@/types";
 
-// Global cache shared across all connections
-let globalCache: LiveResults | null = null;
-let _lastFetchTime = 0;
-
 // Server-side polling interval (5 seconds)
 const POLL_INTERVAL = 5 * 1000;
 
-// Track if we're already polling
-let isPolling = false;
-let pollInterval: NodeJS.Timeout | null = null;
-const connectedClients = new Set<ReadableStreamDefaultController>();
+/**
+ * Polling state for one season, shared by every client watching it
+ */
+interface SeasonChannel {
+  // The latest results and the events that led to them, for resuming clients
+  log: LiveResultsLog;
+  pollInterval: NodeJS.Timeout | null;
+  clients: Set<ReadableStreamDefaultController>;
+}
+
+const channels = new Map<number, SeasonChannel>();
+
+// Every poll refreshes, but a failed one falls back to the last good results
+const results = createStaleWhileErrorCache<number, LiveResults>(0);
+
+function getChannel(season: number): SeasonChannel {
+  let channel = channels.get(season);
+  if (!channel) {
+    channel = {
+      log: createLiveResultsLog(Date.now().toString(36)),
+      pollInterval: null,
+      clients: new Set(),
+    };
+    channels.set(season, channel);
+  }
+  return channel;
+}
 
 /**
- * Start the global polling loop (runs once, shared by all clients)
+ * Start the polling loop for a season (runs once, shared by all its clients)
  */
-function startPolling() {
-  if (isPolling) return;
-  isPolling = true;
+function startPolling(season: number, channel: SeasonChannel) {
+  if (channel.pollInterval) return;
 
   const poll = async () => {
     try {
-      const results = await fetchLiveResults();
-      const hasChanged = JSON.stringify(results) !== JSON.stringify(globalCache);
+      const { value, stale } = await results.get(season, async () => {
+        // Live win probabilities ride along so clients can update bracket odds
+        const provider = getScoresProvider();
+        return addWinProbabilities(provider, await fetchLiveResults(provider, season));
+      });
+      if (stale) console.error("Polling error, serving stale results:", stale.reason);
 
-      globalCache = results;
-      _lastFetchTime = Date.now();
+      // Marking results stale changes them too, so clients hear when scores are delayed
+      const latest: LiveResults = stale ? { ...value, stale } : value;
+      const event = channel.log.update(latest);
 
-      // Only push if data changed and we have clients
-      if (hasChanged && connectedClients.size > 0) {
-        const message = `data: ${JSON.stringify(results)}\n\n`;
-        const encoder = new TextEncoder();
-        const data = encoder.encode(message);
+      // Only push if data changed (usually just the games that did) and we have clients
+      if (event && channel.clients.size > 0) {
+        const data = new TextEncoder().encode(formatStreamEvent(event));
 
         // Push to all connected clients
-        for (const controller of connectedClients) {
+        for (const controller of channel.clients) {
           try {
             controller.enqueue(data);
           } catch {
@@ -52,57 +82,59 @@ function startPolling() {
   poll();
 
   // Set up interval
-  pollInterval = setInterval(poll, POLL_INTERVAL);
+  channel.pollInterval = setInterval(poll, POLL_INTERVAL);
 }
 
 /**
- * Stop polling when no clients are connected
+ * Stop polling a season when none of its clients are connected
  */
-function stopPollingIfNoClients() {
-  if (connectedClients.size === 0 && pollInterval) {
-    clearInterval(pollInterval);
-    pollInterval = null;
-    isPolling = false;
+function stopPollingIfNoClients(channel: SeasonChannel) {
+  if (channel.clients.size === 0 && channel.pollInterval) {
+    clearInterval(channel.pollInterval);
+    channel.pollInterval = null;
   }
 }
 
-export async function GET() {
+export async function GET(request: Request) {
+  const season =
+    parseSeasonParam(new URL(request.url).searchParams.get("season")) ?? DEFAULT_SEASON;
+  const channel = getChannel(season);
+  // Sent by EventSource when it reconnects, so the client only gets what it missed
+  const lastEventId = request.headers.get("last-event-id");
+
   // Start polling if not already running
-  startPolling();
+  startPolling(season, channel);
+
+  let clientController: ReadableStreamDefaultController | null = null;
+  let heartbeat: NodeJS.Timeout | null = null;
 
   const stream = new ReadableStream({
     start(controller) {
-      // Add this client to the set
-      connectedClients.add(controller);
+      // Add this client to the season's set
+      clientController = controller;
+      channel.clients.add(controller);
 
-      // Send current cached data immediately if available
-      if (globalCache) {
-        const message = `data: ${JSON.stringify(globalCache)}\n\n`;
-        controller.enqueue(new TextEncoder().encode(message));
+      // Catch up on the current results immediately if there are any
+      for (const event of channel.log.catchUp(lastEventId)) {
+        controller.enqueue(new TextEncoder().encode(formatStreamEvent(event)));
       }
 
       // Send a heartbeat every 30 seconds to keep connection alive
-      const heartbeat = setInterval(() => {
+      heartbeat = setInterval(() => {
         try {
           controller.enqueue(new TextEncoder().encode(": heartbeat\n\n"));
         } catch {
-          clearInterval(heartbeat);
+          if (heartbeat) clearInterval(heartbeat);
         }
       }, 30000);
-
-      // Cleanup on close - this is handled by the cancel callback
     },
     cancel() {
       // Remove this client from the set
-      for (const controller of connectedClients) {
-        try {
-          // Try to find and remove this controller
-          connectedClients.delete(controller);
-        } catch {
-          // Already cleaned up
-        }
+      if (clientController) {
+        channel.clients.delete(clientController);
       }
-      stopPollingIfNoClients();
+      if (heartbeat) clearInterval(heartbeat);
+      stopPollingIfNoClients(channel);
     },
   });
 
@@ -0,0 +1,69 @@
+"use client";
+
+import { GitFork } from "lucide-react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { Bracket } from "@/components/bracket/Bracket";
+import { Button } from "@/components/ui/button";
+import { BracketProvider } from "@/contexts/BracketContext";
+import { getSeason } from "@/data/seasons";
+import { FORK_PARAM } from "@/hooks/useForkFromLink";
+import { useSharedBracket } from "@/hooks/useSharedBracket";
+
+export default function SharedBracketPage() {
+  const { code } = useParams<{ code: string }>();
+  const router = useRouter();
+  const { bracket, error } = useSharedBracket(code);
+
+  if (!bracket) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-4 bg-black text-white">
+        <div>{error ?? "Loading..."}</div>
+        {error && (
+          <Link href="/" className="text-sm text-gray-400 underline hover:text-white">
+            Build your own bracket
+          </Link>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <main className="min-h-screen overflow-x-hidden bg-black px-3 pb-8 pt-4 sm:px-4 sm:py-8 md:px-6">
+      <div className="flex justify-center overflow-x-hidden">
+        <div className="inline-flex max-w-full flex-col items-center overflow-x-hidden">
+          <header className="mb-4 text-center sm:mb-6">
+            <Link
+              href="/"
+              className="font-mono bg-gradient-to-r from-red-500 via-white to-blue-500 bg-clip-text text-3xl font-bold tracking-tight text-transparent sm:text-4xl"
+            >
+              bracket.build
+            </Link>
+            <p className="mt-1 text-sm text-gray-400 sm:mt-2 sm:text-lg">
+              Shared bracket • {getSeason(bracket.season).label}
+            </p>
+            {bracket.name && (
+              <h1 className="mt-2 text-lg font-semibold text-white sm:text-xl">{bracket.name}</h1>
+            )}
+            {bracket.subtitle && (
+              <p className="mt-1 text-sm italic text-gray-500">{bracket.subtitle}</p>
+            )}
+          </header>
+
+          <Button
+            data-testid="fork-bracket-btn"
+            onClick={() => router.push(`/?${FORK_PARAM}=${code}`)}
+            className="mb-4 bg-gradient-to-r from-red-600 to-blue-600 text-white hover:from-red-700 hover:to-blue-700 sm:mb-6"
+          >
+            <GitFork className="mr-2 h-4 w-4" />
+            Make It Mine
+          </Button>
+
+          <BracketProvider sharedBracket={bracket}>
+            <Bracket showUserName={false} />
+          </BracketProvider>
+        </div>
+      </div>
+    </main>
+  );
+}
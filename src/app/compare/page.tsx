@@ -0,0 +1,177 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { Bracket } from "@/components/bracket/Bracket";
+import { ComparisonSummary } from "@/components/ComparisonSummary";
+import { BracketProvider } from "@/contexts/BracketContext";
+import { getSeason } from "@/data/seasons";
+import { compareBrackets, createResultsBracket } from "@/lib/bracket-compare";
+import { getCurrentBracket, getSavedBrackets } from "@/lib/storage";
+import type { BracketState, LiveResults } from "@/types";
+
+// Compare with the actual results instead of a second bracket
+const RESULTS_OPTION = "results";
+
+interface CompareOption {
+  id: string;
+  label: string;
+  bracket: BracketState;
+}
+
+/**
+ * Saved brackets plus the autosaved one, if it isn't saved yet
+ */
+function getCompareOptions(): CompareOption[] {
+  const options = getSavedBrackets().map((saved) => ({
+    id: saved.id,
+    label: saved.name || "Untitled Bracket",
+    bracket: saved.state,
+  }));
+  const current = getCurrentBracket();
+  if (current && !options.some((o) => o.id === current.id)) {
+    options.unshift({ id: current.id, label: "Current bracket", bracket: current });
+  }
+  return options;
+}
+
+export default function CompareBracketsPage() {
+  const [options, setOptions] = useState<CompareOption[] | null>(null);
+  const [aId, setAId] = useState("");
+  const [bId, setBId] = useState(RESULTS_OPTION);
+  const [liveResults, setLiveResults] = useState<LiveResults | null>(null);
+
+  // Brackets live in localStorage, so they're read once mounted (`?a=<id>&b=<id|results>`)
+  useEffect(() => {
+    const loaded = getCompareOptions();
+    const params = new URLSearchParams(window.location.search);
+    setOptions(loaded);
+    setAId(params.get("a") ?? loaded[0]?.id ?? "");
+    setBId(params.get("b") ?? RESULTS_OPTION);
+  }, []);
+
+  const a = options?.find((o) => o.id === aId) ?? null;
+  const season = a?.bracket.season ?? null;
+  const others = options?.filter((o) => o.id !== aId && o.bracket.season === season) ?? [];
+  const b = others.find((o) => o.id === bId) ?? null;
+
+  useEffect(() => {
+    if (!aId) return;
+    const url = new URL(window.location.href);
+    url.searchParams.set("a", aId);
+    url.searchParams.set("b", bId);
+    window.history.replaceState(null, "", url);
+  }, [aId, bId]);
+
+  // Grade both brackets against the latest results for their season
+  useEffect(() => {
+    if (season === null) return;
+    let cancelled = false;
+    fetch(`/api/standings?season=${season}`)
+      .then((res) => {
+        if (!res.ok) throw new Error(`Results request failed: ${res.status}`);
+        return res.json();
+      })
+      .then((results: LiveResults) => {
+        if (!cancelled) setLiveResults(results);
+      })
+      .catch((err) => console.error("Failed to load results:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [season]);
+
+  if (!options) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-black">
+        <div className="text-white">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!a) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-4 bg-black text-white">
+        <div>Save a bracket first to compare it.</div>
+        <Link href="/" className="text-sm text-gray-400 underline hover:text-white">
+          Back to your bracket
+        </Link>
+      </div>
+    );
+  }
+
+  const results = liveResults ?? a.bracket.liveResults;
+  const isResults = b === null;
+  const other = b?.bracket ?? createResultsBracket(a.bracket.season, results);
+  const comparison = compareBrackets(a.bracket, other, results);
+  const selectClass =
+    "h-9 min-w-0 flex-1 rounded-md border border-gray-600 bg-gray-900 px-2 text-sm text-white";
+
+  return (
+    <main className="min-h-screen overflow-x-hidden bg-black px-3 pb-8 pt-4 sm:px-4 sm:py-8 md:px-6">
+      <div className="flex justify-center overflow-x-hidden">
+        <div className="inline-flex max-w-full flex-col items-center gap-4 overflow-x-hidden">
+          <header className="text-center">
+            <Link
+              href="/"
+              className="font-mono bg-gradient-to-r from-red-500 via-white to-blue-500 bg-clip-text text-3xl font-bold tracking-tight text-transparent sm:text-4xl"
+            >
+              bracket.build
+            </Link>
+            <p className="mt-1 text-sm text-gray-400 sm:mt-2 sm:text-lg">
+              Compare brackets • {getSeason(a.bracket.season).label}
+            </p>
+          </header>
+
+          <div className="flex w-full max-w-xl flex-wrap items-center gap-2 text-sm text-gray-400">
+            <select
+              data-testid="compare-a-select"
+              aria-label="Bracket"
+              value={aId}
+              onChange={(e) => setAId(e.target.value)}
+              className={selectClass}
+            >
+              {options.map((o) => (
+                <option key={o.id} value={o.id}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+            vs
+            <select
+              data-testid="compare-b-select"
+              aria-label="Compare with"
+              value={b ? bId : RESULTS_OPTION}
+              onChange={(e) => setBId(e.target.value)}
+              className={selectClass}
+            >
+              <option value={RESULTS_OPTION}>Actual results</option>
+              {others.map((o) => (
+                <option key={o.id} value={o.id}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <ComparisonSummary
+            comparison={comparison}
+            nameA={a.label}
+            nameB={b?.label ?? "Actual results"}
+            isResults={isResults}
+          />
+
+          {/* Remount per bracket: the provider only reads its bracket once */}
+          <BracketProvider
+            key={`${a.id}:${results?.fetchedAt ?? 0}`}
+            sharedBracket={{ ...a.bracket, liveResults: results }}
+            comparison={comparison}
+            comparisonLabel={b?.label ?? "Result"}
+          >
+            <Bracket />
+          </BracketProvider>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { Bracket } from "@/components/bracket/Bracket";
+import { BracketProvider } from "@/contexts/BracketContext";
+import { getSeason } from "@/data/seasons";
+import { buildConsensusBracket } from "@/lib/consensus";
+import { getCurrentBracket, getSavedBrackets } from "@/lib/storage";
+import type { BracketState, ConsensusBracket } from "@/types";
+
+/**
+ * Saved brackets plus the autosaved one, if it isn't saved yet
+ */
+function getLocalBrackets(): BracketState[] {
+  const brackets = getSavedBrackets().map((saved) => saved.state);
+  const current = getCurrentBracket();
+  if (current && !brackets.some((b) => b.id === current.id)) brackets.push(current);
+  return brackets;
+}
+
+export default function CrowdBracketPage() {
+  // `?pool=<id>` shows a pool's crowd; otherwise the brackets saved in this browser
+  const [poolId, setPoolId] = useState<string | null>(null);
+  const [localBrackets, setLocalBrackets] = useState<BracketState[] | null>(null);
+  const [season, setSeason] = useState<number | null>(null);
+  const [poolConsensus, setPoolConsensus] = useState<ConsensusBracket | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const pool = new URLSearchParams(window.location.search).get("pool");
+    setPoolId(pool);
+    if (pool) return;
+
+    const brackets = getLocalBrackets();
+    setLocalBrackets(brackets);
+    // Start with the season most of the brackets are for
+    const counts = new Map<number, number>();
+    for (const b of brackets) counts.set(b.season, (counts.get(b.season) ?? 0) + 1);
+    setSeason([...counts].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null);
+  }, []);
+
+  useEffect(() => {
+    if (!poolId) return;
+    fetch(`/api/pools/${poolId}/consensus`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error ?? `Request failed: ${res.status}`);
+        setPoolConsensus(data);
+      })
+      .catch((err: Error) => setError(err.message));
+  }, [poolId]);
+
+  const consensus =
+    poolConsensus ??
+    (localBrackets && season !== null ? buildConsensusBracket(localBrackets, season) : null);
+  const seasons = [...new Set(localBrackets?.map((b) => b.season))].sort((a, b) => b - a);
+
+  if (!consensus) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-4 bg-black text-white">
+        <div>
+          {error ??
+            (localBrackets ? "Save a few brackets first to see the crowd's picks." : "Loading...")}
+        </div>
+        {(error || localBrackets) && (
+          <Link href="/" className="text-sm text-gray-400 underline hover:text-white">
+            Back to your bracket
+          </Link>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <main className="min-h-screen overflow-x-hidden bg-black px-3 pb-8 pt-4 sm:px-4 sm:py-8 md:px-6">
+      <div className="flex justify-center overflow-x-hidden">
+        <div className="inline-flex max-w-full flex-col items-center gap-4 overflow-x-hidden">
+          <header className="text-center">
+            <Link
+              href="/"
+              className="font-mono bg-gradient-to-r from-red-500 via-white to-blue-500 bg-clip-text text-3xl font-bold tracking-tight text-transparent sm:text-4xl"
+            >
+              bracket.build
+            </Link>
+            <h1 className="mt-2 text-lg font-semibold text-white sm:text-xl">
+              {consensus.bracket.name}
+            </h1>
+            <p className="mt-1 text-sm text-gray-400">
+              {getSeason(consensus.bracket.season).label} • Majority picks of{" "}
+              <span data-testid="crowd-bracket-count">{consensus.bracketCount}</span>{" "}
+              {consensus.bracketCount === 1 ? "bracket" : "brackets"}. Percentages show how many
+              picked each team to win that round.
+            </p>
+          </header>
+
+          {!poolId && seasons.length > 1 && (
+            <select
+              data-testid="crowd-season-select"
+              aria-label="Season"
+              value={season ?? ""}
+              onChange={(e) => setSeason(Number(e.target.value))}
+              className="h-9 rounded-md border border-gray-600 bg-gray-900 px-2 text-sm text-white"
+            >
+              {seasons.map((s) => (
+                <option key={s} value={s}>
+                  {getSeason(s).label}
+                </option>
+              ))}
+            </select>
+          )}
+
+          {/* Remount per season: the provider only reads its bracket once */}
+          <BracketProvider
+            key={consensus.bracket.season}
+            sharedBracket={consensus.bracket}
+            pickShares={consensus.shares}
+          >
+            <Bracket showUserName={false} />
+          </BracketProvider>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -3,6 +3,7 @@ import { SpeedInsights } from "@vercel/speed-insights/next";
 import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import { Toaster } from "@/components/ui/sonner";
+import { DEFAULT_SEASON, getSeason } from "@/data/seasons";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -22,16 +23,27 @@ export const viewport: Viewport = {
   colorScheme: "dark",
 };
 
+const season = getSeason(DEFAULT_SEASON);
+
 export const metadata: Metadata = {
   metadataBase: new URL("https://bracket.build"),
-  title: "bracket.build | NFL Playoff Predictions 2025-26",
+  title: `bracket.build | NFL Playoff Predictions ${season.label}`,
   description:
     "Build your NFL playoff bracket and share your Super Bowl predictions with friends and family. An unofficial bracket builder for the NFL postseason.",
   applicationName: "bracket.build",
   authors: [{ name: "bracket.build" }],
-  keywords: ["NFL", "playoffs", "bracket", "Super Bowl", "predictions", "football", "2025", "2026"],
+  keywords: [
+    "NFL",
+    "playoffs",
+    "bracket",
+    "Super Bowl",
+    "predictions",
+    "football",
+    season.year.toString(),
+    (season.year + 1).toString(),
+  ],
   openGraph: {
-    title: "bracket.build | NFL Playoff Predictions 2025-26",
+    title: `bracket.build | NFL Playoff Predictions ${season.label}`,
     description:
       "Build your NFL playoff bracket and share your Super Bowl predictions with friends and family!",
     type: "website",
@@ -40,7 +52,7 @@ export const metadata: Metadata = {
   },
   twitter: {
     card: "summary_large_image",
-    title: "bracket.build | NFL Playoff Predictions 2025-26",
+    title: `bracket.build | NFL Playoff Predictions ${season.label}`,
     description: "Build your NFL playoff bracket and share your Super Bowl predictions!",
   },
   appleWebApp: {
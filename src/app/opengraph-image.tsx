@@ -1,7 +1,10 @@
 import { ImageResponse } from "next/og";
+import { DEFAULT_SEASON, getSeason } from "@/data/seasons";
+
+const { label } = getSeason(DEFAULT_SEASON);
 
 // Image metadata
-export const alt = "bracket.build - NFL Playoff Predictions 2025-26";
+export const alt = `bracket.build - NFL Playoff Predictions ${label}`;
 export const size = {
   width: 1200,
   height: 630,
@@ -87,7 +90,7 @@ export default function OpenGraphImage() {
           fontFamily: "system-ui",
         }}
       >
-        NFL Playoff Predictions • 2025-26
+        {`NFL Playoff Predictions • ${label}`}
       </div>
 
       {/* Call to action */}
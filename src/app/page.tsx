@@ -6,11 +6,15 @@ import { Bracket } from "@/components/bracket/Bracket";
 import { GameStatsDialog } from "@/components/dialogs/GameStatsDialog";
 import { WelcomeDialog } from "@/components/dialogs/WelcomeDialog";
 import { MobileActionBar } from "@/components/MobileActionBar";
+import { OtherTabBanner } from "@/components/OtherTabBanner";
 import { RoundLockControl } from "@/components/RoundLockControl";
+import { ScoreSummary } from "@/components/ScoreSummary";
+import { SeasonPicker } from "@/components/SeasonPicker";
 import { LiveGamesView } from "@/components/views/LiveGamesView";
 import { ViewToggle } from "@/components/views/ViewToggle";
 import { BracketProvider, useBracket } from "@/contexts/BracketContext";
 import { useView, ViewProvider } from "@/contexts/ViewContext";
+import { useForkFromLink } from "@/hooks/useForkFromLink";
 import { getStoredUser } from "@/lib/storage";
 import type { LiveGameInfo } from "@/types";
 
@@ -46,6 +50,9 @@ function BracketApp() {
     return () => document.removeEventListener("wheel", handleWheel);
   }, []);
 
+  // Shared brackets opened with "Make It Mine" arrive as ?fork=<code>
+  useForkFromLink(isHydrated);
+
   // Auto-fetch live results on initial load
   useEffect(() => {
     if (isHydrated && !bracket.liveResults) {
@@ -74,10 +81,14 @@ function BracketApp() {
                 bracket.build
               </h1>
               <p className="mt-1 text-sm text-gray-400 sm:mt-2 sm:text-lg md:text-xl">
-                NFL Playoff Predictions • 2025-26
+                NFL Playoff Predictions • <SeasonPicker />
               </p>
+              <ScoreSummary className="mt-2" />
             </header>
 
+            {/* Another tab took over the autosave */}
+            <OtherTabBanner className="mb-4 sm:mb-6" />
+
             {/* View Toggle */}
             <ViewToggle className="mb-4 sm:mb-6" />
 
@@ -0,0 +1,201 @@
+"use client";
+
+import { Copy, Send, Trophy, Users } from "lucide-react";
+import Image from "next/image";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { getSeason } from "@/data/seasons";
+import { getTeamById } from "@/data/teams";
+import { formatOdds } from "@/lib/simulation";
+import {
+  getCurrentBracket,
+  getPoolEntryToken,
+  getStoredUser,
+  setPoolEntryToken,
+} from "@/lib/storage";
+import { cn, postJson } from "@/lib/utils";
+import type { PoolEntrySubmission, PoolLeaderboard } from "@/types";
+
+// Matches the results cache on the leaderboard route
+const REFRESH_INTERVAL = 30 * 1000;
+
+export default function PoolLeaderboardPage() {
+  const { poolId } = useParams<{ poolId: string }>();
+  const [leaderboard, setLeaderboard] = useState<PoolLeaderboard | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadLeaderboard = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/pools/${poolId}/leaderboard`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error ?? `Request failed: ${response.status}`);
+      setLeaderboard(data);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [poolId]);
+
+  // Re-rank as results come in
+  useEffect(() => {
+    loadLeaderboard();
+    const interval = setInterval(loadLeaderboard, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [loadLeaderboard]);
+
+  const handleSubmit = async () => {
+    if (!leaderboard) return;
+    const bracket = getCurrentBracket();
+    if (!bracket?.isComplete) {
+      toast.error("Finish your bracket first", {
+        description: "Only completed brackets can be entered.",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { entryToken } = await postJson<PoolEntrySubmission>(`/api/pools/${poolId}/entries`, {
+        inviteCode: leaderboard.pool.inviteCode,
+        displayName: getStoredUser()?.name || bracket.userName,
+        bracket,
+        // Entering the same bracket again updates its entry
+        entryToken: getPoolEntryToken(poolId, bracket.id),
+      });
+      setPoolEntryToken(poolId, bracket.id, entryToken);
+      toast.success("Bracket entered!", {
+        description: "Enter it again to update picks until each round kicks off.",
+      });
+      await loadLeaderboard();
+    } catch (err) {
+      toast.error("Couldn't enter bracket", { description: (err as Error).message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCopyInvite = async () => {
+    if (!leaderboard) return;
+    await navigator.clipboard.writeText(leaderboard.pool.inviteCode);
+    toast.success("Invite code copied!");
+  };
+
+  if (!leaderboard) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-black">
+        <div className="text-white">{error ?? "Loading..."}</div>
+      </div>
+    );
+  }
+
+  const { pool, rows } = leaderboard;
+
+  return (
+    <main className="min-h-screen bg-black px-4 py-8 text-white md:py-12">
+      <div className="mx-auto max-w-2xl space-y-6">
+        <header className="text-center">
+          <Link
+            href="/"
+            className="font-mono bg-gradient-to-r from-red-500 via-white to-blue-500 bg-clip-text text-3xl font-bold tracking-tight text-transparent"
+          >
+            bracket.build
+          </Link>
+          <h1 className="mt-2 text-2xl font-bold">{pool.name}</h1>
+          <p className="text-gray-400">{getSeason(pool.season).label} Playoffs</p>
+        </header>
+
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <Button
+            variant="outline"
+            onClick={handleCopyInvite}
+            className="border-gray-600 bg-gray-800 text-white hover:bg-gray-700"
+          >
+            <Copy className="mr-2 h-4 w-4" />
+            Invite code: <span className="ml-1 font-mono">{pool.inviteCode}</span>
+          </Button>
+          <Button
+            data-testid="submit-pool-entry-btn"
+            onClick={handleSubmit}
+            disabled={isSubmitting}
+            className="bg-gradient-to-r from-red-600 to-blue-600 text-white hover:from-red-700 hover:to-blue-700"
+          >
+            <Send className="mr-2 h-4 w-4" />
+            Enter My Bracket
+          </Button>
+          {rows.length > 0 && (
+            <Button
+              asChild
+              variant="outline"
+              className="border-gray-600 bg-gray-800 text-white hover:bg-gray-700"
+            >
+              <Link href={`/crowd?pool=${pool.id}`} data-testid="pool-crowd-link">
+                <Users className="mr-2 h-4 w-4" />
+                Crowd Picks
+              </Link>
+            </Button>
+          )}
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="text-center text-gray-500">
+            No entries yet. Share the invite code to get the pool going.
+          </p>
+        ) : (
+          <ol data-testid="pool-leaderboard" className="space-y-2">
+            {rows.map((row) => {
+              const champion = row.championId ? getTeamById(row.championId) : undefined;
+              return (
+                <li
+                  key={row.entryId}
+                  className={cn(
+                    "flex items-center gap-3 rounded-lg border border-gray-700 bg-gray-900 px-4 py-3",
+                    row.rank === 1 && row.score.gamesPlayed > 0 && "border-yellow-500/60",
+                  )}
+                >
+                  <span className="w-6 text-center font-mono text-lg font-bold text-gray-400">
+                    {row.rank}
+                  </span>
+                  {champion && (
+                    <div className="relative h-7 w-7 shrink-0">
+                      <Image
+                        src={champion.logoUrl}
+                        alt={`${champion.city} ${champion.name} logo (Super Bowl pick)`}
+                        fill
+                        className="object-contain"
+                        sizes="28px"
+                      />
+                    </div>
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate font-semibold">{row.displayName}</div>
+                    {row.bracketName && (
+                      <div className="truncate text-sm text-gray-500">{row.bracketName}</div>
+                    )}
+                  </div>
+                  <div className="text-right">
+                    <div className="flex items-center justify-end gap-1 font-bold">
+                      {row.rank === 1 && row.score.gamesPlayed > 0 && (
+                        <Trophy className="h-4 w-4 text-yellow-400" />
+                      )}
+                      {row.score.points} pts
+                    </div>
+                    <div className="text-xs text-gray-500">max {row.score.maxPossible}</div>
+                    {row.winChance !== null && (
+                      <div data-testid="pool-win-chance" className="text-xs text-gray-400">
+                        {formatOdds(row.winChance)} to win
+                      </div>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { Trophy, Users } from "lucide-react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DEFAULT_SEASON, getSeason } from "@/data/seasons";
+import { getCurrentBracket } from "@/lib/storage";
+import { postJson } from "@/lib/utils";
+import type { Pool } from "@/types";
+
+export default function PoolsPage() {
+  const router = useRouter();
+  const [season, setSeason] = useState(DEFAULT_SEASON);
+  const [poolName, setPoolName] = useState("");
+  const [inviteCode, setInviteCode] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+
+  // New pools are for the season of the bracket being built
+  useEffect(() => {
+    setSeason(getCurrentBracket()?.season ?? DEFAULT_SEASON);
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    try {
+      const pool = await postJson<Pool>("/api/pools", { name: poolName.trim(), season });
+      router.push(`/pools/${pool.id}`);
+    } catch (error) {
+      toast.error("Couldn't create pool", { description: (error as Error).message });
+      setIsBusy(false);
+    }
+  };
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    try {
+      const pool = await postJson<Pool>("/api/pools/join", { inviteCode });
+      router.push(`/pools/${pool.id}`);
+    } catch (error) {
+      toast.error("Couldn't join pool", { description: (error as Error).message });
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-black px-4 py-8 text-white md:py-12">
+      <div className="mx-auto max-w-md space-y-8">
+        <header className="text-center">
+          <Link
+            href="/"
+            className="font-mono bg-gradient-to-r from-red-500 via-white to-blue-500 bg-clip-text text-3xl font-bold tracking-tight text-transparent"
+          >
+            bracket.build
+          </Link>
+          <p className="mt-2 text-gray-400">
+            Pools rank everyone&apos;s brackets on one leaderboard as results come in.
+          </p>
+        </header>
+
+        <form
+          onSubmit={handleJoin}
+          className="space-y-3 rounded-lg border border-gray-700 bg-gray-900 p-5"
+        >
+          <h2 className="flex items-center gap-2 font-semibold">
+            <Users className="h-4 w-4" />
+            Join a pool
+          </h2>
+          <Label htmlFor="invite-code" className="text-gray-300">
+            Invite code
+          </Label>
+          <Input
+            id="invite-code"
+            data-testid="invite-code-input"
+            value={inviteCode}
+            onChange={(e) => setInviteCode(e.target.value)}
+            placeholder="e.g. K7QW3MXP"
+            autoCapitalize="characters"
+            className="border-gray-600 bg-gray-800 font-mono uppercase text-white placeholder:text-gray-500"
+          />
+          <Button
+            type="submit"
+            disabled={isBusy || !inviteCode.trim()}
+            className="w-full bg-gradient-to-r from-red-600 to-blue-600 hover:from-red-700 hover:to-blue-700"
+          >
+            Join Pool
+          </Button>
+        </form>
+
+        <form
+          onSubmit={handleCreate}
+          className="space-y-3 rounded-lg border border-gray-700 bg-gray-900 p-5"
+        >
+          <h2 className="flex items-center gap-2 font-semibold">
+            <Trophy className="h-4 w-4" />
+            Start a pool
+          </h2>
+          <Label htmlFor="pool-name" className="text-gray-300">
+            Pool name
+          </Label>
+          <Input
+            id="pool-name"
+            data-testid="pool-name-input"
+            value={poolName}
+            onChange={(e) => setPoolName(e.target.value)}
+            placeholder="e.g. Office Pool"
+            maxLength={60}
+            className="border-gray-600 bg-gray-800 text-white placeholder:text-gray-500"
+          />
+          <p className="text-sm text-gray-500">For the {getSeason(season).label} playoffs</p>
+          <Button
+            type="submit"
+            variant="outline"
+            disabled={isBusy || !poolName.trim()}
+            className="w-full border-gray-600 bg-gray-800 text-white hover:bg-gray-700"
+          >
+            Create Pool
+          </Button>
+        </form>
+      </div>
+    </main>
+  );
+}
@@ -1,6 +1,18 @@
 "use client";
 
-import { ChevronDown, FolderOpen, RotateCcw, Save, User } from "lucide-react";
+import {
+  ChevronDown,
+  Dices,
+  FolderOpen,
+  Redo2,
+  RotateCcw,
+  Save,
+  Undo2,
+  User,
+  Users,
+  WandSparkles,
+} from "lucide-react";
+import Link from "next/link";
 import { useState } from "react";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
@@ -13,8 +25,10 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { useBracket } from "@/contexts/BracketContext";
 import { clearStoredUser } from "@/lib/storage";
+import { AutofillDialog } from "./dialogs/AutofillDialog";
 import { LoadBracketDialog } from "./dialogs/LoadBracketDialog";
 import { SaveBracketDialog } from "./dialogs/SaveBracketDialog";
+import { SimulationDialog } from "./dialogs/SimulationDialog";
 import { ShareMenu } from "./ShareMenu";
 
 interface BracketControlsProps {
@@ -22,14 +36,16 @@ interface BracketControlsProps {
 }
 
 export function BracketControls({ onResetName }: BracketControlsProps) {
-  const { resetBracket, setUserName } = useBracket();
+  const { resetBracket, setUserName, undo, redo, canUndo, canRedo } = useBracket();
   const [loadDialogOpen, setLoadDialogOpen] = useState(false);
   const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [simulationDialogOpen, setSimulationDialogOpen] = useState(false);
+  const [autofillDialogOpen, setAutofillDialogOpen] = useState(false);
 
   const handleResetBracket = () => {
-    if (confirm("Are you sure you want to reset your bracket? This cannot be undone.")) {
+    if (confirm("Are you sure you want to reset your bracket?")) {
       resetBracket();
-      toast.success("Bracket reset!");
+      toast.success("Bracket reset!", { action: { label: "Undo", onClick: undo } });
     }
   };
 
@@ -50,6 +66,32 @@ export function BracketControls({ onResetName }: BracketControlsProps) {
         data-testid="desktop-controls"
         className="hidden items-center justify-center gap-2 lg:flex"
       >
+        <Button
+          data-testid="undo-btn"
+          variant="outline"
+          size="icon"
+          onClick={undo}
+          disabled={!canUndo}
+          aria-label="Undo (Ctrl+Z)"
+          title="Undo (Ctrl+Z)"
+          className="border-gray-600 bg-gray-800 text-white hover:bg-gray-700"
+        >
+          <Undo2 className="h-4 w-4" />
+        </Button>
+
+        <Button
+          data-testid="redo-btn"
+          variant="outline"
+          size="icon"
+          onClick={redo}
+          disabled={!canRedo}
+          aria-label="Redo (Ctrl+Shift+Z)"
+          title="Redo (Ctrl+Shift+Z)"
+          className="border-gray-600 bg-gray-800 text-white hover:bg-gray-700"
+        >
+          <Redo2 className="h-4 w-4" />
+        </Button>
+
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button
@@ -81,6 +123,16 @@ export function BracketControls({ onResetName }: BracketControlsProps) {
           </DropdownMenuContent>
         </DropdownMenu>
 
+        <Button
+          data-testid="autofill-btn"
+          variant="outline"
+          onClick={() => setAutofillDialogOpen(true)}
+          className="border-gray-600 bg-gray-800 text-white hover:bg-gray-700"
+        >
+          <WandSparkles className="mr-2 h-4 w-4" />
+          Autofill
+        </Button>
+
         <Button
           data-testid="save-bracket-btn"
           onClick={() => setSaveDialogOpen(true)}
@@ -101,10 +153,31 @@ export function BracketControls({ onResetName }: BracketControlsProps) {
         </Button>
 
         <ShareMenu />
+
+        <Button
+          data-testid="simulate-btn"
+          variant="outline"
+          onClick={() => setSimulationDialogOpen(true)}
+          className="border-gray-600 bg-gray-800 text-white hover:bg-gray-700"
+        >
+          <Dices className="mr-2 h-4 w-4" />
+          Simulate
+        </Button>
+
+        <Button
+          asChild
+          variant="outline"
+          className="border-gray-600 bg-gray-800 text-white hover:bg-gray-700"
+        >
+          <Link href="/pools" data-testid="pools-link">
+            <Users className="mr-2 h-4 w-4" />
+            Pools
+          </Link>
+        </Button>
       </div>
 
-      {/* Mobile/Tablet: Show reset dropdown at top - larger on tablets */}
-      <div className="flex justify-center lg:hidden">
+      {/* Mobile/Tablet: Show reset dropdown, autofill, simulator and pools link at top - larger on tablets */}
+      <div className="flex flex-wrap justify-center gap-2 lg:hidden">
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button
@@ -134,11 +207,44 @@ export function BracketControls({ onResetName }: BracketControlsProps) {
             </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
+
+        <Button
+          variant="outline"
+          onClick={() => setAutofillDialogOpen(true)}
+          className="border-gray-600 bg-gray-800 text-white hover:bg-gray-700 md:h-11 md:px-5 md:text-base"
+        >
+          <WandSparkles className="mr-2 h-4 w-4 md:h-5 md:w-5" />
+          Autofill
+        </Button>
+
+        <Button
+          variant="outline"
+          onClick={() => setSimulationDialogOpen(true)}
+          className="border-gray-600 bg-gray-800 text-white hover:bg-gray-700 md:h-11 md:px-5 md:text-base"
+        >
+          <Dices className="mr-2 h-4 w-4 md:h-5 md:w-5" />
+          Simulate
+        </Button>
+
+        <Button
+          asChild
+          variant="outline"
+          className="border-gray-600 bg-gray-800 text-white hover:bg-gray-700 md:h-11 md:px-5 md:text-base"
+        >
+          <Link href="/pools">
+            <Users className="mr-2 h-4 w-4 md:h-5 md:w-5" />
+            Pools
+          </Link>
+        </Button>
       </div>
 
       <LoadBracketDialog open={loadDialogOpen} onOpenChange={setLoadDialogOpen} />
 
       <SaveBracketDialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen} />
+
+      <SimulationDialog open={simulationDialogOpen} onOpenChange={setSimulationDialogOpen} />
+
+      <AutofillDialog open={autofillDialogOpen} onOpenChange={setAutofillDialogOpen} />
     </>
   );
 }
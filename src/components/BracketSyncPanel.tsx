@@ -0,0 +1,167 @@
+"use client";
+
+import { Cloud, Copy, RefreshCw } from "lucide-react";
+import { type FormEvent, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { generateSyncPassphrase, isValidSyncPassphrase } from "@/lib/bracket-sync";
+import { syncSavedBrackets } from "@/lib/cloud-sync";
+import { clearSyncPassphrase, getSyncPassphrase, setSyncPassphrase } from "@/lib/storage";
+
+interface BracketSyncPanelProps {
+  // Called after a sync changed the saved brackets
+  onSynced: () => void;
+}
+
+/**
+ * Turn cross-device sync of saved brackets on or off, and sync on demand.
+ * Syncs once when shown if a passphrase is already set.
+ */
+export function BracketSyncPanel({ onSynced }: BracketSyncPanelProps) {
+  const [passphrase, setPassphrase] = useState<string | null>(() => getSyncPassphrase());
+  const [entered, setEntered] = useState("");
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const runSync = async (quiet = false) => {
+    setIsSyncing(true);
+    try {
+      const result = await syncSavedBrackets();
+      onSynced();
+      if (result && !quiet) {
+        toast.success("Brackets synced", {
+          description: `${result.pulled} updated from other devices, ${result.pushed} sent.`,
+        });
+      }
+    } catch (error) {
+      toast.error("Sync failed", {
+        description: error instanceof Error ? error.message : "Please try again",
+      });
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  // Pull changes from other devices whenever the panel is shown
+  useEffect(() => {
+    if (getSyncPassphrase()) void runSync(true);
+  }, []);
+
+  const enableSync = (value: string) => {
+    setSyncPassphrase(value);
+    setPassphrase(value);
+    setEntered("");
+    void runSync();
+  };
+
+  const handleUseExisting = (e: FormEvent) => {
+    e.preventDefault();
+    enableSync(entered.trim().toUpperCase());
+  };
+
+  const handleTurnOff = () => {
+    clearSyncPassphrase();
+    setPassphrase(null);
+    toast.success("Sync turned off", {
+      description: "Brackets stay saved on this device.",
+    });
+  };
+
+  const handleCopy = async () => {
+    if (!passphrase) return;
+    try {
+      await navigator.clipboard.writeText(passphrase);
+      toast.success("Passphrase copied!");
+    } catch {
+      toast.error("Couldn't copy the passphrase");
+    }
+  };
+
+  return (
+    <div
+      data-testid="bracket-sync-panel"
+      className="space-y-2 rounded-lg border border-gray-700 bg-gray-800/50 p-3 text-sm md:p-4"
+    >
+      <div className="flex items-center gap-2 font-medium text-white">
+        <Cloud className="h-4 w-4" />
+        Sync across devices
+      </div>
+
+      {passphrase ? (
+        <>
+          <p className="text-gray-400">
+            Enter this passphrase on another device to see the same saved brackets. Anyone with it
+            can change them, so keep it private.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <code
+              data-testid="sync-passphrase"
+              className="rounded bg-gray-900 px-2 py-1 font-mono text-white"
+            >
+              {passphrase}
+            </code>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={handleCopy}
+              aria-label="Copy passphrase"
+              className="h-7 text-gray-300 hover:bg-gray-700 hover:text-white"
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+            <div className="ml-auto flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => runSync()}
+                disabled={isSyncing}
+                data-testid="sync-now-btn"
+                className="h-7 border-gray-600 bg-transparent text-gray-300 hover:bg-gray-700 hover:text-white"
+              >
+                <RefreshCw className={`h-3 w-3 ${isSyncing ? "animate-spin" : ""}`} />
+                Sync Now
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={handleTurnOff}
+                className="h-7 text-gray-400 hover:bg-gray-700 hover:text-white"
+              >
+                Turn Off
+              </Button>
+            </div>
+          </div>
+        </>
+      ) : (
+        <form onSubmit={handleUseExisting} className="flex flex-wrap gap-2">
+          <Input
+            data-testid="sync-passphrase-input"
+            value={entered}
+            onChange={(e) => setEntered(e.target.value)}
+            placeholder="Passphrase from another device"
+            autoCapitalize="characters"
+            className="h-8 min-w-0 flex-1 border-gray-600 bg-gray-900 font-mono uppercase text-white placeholder:font-sans placeholder:normal-case placeholder:text-gray-500"
+          />
+          <Button
+            type="submit"
+            size="sm"
+            variant="outline"
+            disabled={!isValidSyncPassphrase(entered)}
+            className="h-8 border-gray-600 bg-transparent text-gray-300 hover:bg-gray-700 hover:text-white"
+          >
+            Use
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            onClick={() => enableSync(generateSyncPassphrase())}
+            data-testid="create-sync-passphrase-btn"
+            className="h-8 bg-gradient-to-r from-red-600 to-blue-600 hover:from-red-700 hover:to-blue-700"
+          >
+            New Passphrase
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
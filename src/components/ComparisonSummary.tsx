@@ -0,0 +1,55 @@
+"use client";
+
+import type { BracketComparison } from "@/types";
+
+interface ComparisonSummaryProps {
+  comparison: BracketComparison;
+  nameA: string;
+  nameB: string;
+  // Comparing with the actual results rather than another bracket
+  isResults: boolean;
+}
+
+/**
+ * Compare mode summary: how often two brackets agree and how many points ride on where they don't
+ */
+export function ComparisonSummary({ comparison, nameA, nameB, isResults }: ComparisonSummaryProps) {
+  const { agreements, divergences, scoreA, scoreB, swingA, swingB } = comparison;
+
+  return (
+    <div
+      data-testid="comparison-summary"
+      className="w-full max-w-xl space-y-2 rounded-lg border border-gray-700 bg-gray-800/50 p-3 text-sm text-gray-300 md:p-4"
+    >
+      <div className="flex flex-wrap justify-between gap-2">
+        <span>
+          <span className="font-semibold text-white">{agreements}</span> same picks
+        </span>
+        <span>
+          <span className="font-semibold text-white">{divergences}</span>{" "}
+          {divergences === 1 ? "difference" : "differences"}
+        </span>
+      </div>
+
+      {isResults ? (
+        <p>
+          <span className="font-semibold text-white">{nameA}</span> has {scoreA.points} pts from{" "}
+          {scoreA.correctPicks} correct picks, with up to {swingA} more pts still alive on picks
+          that differ from what has happened so far.
+        </p>
+      ) : (
+        <>
+          <p>
+            <span className="font-semibold text-white">{nameA}</span>: {scoreA.points} pts (max{" "}
+            {scoreA.maxPossible}) • <span className="font-semibold text-white">{nameB}</span>:{" "}
+            {scoreB.points} pts (max {scoreB.maxPossible})
+          </p>
+          <p data-testid="comparison-swing">
+            Points still riding on the differences: up to {swingA} for {nameA}, up to {swingB} for{" "}
+            {nameB}.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
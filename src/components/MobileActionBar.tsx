@@ -1,10 +1,11 @@
 "use client";
 
-import { FolderOpen, Loader2, Save, Share2 } from "lucide-react";
+import { FolderOpen, Loader2, Redo2, Save, Share2, Undo2 } from "lucide-react";
 import { useState } from "react";
 import { toast } from "sonner";
 import { useBracket } from "@/contexts/BracketContext";
 import { useView } from "@/contexts/ViewContext";
+import { getSeason } from "@/data/seasons";
 import { downloadImage, generateBracketImage, shareImage } from "@/lib/image-generator";
 import { cn } from "@/lib/utils";
 import { LoadBracketDialog } from "./dialogs/LoadBracketDialog";
@@ -57,7 +58,7 @@ function ActionButton({
 }
 
 export function MobileActionBar() {
-  const { bracket } = useBracket();
+  const { bracket, undo, redo, canUndo, canRedo } = useBracket();
   const { viewMode } = useView();
   const [loadDialogOpen, setLoadDialogOpen] = useState(false);
   const [saveDialogOpen, setSaveDialogOpen] = useState(false);
@@ -145,7 +146,9 @@ export function MobileActionBar() {
                 <p className="truncate text-lg font-black uppercase tracking-tight text-white md:text-xl">
                   {winner.city} {winner.name}
                 </p>
-                <p className="text-xs font-medium text-white/40 md:text-sm">Super Bowl LX</p>
+                <p className="text-xs font-medium text-white/40 md:text-sm">
+                  {getSeason(bracket.season).superBowl}
+                </p>
               </div>
 
               {/* Share button */}
@@ -203,6 +206,12 @@ export function MobileActionBar() {
       >
         {/* Dock */}
         <div className="flex items-center gap-1 rounded-2xl border border-white/10 bg-black p-1.5 shadow-2xl md:gap-2 md:rounded-3xl md:p-2">
+          <ActionButton onClick={undo} disabled={!canUndo} icon={Undo2} label="Undo" />
+          <ActionButton onClick={redo} disabled={!canRedo} icon={Redo2} label="Redo" />
+
+          {/* Divider */}
+          <div className="mx-1 h-8 w-px bg-white/10 md:mx-1.5 md:h-10" />
+
           <ActionButton onClick={() => setLoadDialogOpen(true)} icon={FolderOpen} label="Load" />
 
           {/* Divider */}
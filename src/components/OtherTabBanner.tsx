@@ -0,0 +1,73 @@
+"use client";
+
+import { Copy, MonitorSmartphone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useBracket } from "@/contexts/BracketContext";
+import { cn } from "@/lib/utils";
+
+interface OtherTabBannerProps {
+  className?: string;
+}
+
+/**
+ * Asks what to do when another tab switched the autosave to a different
+ * bracket, and notes when this tab is working on a copy instead
+ */
+export function OtherTabBanner({ className }: OtherTabBannerProps) {
+  const { otherTabBracket, followOtherTab, keepAsCopy, isDetached, bracket } = useBracket();
+
+  if (isDetached) {
+    return (
+      <div
+        data-testid="detached-tab-note"
+        className={cn(
+          "flex items-center justify-center gap-2 text-xs text-gray-400 sm:text-sm",
+          className,
+        )}
+      >
+        <Copy className="h-3.5 w-3.5" />
+        Editing a copy{bracket.name ? ` of "${bracket.name}"` : ""}. Changes save to your saved
+        brackets.
+      </div>
+    );
+  }
+
+  if (!otherTabBracket) return null;
+
+  return (
+    <div
+      role="alert"
+      data-testid="other-tab-banner"
+      className={cn(
+        "flex w-full max-w-2xl flex-wrap items-center gap-3 rounded-lg border border-yellow-600/50 bg-yellow-900/20 p-3 text-sm text-yellow-100",
+        className,
+      )}
+    >
+      <MonitorSmartphone className="h-5 w-5 shrink-0 text-yellow-400" />
+      <p className="flex-1">
+        Another tab switched to{" "}
+        {otherTabBracket.name ? `"${otherTabBracket.name}"` : "a different bracket"}. Changes here
+        aren&apos;t being saved.
+      </p>
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={keepAsCopy}
+          data-testid="keep-as-copy-btn"
+          className="border-yellow-600/50 bg-transparent text-yellow-100 hover:bg-yellow-900/40 hover:text-white"
+        >
+          Keep Mine as a Copy
+        </Button>
+        <Button
+          size="sm"
+          onClick={followOtherTab}
+          data-testid="follow-other-tab-btn"
+          className="bg-gradient-to-r from-red-600 to-blue-600 hover:from-red-700 hover:to-blue-700"
+        >
+          Switch to It
+        </Button>
+      </div>
+    </div>
+  );
+}
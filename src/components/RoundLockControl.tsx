@@ -1,7 +1,8 @@
 "use client";
 
-import { Lock, LockOpen, RefreshCw } from "lucide-react";
+import { Clock, Lock, LockOpen, RefreshCw, TriangleAlert } from "lucide-react";
 import { useBracket } from "@/contexts/BracketContext";
+import { isContestUnderway } from "@/lib/bracket-engine";
 import { hasCompletedGames, hasInProgressGames } from "@/lib/espn-api";
 import { cn } from "@/lib/utils";
 import type { RoundName } from "@/types";
@@ -55,6 +56,31 @@ function RoundLockToggle({ round, hasGames }: RoundLockToggleProps) {
   );
 }
 
+/**
+ * Contest mode switch: once on, picks freeze as each game kicks off
+ */
+function ContestModeToggle() {
+  const { bracket, setContestMode } = useBracket();
+  const isUnderway = isContestUnderway(bracket);
+
+  return (
+    <div className="mt-3 flex items-center gap-2 border-t border-gray-700 pt-3">
+      <Switch
+        id="contest-mode"
+        data-testid="contest-mode-toggle"
+        checked={bracket.contestMode}
+        onCheckedChange={setContestMode}
+        disabled={isUnderway}
+        aria-label="Toggle contest mode"
+      />
+      <label htmlFor="contest-mode" className="text-xs text-gray-400">
+        Contest mode: picks lock at kickoff
+        {isUnderway && <span className="text-gray-500"> (on for the rest of the playoffs)</span>}
+      </label>
+    </div>
+  );
+}
+
 export function RoundLockControl() {
   const { bracket, refreshLiveResults, isLoadingLiveResults } = useBracket();
   const { liveResults } = bracket;
@@ -69,6 +95,12 @@ export function RoundLockControl() {
 
   const anyRoundsWithGames = Object.values(roundsWithGames).some(Boolean);
   const hasLiveGames = hasInProgressGames(liveResults);
+  const dataQuality =
+    liveResults?.dataQuality?.status === "degraded" ? liveResults.dataQuality : null;
+  const dataIssues = dataQuality?.issues ?? [];
+  const unlistedIssues = dataQuality
+    ? dataQuality.errorCount + dataQuality.warningCount - dataIssues.length
+    : 0;
 
   return (
     <div className="rounded-lg border border-gray-700 bg-gray-800/50 p-3">
@@ -89,6 +121,29 @@ export function RoundLockControl() {
               LIVE
             </span>
           )}
+          {liveResults?.stale && (
+            <span
+              data-testid="scores-delayed"
+              title={`ESPN hasn't answered since ${new Date(liveResults.stale.since).toLocaleTimeString()}: ${liveResults.stale.reason}`}
+              className="flex items-center gap-1 rounded-full bg-amber-500/20 px-2 py-0.5 text-[10px] font-medium text-amber-400"
+            >
+              <Clock className="h-3 w-3" />
+              Scores delayed
+            </span>
+          )}
+          {dataIssues.length > 0 && (
+            <span
+              data-testid="data-quality-warning"
+              title={[
+                ...dataIssues.map((issue) => `${issue.path} ${issue.problem}`),
+                ...(unlistedIssues > 0 ? [`and ${unlistedIssues} more`] : []),
+              ].join("\n")}
+              className="flex items-center gap-1 rounded-full bg-amber-500/20 px-2 py-0.5 text-[10px] font-medium text-amber-400"
+            >
+              <TriangleAlert className="h-3 w-3" />
+              Some scores couldn&apos;t be read
+            </span>
+          )}
         </div>
         <Button
           variant="ghost"
@@ -125,6 +180,8 @@ export function RoundLockControl() {
           </div>
         </>
       )}
+
+      <ContestModeToggle />
     </div>
   );
 }
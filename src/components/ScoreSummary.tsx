@@ -0,0 +1,41 @@
+"use client";
+
+import { Trophy } from "lucide-react";
+import { useBracket } from "@/contexts/BracketContext";
+import { scoreBracket } from "@/lib/scoring";
+import { cn } from "@/lib/utils";
+
+interface ScoreSummaryProps {
+  className?: string;
+}
+
+/**
+ * The current bracket's score against actual results, once any game is final
+ */
+export function ScoreSummary({ className }: ScoreSummaryProps) {
+  const { bracket } = useBracket();
+  const score = scoreBracket(bracket);
+
+  if (score.gamesPlayed === 0) return null;
+
+  return (
+    <div
+      data-testid="score-summary"
+      className={cn(
+        "inline-flex items-center gap-2 rounded-full border border-gray-700 bg-gray-900 px-3 py-1 text-xs text-gray-300 sm:text-sm",
+        className,
+      )}
+    >
+      <Trophy className="h-3.5 w-3.5 text-yellow-400 sm:h-4 sm:w-4" />
+      <span>
+        <span className="font-bold text-white">{score.points}</span> pts
+      </span>
+      <span className="text-gray-600">•</span>
+      <span>
+        {score.correctPicks}/{score.decidedPicks} correct
+      </span>
+      <span className="text-gray-600">•</span>
+      <span>max {score.maxPossible}</span>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { ChevronDown } from "lucide-react";
+import { toast } from "sonner";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useBracket } from "@/contexts/BracketContext";
+import { AVAILABLE_SEASONS, getSeason } from "@/data/seasons";
+import { hasAnyPicks, isContestUnderway } from "@/lib/bracket-engine";
+import { cn } from "@/lib/utils";
+
+interface SeasonPickerProps {
+  className?: string;
+}
+
+export function SeasonPicker({ className }: SeasonPickerProps) {
+  const { bracket, setSeason } = useBracket();
+  const current = getSeason(bracket.season);
+
+  // Nothing to pick from with a single season
+  if (AVAILABLE_SEASONS.length < 2) {
+    return <span className={className}>{current.label}</span>;
+  }
+
+  const handleChange = (value: string) => {
+    const year = Number.parseInt(value, 10);
+    if (year === bracket.season) return;
+    if (isContestUnderway(bracket)) {
+      toast.error("Contest picks are locked; load or start another bracket to switch seasons");
+      return;
+    }
+    if (
+      hasAnyPicks(bracket) &&
+      !confirm("Switching seasons starts a new bracket and replaces your current picks. Continue?")
+    ) {
+      return;
+    }
+
+    setSeason(year);
+
+    // Keep the URL shareable for the selected season
+    const url = new URL(window.location.href);
+    url.searchParams.set("season", year.toString());
+    window.history.replaceState(null, "", url);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        data-testid="season-picker"
+        className={cn(
+          "inline-flex items-center gap-1 rounded-md px-1 transition-colors hover:text-white",
+          className,
+        )}
+      >
+        {current.label}
+        <ChevronDown className="h-4 w-4" />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="border-gray-700 bg-gray-800">
+        <DropdownMenuRadioGroup value={bracket.season.toString()} onValueChange={handleChange}>
+          {AVAILABLE_SEASONS.map((year) => (
+            <DropdownMenuRadioItem
+              key={year}
+              value={year.toString()}
+              className="cursor-pointer text-white focus:bg-gray-700 focus:text-white"
+            >
+              {getSeason(year).label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
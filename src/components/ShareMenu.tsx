@@ -1,6 +1,6 @@
 "use client";
 
-import { Copy, Download, Loader2, Send, Share2 } from "lucide-react";
+import { Copy, Download, Link2, Loader2, Send, Share2 } from "lucide-react";
 import { useState } from "react";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
@@ -17,6 +17,7 @@ import {
   generateBracketImage,
   shareImage,
 } from "@/lib/image-generator";
+import { encodeShareCode } from "@/lib/share-code";
 
 export function ShareMenu() {
   const { bracket } = useBracket();
@@ -39,6 +40,18 @@ export function ShareMenu() {
     }
   };
 
+  const handleCopyLink = async () => {
+    const url = `${window.location.origin}/b/${encodeShareCode(bracket)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Link copied!", {
+        description: "Anyone with it can view and copy your picks.",
+      });
+    } catch {
+      toast.error("Failed to copy link");
+    }
+  };
+
   const handleDownload = async () => {
     const blob = await generateImage();
     if (blob) {
@@ -94,6 +107,14 @@ export function ShareMenu() {
         </Button>
       </DropdownMenuTrigger>
       <DropdownMenuContent className="border-gray-700 bg-gray-800">
+        <DropdownMenuItem
+          data-testid="copy-link-btn"
+          onClick={handleCopyLink}
+          className="cursor-pointer text-white focus:bg-gray-700 focus:text-white"
+        >
+          <Link2 className="mr-2 h-4 w-4" />
+          Copy Link
+        </DropdownMenuItem>
         <DropdownMenuItem
           onClick={handleDownload}
           className="cursor-pointer text-white focus:bg-gray-700 focus:text-white"
@@ -0,0 +1,106 @@
+"use client";
+
+import { TriangleAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { syncInBackground } from "@/lib/cloud-sync";
+import {
+  clearQuarantinedEntries,
+  deleteBracket,
+  getQuarantinedEntries,
+  getSavedBrackets,
+  getStorageUsage,
+} from "@/lib/storage";
+import type { SavedBracket } from "@/types";
+
+// How many of the oldest saved brackets to offer for cleanup when storage is full
+const CLEANUP_SUGGESTIONS = 3;
+
+export interface StorageFullState {
+  usage: number;
+  quarantined: number;
+  oldest: SavedBracket[];
+}
+
+export function getStorageFullState(): StorageFullState {
+  return {
+    usage: getStorageUsage(),
+    quarantined: getQuarantinedEntries().length,
+    oldest: getSavedBrackets()
+      .sort((a, b) => a.updatedAt - b.updatedAt)
+      .slice(0, CLEANUP_SUGGESTIONS),
+  };
+}
+
+interface StorageFullNoticeProps {
+  storageFull: StorageFullState;
+  // Called with the new state after something was deleted to make room
+  onFreed: (storageFull: StorageFullState) => void;
+}
+
+/**
+ * Shown when a write didn't fit in browser storage: how much is used, and the
+ * unreadable entries and oldest saved brackets that could go to make room
+ */
+export function StorageFullNotice({ storageFull, onFreed }: StorageFullNoticeProps) {
+  const handleDeleteOld = (id: string) => {
+    deleteBracket(id);
+    syncInBackground();
+    onFreed(getStorageFullState());
+  };
+
+  const handleDiscardQuarantined = () => {
+    clearQuarantinedEntries();
+    onFreed(getStorageFullState());
+  };
+
+  return (
+    <div
+      role="alert"
+      data-testid="storage-full-notice"
+      className="space-y-2 rounded-md border border-yellow-600/50 bg-yellow-900/20 p-3 text-sm text-yellow-200"
+    >
+      <p className="flex items-center gap-2 font-medium">
+        <TriangleAlert className="h-4 w-4 shrink-0" />
+        Browser storage is full ({Math.ceil(storageFull.usage / 1024)} KB used)
+      </p>
+      <p>
+        Free up space, then try again. Export brackets from Load Bracket first if you want a copy.
+      </p>
+      {storageFull.quarantined > 0 && (
+        <div className="flex items-center justify-between gap-2">
+          <span>
+            {storageFull.quarantined} unreadable{" "}
+            {storageFull.quarantined === 1 ? "entry" : "entries"}
+          </span>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={handleDiscardQuarantined}
+            className="h-7 text-yellow-200 hover:bg-yellow-900/40 hover:text-yellow-100"
+          >
+            Discard
+          </Button>
+        </div>
+      )}
+      {storageFull.oldest.map((saved) => (
+        <div key={saved.id} className="flex items-center justify-between gap-2">
+          <span className="truncate">
+            {saved.name || "Untitled"}{" "}
+            <span className="text-yellow-200/70">
+              (saved {new Date(saved.updatedAt).toLocaleDateString()})
+            </span>
+          </span>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => handleDeleteOld(saved.id)}
+            data-testid="storage-cleanup-delete-btn"
+            className="h-7 text-yellow-200 hover:bg-yellow-900/40 hover:text-yellow-100"
+          >
+            Delete
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
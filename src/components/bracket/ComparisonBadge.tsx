@@ -0,0 +1,58 @@
+"use client";
+
+import { Check, Equal, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { MatchupComparison } from "@/types";
+
+interface ComparisonBadgeProps {
+  comparison: MatchupComparison;
+  label: string; // Name of the bracket compared with, or "Result"
+  className?: string;
+}
+
+/**
+ * Compare mode badge: whether the other bracket made the same pick, and who got it right
+ */
+export function ComparisonBadge({ comparison, label, className }: ComparisonBadgeProps) {
+  const { status, pickB, gradeA, gradeB } = comparison;
+  if (status === "unpicked") return null;
+
+  let text: string;
+  let tone: string;
+  let Icon = Equal;
+  if (status === "agree") {
+    text = gradeA === "correct" ? "Both right" : gradeA === "wrong" ? "Both wrong" : "Same pick";
+    tone = gradeA === "correct" ? "bg-green-700 text-white" : "bg-gray-700 text-gray-200";
+  } else {
+    text = `${label}: ${pickB!.id}`;
+    if (gradeA === "correct") {
+      tone = "bg-green-600 text-white";
+      Icon = Check;
+    } else if (gradeB === "correct") {
+      tone = "bg-red-600 text-white";
+      Icon = X;
+    } else {
+      tone = "bg-amber-500 text-black";
+    }
+  }
+
+  return (
+    <div
+      data-testid={`comparison-${comparison.matchupId}`}
+      data-status={status}
+      title={
+        status === "agree"
+          ? `${label} made the same pick`
+          : `${label} picked ${pickB!.city} ${pickB!.name}`
+      }
+      className={cn(
+        "flex items-center gap-1 rounded-full px-2 py-0.5 text-[10px] font-bold uppercase tracking-wide shadow-lg",
+        tone,
+        className,
+      )}
+    >
+      <Icon className="h-2.5 w-2.5" />
+      <span className="max-w-32 truncate">{text}</span>
+    </div>
+  );
+}
@@ -4,8 +4,11 @@ import { BarChart3, Lock } from "lucide-react";
 import { useState } from "react";
 import { GameStatsDialog } from "@/components/dialogs/GameStatsDialog";
 import { useBracket } from "@/contexts/BracketContext";
+import { useCountdown } from "@/hooks/useCountdown";
 import { cn } from "@/lib/utils";
 import type { Matchup as MatchupType, SeededTeam } from "@/types";
+import { ComparisonBadge } from "./ComparisonBadge";
+import { PickCountdown } from "./PickCountdown";
 import { TeamCard } from "./TeamCard";
 
 type Size = "sm" | "md" | "lg";
@@ -45,11 +48,25 @@ export function Matchup({
   showConnector = false,
   connectorSide = "right",
 }: MatchupProps) {
-  const { isMatchupLocked, getLiveResultForMatchup } = useBracket();
+  const {
+    isReadOnly,
+    isMatchupLocked,
+    isMatchupPickLocked,
+    getMatchupPickDeadline,
+    getLiveResultForMatchup,
+    comparison,
+    comparisonLabel,
+    getPickShare,
+  } = useBracket();
   const { homeTeam, awayTeam, winner } = matchup;
   const isLocked = isMatchupLocked(matchup.id);
   const liveResult = getLiveResultForMatchup(matchup.id);
-  const canSelect = homeTeam !== null && awayTeam !== null && !isLocked;
+
+  // Contest mode: picks freeze at kickoff
+  const pickDeadlineRemaining = useCountdown(getMatchupPickDeadline(matchup.id));
+  const isPickLocked = isMatchupPickLocked(matchup.id) || pickDeadlineRemaining === 0;
+  const canSelect =
+    homeTeam !== null && awayTeam !== null && !isLocked && !isPickLocked && !isReadOnly;
 
   // State for game stats dialog
   const [showStatsDialog, setShowStatsDialog] = useState(false);
@@ -116,6 +133,22 @@ export function Matchup({
         </div>
       )}
 
+      {/* Compare mode: how the other bracket picked this game */}
+      {comparison?.matchups[matchup.id] && (
+        <ComparisonBadge
+          comparison={comparison.matchups[matchup.id]}
+          label={comparisonLabel}
+          className="absolute -top-3 right-1 z-20"
+        />
+      )}
+
+      {/* Contest mode pick deadline (the game clock badge takes over once it's live) */}
+      {pickDeadlineRemaining !== null && !isInProgress && !liveResult?.isComplete && (
+        <div className="absolute -top-3 left-1/2 z-10 -translate-x-1/2">
+          <PickCountdown remaining={isPickLocked ? 0 : pickDeadlineRemaining} />
+        </div>
+      )}
+
       {/* In-progress game clock badge */}
       {isInProgress && (
         <div className="absolute -top-3 left-1/2 z-10 -translate-x-1/2">
@@ -136,6 +169,7 @@ export function Matchup({
 
       <TeamCard
         team={homeTeam}
+        pickShare={(homeTeam && getPickShare(matchup.id, homeTeam.id)) ?? undefined}
         isWinner={winner?.id === homeTeam?.id}
         isLoser={winner !== null && winner?.id !== homeTeam?.id}
         onClick={() => homeTeam && handleSelect(homeTeam)}
@@ -158,6 +192,7 @@ export function Matchup({
 
       <TeamCard
         team={awayTeam}
+        pickShare={(awayTeam && getPickShare(matchup.id, awayTeam.id)) ?? undefined}
         isWinner={winner?.id === awayTeam?.id}
         isLoser={winner !== null && winner?.id !== awayTeam?.id}
         onClick={() => awayTeam && handleSelect(awayTeam)}
@@ -0,0 +1,49 @@
+"use client";
+
+import { Clock, Lock } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface PickCountdownProps {
+  remaining: number; // Milliseconds until picks lock
+  className?: string;
+}
+
+/**
+ * "4d 3h", "2h 15m", "12:04" - coarser the further away the lock is
+ */
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Contest mode badge: time left to change a pick, or that it's locked
+ */
+export function PickCountdown({ remaining, className }: PickCountdownProps) {
+  const isLocked = remaining <= 0;
+
+  return (
+    <div
+      data-testid="pick-countdown"
+      className={cn(
+        "flex items-center gap-1 rounded-full px-2 py-0.5 text-[10px] font-bold uppercase tracking-wide shadow-lg",
+        isLocked
+          ? "bg-gray-700 text-gray-300"
+          : remaining < 60 * 60 * 1000
+            ? "bg-orange-500 text-black"
+            : "bg-gray-800 text-gray-300 ring-1 ring-gray-600",
+        className,
+      )}
+    >
+      {isLocked ? <Lock className="h-2.5 w-2.5" /> : <Clock className="h-2.5 w-2.5" />}
+      <span>{isLocked ? "Picks locked" : `Locks in ${formatRemaining(remaining)}`}</span>
+    </div>
+  );
+}
@@ -4,8 +4,12 @@ import { BarChart3, Trophy } from "lucide-react";
 import { useState } from "react";
 import { GameStatsDialog } from "@/components/dialogs/GameStatsDialog";
 import { useBracket } from "@/contexts/BracketContext";
+import { getSeason } from "@/data/seasons";
+import { useCountdown } from "@/hooks/useCountdown";
 import { cn } from "@/lib/utils";
 import type { SeededTeam } from "@/types";
+import { ComparisonBadge } from "./ComparisonBadge";
+import { PickCountdown } from "./PickCountdown";
 import { TeamCard } from "./TeamCard";
 
 /**
@@ -21,19 +25,35 @@ function formatQuarter(quarter: number): string {
 }
 
 export function SuperBowl() {
-  const { bracket, selectWinner, clearWinner, isMatchupLocked, getLiveResultForMatchup } =
-    useBracket();
+  const {
+    bracket,
+    isReadOnly,
+    selectWinner,
+    clearWinner,
+    isMatchupLocked,
+    isMatchupPickLocked,
+    getMatchupPickDeadline,
+    getLiveResultForMatchup,
+    comparison,
+    comparisonLabel,
+    getPickShare,
+  } = useBracket();
   const { superBowl } = bracket;
 
   // State for game stats dialog
   const [showStatsDialog, setShowStatsDialog] = useState(false);
 
+  // Contest mode: picks freeze at kickoff
+  const pickDeadlineRemaining = useCountdown(getMatchupPickDeadline("super-bowl"));
+
   if (!superBowl) return null;
 
   const { homeTeam, awayTeam, winner } = superBowl;
   const isLocked = isMatchupLocked(superBowl.id);
   const liveResult = getLiveResultForMatchup(superBowl.id);
-  const canSelect = homeTeam !== null && awayTeam !== null && !isLocked;
+  const isPickLocked = isMatchupPickLocked(superBowl.id) || pickDeadlineRemaining === 0;
+  const canSelect =
+    homeTeam !== null && awayTeam !== null && !isLocked && !isPickLocked && !isReadOnly;
 
   // Show stats/scores for games with live data (in progress or completed)
   const hasGameData = liveResult && (liveResult.isInProgress || liveResult.isComplete);
@@ -78,7 +98,7 @@ export function SuperBowl() {
       <div className="flex flex-col items-center gap-1">
         <Trophy className="h-5 w-5 text-[#D4BE8C] sm:h-6 sm:w-6 lg:h-5 lg:w-5" />
         <div className="rounded-lg border border-white/20 bg-black px-3 py-1 text-center text-xs font-bold uppercase tracking-wider text-white shadow-lg sm:px-4 sm:py-1.5 sm:text-sm lg:px-3 lg:py-1 lg:text-xs">
-          Super Bowl LX
+          {getSeason(bracket.season).superBowl}
         </div>
       </div>
 
@@ -87,6 +107,22 @@ export function SuperBowl() {
         data-testid="matchup-superBowl"
         className="relative flex flex-col items-center gap-2 rounded-xl border-2 border-[#D4BE8C]/30 bg-gray-800/50 p-3 sm:gap-3 sm:p-4 lg:gap-2 lg:p-3"
       >
+        {/* Compare mode: how the other bracket picked this game */}
+        {comparison?.matchups[superBowl.id] && (
+          <ComparisonBadge
+            comparison={comparison.matchups[superBowl.id]}
+            label={comparisonLabel}
+            className="absolute -top-3 right-1 z-20"
+          />
+        )}
+
+        {/* Contest mode pick deadline (the game clock badge takes over once it's live) */}
+        {pickDeadlineRemaining !== null && !isInProgress && !liveResult?.isComplete && (
+          <div className="absolute -top-3 left-1/2 z-10 -translate-x-1/2">
+            <PickCountdown remaining={isPickLocked ? 0 : pickDeadlineRemaining} />
+          </div>
+        )}
+
         {/* In-progress game clock badge */}
         {isInProgress && (
           <div className="absolute -top-3 left-1/2 z-10 -translate-x-1/2">
@@ -112,6 +148,7 @@ export function SuperBowl() {
           </div>
           <TeamCard
             team={homeTeam}
+            pickShare={(homeTeam && getPickShare(superBowl.id, homeTeam.id)) ?? undefined}
             isWinner={winner?.id === homeTeam?.id}
             isLoser={winner !== null && winner?.id !== homeTeam?.id}
             onClick={() => homeTeam && handleSelect(homeTeam)}
@@ -141,6 +178,7 @@ export function SuperBowl() {
           </div>
           <TeamCard
             team={awayTeam}
+            pickShare={(awayTeam && getPickShare(superBowl.id, awayTeam.id)) ?? undefined}
             isWinner={winner?.id === awayTeam?.id}
             isLoser={winner !== null && winner?.id !== awayTeam?.id}
             onClick={() => awayTeam && handleSelect(awayTeam)}
@@ -28,6 +28,8 @@ interface TeamCardProps {
   score?: number | null;
   /** Color class for the score (e.g., "text-yellow-400" for live games) */
   scoreColorClass?: string;
+  /** Crowd view: share of brackets (0 to 1) picking this team to win the round */
+  pickShare?: number;
 }
 
 export function TeamCard({
@@ -44,6 +46,7 @@ export function TeamCard({
   isRedZone = false,
   score,
   scoreColorClass = "text-gray-400",
+  pickShare,
 }: TeamCardProps) {
   const buttonRef = useRef<HTMLButtonElement>(null);
 
@@ -247,6 +250,21 @@ export function TeamCard({
         <span className={cn("truncate text-gray-400", getTeamNameTextClasses())}>{team.city}</span>
       </div>
 
+      {/* Crowd pick percentage, with a bar along the bottom edge */}
+      {pickShare !== undefined && (
+        <>
+          <span
+            data-testid={`pick-share-${team.id}`}
+            className="ml-1 flex-shrink-0 font-mono text-xs font-bold tabular-nums text-sky-300 md:text-sm"
+          >
+            {Math.round(pickShare * 100)}%
+          </span>
+          <div className="pointer-events-none absolute inset-x-0 bottom-0 h-1 overflow-hidden rounded-b-md">
+            <div className="h-full bg-sky-400/70" style={{ width: `${pickShare * 100}%` }} />
+          </div>
+        </>
+      )}
+
       {/* Score display */}
       {score !== undefined && score !== null && (
         <div className="ml-1 flex-shrink-0 rounded bg-gray-900/80 px-1.5 py-0.5 md:px-2">
@@ -0,0 +1,168 @@
+"use client";
+
+import { Shuffle, WandSparkles } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useBracket } from "@/contexts/BracketContext";
+import { getSeasonSeeds } from "@/data/seasons";
+import { getSeedRatings } from "@/lib/simulation";
+import { getStoredRatings } from "@/lib/storage";
+import { cn } from "@/lib/utils";
+import type { AutofillStrategy } from "@/types";
+
+interface AutofillDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STRATEGIES: { strategy: AutofillStrategy; label: string; description: string }[] = [
+  { strategy: "chalk", label: "Chalk", description: "The better seed wins every game." },
+  {
+    strategy: "weighted",
+    label: "By odds",
+    description: "Favorites usually win, using the team ratings from Simulate.",
+  },
+  { strategy: "random", label: "Coin flip", description: "Every game is a 50/50 call." },
+];
+
+function newRandomSeed(): number {
+  return Math.floor(Math.random() * 1_000_000);
+}
+
+/**
+ * Fill in the bracket automatically with one of the autofill strategies
+ */
+export function AutofillDialog({ open, onOpenChange }: AutofillDialogProps) {
+  const { bracket, autofill, undo } = useBracket();
+  const [strategy, setStrategy] = useState<AutofillStrategy>("chalk");
+  const [onlyUnpicked, setOnlyUnpicked] = useState(true);
+  const [randomSeed, setRandomSeed] = useState(newRandomSeed);
+  const isRandom = strategy !== "chalk";
+
+  // A new seed each time, so filling twice doesn't give the same bracket by accident
+  useEffect(() => {
+    if (open) setRandomSeed(newRandomSeed());
+  }, [open]);
+
+  const handleFill = () => {
+    const { season } = bracket;
+    const teams = [...getSeasonSeeds(season, "AFC"), ...getSeasonSeeds(season, "NFC")];
+    autofill({
+      strategy,
+      onlyUnpicked,
+      randomSeed,
+      ratings: { ...getSeedRatings(teams), ...getStoredRatings(season) },
+    });
+    toast.success("Bracket filled in!", {
+      description: isRandom ? `Seed ${randomSeed} gives the same picks again.` : undefined,
+      action: { label: "Undo", onClick: undo },
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="border-gray-700 bg-gray-900 text-white sm:max-w-md md:p-8">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-white md:text-xl">
+            <WandSparkles className="h-5 w-5 md:h-6 md:w-6" />
+            Autofill Bracket
+          </DialogTitle>
+          <DialogDescription className="text-gray-400 md:text-base">
+            Let the app make the picks. Change any of them afterwards.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div role="radiogroup" aria-label="Autofill strategy" className="grid gap-2">
+            {STRATEGIES.map((option) => (
+              <button
+                key={option.strategy}
+                type="button"
+                role="radio"
+                aria-checked={strategy === option.strategy}
+                data-testid={`autofill-${option.strategy}`}
+                onClick={() => setStrategy(option.strategy)}
+                className={cn(
+                  "rounded-lg border p-3 text-left transition-colors",
+                  strategy === option.strategy
+                    ? "border-blue-500 bg-blue-900/20"
+                    : "border-gray-700 bg-gray-800/50 hover:border-gray-500",
+                )}
+              >
+                <div className="font-medium text-white">{option.label}</div>
+                <div className="text-xs text-gray-400">{option.description}</div>
+              </button>
+            ))}
+          </div>
+
+          {isRandom && (
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="autofill-seed" className="text-gray-300">
+                  Random seed
+                </Label>
+                <Input
+                  id="autofill-seed"
+                  type="number"
+                  value={randomSeed}
+                  onChange={(e) => setRandomSeed(Number(e.target.value) || 0)}
+                  className="border-gray-600 bg-gray-800 text-white"
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => setRandomSeed(newRandomSeed())}
+                aria-label="New random seed"
+                className="border-gray-600 bg-transparent text-gray-300 hover:bg-gray-800 hover:text-white"
+              >
+                <Shuffle className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="autofill-only-unpicked"
+              data-testid="autofill-only-unpicked"
+              checked={onlyUnpicked}
+              onCheckedChange={setOnlyUnpicked}
+            />
+            <label htmlFor="autofill-only-unpicked" className="text-sm text-gray-300">
+              Keep my picks, only fill the empty games
+            </label>
+          </div>
+        </div>
+
+        <DialogFooter className="md:gap-3">
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="border-gray-600 bg-transparent text-gray-300 hover:bg-gray-800"
+          >
+            Cancel
+          </Button>
+          <Button
+            data-testid="autofill-fill-btn"
+            onClick={handleFill}
+            className="bg-gradient-to-r from-red-600 to-blue-600 hover:from-red-700 hover:to-blue-700"
+          >
+            Fill Bracket
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,8 +1,24 @@
 "use client";
 
-import { Calendar, FolderOpen, Trash2 } from "lucide-react";
-import { useEffect, useState } from "react";
+import {
+  Calendar,
+  Download,
+  FolderOpen,
+  GitCompareArrows,
+  TriangleAlert,
+  Trash2,
+  Upload,
+  Users,
+} from "lucide-react";
+import Link from "next/link";
+import { type ChangeEvent, useEffect, useRef, useState } from "react";
 import { toast } from "sonner";
+import { BracketSyncPanel } from "@/components/BracketSyncPanel";
+import {
+  getStorageFullState,
+  StorageFullNotice,
+  type StorageFullState,
+} from "@/components/StorageFullNotice";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -11,9 +27,34 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
 import { useBracket } from "@/contexts/BracketContext";
-import { deleteBracket, getCurrentBracket, getSavedBrackets } from "@/lib/storage";
-import type { SavedBracket } from "@/types";
+import { getSeasonFormat, getSeasonSeeds, hasSeasonSeeds } from "@/data/seasons";
+import { useBracketOdds } from "@/hooks/useSimulation";
+import { getAllMatchups } from "@/lib/bracket-engine";
+import {
+  BracketFileError,
+  createBracketExport,
+  getExportFileName,
+  MAX_BRACKET_FILE_BYTES,
+  parseBracketExport,
+  resolveImportedBrackets,
+} from "@/lib/bracket-file";
+import { syncInBackground } from "@/lib/cloud-sync";
+import { DEFAULT_SCORING_RULES, scoreBracket } from "@/lib/scoring";
+import { DEFAULT_ITERATIONS, formatOdds, getSeedRatings } from "@/lib/simulation";
+import {
+  addSavedBrackets,
+  clearQuarantinedEntries,
+  deleteBracket,
+  getCurrentBracket,
+  getQuarantinedEntries,
+  getSavedBrackets,
+  getStoredRatings,
+  StorageQuotaError,
+} from "@/lib/storage";
+import { downloadBlob } from "@/lib/utils";
+import type { QuarantinedEntry, SavedBracket } from "@/types";
 
 interface LoadBracketDialogProps {
   open: boolean;
@@ -24,32 +65,81 @@ export function LoadBracketDialog({ open, onOpenChange }: LoadBracketDialogProps
   const { loadBracket, bracket: activeBracket } = useBracket();
   const [brackets, setBrackets] = useState<SavedBracket[]>([]);
   const [currentBracketId, setCurrentBracketId] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [quarantined, setQuarantined] = useState<QuarantinedEntry[]>([]);
+  // Set when the last import didn't fit in browser storage
+  const [storageFull, setStorageFull] = useState<StorageFullState | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { result: odds, run: runOdds } = useBracketOdds();
+  const { season, liveResults } = activeBracket;
+  const canSimulate = hasSeasonSeeds(season);
+  // Half of a perfect bracket's points until the user picks a target
+  const [targetPoints, setTargetPoints] = useState(() =>
+    Math.ceil(
+      getAllMatchups(activeBracket).reduce(
+        (total, m) => total + DEFAULT_SCORING_RULES.roundPoints[m.round],
+        0,
+      ) / 2,
+    ),
+  );
+
+  const refreshBrackets = () => {
+    const savedBrackets = getSavedBrackets();
+    const currentBracket = getCurrentBracket();
+    // Read after the brackets, which set aside anything they can't migrate
+    setQuarantined(getQuarantinedEntries());
+
+    // Include the current (autosaved) bracket if it exists and isn't already in the saved list
+    if (currentBracket && !savedBrackets.some((b) => b.id === currentBracket.id)) {
+      const autosavedBracket: SavedBracket = {
+        id: currentBracket.id,
+        schemaVersion: currentBracket.schemaVersion,
+        name: currentBracket.name || "Current Session",
+        userName: currentBracket.userName,
+        createdAt: currentBracket.createdAt,
+        updatedAt: currentBracket.updatedAt,
+        state: currentBracket,
+      };
+      setCurrentBracketId(currentBracket.id);
+      // Put autosaved bracket first
+      setBrackets([autosavedBracket, ...savedBrackets]);
+    } else {
+      setCurrentBracketId(currentBracket?.id || null);
+      setBrackets(savedBrackets);
+    }
+  };
 
   useEffect(() => {
     if (open) {
-      const savedBrackets = getSavedBrackets();
-      const currentBracket = getCurrentBracket();
-
-      // Include the current (autosaved) bracket if it exists and isn't already in the saved list
-      if (currentBracket && !savedBrackets.some((b) => b.id === currentBracket.id)) {
-        const autosavedBracket: SavedBracket = {
-          id: currentBracket.id,
-          name: currentBracket.name || "Current Session",
-          userName: currentBracket.userName,
-          createdAt: currentBracket.createdAt,
-          updatedAt: currentBracket.updatedAt,
-          state: currentBracket,
-        };
-        setCurrentBracketId(currentBracket.id);
-        // Put autosaved bracket first
-        setBrackets([autosavedBracket, ...savedBrackets]);
-      } else {
-        setCurrentBracketId(currentBracket?.id || null);
-        setBrackets(savedBrackets);
-      }
+      setImportError(null);
+      setStorageFull(null);
+      refreshBrackets();
     }
   }, [open]);
 
+  // Chances for this season's brackets, rerun whenever the live results move
+  useEffect(() => {
+    const seasonBrackets = brackets.filter((b) => b.state.season === season);
+    if (!open || !canSimulate || seasonBrackets.length === 0) return;
+    const seeds = { AFC: getSeasonSeeds(season, "AFC"), NFC: getSeasonSeeds(season, "NFC") };
+    runOdds({
+      format: getSeasonFormat(season),
+      seeds,
+      ratings: { ...getSeedRatings([...seeds.AFC, ...seeds.NFC]), ...getStoredRatings(season) },
+      liveResults,
+      iterations: DEFAULT_ITERATIONS,
+      randomSeed: Date.now(),
+      brackets: seasonBrackets.map((b) => b.state),
+      rules: DEFAULT_SCORING_RULES,
+    });
+  }, [open, brackets, season, liveResults, canSimulate, runOdds]);
+
+  const handleTargetChange = (value: string) => {
+    const points = Number(value);
+    if (value === "" || !Number.isInteger(points) || points < 0) return;
+    setTargetPoints(points);
+  };
+
   const handleLoad = (saved: SavedBracket) => {
     loadBracket(saved.state);
     toast.success("Bracket loaded!", {
@@ -61,11 +151,72 @@ export function LoadBracketDialog({ open, onOpenChange }: LoadBracketDialogProps
   const handleDelete = (id: string, name: string) => {
     deleteBracket(id);
     setBrackets(brackets.filter((b) => b.id !== id));
+    syncInBackground();
     toast.success("Bracket deleted", {
       description: `"${name}" has been deleted.`,
     });
   };
 
+  const handleExport = (exported: SavedBracket[]) => {
+    const file = JSON.stringify(createBracketExport(exported), null, 2);
+    downloadBlob(new Blob([file], { type: "application/json" }), getExportFileName(exported));
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Clear the input so picking the same file again still triggers a change
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      if (file.size > MAX_BRACKET_FILE_BYTES) {
+        throw new BracketFileError("This file is too large to be a bracket export");
+      }
+      const { added, copied, skipped } = resolveImportedBrackets(
+        parseBracketExport(await file.text()),
+        brackets,
+      );
+      addSavedBrackets(added);
+      setBrackets([...brackets, ...added]);
+      syncInBackground();
+      setImportError(null);
+      setStorageFull(null);
+
+      const notes = [
+        copied > 0 && `${copied} saved as a copy`,
+        skipped > 0 && `${skipped} already saved`,
+      ].filter(Boolean);
+      toast.success(`Imported ${added.length} bracket${added.length === 1 ? "" : "s"}`, {
+        description: notes.length > 0 ? `${notes.join(", ")}.` : undefined,
+      });
+    } catch (error) {
+      if (error instanceof StorageQuotaError) {
+        setImportError(null);
+        setStorageFull(getStorageFullState());
+        return;
+      }
+      console.error("Failed to import brackets:", error);
+      setImportError(
+        error instanceof BracketFileError ? error.message : "Couldn't read that file.",
+      );
+    }
+  };
+
+  const handleDownloadQuarantined = () => {
+    const file = JSON.stringify(quarantined, null, 2);
+    downloadBlob(new Blob([file], { type: "application/json" }), "nfl-bracket-unreadable.json");
+  };
+
+  const handleDiscardQuarantined = () => {
+    clearQuarantinedEntries();
+    setQuarantined([]);
+  };
+
+  const handleStorageFreed = (next: StorageFullState) => {
+    setStorageFull(next);
+    refreshBrackets();
+  };
+
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleDateString(undefined, {
       month: "short",
@@ -85,10 +236,25 @@ export function LoadBracketDialog({ open, onOpenChange }: LoadBracketDialogProps
             Load Bracket
           </DialogTitle>
           <DialogDescription className="text-gray-400 md:text-base">
-            Load a previously saved bracket.
+            Load a previously saved bracket, or import brackets exported from another browser.
           </DialogDescription>
         </DialogHeader>
 
+        {odds && canSimulate && brackets.some((b) => b.state.season === season) && (
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            Chance of reaching
+            <Input
+              type="number"
+              min={0}
+              data-testid="target-points-input"
+              value={targetPoints}
+              onChange={(e) => handleTargetChange(e.target.value)}
+              className="h-7 w-16 border-gray-600 bg-gray-800 px-2 text-white"
+            />
+            points, with games underway at their live odds
+          </label>
+        )}
+
         <div className="max-h-80 space-y-2 overflow-y-auto md:max-h-96 md:space-y-3">
           {brackets.length === 0 ? (
             <div className="py-8 text-center text-gray-500 md:py-12">
@@ -100,6 +266,14 @@ export function LoadBracketDialog({ open, onOpenChange }: LoadBracketDialogProps
             brackets.map((saved) => {
               const isCurrent = saved.id === currentBracketId;
               const isActive = saved.id === activeBracket.id;
+              // Grade against the freshest results we have for the bracket's season
+              const score = scoreBracket(
+                saved.state,
+                saved.state.season === activeBracket.season
+                  ? (activeBracket.liveResults ?? saved.state.liveResults)
+                  : saved.state.liveResults,
+              );
+              const chances = odds?.find((o) => o.bracketId === saved.id);
               return (
                 <div
                   key={saved.id}
@@ -124,15 +298,53 @@ export function LoadBracketDialog({ open, onOpenChange }: LoadBracketDialogProps
                       <Calendar className="h-3 w-3 md:h-4 md:w-4" />
                       {formatDate(saved.updatedAt)}
                     </div>
-                    <div className="mt-1 text-xs md:text-sm">
+                    <div className="mt-1 flex items-center gap-2 text-xs md:text-sm">
                       {saved.state.isComplete ? (
                         <span className="text-green-400">Complete</span>
                       ) : (
                         <span className="text-yellow-400">In Progress</span>
                       )}
+                      {score.gamesPlayed > 0 && (
+                        <span data-testid="saved-bracket-score" className="text-gray-300">
+                          • <span className="font-semibold text-white">{score.points}</span> pts
+                          (max {score.maxPossible})
+                        </span>
+                      )}
+                      {chances && saved.state.season === season && (
+                        <span data-testid="saved-bracket-chances" className="text-gray-300">
+                          •{" "}
+                          <span className="font-semibold text-white">
+                            {formatOdds(chances.pointsAtLeast[targetPoints] ?? 0)}
+                          </span>{" "}
+                          to reach {targetPoints}
+                        </span>
+                      )}
                     </div>
                   </div>
                   <div className="flex gap-2 md:gap-3">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleExport([saved])}
+                      aria-label="Export bracket"
+                      className="border-gray-600 bg-transparent text-gray-300 hover:bg-gray-800 hover:text-white md:h-10 md:px-4"
+                    >
+                      <Download className="h-4 w-4 md:h-5 md:w-5" />
+                    </Button>
+                    <Button
+                      asChild
+                      size="sm"
+                      variant="outline"
+                      className="border-gray-600 bg-transparent text-gray-300 hover:bg-gray-800 hover:text-white md:h-10 md:px-4"
+                    >
+                      <Link
+                        href={`/compare?a=${saved.id}`}
+                        aria-label="Compare bracket"
+                        data-testid="compare-bracket-link"
+                      >
+                        <GitCompareArrows className="h-4 w-4 md:h-5 md:w-5" />
+                      </Link>
+                    </Button>
                     {!isCurrent && (
                       <Button
                         size="sm"
@@ -159,7 +371,96 @@ export function LoadBracketDialog({ open, onOpenChange }: LoadBracketDialogProps
           )}
         </div>
 
-        <div className="flex justify-end">
+        <BracketSyncPanel onSynced={refreshBrackets} />
+
+        {quarantined.length > 0 && (
+          <div
+            data-testid="quarantine-notice"
+            className="flex flex-wrap items-center gap-2 rounded-md border border-yellow-600/50 bg-yellow-900/20 p-3 text-sm text-yellow-200"
+          >
+            <TriangleAlert className="h-4 w-4 shrink-0" />
+            <span className="flex-1">
+              {quarantined.length} saved{" "}
+              {quarantined.length === 1
+                ? "entry couldn't be read and was"
+                : "entries couldn't be read and were"}{" "}
+              set aside.
+            </span>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={handleDownloadQuarantined}
+              className="h-7 text-yellow-200 hover:bg-yellow-900/40 hover:text-yellow-100"
+            >
+              Download
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={handleDiscardQuarantined}
+              className="h-7 text-yellow-200 hover:bg-yellow-900/40 hover:text-yellow-100"
+            >
+              Discard
+            </Button>
+          </div>
+        )}
+
+        {storageFull && (
+          <StorageFullNotice storageFull={storageFull} onFreed={handleStorageFreed} />
+        )}
+
+        {importError && (
+          <p
+            role="alert"
+            data-testid="import-error"
+            className="rounded-md border border-red-600/50 bg-red-900/20 p-3 text-sm text-red-300"
+          >
+            {importError}
+          </p>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              className="hidden"
+              data-testid="import-file-input"
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              data-testid="import-brackets-btn"
+              className="border-gray-600 bg-transparent text-gray-300 hover:bg-gray-800 hover:text-white md:h-11 md:px-5 md:text-base"
+            >
+              <Upload className="h-4 w-4" />
+              Import
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => handleExport(brackets)}
+              disabled={brackets.length === 0}
+              data-testid="export-all-btn"
+              className="border-gray-600 bg-transparent text-gray-300 hover:bg-gray-800 hover:text-white md:h-11 md:px-5 md:text-base"
+            >
+              <Download className="h-4 w-4" />
+              Export All
+            </Button>
+            {brackets.length > 1 && (
+              <Button
+                asChild
+                variant="outline"
+                className="border-gray-600 bg-transparent text-gray-300 hover:bg-gray-800 hover:text-white md:h-11 md:px-5 md:text-base"
+              >
+                <Link href="/crowd" data-testid="crowd-bracket-link">
+                  <Users className="h-4 w-4" />
+                  Crowd
+                </Link>
+              </Button>
+            )}
+          </div>
           <Button
             variant="outline"
             onClick={() => onOpenChange(false)}
@@ -4,6 +4,11 @@ import { Save } from "lucide-react";
 import { nanoid } from "nanoid";
 import { useState } from "react";
 import { toast } from "sonner";
+import {
+  getStorageFullState,
+  StorageFullNotice,
+  type StorageFullState,
+} from "@/components/StorageFullNotice";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -16,7 +21,8 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useBracket } from "@/contexts/BracketContext";
-import { saveBracket } from "@/lib/storage";
+import { syncInBackground } from "@/lib/cloud-sync";
+import { saveBracket, StorageQuotaError } from "@/lib/storage";
 
 interface SaveBracketDialogProps {
   open: boolean;
@@ -28,6 +34,8 @@ export function SaveBracketDialog({ open, onOpenChange }: SaveBracketDialogProps
   const [name, setName] = useState(bracket.name);
   const [subtitle, setSubtitleValue] = useState(bracket.subtitle || "");
   const [isSaving, setIsSaving] = useState(false);
+  // Set when the last save didn't fit in browser storage
+  const [storageFull, setStorageFull] = useState<StorageFullState | null>(null);
 
   const handleSave = () => {
     setIsSaving(true);
@@ -44,16 +52,23 @@ export function SaveBracketDialog({ open, onOpenChange }: SaveBracketDialogProps
         updatedAt: Date.now(),
       };
 
+      saveBracket(bracketToSave);
+      // Only once it's saved, so a save that didn't fit leaves the bracket as it was
       setBracketName(trimmedName);
       setSubtitle(trimmedSubtitle);
-      saveBracket(bracketToSave);
+      syncInBackground();
       toast.success("Bracket saved!", {
         description: trimmedName
           ? `"${trimmedName}" has been saved.`
           : "Your bracket has been saved.",
       });
+      setStorageFull(null);
       onOpenChange(false);
     } catch (error) {
+      if (error instanceof StorageQuotaError) {
+        setStorageFull(getStorageFullState());
+        return;
+      }
       toast.error("Failed to save bracket");
     } finally {
       setIsSaving(false);
@@ -116,6 +131,7 @@ export function SaveBracketDialog({ open, onOpenChange }: SaveBracketDialogProps
               </p>
             </div>
           </div>
+          {storageFull && <StorageFullNotice storageFull={storageFull} onFreed={setStorageFull} />}
         </div>
 
         <DialogFooter className="md:gap-3">
@@ -131,7 +147,7 @@ export function SaveBracketDialog({ open, onOpenChange }: SaveBracketDialogProps
             disabled={isSaving}
             className="bg-gradient-to-r from-red-600 to-blue-600 hover:from-red-700 hover:to-blue-700 md:h-11 md:px-6 md:text-base"
           >
-            {isSaving ? "Saving..." : "Save Bracket"}
+            {isSaving ? "Saving..." : storageFull ? "Try Again" : "Save Bracket"}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -0,0 +1,169 @@
+"use client";
+
+import { Dices, RotateCcw } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useBracket } from "@/contexts/BracketContext";
+import { getSeasonFormat, getSeasonSeeds } from "@/data/seasons";
+import { useSimulation } from "@/hooks/useSimulation";
+import { DEFAULT_ITERATIONS, formatOdds, getSeedRatings } from "@/lib/simulation";
+import { getStoredRatings, setStoredRatings } from "@/lib/storage";
+import { cn } from "@/lib/utils";
+import type { SimulationStage, TeamRatings } from "@/types";
+
+interface SimulationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STAGES: { stage: SimulationStage; label: string }[] = [
+  { stage: "divisional", label: "Div" },
+  { stage: "conference", label: "Conf" },
+  { stage: "superBowl", label: "SB" },
+  { stage: "champion", label: "Win" },
+];
+
+/**
+ * Simulate the rest of the playoffs many times from team ratings the user can adjust
+ */
+export function SimulationDialog({ open, onOpenChange }: SimulationDialogProps) {
+  const { bracket } = useBracket();
+  const { season, liveResults } = bracket;
+  const { result, isRunning, error, run } = useSimulation();
+  const seeds = { AFC: getSeasonSeeds(season, "AFC"), NFC: getSeasonSeeds(season, "NFC") };
+  const teams = [...seeds.AFC, ...seeds.NFC];
+  const seedRatings = getSeedRatings(teams);
+  const [ratings, setRatings] = useState<TeamRatings>({});
+
+  const simulate = (nextRatings: TeamRatings) => {
+    run({
+      format: getSeasonFormat(season),
+      seeds,
+      ratings: nextRatings,
+      liveResults,
+      iterations: DEFAULT_ITERATIONS,
+      randomSeed: Date.now(),
+    });
+  };
+
+  // Simulate as soon as the dialog opens, with the ratings last used for the season
+  useEffect(() => {
+    if (!open) return;
+    const initial = { ...getSeedRatings(teams), ...getStoredRatings(season) };
+    setRatings(initial);
+    simulate(initial);
+  }, [open, season]);
+
+  const handleRatingChange = (teamId: string, value: string) => {
+    const rating = Number(value);
+    if (value === "" || !Number.isFinite(rating)) return;
+    setRatings((current) => ({ ...current, [teamId]: rating }));
+  };
+
+  const handleRun = () => {
+    setStoredRatings(season, ratings);
+    simulate(ratings);
+  };
+
+  const handleResetRatings = () => {
+    setStoredRatings(season, null);
+    setRatings(seedRatings);
+    simulate(seedRatings);
+  };
+
+  const rows = [...teams].sort(
+    (a, b) =>
+      (result?.odds[b.id]?.champion ?? 0) - (result?.odds[a.id]?.champion ?? 0) || a.seed - b.seed,
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto border-gray-700 bg-gray-900 text-white sm:max-w-lg md:max-w-2xl md:p-8">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-white md:text-xl">
+            <Dices className="h-5 w-5 md:h-6 md:w-6" />
+            Simulate the Playoffs
+          </DialogTitle>
+          <DialogDescription className="text-gray-400 md:text-base">
+            Plays the rest of the playoffs {DEFAULT_ITERATIONS.toLocaleString()} times. Games
+            already played count as they finished, and games underway follow ESPN&apos;s live win
+            probability. Raise a team&apos;s rating to make it stronger (100 points is roughly a 64%
+            favorite).
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <p role="alert" className="text-sm text-red-400">
+            {error}
+          </p>
+        )}
+
+        <table data-testid="simulation-table" className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs uppercase text-gray-400">
+              <th className="py-1 font-semibold">Team</th>
+              <th className="py-1 font-semibold">Rating</th>
+              {STAGES.map(({ stage, label }) => (
+                <th key={stage} className="py-1 text-right font-semibold">
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className={cn(isRunning && "opacity-60")}>
+            {rows.map((team) => (
+              <tr key={team.id} className="border-t border-gray-800">
+                <td className="py-1 pr-2">
+                  <span className="mr-1 text-gray-500">{team.seed}</span>
+                  {team.city} {team.name}
+                </td>
+                <td className="py-1 pr-2">
+                  <Input
+                    type="number"
+                    step={10}
+                    aria-label={`${team.name} rating`}
+                    value={ratings[team.id] ?? seedRatings[team.id]}
+                    onChange={(e) => handleRatingChange(team.id, e.target.value)}
+                    className="h-7 w-20 border-gray-600 bg-gray-800 px-2 text-white"
+                  />
+                </td>
+                {STAGES.map(({ stage }) => (
+                  <td key={stage} className="py-1 text-right font-mono tabular-nums">
+                    {result ? formatOdds(result.odds[team.id]?.[stage] ?? 0) : ""}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={handleResetRatings}
+            className="border-gray-600 bg-transparent text-gray-300 hover:bg-gray-800 hover:text-white"
+          >
+            <RotateCcw className="h-4 w-4" />
+            Reset Ratings
+          </Button>
+          <Button
+            data-testid="run-simulation-btn"
+            onClick={handleRun}
+            disabled={isRunning}
+            className="bg-gradient-to-r from-red-600 to-blue-600 hover:from-red-700 hover:to-blue-700"
+          >
+            {isRunning ? "Simulating..." : "Run Again"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
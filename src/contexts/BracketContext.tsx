@@ -10,46 +10,102 @@ import {
   useRef,
   useState,
 } from "react";
-import { AFC_SEEDS, NFC_SEEDS } from "@/data/teams";
-import { hasCompletedGames, hasInProgressGames } from "@/lib/espn-api";
+import { toast } from "sonner";
+import {
+  DEFAULT_SEASON,
+  hasStaticSeeds,
+  parseSeasonParam,
+  registerSeasonSeeds,
+} from "@/data/seasons";
+import { autofillBracket } from "@/lib/autofill";
+import {
+  bracketSessionReducer,
+  changesLockedPicks,
+  EMPTY_HISTORY,
+  findLiveResult,
+  getLiveGames,
+  getMatchupRound,
+  getPickDeadline,
+  getPicks,
+  hasSamePicks,
+  isPickLocked,
+  lockCompletedRounds,
+} from "@/lib/bracket-engine";
+import { getPickShare as getTeamPickShare } from "@/lib/consensus";
+import { hasInProgressGames } from "@/lib/espn-api";
+import { applyLiveResultsDelta } from "@/lib/live-results-stream";
 
 // Fallback polling interval (only used if SSE disconnects)
 const FALLBACK_REFRESH_INTERVAL = 5 * 1000;
 
+import { createInitialBracket } from "@/lib/playoff-rules";
+import { forkBracket } from "@/lib/share-code";
 import {
-  calculateChampionshipMatchup,
-  calculateDivisionalMatchups,
-  createInitialBracket,
-  isBracketComplete,
-} from "@/lib/playoff-rules";
-import { getCurrentBracket, getStoredUser, saveCurrentBracket } from "@/lib/storage";
+  getCurrentBracket,
+  getStoredHistory,
+  getStoredSeeds,
+  getStoredUser,
+  onCurrentBracketChange,
+  saveBracket,
+  saveBracketHistory,
+  saveCurrentBracket,
+  StorageQuotaError,
+  setStoredSeeds,
+} from "@/lib/storage";
 import type {
+  AutofillOptions,
   BracketAction,
+  BracketComparison,
   BracketState,
-  Conference,
   LiveGameInfo,
   LiveMatchupResult,
   LiveResults,
+  PickShares,
   RoundName,
   SeededTeam,
+  SeedsResponse,
 } from "@/types";
 
 interface BracketContextType {
   bracket: BracketState;
+  // Viewing someone else's shared bracket: no picks, nothing saved
+  isReadOnly: boolean;
+  // Another tab switched the autosave to this bracket; autosave waits until
+  // the user follows it or keeps this tab's bracket as a copy
+  otherTabBracket: BracketState | null;
+  followOtherTab: () => void;
+  keepAsCopy: () => void;
+  // Kept as a copy: this tab saves to the saved brackets instead of the autosave
+  isDetached: boolean;
+  // Compare mode: how each matchup differs from the bracket named `comparisonLabel`
+  comparison: BracketComparison | null;
+  comparisonLabel: string;
+  // Crowd view: share of brackets picking a team to win a matchup's round (null otherwise)
+  getPickShare: (matchupId: string, teamId: string) => number | null;
   dispatch: React.Dispatch<BracketAction>;
   selectWinner: (matchupId: string, winner: SeededTeam) => void;
   clearWinner: (matchupId: string) => void;
   resetBracket: () => void;
+  // Fill in the bracket's picks automatically (one undo step)
+  autofill: (options: AutofillOptions) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  setSeason: (season: number) => void;
   loadBracket: (bracket: BracketState) => void;
   setBracketName: (name: string) => void;
   setUserName: (userName: string) => void;
   setSubtitle: (subtitle: string | null) => void;
   toggleRoundLock: (round: RoundName) => void;
+  setContestMode: (enabled: boolean) => void;
   setLiveResults: (results: LiveResults) => void;
   applyLiveResults: () => void;
   refreshLiveResults: () => Promise<void>;
   isLoadingLiveResults: boolean;
   isMatchupLocked: (matchupId: string) => boolean;
+  isMatchupPickLocked: (matchupId: string) => boolean;
+  getMatchupPickDeadline: (matchupId: string) => number | null;
   getLiveResultForMatchup: (matchupId: string) => LiveMatchupResult | null;
   getAllLiveGames: () => LiveGameInfo[];
 }
@@ -57,478 +113,155 @@ interface BracketContextType {
 const BracketContext = createContext<BracketContextType | null>(null);
 
 /**
- * Find team by ID from seeds
+ * Read the season requested through the `?season=` query param
  */
-function findTeamById(teamId: string): SeededTeam | null {
-  const afcTeam = AFC_SEEDS.find((t) => t.id === teamId);
-  if (afcTeam) return afcTeam;
-  const nfcTeam = NFC_SEEDS.find((t) => t.id === teamId);
-  return nfcTeam || null;
+function getRequestedSeason(): number | null {
+  if (typeof window === "undefined") return null;
+  return parseSeasonParam(new URLSearchParams(window.location.search).get("season"));
 }
 
 /**
- * Apply live result winner to bracket matchups
+ * Register seeds derived on an earlier visit so brackets build before the fetch returns
  */
-function applyLiveResultToMatchup(
-  state: BracketState,
-  liveResult: LiveMatchupResult,
-  matchups: BracketState["afc"]["wildCard"],
-): BracketState["afc"]["wildCard"] {
-  return matchups.map((matchup) => {
-    // Match by teams (not by ID since ESPN IDs differ)
-    const matchesHome =
-      matchup.homeTeam?.id === liveResult.homeTeamId ||
-      matchup.homeTeam?.id === liveResult.awayTeamId;
-    const matchesAway =
-      matchup.awayTeam?.id === liveResult.homeTeamId ||
-      matchup.awayTeam?.id === liveResult.awayTeamId;
-
-    if (matchesHome && matchesAway && liveResult.isComplete && liveResult.winnerId) {
-      const winner = findTeamById(liveResult.winnerId);
-      if (winner) {
-        return { ...matchup, winner };
-      }
-    }
-    return matchup;
-  });
-}
-
-function updateDivisionalRound(state: BracketState, conference: Conference): BracketState {
-  const confState = conference === "AFC" ? state.afc : state.nfc;
-  const wildCardWinners = confState.wildCard.map((m) => m.winner);
-
-  const { matchup1, matchup2 } = calculateDivisionalMatchups(conference, wildCardWinners);
-
-  const updatedDivisional = [...confState.divisional];
-  updatedDivisional[0] = {
-    ...updatedDivisional[0],
-    homeTeam: matchup1.home,
-    awayTeam: matchup1.away,
-    // Clear winner if teams changed
-    winner:
-      updatedDivisional[0].winner &&
-      (updatedDivisional[0].winner.id === matchup1.home?.id ||
-        updatedDivisional[0].winner.id === matchup1.away?.id)
-        ? updatedDivisional[0].winner
-        : null,
-  };
-  updatedDivisional[1] = {
-    ...updatedDivisional[1],
-    homeTeam: matchup2.home,
-    awayTeam: matchup2.away,
-    winner:
-      updatedDivisional[1].winner &&
-      (updatedDivisional[1].winner.id === matchup2.home?.id ||
-        updatedDivisional[1].winner.id === matchup2.away?.id)
-        ? updatedDivisional[1].winner
-        : null,
-  };
-
-  if (conference === "AFC") {
-    return { ...state, afc: { ...state.afc, divisional: updatedDivisional } };
+function restoreStoredSeeds(): void {
+  for (const [season, seeds] of Object.entries(getStoredSeeds())) {
+    registerSeasonSeeds(Number(season), seeds);
   }
-  return { ...state, nfc: { ...state.nfc, divisional: updatedDivisional } };
 }
 
-function updateChampionshipRound(state: BracketState, conference: Conference): BracketState {
-  const confState = conference === "AFC" ? state.afc : state.nfc;
-  const divisionalWinners = confState.divisional.map((m) => m.winner);
-
-  const { home, away } = calculateChampionshipMatchup(divisionalWinners);
-
-  const updatedChampionship = {
-    ...confState.championship!,
-    homeTeam: home,
-    awayTeam: away,
-    // Clear winner if teams changed
-    winner:
-      confState.championship?.winner &&
-      (confState.championship.winner.id === home?.id ||
-        confState.championship.winner.id === away?.id)
-        ? confState.championship.winner
-        : null,
-  };
-
-  if (conference === "AFC") {
-    return {
-      ...state,
-      afc: { ...state.afc, championship: updatedChampionship },
-    };
-  }
-  return { ...state, nfc: { ...state.nfc, championship: updatedChampionship } };
-}
-
-function updateSuperBowl(state: BracketState): BracketState {
-  const afcChamp = state.afc.championship?.winner || null;
-  const nfcChamp = state.nfc.championship?.winner || null;
-
-  const updatedSuperBowl = {
-    ...state.superBowl!,
-    homeTeam: afcChamp,
-    awayTeam: nfcChamp,
-    // Clear winner if teams changed
-    winner:
-      state.superBowl?.winner &&
-      (state.superBowl.winner.id === afcChamp?.id || state.superBowl.winner.id === nfcChamp?.id)
-        ? state.superBowl.winner
-        : null,
-  };
-
-  return { ...state, superBowl: updatedSuperBowl };
+interface BracketProviderProps {
+  children: ReactNode;
+  // Show this bracket read-only instead of the user's own (shared links)
+  sharedBracket?: BracketState;
+  // Annotate every matchup with how it compares to another bracket
+  comparison?: BracketComparison;
+  comparisonLabel?: string;
+  // Show what share of a group of brackets picked each team
+  pickShares?: PickShares;
 }
 
 /**
- * Apply all live results to a bracket based on locked rounds
+ * The bracket the user was last working on, or a fresh one
  */
-function applyAllLiveResults(state: BracketState): BracketState {
-  const { liveResults, lockedRounds } = state;
-  if (!liveResults) return state;
-
-  let newState = { ...state };
-
-  // Apply wild card results if locked
-  if (lockedRounds.wildCard) {
-    for (const result of liveResults.afc.wildCard) {
-      if (result.isComplete && result.winnerId) {
-        newState.afc = {
-          ...newState.afc,
-          wildCard: applyLiveResultToMatchup(newState, result, newState.afc.wildCard),
-        };
-      }
-    }
-    for (const result of liveResults.nfc.wildCard) {
-      if (result.isComplete && result.winnerId) {
-        newState.nfc = {
-          ...newState.nfc,
-          wildCard: applyLiveResultToMatchup(newState, result, newState.nfc.wildCard),
-        };
-      }
-    }
-    // Update subsequent rounds
-    newState = updateDivisionalRound(newState, "AFC");
-    newState = updateDivisionalRound(newState, "NFC");
-    newState = updateChampionshipRound(newState, "AFC");
-    newState = updateChampionshipRound(newState, "NFC");
-    newState = updateSuperBowl(newState);
-  }
-
-  // Apply divisional results if locked
-  if (lockedRounds.divisional) {
-    for (const result of liveResults.afc.divisional) {
-      if (result.isComplete && result.winnerId) {
-        newState.afc = {
-          ...newState.afc,
-          divisional: applyLiveResultToMatchup(newState, result, newState.afc.divisional),
-        };
-      }
-    }
-    for (const result of liveResults.nfc.divisional) {
-      if (result.isComplete && result.winnerId) {
-        newState.nfc = {
-          ...newState.nfc,
-          divisional: applyLiveResultToMatchup(newState, result, newState.nfc.divisional),
-        };
-      }
-    }
-    newState = updateChampionshipRound(newState, "AFC");
-    newState = updateChampionshipRound(newState, "NFC");
-    newState = updateSuperBowl(newState);
-  }
-
-  // Apply conference championship results if locked
-  if (lockedRounds.conference) {
-    if (liveResults.afc.championship?.isComplete && liveResults.afc.championship.winnerId) {
-      const winner = findTeamById(liveResults.afc.championship.winnerId);
-      if (winner && newState.afc.championship) {
-        newState.afc = {
-          ...newState.afc,
-          championship: { ...newState.afc.championship, winner },
-        };
-      }
-    }
-    if (liveResults.nfc.championship?.isComplete && liveResults.nfc.championship.winnerId) {
-      const winner = findTeamById(liveResults.nfc.championship.winnerId);
-      if (winner && newState.nfc.championship) {
-        newState.nfc = {
-          ...newState.nfc,
-          championship: { ...newState.nfc.championship, winner },
-        };
-      }
-    }
-    newState = updateSuperBowl(newState);
-  }
-
-  // Apply Super Bowl result if locked
-  if (
-    lockedRounds.superBowl &&
-    liveResults.superBowl?.isComplete &&
-    liveResults.superBowl.winnerId
-  ) {
-    const winner = findTeamById(liveResults.superBowl.winnerId);
-    if (winner && newState.superBowl) {
-      newState.superBowl = { ...newState.superBowl, winner };
-    }
-  }
+function getInitialBracket(): BracketState {
+  const storedUser = getStoredUser();
+  // Already migrated to the current schema by storage
+  const storedBracket = getCurrentBracket();
+  const requestedSeason = getRequestedSeason();
 
-  newState.isComplete = isBracketComplete(newState);
-  return newState;
+  // A `?season=` param for a different season starts a fresh bracket for it
+  return storedBracket && (!requestedSeason || requestedSeason === storedBracket.season)
+    ? storedBracket
+    : createInitialBracket(storedUser?.name || "", requestedSeason ?? DEFAULT_SEASON);
 }
 
-function bracketReducer(state: BracketState, action: BracketAction): BracketState {
-  switch (action.type) {
-    case "SELECT_WINNER": {
-      const { matchupId, winner } = action;
-      let newState = { ...state };
-
-      // Find and update the matchup
-      const updateMatchupInArray = (
-        matchups: typeof state.afc.wildCard,
-      ): typeof state.afc.wildCard => {
-        return matchups.map((m) => (m.id === matchupId ? { ...m, winner } : m));
-      };
-
-      // Check AFC wild card
-      if (state.afc.wildCard.some((m) => m.id === matchupId)) {
-        newState.afc = {
-          ...newState.afc,
-          wildCard: updateMatchupInArray(newState.afc.wildCard),
-        };
-        newState = updateDivisionalRound(newState, "AFC");
-        newState = updateChampionshipRound(newState, "AFC");
-        newState = updateSuperBowl(newState);
-      }
-      // Check AFC divisional
-      else if (state.afc.divisional.some((m) => m.id === matchupId)) {
-        newState.afc = {
-          ...newState.afc,
-          divisional: updateMatchupInArray(newState.afc.divisional),
-        };
-        newState = updateChampionshipRound(newState, "AFC");
-        newState = updateSuperBowl(newState);
-      }
-      // Check AFC championship
-      else if (state.afc.championship?.id === matchupId) {
-        newState.afc = {
-          ...newState.afc,
-          championship: { ...newState.afc.championship!, winner },
-        };
-        newState = updateSuperBowl(newState);
-      }
-      // Check NFC wild card
-      else if (state.nfc.wildCard.some((m) => m.id === matchupId)) {
-        newState.nfc = {
-          ...newState.nfc,
-          wildCard: updateMatchupInArray(newState.nfc.wildCard),
-        };
-        newState = updateDivisionalRound(newState, "NFC");
-        newState = updateChampionshipRound(newState, "NFC");
-        newState = updateSuperBowl(newState);
-      }
-      // Check NFC divisional
-      else if (state.nfc.divisional.some((m) => m.id === matchupId)) {
-        newState.nfc = {
-          ...newState.nfc,
-          divisional: updateMatchupInArray(newState.nfc.divisional),
-        };
-        newState = updateChampionshipRound(newState, "NFC");
-        newState = updateSuperBowl(newState);
-      }
-      // Check NFC championship
-      else if (state.nfc.championship?.id === matchupId) {
-        newState.nfc = {
-          ...newState.nfc,
-          championship: { ...newState.nfc.championship!, winner },
-        };
-        newState = updateSuperBowl(newState);
-      }
-      // Check Super Bowl
-      else if (state.superBowl?.id === matchupId) {
-        newState.superBowl = { ...newState.superBowl!, winner };
-      }
+export function BracketProvider({
+  children,
+  sharedBracket,
+  comparison,
+  comparisonLabel = "",
+  pickShares,
+}: BracketProviderProps) {
+  restoreStoredSeeds();
+  const isReadOnly = sharedBracket !== undefined;
+  const initialState = sharedBracket ?? getInitialBracket();
+
+  const [{ bracket, history }, dispatch] = useReducer(bracketSessionReducer, {
+    bracket: initialState,
+    history: (!isReadOnly && getStoredHistory(initialState.id)) || EMPTY_HISTORY,
+  });
+  const [isLoadingLiveResults, setIsLoadingLiveResults] = useState(false);
+  const [otherTabBracket, setOtherTabBracket] = useState<BracketState | null>(null);
+  const [isDetached, setIsDetached] = useState(false);
+  // Set when following another tab, whose changes are already saved
+  const skipNextSaveRef = useRef(false);
 
-      newState.isComplete = isBracketComplete(newState);
-      newState.updatedAt = Date.now();
-      return newState;
+  // Auto-save to localStorage on changes (history too, so undo survives a reload)
+  useEffect(() => {
+    if (!bracket.userName || isReadOnly) return;
+    if (skipNextSaveRef.current) {
+      skipNextSaveRef.current = false;
+      return;
     }
-
-    case "CLEAR_WINNER": {
-      const { matchupId } = action;
-      let newState = { ...state };
-
-      // Helper to clear winner in matchup array
-      const clearMatchupWinner = (
-        matchups: typeof state.afc.wildCard,
-      ): typeof state.afc.wildCard => {
-        return matchups.map((m) => (m.id === matchupId ? { ...m, winner: null } : m));
-      };
-
-      // Check AFC wild card
-      if (state.afc.wildCard.some((m) => m.id === matchupId)) {
-        newState.afc = {
-          ...newState.afc,
-          wildCard: clearMatchupWinner(newState.afc.wildCard),
-        };
-        newState = updateDivisionalRound(newState, "AFC");
-        newState = updateChampionshipRound(newState, "AFC");
-        newState = updateSuperBowl(newState);
-      }
-      // Check AFC divisional
-      else if (state.afc.divisional.some((m) => m.id === matchupId)) {
-        newState.afc = {
-          ...newState.afc,
-          divisional: clearMatchupWinner(newState.afc.divisional),
-        };
-        newState = updateChampionshipRound(newState, "AFC");
-        newState = updateSuperBowl(newState);
-      }
-      // Check AFC championship
-      else if (state.afc.championship?.id === matchupId) {
-        newState.afc = {
-          ...newState.afc,
-          championship: { ...newState.afc.championship!, winner: null },
-        };
-        newState = updateSuperBowl(newState);
-      }
-      // Check NFC wild card
-      else if (state.nfc.wildCard.some((m) => m.id === matchupId)) {
-        newState.nfc = {
-          ...newState.nfc,
-          wildCard: clearMatchupWinner(newState.nfc.wildCard),
-        };
-        newState = updateDivisionalRound(newState, "NFC");
-        newState = updateChampionshipRound(newState, "NFC");
-        newState = updateSuperBowl(newState);
-      }
-      // Check NFC divisional
-      else if (state.nfc.divisional.some((m) => m.id === matchupId)) {
-        newState.nfc = {
-          ...newState.nfc,
-          divisional: clearMatchupWinner(newState.nfc.divisional),
-        };
-        newState = updateChampionshipRound(newState, "NFC");
-        newState = updateSuperBowl(newState);
-      }
-      // Check NFC championship
-      else if (state.nfc.championship?.id === matchupId) {
-        newState.nfc = {
-          ...newState.nfc,
-          championship: { ...newState.nfc.championship!, winner: null },
-        };
-        newState = updateSuperBowl(newState);
-      }
-      // Check Super Bowl
-      else if (state.superBowl?.id === matchupId) {
-        newState.superBowl = { ...newState.superBowl!, winner: null };
+    try {
+      if (isDetached) {
+        saveBracket(bracket);
+      } else if (!otherTabBracket) {
+        saveCurrentBracket(bracket);
+        saveBracketHistory(bracket.id, history);
       }
-
-      newState.isComplete = isBracketComplete(newState);
-      newState.updatedAt = Date.now();
-      return newState;
-    }
-
-    case "RESET_BRACKET": {
-      return createInitialBracket(state.userName);
-    }
-
-    case "LOAD_BRACKET": {
-      return action.bracket;
-    }
-
-    case "SET_BRACKET_NAME": {
-      return { ...state, name: action.name, updatedAt: Date.now() };
-    }
-
-    case "SET_USER_NAME": {
-      return { ...state, userName: action.userName, updatedAt: Date.now() };
+    } catch (error) {
+      if (!(error instanceof StorageQuotaError)) throw error;
+      toast.error("Browser storage is full", {
+        id: "storage-full",
+        description: "Your latest picks aren't saved. Delete old brackets to free up space.",
+      });
     }
+  }, [bracket, history, isReadOnly, isDetached, otherTabBracket]);
 
-    case "SET_SUBTITLE": {
-      return { ...state, subtitle: action.subtitle, updatedAt: Date.now() };
-    }
+  const followBracket = (next: BracketState) => {
+    skipNextSaveRef.current = true;
+    dispatch({
+      type: "RESTORE_SESSION",
+      session: { bracket: next, history: getStoredHistory(next.id) ?? EMPTY_HISTORY },
+    });
+  };
 
-    case "TOGGLE_ROUND_LOCK": {
-      const { round } = action;
-      const newLockedRounds = {
-        ...state.lockedRounds,
-        [round]: !state.lockedRounds[round],
-      };
-
-      let newState = {
-        ...state,
-        lockedRounds: newLockedRounds,
-        updatedAt: Date.now(),
-      };
-
-      // If we're locking a round, apply live results
-      if (newLockedRounds[round]) {
-        newState = applyAllLiveResults(newState);
+  // Keep tabs on the same bracket in step; ask before following a tab that
+  // switched to a different one
+  useEffect(() => {
+    if (isReadOnly || isDetached) return;
+    return onCurrentBracketChange((next) => {
+      if (next.id !== bracket.id) {
+        setOtherTabBracket(next);
+        return;
       }
-
-      return newState;
-    }
-
-    case "SET_LIVE_RESULTS": {
-      return {
-        ...state,
-        liveResults: action.results,
-        updatedAt: Date.now(),
-      };
-    }
-
-    case "APPLY_LIVE_RESULTS": {
-      return applyAllLiveResults(state);
-    }
-
-    default:
-      return state;
-  }
-}
-
-/**
- * Get matchup round from matchup ID
- */
-function getMatchupRound(matchupId: string): RoundName | null {
-  if (matchupId.includes("-wc-")) return "wildCard";
-  if (matchupId.includes("-div-")) return "divisional";
-  if (matchupId.includes("-champ")) return "conference";
-  if (matchupId === "super-bowl") return "superBowl";
-  return null;
-}
-
-export function BracketProvider({ children }: { children: ReactNode }) {
-  const storedUser = getStoredUser();
-  const storedBracket = getCurrentBracket();
-
-  // Migrate old brackets that don't have lockedRounds
-  const migratedBracket = storedBracket
-    ? {
-        ...storedBracket,
-        lockedRounds: storedBracket.lockedRounds || {
-          wildCard: false,
-          divisional: false,
-          conference: false,
-          superBowl: false,
-        },
-        liveResults: storedBracket.liveResults || null,
+      setOtherTabBracket(null);
+      if (!hasSamePicks(next, bracket)) {
+        toast.info("Updated with picks made in another tab", { id: "other-tab-update" });
       }
-    : null;
+      followBracket(next);
+    });
+  }, [bracket, isReadOnly, isDetached]);
 
-  const initialState = migratedBracket || createInitialBracket(storedUser?.name || "");
+  const followOtherTab = () => {
+    if (!otherTabBracket) return;
+    followBracket(otherTabBracket);
+    setOtherTabBracket(null);
+  };
 
-  const [bracket, dispatch] = useReducer(bracketReducer, initialState);
-  const [isLoadingLiveResults, setIsLoadingLiveResults] = useState(false);
+  const keepAsCopy = () => {
+    const copy = forkBracket(bracket, bracket.userName);
+    dispatch({ type: "RESTORE_SESSION", session: { bracket: copy, history } });
+    setIsDetached(true);
+    setOtherTabBracket(null);
+    toast.success("Kept as a copy", {
+      description: "Changes in this tab now save to a separate bracket under Load.",
+    });
+  };
 
-  // Auto-save to localStorage on changes
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), leaving text fields their own undo
   useEffect(() => {
-    if (bracket.userName) {
-      saveCurrentBracket(bracket);
-    }
-  }, [bracket]);
+    if (isReadOnly) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== "z") return;
+      const { target } = event;
+      if (target instanceof Element && target.closest("input, textarea, [contenteditable]")) return;
+      event.preventDefault();
+      dispatch({ type: event.shiftKey ? "REDO" : "UNDO" });
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isReadOnly]);
 
   // Track if we have live games for SSE subscription
   const hasLiveGames = hasInProgressGames(bracket.liveResults);
+  const { season } = bracket;
   const eventSourceRef = useRef<EventSource | null>(null);
   const fallbackIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // The results as of the stream's last event, which its deltas apply to
+  const streamResultsRef = useRef<LiveResults | null>(null);
 
   // Subscribe to SSE stream when games are in progress
   useEffect(() => {
@@ -545,28 +278,47 @@ export function BracketProvider({ children }: { children: ReactNode }) {
     // Only subscribe when there are live games
     if (!hasLiveGames) return;
 
-    // Create SSE connection
-    const eventSource = new EventSource("/api/standings/stream");
+    // Create SSE connection: a snapshot first, then deltas with only the games that changed
+    const eventSource = new EventSource(`/api/standings/stream?season=${season}`);
     eventSourceRef.current = eventSource;
+    streamResultsRef.current = null;
 
-    eventSource.onmessage = (event) => {
+    const receive = (read: (data: string) => LiveResults | null) => (event: MessageEvent) => {
       try {
-        const results: LiveResults = JSON.parse(event.data);
+        const results = read(event.data);
+        if (!results) return;
+        streamResultsRef.current = results;
         dispatch({ type: "SET_LIVE_RESULTS", results });
       } catch (err) {
         console.error("Failed to parse SSE data:", err);
       }
     };
 
+    eventSource.addEventListener(
+      "snapshot",
+      receive((data) => JSON.parse(data)),
+    );
+    eventSource.addEventListener(
+      "delta",
+      receive((data) => {
+        // The server always sends a snapshot first, on resume too if it must
+        if (!streamResultsRef.current) return null;
+        return applyLiveResultsDelta(streamResultsRef.current, JSON.parse(data));
+      }),
+    );
+
     eventSource.onerror = () => {
-      console.warn("SSE connection error, falling back to polling");
-      eventSource.close();
+      // EventSource reconnects by itself with Last-Event-ID and the stream
+      // resumes where it left off; only a stream that gave up needs polling
+      if (eventSource.readyState !== EventSource.CLOSED) return;
+
+      console.warn("SSE connection closed, falling back to polling");
       eventSourceRef.current = null;
 
       // Fall back to polling if SSE fails
       if (!fallbackIntervalRef.current) {
         fallbackIntervalRef.current = setInterval(() => {
-          fetch("/api/standings")
+          fetch(`/api/standings?season=${season}`)
             .then((res) => res.json())
             .then((results: LiveResults) => {
               dispatch({ type: "SET_LIVE_RESULTS", results });
@@ -586,20 +338,66 @@ export function BracketProvider({ children }: { children: ReactNode }) {
         fallbackIntervalRef.current = null;
       }
     };
-  }, [hasLiveGames]);
+  }, [hasLiveGames, season]);
+
+  // Seasons without a seed file take their seeds from the current standings
+  useEffect(() => {
+    if (hasStaticSeeds(season)) return;
+    let cancelled = false;
+
+    fetch(`/api/seeds?season=${season}`)
+      .then((res) => {
+        if (!res.ok) throw new Error(`Seeds request failed: ${res.status}`);
+        return res.json();
+      })
+      .then((data: SeedsResponse) => {
+        if (cancelled) return;
+        registerSeasonSeeds(data.season, data.seeds);
+        setStoredSeeds(data.season, data.seeds);
+        dispatch({ type: "SEEDS_LOADED", season: data.season });
+      })
+      .catch((err) => console.error("Failed to load seeds:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [season]);
 
   const selectWinner = (matchupId: string, winner: SeededTeam) => {
+    if (isReadOnly) return;
     dispatch({ type: "SELECT_WINNER", matchupId, winner });
   };
 
   const clearWinner = (matchupId: string) => {
+    if (isReadOnly) return;
     dispatch({ type: "CLEAR_WINNER", matchupId });
   };
 
   const resetBracket = () => {
+    if (isReadOnly) return;
     dispatch({ type: "RESET_BRACKET" });
   };
 
+  const autofill = (options: AutofillOptions) => {
+    if (isReadOnly) return;
+    dispatch({ type: "APPLY_PICKS", picks: getPicks(autofillBracket(bracket, options)) });
+  };
+
+  const undo = () => {
+    if (isReadOnly) return;
+    dispatch({ type: "UNDO" });
+  };
+
+  const redo = () => {
+    if (isReadOnly) return;
+    dispatch({ type: "REDO" });
+  };
+
+  const setSeason = (newSeason: number) => {
+    if (isReadOnly) return;
+    dispatch({ type: "SET_SEASON", season: newSeason });
+  };
+
   const loadBracket = (newBracket: BracketState) => {
     dispatch({ type: "LOAD_BRACKET", bracket: newBracket });
   };
@@ -620,6 +418,10 @@ export function BracketProvider({ children }: { children: ReactNode }) {
     dispatch({ type: "TOGGLE_ROUND_LOCK", round });
   };
 
+  const setContestMode = (enabled: boolean) => {
+    dispatch({ type: "SET_CONTEST_MODE", enabled });
+  };
+
   const setLiveResults = (results: LiveResults) => {
     dispatch({ type: "SET_LIVE_RESULTS", results });
   };
@@ -631,36 +433,14 @@ export function BracketProvider({ children }: { children: ReactNode }) {
   const refreshLiveResults = useCallback(async () => {
     setIsLoadingLiveResults(true);
     try {
-      const response = await fetch("/api/standings");
+      const response = await fetch(`/api/standings?season=${bracket.season}`);
       if (response.ok) {
         const results: LiveResults = await response.json();
         dispatch({ type: "SET_LIVE_RESULTS", results });
 
         // Auto-lock rounds that have completed games (only for new brackets)
         if (!bracket.liveResults) {
-          const newLockedRounds = { ...bracket.lockedRounds };
-          if (hasCompletedGames(results, "wildCard")) {
-            newLockedRounds.wildCard = true;
-          }
-          if (hasCompletedGames(results, "divisional")) {
-            newLockedRounds.divisional = true;
-          }
-          if (hasCompletedGames(results, "conference")) {
-            newLockedRounds.conference = true;
-          }
-          if (hasCompletedGames(results, "superBowl")) {
-            newLockedRounds.superBowl = true;
-          }
-
-          // Apply locked rounds and live results
-          dispatch({
-            type: "LOAD_BRACKET",
-            bracket: applyAllLiveResults({
-              ...bracket,
-              liveResults: results,
-              lockedRounds: newLockedRounds,
-            }),
-          });
+          dispatch({ type: "LOAD_BRACKET", bracket: lockCompletedRounds(bracket, results) });
         }
       }
     } catch (error) {
@@ -683,275 +463,78 @@ export function BracketProvider({ children }: { children: ReactNode }) {
   );
 
   /**
-   * Get live result for a specific matchup
+   * Check if a matchup's pick is frozen by contest mode (its game has kicked off)
    */
-  const getLiveResultForMatchup = useCallback(
-    (matchupId: string): LiveMatchupResult | null => {
-      const { liveResults } = bracket;
-      if (!liveResults) return null;
-
-      // For Super Bowl and championship games, return the live result directly
-      // even if bracket teams haven't been filled in or don't match
-      if (matchupId === "super-bowl") {
-        return liveResults.superBowl ?? null;
-      }
-      if (matchupId === "AFC-champ") {
-        return liveResults.afc.championship ?? null;
-      }
-      if (matchupId === "NFC-champ") {
-        return liveResults.nfc.championship ?? null;
-      }
-
-      // Find the matchup in bracket to get teams
-      let matchup = null;
-
-      // Search through all matchups
-      matchup = bracket.afc.wildCard.find((m) => m.id === matchupId);
-      if (!matchup) matchup = bracket.nfc.wildCard.find((m) => m.id === matchupId);
-      if (!matchup) matchup = bracket.afc.divisional.find((m) => m.id === matchupId);
-      if (!matchup) matchup = bracket.nfc.divisional.find((m) => m.id === matchupId);
-      if (!matchup && bracket.afc.championship?.id === matchupId)
-        matchup = bracket.afc.championship;
-      if (!matchup && bracket.nfc.championship?.id === matchupId)
-        matchup = bracket.nfc.championship;
-      if (!matchup && bracket.superBowl?.id === matchupId) matchup = bracket.superBowl;
-
-      if (!matchup) return null;
-
-      const homeTeamId = matchup.homeTeam?.id;
-      const awayTeamId = matchup.awayTeam?.id;
-      if (!homeTeamId || !awayTeamId) return null;
-
-      // Find matching live result
-      const allResults = [
-        ...liveResults.afc.wildCard,
-        ...liveResults.nfc.wildCard,
-        ...liveResults.afc.divisional,
-        ...liveResults.nfc.divisional,
-        ...(liveResults.afc.championship ? [liveResults.afc.championship] : []),
-        ...(liveResults.nfc.championship ? [liveResults.nfc.championship] : []),
-        ...(liveResults.superBowl ? [liveResults.superBowl] : []),
-      ];
-
-      return (
-        allResults.find(
-          (r) =>
-            (r.homeTeamId === homeTeamId && r.awayTeamId === awayTeamId) ||
-            (r.homeTeamId === awayTeamId && r.awayTeamId === homeTeamId),
-        ) ?? null
-      );
-    },
+  const isMatchupPickLocked = useCallback(
+    (matchupId: string): boolean => isPickLocked(bracket, matchupId),
     [bracket],
   );
 
   /**
-   * Get all games with live data for Live Games view
+   * Get when a matchup's pick locks in contest mode
    */
-  const getAllLiveGames = useCallback((): LiveGameInfo[] => {
-    const { liveResults } = bracket;
-    if (!liveResults) return [];
-
-    const games: LiveGameInfo[] = [];
-
-    // Helper to find matchup by teams
-    const findMatchupByTeams = (
-      matchups: typeof bracket.afc.wildCard,
-      liveResult: LiveMatchupResult,
-    ) => {
-      return matchups.find(
-        (m) =>
-          m.homeTeam &&
-          m.awayTeam &&
-          ((m.homeTeam.id === liveResult.homeTeamId && m.awayTeam.id === liveResult.awayTeamId) ||
-            (m.homeTeam.id === liveResult.awayTeamId && m.awayTeam.id === liveResult.homeTeamId)),
-      );
-    };
-
-    // AFC Wild Card
-    for (const lr of liveResults.afc.wildCard) {
-      const matchup = findMatchupByTeams(bracket.afc.wildCard, lr);
-      if (matchup) {
-        games.push({
-          matchup,
-          liveResult: lr,
-          conference: "AFC",
-          round: "wildCard",
-        });
-      }
-    }
-
-    // NFC Wild Card
-    for (const lr of liveResults.nfc.wildCard) {
-      const matchup = findMatchupByTeams(bracket.nfc.wildCard, lr);
-      if (matchup) {
-        games.push({
-          matchup,
-          liveResult: lr,
-          conference: "NFC",
-          round: "wildCard",
-        });
-      }
-    }
-
-    // AFC Divisional
-    for (const lr of liveResults.afc.divisional) {
-      const matchup = findMatchupByTeams(bracket.afc.divisional, lr);
-      if (matchup) {
-        games.push({
-          matchup,
-          liveResult: lr,
-          conference: "AFC",
-          round: "divisional",
-        });
-      }
-    }
-
-    // NFC Divisional
-    for (const lr of liveResults.nfc.divisional) {
-      const matchup = findMatchupByTeams(bracket.nfc.divisional, lr);
-      if (matchup) {
-        games.push({
-          matchup,
-          liveResult: lr,
-          conference: "NFC",
-          round: "divisional",
-        });
-      }
-    }
-
-    // AFC Championship - show even if bracket teams don't match
-    if (liveResults.afc.championship && bracket.afc.championship) {
-      const lr = liveResults.afc.championship;
-      const matchup = bracket.afc.championship;
-      const teamsMatch =
-        matchup.homeTeam &&
-        matchup.awayTeam &&
-        ((matchup.homeTeam.id === lr.homeTeamId && matchup.awayTeam.id === lr.awayTeamId) ||
-          (matchup.homeTeam.id === lr.awayTeamId && matchup.awayTeam.id === lr.homeTeamId));
-
-      if (teamsMatch) {
-        games.push({
-          matchup,
-          liveResult: lr,
-          conference: "AFC",
-          round: "conference",
-        });
-      } else {
-        const homeTeam = findTeamById(lr.homeTeamId);
-        const awayTeam = findTeamById(lr.awayTeamId);
-        if (homeTeam && awayTeam) {
-          games.push({
-            matchup: { ...matchup, homeTeam, awayTeam },
-            liveResult: lr,
-            conference: "AFC",
-            round: "conference",
-          });
-        }
-      }
-    }
+  const getMatchupPickDeadline = useCallback(
+    (matchupId: string): number | null => getPickDeadline(bracket, matchupId),
+    [bracket],
+  );
 
-    // NFC Championship - show even if bracket teams don't match
-    if (liveResults.nfc.championship && bracket.nfc.championship) {
-      const lr = liveResults.nfc.championship;
-      const matchup = bracket.nfc.championship;
-      const teamsMatch =
-        matchup.homeTeam &&
-        matchup.awayTeam &&
-        ((matchup.homeTeam.id === lr.homeTeamId && matchup.awayTeam.id === lr.awayTeamId) ||
-          (matchup.homeTeam.id === lr.awayTeamId && matchup.awayTeam.id === lr.homeTeamId));
-
-      if (teamsMatch) {
-        games.push({
-          matchup,
-          liveResult: lr,
-          conference: "NFC",
-          round: "conference",
-        });
-      } else {
-        const homeTeam = findTeamById(lr.homeTeamId);
-        const awayTeam = findTeamById(lr.awayTeamId);
-        if (homeTeam && awayTeam) {
-          games.push({
-            matchup: { ...matchup, homeTeam, awayTeam },
-            liveResult: lr,
-            conference: "NFC",
-            round: "conference",
-          });
-        }
-      }
-    }
+  /**
+   * Get live result for a specific matchup
+   */
+  const getLiveResultForMatchup = useCallback(
+    (matchupId: string): LiveMatchupResult | null => findLiveResult(bracket, matchupId),
+    [bracket],
+  );
 
-    // Super Bowl - always show if live data exists, even if bracket teams don't match
-    if (liveResults.superBowl && bracket.superBowl) {
-      const lr = liveResults.superBowl;
-      const matchup = bracket.superBowl;
-      const teamsMatch =
-        matchup.homeTeam &&
-        matchup.awayTeam &&
-        ((matchup.homeTeam.id === lr.homeTeamId && matchup.awayTeam.id === lr.awayTeamId) ||
-          (matchup.homeTeam.id === lr.awayTeamId && matchup.awayTeam.id === lr.homeTeamId));
-
-      if (teamsMatch) {
-        games.push({
-          matchup,
-          liveResult: lr,
-          conference: "superBowl",
-          round: "superBowl",
-        });
-      } else {
-        // Bracket teams don't match or are null - populate from live data
-        const homeTeam = findTeamById(lr.homeTeamId);
-        const awayTeam = findTeamById(lr.awayTeamId);
-        if (homeTeam && awayTeam) {
-          games.push({
-            matchup: {
-              ...matchup,
-              homeTeam,
-              awayTeam,
-            },
-            liveResult: lr,
-            conference: "superBowl",
-            round: "superBowl",
-          });
-        }
-      }
-    }
+  const getPickShare = (matchupId: string, teamId: string): number | null =>
+    pickShares ? getTeamPickShare(pickShares, matchupId, teamId) : null;
 
-    // Sort: in-progress first, then completed, then by round
-    const roundOrder: Record<string, number> = {
-      superBowl: 0,
-      conference: 1,
-      divisional: 2,
-      wildCard: 3,
-    };
+  /**
+   * Get all games with live data for Live Games view
+   */
+  const getAllLiveGames = useCallback((): LiveGameInfo[] => getLiveGames(bracket), [bracket]);
 
-    return games.sort((a, b) => {
-      // In-progress games first
-      if (a.liveResult.isInProgress && !b.liveResult.isInProgress) return -1;
-      if (!a.liveResult.isInProgress && b.liveResult.isInProgress) return 1;
-      // Then by round (higher rounds first)
-      return roundOrder[a.round] - roundOrder[b.round];
-    });
-  }, [bracket]);
+  // Contest mode blocks undo/redo steps that would change a pick locked at kickoff
+  const undoPicks = history.past.at(-1);
+  const redoPicks = history.future[0];
+  const canUndo = !!undoPicks && !changesLockedPicks(bracket, undoPicks);
+  const canRedo = !!redoPicks && !changesLockedPicks(bracket, redoPicks);
 
   return (
     <BracketContext.Provider
       value={{
         bracket,
+        isReadOnly,
+        otherTabBracket,
+        followOtherTab,
+        keepAsCopy,
+        isDetached,
+        comparison: comparison ?? null,
+        comparisonLabel,
+        getPickShare,
         dispatch,
         selectWinner,
         clearWinner,
         resetBracket,
+        autofill,
+        undo,
+        redo,
+        canUndo,
+        canRedo,
+        setSeason,
         loadBracket,
         setBracketName,
         setUserName,
         setSubtitle,
         toggleRoundLock,
+        setContestMode,
         setLiveResults,
         applyLiveResults,
         refreshLiveResults,
         isLoadingLiveResults,
         isMatchupLocked,
+        isMatchupPickLocked,
+        getMatchupPickDeadline,
         getLiveResultForMatchup,
         getAllLiveGames,
       }}
@@ -0,0 +1,83 @@
+import type { BracketFormat, BracketFormatId } from "@/types";
+
+export const BRACKET_FORMATS: Record<BracketFormatId, BracketFormat> = {
+  // 1990-2019: two byes per conference, reseeded after the wild card round
+  "nfl-12": {
+    id: "nfl-12",
+    label: "12 teams (1990-2019)",
+    seedsPerConference: 6,
+    rounds: [
+      {
+        round: "wildCard",
+        pairing: "fixed",
+        games: [
+          [{ seed: 3 }, { seed: 6 }],
+          [{ seed: 4 }, { seed: 5 }],
+        ],
+      },
+      { round: "divisional", pairing: "reseed", byes: [1, 2] },
+      { round: "conference", pairing: "reseed" },
+    ],
+    final: { homeConference: "AFC" },
+  },
+
+  // 2020-: only the #1 seed gets a bye
+  "nfl-14": {
+    id: "nfl-14",
+    label: "14 teams (2020-)",
+    seedsPerConference: 7,
+    rounds: [
+      {
+        round: "wildCard",
+        pairing: "fixed",
+        games: [
+          [{ seed: 2 }, { seed: 7 }],
+          [{ seed: 3 }, { seed: 6 }],
+          [{ seed: 4 }, { seed: 5 }],
+        ],
+      },
+      { round: "divisional", pairing: "reseed", byes: [1] },
+      { round: "conference", pairing: "reseed" },
+    ],
+    final: { homeConference: "AFC" },
+  },
+
+  // Hypothetical expansion: no byes and a fixed bracket (1/8 meets 4/5)
+  "nfl-16": {
+    id: "nfl-16",
+    label: "16 teams (expansion)",
+    seedsPerConference: 8,
+    rounds: [
+      {
+        round: "wildCard",
+        pairing: "fixed",
+        games: [
+          [{ seed: 1 }, { seed: 8 }],
+          [{ seed: 2 }, { seed: 7 }],
+          [{ seed: 3 }, { seed: 6 }],
+          [{ seed: 4 }, { seed: 5 }],
+        ],
+      },
+      {
+        round: "divisional",
+        pairing: "fixed",
+        games: [
+          [{ winnerOf: 0 }, { winnerOf: 3 }],
+          [{ winnerOf: 1 }, { winnerOf: 2 }],
+        ],
+      },
+      {
+        round: "conference",
+        pairing: "fixed",
+        games: [[{ winnerOf: 0 }, { winnerOf: 1 }]],
+      },
+    ],
+    final: { homeConference: "AFC" },
+  },
+};
+
+export const DEFAULT_BRACKET_FORMAT: BracketFormatId = "nfl-14";
+
+export function getBracketFormat(id: BracketFormatId | undefined): BracketFormat {
+  return BRACKET_FORMATS[id ?? DEFAULT_BRACKET_FORMAT] ?? BRACKET_FORMATS[DEFAULT_BRACKET_FORMAT];
+}
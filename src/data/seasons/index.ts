@@ -0,0 +1,107 @@
+import { getBracketFormat } from "@/data/formats";
+import { NFL_TEAMS } from "@/data/teams";
+import type { BracketFormat, Conference, SeasonDefinition, SeasonSeeds, SeededTeam } from "@/types";
+import season2019 from "./2019.json";
+import season2024 from "./2024.json";
+import season2025 from "./2025.json";
+import season2026 from "./2026.json";
+
+// Season definitions keyed by the year the regular season started
+export const SEASONS: Record<number, SeasonDefinition> = {
+  // JSON imports widen the format ID to string
+  2019: season2019 as SeasonDefinition,
+  2024: season2024 as SeasonDefinition,
+  2025: season2025,
+  2026: season2026,
+};
+
+// Seeds derived from ESPN standings for seasons whose file has no seeds yet
+const derivedSeeds = new Map<number, SeasonSeeds>();
+
+export const DEFAULT_SEASON = 2025;
+
+// Brackets saved before seasons were tracked were all built for 2025-26
+export const LEGACY_SEASON = 2025;
+
+// Newest season first, for the season picker
+export const AVAILABLE_SEASONS = Object.keys(SEASONS)
+  .map(Number)
+  .sort((a, b) => b - a);
+
+export function isKnownSeason(year: number): boolean {
+  return year in SEASONS;
+}
+
+/**
+ * Get a season definition, falling back to the default season for unknown years
+ */
+export function getSeason(year: number): SeasonDefinition {
+  return SEASONS[year] ?? SEASONS[DEFAULT_SEASON];
+}
+
+/**
+ * Get the playoff format a season's bracket is played in
+ */
+export function getSeasonFormat(year: number): BracketFormat {
+  return getBracketFormat(getSeason(year).format);
+}
+
+/**
+ * Parse a `?season=` query value, returning null if it isn't a known season
+ */
+export function parseSeasonParam(value: string | null | undefined): number | null {
+  if (!value || !/^\d{4}$/.test(value)) return null;
+  const year = Number.parseInt(value, 10);
+  return isKnownSeason(year) ? year : null;
+}
+
+/**
+ * Register seeds derived from the standings for a season without a seed file
+ */
+export function registerSeasonSeeds(year: number, seeds: SeasonSeeds): void {
+  derivedSeeds.set(year, seeds);
+}
+
+/**
+ * Whether a season's seeds come from its file (and never need deriving)
+ */
+export function hasStaticSeeds(year: number): boolean {
+  return getSeason(year).seeds !== null;
+}
+
+export function hasSeasonSeeds(year: number): boolean {
+  return hasStaticSeeds(year) || derivedSeeds.has(year);
+}
+
+/**
+ * Get a conference's playoff field for a season, ordered by seed
+ */
+export function getSeasonSeeds(year: number, conference: Conference): SeededTeam[] {
+  const seeds = getSeason(year).seeds ?? derivedSeeds.get(year);
+  const teamIds = seeds?.[conference] ?? [];
+  return teamIds
+    .map((teamId, index) => {
+      const team = NFL_TEAMS[teamId];
+      return team ? { ...team, seed: index + 1 } : null;
+    })
+    .filter((t): t is SeededTeam => t !== null);
+}
+
+export function getSeededTeam(
+  year: number,
+  conference: Conference,
+  seed: number,
+): SeededTeam | undefined {
+  return getSeasonSeeds(year, conference).find((t) => t.seed === seed);
+}
+
+/**
+ * Find a playoff team by ID in either conference of a season
+ */
+export function findSeasonTeam(year: number, teamId: string): SeededTeam | null {
+  return (
+    getSeasonSeeds(year, "AFC").find((t) => t.id === teamId) ??
+    getSeasonSeeds(year, "NFC").find((t) => t.id === teamId) ??
+    null
+  );
+}
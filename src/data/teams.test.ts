@@ -0,0 +1,40 @@
+import { describe, expect, it } from "bun:test";
+import { getTeamIdByEspnId, mapTeamAbbreviation, NFL_TEAMS } from "@/data/teams";
+
+describe("NFL_TEAMS", () => {
+  const teams = Object.values(NFL_TEAMS);
+
+  it("has four teams in each of the eight divisions", () => {
+    const divisions = new Map<string, number>();
+    for (const team of teams) {
+      const key = `${team.conference} ${team.division}`;
+      divisions.set(key, (divisions.get(key) ?? 0) + 1);
+    }
+    expect(teams).toHaveLength(32);
+    expect([...divisions.values()]).toEqual(Array(8).fill(4));
+  });
+
+  it("keys every team by its ID and gives each a unique ESPN ID", () => {
+    for (const [key, team] of Object.entries(NFL_TEAMS)) {
+      expect(team.id).toBe(key);
+    }
+    expect(new Set(teams.map((t) => t.espnId)).size).toBe(32);
+  });
+});
+
+describe("mapTeamAbbreviation", () => {
+  it("resolves ESPN aliases to team IDs", () => {
+    expect(mapTeamAbbreviation("WSH")).toBe("WAS");
+    expect(mapTeamAbbreviation("LA")).toBe("LAR");
+    expect(mapTeamAbbreviation("oak")).toBe("LV");
+    expect(mapTeamAbbreviation("KC")).toBe("KC");
+  });
+});
+
+describe("getTeamIdByEspnId", () => {
+  it("resolves numeric ESPN IDs", () => {
+    expect(getTeamIdByEspnId("28")).toBe("WAS");
+    expect(getTeamIdByEspnId("14")).toBe("LAR");
+    expect(getTeamIdByEspnId("999")).toBeNull();
+  });
+});
@@ -1,116 +1,355 @@
-import type { SeededTeam, Team } from "@/types";
+import type { Conference, Team } from "@/types";
 
 // ESPN CDN base URL for team logos
 const LOGO_BASE = "https://a.espncdn.com/i/teamlogos/nfl/500";
 
+// Every NFL team; playoff seedings are defined per season in src/data/seasons/<year>.json
 export const NFL_TEAMS: Record<string, Team> = {
-  // AFC Teams
-  DEN: {
-    id: "DEN",
-    name: "Broncos",
-    city: "Denver",
+  // AFC East
+  BUF: {
+    id: "BUF",
+    name: "Bills",
+    city: "Buffalo",
     conference: "AFC",
-    primaryColor: "#FB4F14",
-    secondaryColor: "#002244",
-    logoUrl: `${LOGO_BASE}/den.png`,
+    division: "East",
+    espnId: "2",
+    primaryColor: "#00338D",
+    secondaryColor: "#C60C30",
+    logoUrl: `${LOGO_BASE}/buf.png`,
+  },
+  MIA: {
+    id: "MIA",
+    name: "Dolphins",
+    city: "Miami",
+    conference: "AFC",
+    division: "East",
+    espnId: "15",
+    primaryColor: "#008E97",
+    secondaryColor: "#FC4C02",
+    logoUrl: `${LOGO_BASE}/mia.png`,
   },
   NE: {
     id: "NE",
     name: "Patriots",
     city: "New England",
     conference: "AFC",
+    division: "East",
+    espnId: "17",
     primaryColor: "#002244",
     secondaryColor: "#C60C30",
     logoUrl: `${LOGO_BASE}/ne.png`,
   },
-  JAX: {
-    id: "JAX",
-    name: "Jaguars",
-    city: "Jacksonville",
+  NYJ: {
+    id: "NYJ",
+    name: "Jets",
+    city: "New York",
     conference: "AFC",
-    primaryColor: "#006778",
-    secondaryColor: "#D7A22A",
-    logoUrl: `${LOGO_BASE}/jax.png`,
+    division: "East",
+    espnId: "20",
+    primaryColor: "#115740",
+    secondaryColor: "#FFFFFF",
+    logoUrl: `${LOGO_BASE}/nyj.png`,
+  },
+
+  // AFC North
+  BAL: {
+    id: "BAL",
+    name: "Ravens",
+    city: "Baltimore",
+    conference: "AFC",
+    division: "North",
+    espnId: "33",
+    primaryColor: "#241773",
+    secondaryColor: "#9E7C0C",
+    logoUrl: `${LOGO_BASE}/bal.png`,
+  },
+  CIN: {
+    id: "CIN",
+    name: "Bengals",
+    city: "Cincinnati",
+    conference: "AFC",
+    division: "North",
+    espnId: "4",
+    primaryColor: "#FB4F14",
+    secondaryColor: "#000000",
+    logoUrl: `${LOGO_BASE}/cin.png`,
+  },
+  CLE: {
+    id: "CLE",
+    name: "Browns",
+    city: "Cleveland",
+    conference: "AFC",
+    division: "North",
+    espnId: "5",
+    primaryColor: "#311D00",
+    secondaryColor: "#FF3C00",
+    logoUrl: `${LOGO_BASE}/cle.png`,
   },
   PIT: {
     id: "PIT",
     name: "Steelers",
     city: "Pittsburgh",
     conference: "AFC",
+    division: "North",
+    espnId: "23",
     primaryColor: "#FFB612",
     secondaryColor: "#101820",
     logoUrl: `${LOGO_BASE}/pit.png`,
   },
+
+  // AFC South
   HOU: {
     id: "HOU",
     name: "Texans",
     city: "Houston",
     conference: "AFC",
+    division: "South",
+    espnId: "34",
     primaryColor: "#03202F",
     secondaryColor: "#A71930",
     logoUrl: `${LOGO_BASE}/hou.png`,
   },
-  BUF: {
-    id: "BUF",
-    name: "Bills",
-    city: "Buffalo",
+  IND: {
+    id: "IND",
+    name: "Colts",
+    city: "Indianapolis",
     conference: "AFC",
-    primaryColor: "#00338D",
-    secondaryColor: "#C60C30",
-    logoUrl: `${LOGO_BASE}/buf.png`,
+    division: "South",
+    espnId: "11",
+    primaryColor: "#002C5F",
+    secondaryColor: "#A2AAAD",
+    logoUrl: `${LOGO_BASE}/ind.png`,
+  },
+  JAX: {
+    id: "JAX",
+    name: "Jaguars",
+    city: "Jacksonville",
+    conference: "AFC",
+    division: "South",
+    espnId: "30",
+    primaryColor: "#006778",
+    secondaryColor: "#D7A22A",
+    logoUrl: `${LOGO_BASE}/jax.png`,
+  },
+  TEN: {
+    id: "TEN",
+    name: "Titans",
+    city: "Tennessee",
+    conference: "AFC",
+    division: "South",
+    espnId: "10",
+    primaryColor: "#0C2340",
+    secondaryColor: "#4B92DB",
+    logoUrl: `${LOGO_BASE}/ten.png`,
+  },
+
+  // AFC West
+  DEN: {
+    id: "DEN",
+    name: "Broncos",
+    city: "Denver",
+    conference: "AFC",
+    division: "West",
+    espnId: "7",
+    primaryColor: "#FB4F14",
+    secondaryColor: "#002244",
+    logoUrl: `${LOGO_BASE}/den.png`,
+  },
+  KC: {
+    id: "KC",
+    name: "Chiefs",
+    city: "Kansas City",
+    conference: "AFC",
+    division: "West",
+    espnId: "12",
+    primaryColor: "#E31837",
+    secondaryColor: "#FFB81C",
+    logoUrl: `${LOGO_BASE}/kc.png`,
+  },
+  LV: {
+    id: "LV",
+    name: "Raiders",
+    city: "Las Vegas",
+    conference: "AFC",
+    division: "West",
+    espnId: "13",
+    espnAliases: ["OAK"],
+    primaryColor: "#000000",
+    secondaryColor: "#A5ACAF",
+    logoUrl: `${LOGO_BASE}/lv.png`,
   },
   LAC: {
     id: "LAC",
     name: "Chargers",
     city: "Los Angeles",
     conference: "AFC",
+    division: "West",
+    espnId: "24",
+    espnAliases: ["SD"],
     primaryColor: "#0080C6",
     secondaryColor: "#FFC20E",
     logoUrl: `${LOGO_BASE}/lac.png`,
   },
 
-  // NFC Teams
-  SEA: {
-    id: "SEA",
-    name: "Seahawks",
-    city: "Seattle",
+  // NFC East
+  DAL: {
+    id: "DAL",
+    name: "Cowboys",
+    city: "Dallas",
     conference: "NFC",
-    primaryColor: "#002244",
-    secondaryColor: "#69BE28",
-    logoUrl: `${LOGO_BASE}/sea.png`,
+    division: "East",
+    espnId: "6",
+    primaryColor: "#003594",
+    secondaryColor: "#869397",
+    logoUrl: `${LOGO_BASE}/dal.png`,
   },
-  CHI: {
-    id: "CHI",
-    name: "Bears",
-    city: "Chicago",
+  NYG: {
+    id: "NYG",
+    name: "Giants",
+    city: "New York",
     conference: "NFC",
-    primaryColor: "#0B162A",
-    secondaryColor: "#C83803",
-    logoUrl: `${LOGO_BASE}/chi.png`,
+    division: "East",
+    espnId: "19",
+    primaryColor: "#0B2265",
+    secondaryColor: "#A71930",
+    logoUrl: `${LOGO_BASE}/nyg.png`,
   },
   PHI: {
     id: "PHI",
     name: "Eagles",
     city: "Philadelphia",
     conference: "NFC",
+    division: "East",
+    espnId: "21",
     primaryColor: "#004C54",
     secondaryColor: "#A5ACAF",
     logoUrl: `${LOGO_BASE}/phi.png`,
   },
+  WAS: {
+    id: "WAS",
+    name: "Commanders",
+    city: "Washington",
+    conference: "NFC",
+    division: "East",
+    espnId: "28",
+    espnAliases: ["WSH"],
+    primaryColor: "#5A1414",
+    secondaryColor: "#FFB612",
+    logoUrl: `${LOGO_BASE}/wsh.png`,
+  },
+
+  // NFC North
+  CHI: {
+    id: "CHI",
+    name: "Bears",
+    city: "Chicago",
+    conference: "NFC",
+    division: "North",
+    espnId: "3",
+    primaryColor: "#0B162A",
+    secondaryColor: "#C83803",
+    logoUrl: `${LOGO_BASE}/chi.png`,
+  },
+  DET: {
+    id: "DET",
+    name: "Lions",
+    city: "Detroit",
+    conference: "NFC",
+    division: "North",
+    espnId: "8",
+    primaryColor: "#0076B6",
+    secondaryColor: "#B0B7BC",
+    logoUrl: `${LOGO_BASE}/det.png`,
+  },
+  GB: {
+    id: "GB",
+    name: "Packers",
+    city: "Green Bay",
+    conference: "NFC",
+    division: "North",
+    espnId: "9",
+    primaryColor: "#203731",
+    secondaryColor: "#FFB612",
+    logoUrl: `${LOGO_BASE}/gb.png`,
+  },
+  MIN: {
+    id: "MIN",
+    name: "Vikings",
+    city: "Minnesota",
+    conference: "NFC",
+    division: "North",
+    espnId: "16",
+    primaryColor: "#4F2683",
+    secondaryColor: "#FFC62F",
+    logoUrl: `${LOGO_BASE}/min.png`,
+  },
+
+  // NFC South
+  ATL: {
+    id: "ATL",
+    name: "Falcons",
+    city: "Atlanta",
+    conference: "NFC",
+    division: "South",
+    espnId: "1",
+    primaryColor: "#A71930",
+    secondaryColor: "#000000",
+    logoUrl: `${LOGO_BASE}/atl.png`,
+  },
   CAR: {
     id: "CAR",
     name: "Panthers",
     city: "Carolina",
     conference: "NFC",
+    division: "South",
+    espnId: "29",
     primaryColor: "#0085CA",
     secondaryColor: "#101820",
     logoUrl: `${LOGO_BASE}/car.png`,
   },
+  NO: {
+    id: "NO",
+    name: "Saints",
+    city: "New Orleans",
+    conference: "NFC",
+    division: "South",
+    espnId: "18",
+    primaryColor: "#D3BC8D",
+    secondaryColor: "#101820",
+    logoUrl: `${LOGO_BASE}/no.png`,
+  },
+  TB: {
+    id: "TB",
+    name: "Buccaneers",
+    city: "Tampa Bay",
+    conference: "NFC",
+    division: "South",
+    espnId: "27",
+    primaryColor: "#D50A0A",
+    secondaryColor: "#34302B",
+    logoUrl: `${LOGO_BASE}/tb.png`,
+  },
+
+  // NFC West
+  ARI: {
+    id: "ARI",
+    name: "Cardinals",
+    city: "Arizona",
+    conference: "NFC",
+    division: "West",
+    espnId: "22",
+    primaryColor: "#97233F",
+    secondaryColor: "#000000",
+    logoUrl: `${LOGO_BASE}/ari.png`,
+  },
   LAR: {
     id: "LAR",
     name: "Rams",
     city: "Los Angeles",
     conference: "NFC",
+    division: "West",
+    espnId: "14",
+    espnAliases: ["LA", "STL"],
     primaryColor: "#003594",
     secondaryColor: "#FFA300",
     logoUrl: `${LOGO_BASE}/lar.png`,
@@ -120,47 +359,55 @@ export const NFL_TEAMS: Record<string, Team> = {
     name: "49ers",
     city: "San Francisco",
     conference: "NFC",
+    division: "West",
+    espnId: "25",
     primaryColor: "#AA0000",
     secondaryColor: "#B3995D",
     logoUrl: `${LOGO_BASE}/sf.png`,
   },
-  GB: {
-    id: "GB",
-    name: "Packers",
-    city: "Green Bay",
+  SEA: {
+    id: "SEA",
+    name: "Seahawks",
+    city: "Seattle",
     conference: "NFC",
-    primaryColor: "#203731",
-    secondaryColor: "#FFB612",
-    logoUrl: `${LOGO_BASE}/gb.png`,
+    division: "West",
+    espnId: "26",
+    primaryColor: "#002244",
+    secondaryColor: "#69BE28",
+    logoUrl: `${LOGO_BASE}/sea.png`,
   },
 };
 
-// 2025-26 NFL Playoff Seedings
-export const AFC_SEEDS: SeededTeam[] = [
-  { ...NFL_TEAMS.DEN, seed: 1 }, // Denver Broncos (14-3) - BYE
-  { ...NFL_TEAMS.NE, seed: 2 }, // New England Patriots
-  { ...NFL_TEAMS.JAX, seed: 3 }, // Jacksonville Jaguars
-  { ...NFL_TEAMS.PIT, seed: 4 }, // Pittsburgh Steelers
-  { ...NFL_TEAMS.HOU, seed: 5 }, // Houston Texans
-  { ...NFL_TEAMS.BUF, seed: 6 }, // Buffalo Bills
-  { ...NFL_TEAMS.LAC, seed: 7 }, // Los Angeles Chargers
-];
+// ESPN abbreviations (current and historical) that differ from our team IDs
+const TEAM_ID_BY_ALIAS: Record<string, string> = Object.fromEntries(
+  Object.values(NFL_TEAMS).flatMap((team) =>
+    (team.espnAliases ?? []).map((alias) => [alias, team.id]),
+  ),
+);
 
-export const NFC_SEEDS: SeededTeam[] = [
-  { ...NFL_TEAMS.SEA, seed: 1 }, // Seattle Seahawks (14-3) - BYE
-  { ...NFL_TEAMS.CHI, seed: 2 }, // Chicago Bears
-  { ...NFL_TEAMS.PHI, seed: 3 }, // Philadelphia Eagles
-  { ...NFL_TEAMS.CAR, seed: 4 }, // Carolina Panthers
-  { ...NFL_TEAMS.LAR, seed: 5 }, // Los Angeles Rams
-  { ...NFL_TEAMS.SF, seed: 6 }, // San Francisco 49ers
-  { ...NFL_TEAMS.GB, seed: 7 }, // Green Bay Packers
-];
+const TEAM_ID_BY_ESPN_ID: Record<string, string> = Object.fromEntries(
+  Object.values(NFL_TEAMS).map((team) => [team.espnId, team.id]),
+);
 
 export function getTeamById(id: string): Team | undefined {
   return NFL_TEAMS[id];
 }
 
-export function getSeededTeam(conference: "AFC" | "NFC", seed: number): SeededTeam | undefined {
-  const seeds = conference === "AFC" ? AFC_SEEDS : NFC_SEEDS;
-  return seeds.find((t) => t.seed === seed);
+/**
+ * Map an ESPN team abbreviation (e.g. "WSH", "LA") to our team ID
+ */
+export function mapTeamAbbreviation(espnAbbr: string): string {
+  const abbr = espnAbbr.toUpperCase();
+  return TEAM_ID_BY_ALIAS[abbr] ?? abbr;
+}
+
+/**
+ * Map an ESPN numeric team ID (as used in play-by-play data) to our team ID
+ */
+export function getTeamIdByEspnId(espnId: string): string | null {
+  return TEAM_ID_BY_ESPN_ID[espnId] ?? null;
+}
+
+export function getTeamConference(teamId: string): Conference | null {
+  return NFL_TEAMS[teamId]?.conference ?? null;
 }
@@ -0,0 +1,26 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+// Tick every second in the last hour, every minute before that
+const FINAL_HOUR = 60 * 60 * 1000;
+
+/**
+ * Milliseconds left until a deadline (null without one, 0 once it has passed),
+ * re-rendering as it counts down
+ */
+export function useCountdown(deadline: number | null): number | null {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (deadline === null) return;
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) return;
+
+    const tick = remaining > FINAL_HOUR ? 60 * 1000 : 1000;
+    const timeout = setTimeout(() => setNow(Date.now()), Math.min(tick, remaining));
+    return () => clearTimeout(timeout);
+  }, [deadline, now]);
+
+  return deadline === null ? null : Math.max(0, deadline - now);
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useBracket } from "@/contexts/BracketContext";
+import { useSharedBracket } from "@/hooks/useSharedBracket";
+import { hasAnyPicks } from "@/lib/bracket-engine";
+import { forkBracket } from "@/lib/share-code";
+import { getStoredUser } from "@/lib/storage";
+
+// Query param the shared bracket page links back with (/?fork=<code>)
+export const FORK_PARAM = "fork";
+
+/**
+ * Load a shared bracket passed as `?fork=<code>` into the user's own bracket
+ */
+export function useForkFromLink(enabled: boolean) {
+  const { bracket, loadBracket } = useBracket();
+  const [code, setCode] = useState<string | null>(null);
+  const shared = useSharedBracket(code);
+
+  useEffect(() => {
+    if (enabled) setCode(new URLSearchParams(window.location.search).get(FORK_PARAM));
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!code || (!shared.bracket && !shared.error)) return;
+    setCode(null);
+
+    const url = new URL(window.location.href);
+    url.searchParams.delete(FORK_PARAM);
+    window.history.replaceState(null, "", url);
+
+    if (!shared.bracket) {
+      toast.error("Couldn't copy bracket", { description: shared.error ?? undefined });
+      return;
+    }
+    if (
+      hasAnyPicks(bracket) &&
+      !confirm("Replace your current picks with the shared bracket? Save yours first to keep them.")
+    ) {
+      return;
+    }
+
+    loadBracket(forkBracket(shared.bracket, getStoredUser()?.name ?? ""));
+    toast.success("Bracket copied!", { description: "It's yours now. Change any pick you like." });
+  }, [code, shared, bracket, loadBracket]);
+}
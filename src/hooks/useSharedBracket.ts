@@ -0,0 +1,69 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { hasSeasonSeeds, registerSeasonSeeds } from "@/data/seasons";
+import { buildSharedBracket, parseShareCode } from "@/lib/share-code";
+import { getStoredSeeds, setStoredSeeds } from "@/lib/storage";
+import type { BracketState, SeedsResponse } from "@/types";
+
+interface UseSharedBracketResult {
+  bracket: BracketState | null;
+  error: string | null;
+}
+
+/**
+ * Decode a share code into a bracket, loading the season's seeds first if needed
+ */
+export function useSharedBracket(code: string | null): UseSharedBracketResult {
+  const [result, setResult] = useState<UseSharedBracketResult>({ bracket: null, error: null });
+
+  useEffect(() => {
+    if (!code) return;
+    let cancelled = false;
+
+    const finish = (bracket: BracketState | null) => {
+      if (cancelled) return;
+      setResult(
+        bracket
+          ? { bracket, error: null }
+          : { bracket: null, error: "This share link is invalid or out of date." },
+      );
+    };
+
+    const shared = parseShareCode(code);
+    if (!shared) {
+      finish(null);
+      return;
+    }
+
+    const storedSeeds = getStoredSeeds()[shared.season];
+    if (storedSeeds && !hasSeasonSeeds(shared.season)) {
+      registerSeasonSeeds(shared.season, storedSeeds);
+    }
+
+    if (hasSeasonSeeds(shared.season)) {
+      finish(buildSharedBracket(shared));
+    } else {
+      fetch(`/api/seeds?season=${shared.season}`)
+        .then((res) => {
+          if (!res.ok) throw new Error(`Seeds request failed: ${res.status}`);
+          return res.json();
+        })
+        .then((data: SeedsResponse) => {
+          registerSeasonSeeds(data.season, data.seeds);
+          setStoredSeeds(data.season, data.seeds);
+          finish(buildSharedBracket(shared));
+        })
+        .catch((err) => {
+          console.error("Failed to load seeds for shared bracket:", err);
+          finish(null);
+        });
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [code]);
+
+  return result;
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { SimulationRequest, SimulationResponse } from "@/lib/simulation.worker";
+import type { BracketOdds, BracketOddsInput, SimulationInput, SimulationResult } from "@/types";
+
+type SimulationTask = SimulationRequest["task"];
+type TaskInput<T extends SimulationTask> = Extract<SimulationRequest, { task: T }>["input"];
+
+interface UseSimulationResult<Input, Result> {
+  result: Result | null;
+  isRunning: boolean;
+  error: string | null;
+  run: (input: Input) => void;
+}
+
+/**
+ * Run one kind of simulation in a Web Worker. A new run stops one still going
+ * by replacing the worker, since a worker busy simulating can't take messages.
+ */
+function useSimulationWorker<T extends SimulationTask, Result>(
+  task: T,
+): UseSimulationResult<TaskInput<T>, Result> {
+  const workerRef = useRef<Worker | null>(null);
+  const latestIdRef = useRef(0);
+  // Whether the worker is still on a run, so the next one needs a fresh worker
+  const isBusyRef = useRef(false);
+  const [result, setResult] = useState<Result | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const startWorker = useCallback(() => {
+    const worker = new Worker(new URL("../lib/simulation.worker.ts", import.meta.url));
+    worker.addEventListener("message", (event: MessageEvent<SimulationResponse>) => {
+      const response = event.data;
+      if (response.id !== latestIdRef.current) return;
+      isBusyRef.current = false;
+      setIsRunning(false);
+      if ("error" in response) {
+        setError(response.error);
+      } else {
+        setResult(response.result as Result);
+        setError(null);
+      }
+    });
+    workerRef.current = worker;
+  }, []);
+
+  useEffect(() => {
+    startWorker();
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    };
+  }, [startWorker]);
+
+  const run = useCallback(
+    (input: TaskInput<T>) => {
+      if (!workerRef.current) return;
+      if (isBusyRef.current) {
+        workerRef.current.terminate();
+        startWorker();
+      }
+      const request = { id: ++latestIdRef.current, task, input } as SimulationRequest;
+      isBusyRef.current = true;
+      setIsRunning(true);
+      workerRef.current!.postMessage(request);
+    },
+    [task, startWorker],
+  );
+
+  return { result, isRunning, error, run };
+}
+
+/**
+ * Each team's chance of reaching every round
+ */
+export function useSimulation(): UseSimulationResult<SimulationInput, SimulationResult> {
+  return useSimulationWorker<"playoffs", SimulationResult>("playoffs");
+}
+
+/**
+ * Each bracket's chance of reaching a point total or finishing on top
+ */
+export function useBracketOdds(): UseSimulationResult<BracketOddsInput, BracketOdds[]> {
+  return useSimulationWorker<"brackets", BracketOdds[]>("brackets");
+}
@@ -0,0 +1,56 @@
+import { bracketReducer, getAllMatchups } from "@/lib/bracket-engine";
+import type { BracketState, LiveMatchupResult, LiveResults } from "@/types";
+
+/**
+ * Bracket and results builders shared by the unit tests
+ */
+
+// Pick winners in order as [matchupId, teamId] pairs
+export function pick(state: BracketState, ...picks: [string, string][]): BracketState {
+  return picks.reduce((current, [matchupId, teamId]) => {
+    const matchup = getAllMatchups(current).find((m) => m.id === matchupId);
+    if (!matchup) throw new Error(`No matchup ${matchupId}`);
+    const winner = [matchup.homeTeam, matchup.awayTeam].find((t) => t?.id === teamId);
+    if (!winner) throw new Error(`${teamId} is not playing in ${matchupId}`);
+    return bracketReducer(current, { type: "SELECT_WINNER", matchupId, winner });
+  }, state);
+}
+
+// A game as ESPN reports it: final once it has a winner, otherwise not started
+export function game(
+  homeTeamId: string,
+  awayTeamId: string,
+  winnerId: string | null,
+  gameDate: string | null = null,
+): LiveMatchupResult {
+  return {
+    matchupId: `${homeTeamId}-${awayTeamId}`,
+    homeTeamId,
+    awayTeamId,
+    homeScore: null,
+    awayScore: null,
+    winnerId,
+    isComplete: winnerId !== null,
+    isInProgress: false,
+    gameDate,
+    quarter: null,
+    timeRemaining: null,
+    possession: null,
+    isRedZone: false,
+    isHalftime: false,
+    isEndOfQuarter: false,
+    homeWinPct: null,
+  };
+}
+
+// 2025 AFC: the wild card round done (NE knocked out LAC), DEN through, NE-JAX still to play
+export const afcResults: LiveResults = {
+  afc: {
+    wildCard: [game("NE", "LAC", "NE"), game("JAX", "BUF", "JAX"), game("PIT", "HOU", "HOU")],
+    divisional: [game("DEN", "HOU", "DEN"), game("NE", "JAX", null)],
+    championship: null,
+  },
+  nfc: { wildCard: [], divisional: [], championship: null },
+  superBowl: null,
+  fetchedAt: 0,
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "bun:test";
+import { autofillBracket } from "@/lib/autofill";
+import { bracketReducer, getAllMatchups, getPicks } from "@/lib/bracket-engine";
+import { createInitialBracket, isBracketComplete } from "@/lib/playoff-rules";
+import type { AutofillOptions, BracketState } from "@/types";
+
+// 2025 AFC seeds: DEN, NE, JAX, PIT, HOU, BUF, LAC
+const initial = createInitialBracket("Test", 2025);
+
+function options(overrides: Partial<AutofillOptions> = {}): AutofillOptions {
+  return { strategy: "chalk", onlyUnpicked: false, randomSeed: 7, ratings: {}, ...overrides };
+}
+
+function winnerOf(state: BracketState, matchupId: string): string | null {
+  return getAllMatchups(state).find((m) => m.id === matchupId)?.winner?.id ?? null;
+}
+
+describe("autofillBracket", () => {
+  it("fills every game with the better seed for chalk", () => {
+    const filled = autofillBracket(initial, options());
+    expect(isBracketComplete(filled)).toBe(true);
+    for (const matchup of getAllMatchups(filled)) {
+      if (matchup.round === "superBowl") continue;
+      expect(matchup.winner?.seed).toBe(Math.min(matchup.homeTeam!.seed, matchup.awayTeam!.seed));
+    }
+    expect(winnerOf(filled, "AFC-champ")).toBe("DEN");
+  });
+
+  it("makes the same random bracket for the same seed", () => {
+    const first = autofillBracket(initial, options({ strategy: "random", randomSeed: 3 }));
+    const again = autofillBracket(initial, options({ strategy: "random", randomSeed: 3 }));
+    expect(isBracketComplete(first)).toBe(true);
+    expect(getPicks(again)).toEqual(getPicks(first));
+  });
+
+  it("keeps existing picks when only filling empty games", () => {
+    const lac = getAllMatchups(initial).find((m) => m.id === "AFC-wc-1")!.awayTeam!;
+    const picked = bracketReducer(initial, {
+      type: "SELECT_WINNER",
+      matchupId: "AFC-wc-1",
+      winner: lac,
+    });
+    expect(lac.id).toBe("LAC");
+
+    expect(winnerOf(autofillBracket(picked, options({ onlyUnpicked: true })), "AFC-wc-1")).toBe(
+      "LAC",
+    );
+    expect(winnerOf(autofillBracket(picked, options()), "AFC-wc-1")).not.toBe("LAC");
+  });
+
+  it("follows the ratings for weighted picks", () => {
+    const filled = autofillBracket(
+      initial,
+      options({ strategy: "weighted", ratings: { LAC: 5000 } }),
+    );
+    expect(winnerOf(filled, "AFC-champ")).toBe("LAC");
+  });
+});
@@ -0,0 +1,65 @@
+import {
+  bracketReducer,
+  getAllMatchups,
+  getMatchupRound,
+  isPickLocked,
+} from "@/lib/bracket-engine";
+import { createRandom, getWinProbability } from "@/lib/simulation";
+import type { AutofillOptions, BracketState, Matchup, RoundName, SeededTeam } from "@/types";
+
+const ROUNDS: RoundName[] = ["wildCard", "divisional", "conference", "superBowl"];
+
+// Ratings a team gets for weighted picks if the table has none for it
+const DEFAULT_RATING = 1500;
+
+function pickWinner(matchup: Matchup, options: AutofillOptions, random: () => number): SeededTeam {
+  const home = matchup.homeTeam!;
+  const away = matchup.awayTeam!;
+  switch (options.strategy) {
+    case "chalk":
+      // Equal seeds only meet in the Super Bowl, where the home team gets it
+      return away.seed < home.seed ? away : home;
+    case "random":
+      return random() < 0.5 ? home : away;
+    case "weighted": {
+      const chance = getWinProbability(
+        options.ratings[home.id] ?? DEFAULT_RATING,
+        options.ratings[away.id] ?? DEFAULT_RATING,
+        matchup.round === "superBowl",
+      );
+      return random() < chance ? home : away;
+    }
+  }
+}
+
+/**
+ * Fill in a bracket round by round through SELECT_WINNER, so every pick sets up
+ * the next round exactly as a hand-made one would. Locked rounds and frozen
+ * contest picks are left alone.
+ */
+export function autofillBracket(state: BracketState, options: AutofillOptions): BracketState {
+  const random = createRandom(options.randomSeed);
+  let bracket = state;
+
+  for (const round of ROUNDS) {
+    if (bracket.lockedRounds[round]) continue;
+    const ids = getAllMatchups(bracket)
+      .filter((m) => getMatchupRound(m.id) === round)
+      .map((m) => m.id);
+
+    for (const id of ids) {
+      // Earlier picks in this pass can change who plays here
+      const matchup = getAllMatchups(bracket).find((m) => m.id === id);
+      if (!matchup?.homeTeam || !matchup.awayTeam || isPickLocked(bracket, id)) continue;
+      if (options.onlyUnpicked && matchup.winner) continue;
+
+      bracket = bracketReducer(bracket, {
+        type: "SELECT_WINNER",
+        matchupId: id,
+        winner: pickWinner(matchup, options, random),
+      });
+    }
+  }
+
+  return bracket;
+}
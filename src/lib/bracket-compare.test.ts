@@ -0,0 +1,69 @@
+import { describe, expect, it } from "bun:test";
+import { afcResults, pick } from "@/lib/__fixtures__/brackets";
+import { compareBrackets, createResultsBracket } from "@/lib/bracket-compare";
+import { createInitialBracket } from "@/lib/playoff-rules";
+
+// 2025 AFC seeds: DEN, NE, JAX, PIT, HOU, BUF, LAC
+const mine = pick(
+  createInitialBracket("Sam", 2025),
+  ["AFC-wc-1", "LAC"],
+  ["AFC-wc-2", "JAX"],
+  ["AFC-wc-3", "HOU"],
+  ["AFC-div-1", "DEN"],
+  ["AFC-div-2", "JAX"],
+);
+
+const theirs = pick(
+  createInitialBracket("Alex", 2025),
+  ["AFC-wc-1", "NE"],
+  ["AFC-wc-2", "JAX"],
+  ["AFC-wc-3", "PIT"],
+  ["AFC-div-1", "DEN"],
+  ["AFC-div-2", "NE"],
+);
+
+describe("compareBrackets", () => {
+  it("marks where two brackets agree and who got each difference right", () => {
+    const { matchups, agreements, divergences } = compareBrackets(mine, theirs, afcResults);
+
+    expect(agreements).toBe(2); // JAX in the wild card, DEN in the divisional round
+    expect(divergences).toBe(3);
+    expect(matchups["AFC-wc-1"]).toMatchObject({
+      status: "disagree",
+      gradeA: "wrong",
+      gradeB: "correct",
+    });
+    expect(matchups["AFC-wc-3"]).toMatchObject({ gradeA: "correct", gradeB: "wrong" });
+    expect(matchups["AFC-div-1"]).toMatchObject({ status: "agree", gradeA: "correct" });
+    expect(matchups["AFC-champ"].status).toBe("unpicked");
+  });
+
+  it("adds up the points still at stake on the differences", () => {
+    const comparison = compareBrackets(mine, theirs, afcResults);
+
+    // Only NE vs JAX is undecided: a divisional game, worth 2 to whoever picked right
+    expect(comparison.matchups["AFC-div-2"]).toMatchObject({
+      gradeA: "pending",
+      gradeB: "pending",
+      points: 2,
+    });
+    expect(comparison.swingA).toBe(2);
+    expect(comparison.swingB).toBe(2);
+    expect(comparison.scoreA.points).toBe(4);
+    expect(comparison.scoreB.points).toBe(4);
+  });
+
+  it("compares a bracket with the games played so far", () => {
+    const actual = createResultsBracket(2025, afcResults);
+    const { matchups, agreements, divergences } = compareBrackets(mine, actual, afcResults);
+
+    expect(matchups["AFC-wc-1"].pickB?.id).toBe("NE");
+    expect(matchups["AFC-div-2"].status).toBe("unpicked");
+    expect(agreements).toBe(3);
+    expect(divergences).toBe(1);
+  });
+
+  it("refuses brackets from different seasons", () => {
+    expect(() => compareBrackets(mine, createInitialBracket("Alex", 2024), afcResults)).toThrow();
+  });
+});
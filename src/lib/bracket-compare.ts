@@ -0,0 +1,80 @@
+import { applyAllLiveResults, getAllMatchups, getMatchupRound } from "@/lib/bracket-engine";
+import { createInitialBracket } from "@/lib/playoff-rules";
+import { DEFAULT_SCORING_RULES, gradePick, scoreBracket } from "@/lib/scoring";
+import type {
+  BracketComparison,
+  BracketState,
+  LiveResults,
+  MatchupComparison,
+  ScoringRules,
+} from "@/types";
+
+/**
+ * A bracket whose "picks" are the games played so far, to compare a bracket
+ * with what actually happened
+ */
+export function createResultsBracket(
+  season: number,
+  liveResults: LiveResults | null,
+): BracketState {
+  const bracket: BracketState = {
+    ...createInitialBracket("", season),
+    name: "Actual results",
+    liveResults,
+    lockedRounds: { wildCard: true, divisional: true, conference: true, superBowl: true },
+  };
+  return applyAllLiveResults(bracket);
+}
+
+/**
+ * Compare two brackets of the same season matchup by matchup, graded against
+ * the season's results
+ */
+export function compareBrackets(
+  a: BracketState,
+  b: BracketState,
+  liveResults: LiveResults | null,
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+): BracketComparison {
+  if (a.season !== b.season) {
+    throw new Error("Only brackets from the same season can be compared");
+  }
+
+  const otherMatchups = new Map(getAllMatchups(b).map((m) => [m.id, m]));
+  const comparison: BracketComparison = {
+    matchups: {},
+    agreements: 0,
+    divergences: 0,
+    scoreA: scoreBracket(a, liveResults, rules),
+    scoreB: scoreBracket(b, liveResults, rules),
+    swingA: 0,
+    swingB: 0,
+  };
+
+  for (const matchup of getAllMatchups(a)) {
+    const round = getMatchupRound(matchup.id);
+    if (!round) continue;
+    const pickA = matchup.winner;
+    const pickB = otherMatchups.get(matchup.id)?.winner ?? null;
+
+    const entry: MatchupComparison = {
+      matchupId: matchup.id,
+      round,
+      status: !pickA || !pickB ? "unpicked" : pickA.id === pickB.id ? "agree" : "disagree",
+      pickA,
+      pickB,
+      gradeA: pickA && gradePick(pickA.id, round, liveResults),
+      gradeB: pickB && gradePick(pickB.id, round, liveResults),
+      points: rules.roundPoints[round],
+    };
+    comparison.matchups[matchup.id] = entry;
+
+    if (entry.status === "agree") comparison.agreements++;
+    if (entry.status !== "disagree") continue;
+    comparison.divergences++;
+    if (entry.gradeA === "pending") comparison.swingA += entry.points;
+    if (entry.gradeB === "pending") comparison.swingB += entry.points;
+  }
+
+  return comparison;
+}
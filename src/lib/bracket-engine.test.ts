@@ -0,0 +1,304 @@
+import { describe, expect, it } from "bun:test";
+import { game, pick } from "@/lib/__fixtures__/brackets";
+import {
+  bracketReducer,
+  bracketSessionReducer,
+  EMPTY_HISTORY,
+  getAllMatchups,
+  getPicks,
+  HISTORY_LIMIT,
+  hasSamePicks,
+  isPickLocked,
+  lockCompletedRounds,
+} from "@/lib/bracket-engine";
+import { createInitialBracket } from "@/lib/playoff-rules";
+import type {
+  BracketAction,
+  BracketSession,
+  BracketState,
+  LiveMatchupResult,
+  LiveResults,
+  Matchup,
+} from "@/types";
+
+function findMatchup(state: BracketState, matchupId: string): Matchup {
+  const matchup = getAllMatchups(state).find((m) => m.id === matchupId);
+  if (!matchup) throw new Error(`No matchup ${matchupId}`);
+  return matchup;
+}
+
+function teamIds(matchup: Matchup) {
+  return [matchup.homeTeam?.id ?? null, matchup.awayTeam?.id ?? null];
+}
+
+// A final, 24-17 to the winner
+function liveResult(homeTeamId: string, awayTeamId: string, winnerId: string): LiveMatchupResult {
+  return {
+    ...game(homeTeamId, awayTeamId, winnerId),
+    homeScore: winnerId === homeTeamId ? 24 : 17,
+    awayScore: winnerId === awayTeamId ? 24 : 17,
+  };
+}
+
+function liveResults(afcWildCard: LiveMatchupResult[]): LiveResults {
+  return {
+    afc: { wildCard: afcWildCard, divisional: [], championship: null },
+    nfc: { wildCard: [], divisional: [], championship: null },
+    superBowl: null,
+    fetchedAt: 0,
+  };
+}
+
+// 2025 AFC seeds: DEN, NE, JAX, PIT, HOU, BUF, LAC
+const initial = createInitialBracket("Test", 2025);
+
+describe("reseeding", () => {
+  it("pairs the #1 seed with the lowest remaining seed", () => {
+    const state = pick(initial, ["AFC-wc-1", "LAC"], ["AFC-wc-2", "JAX"], ["AFC-wc-3", "HOU"]);
+    expect(teamIds(findMatchup(state, "AFC-div-1"))).toEqual(["DEN", "LAC"]);
+    expect(teamIds(findMatchup(state, "AFC-div-2"))).toEqual(["JAX", "HOU"]);
+  });
+
+  it("re-pairs the divisional round when a wild card pick changes", () => {
+    let state = pick(initial, ["AFC-wc-1", "LAC"], ["AFC-wc-2", "JAX"], ["AFC-wc-3", "HOU"]);
+    state = pick(state, ["AFC-wc-1", "NE"]);
+    expect(teamIds(findMatchup(state, "AFC-div-1"))).toEqual(["DEN", "HOU"]);
+    expect(teamIds(findMatchup(state, "AFC-div-2"))).toEqual(["NE", "JAX"]);
+  });
+
+  it("lets the higher seed host the conference championship", () => {
+    const state = pick(
+      initial,
+      ["AFC-wc-1", "LAC"],
+      ["AFC-wc-2", "JAX"],
+      ["AFC-wc-3", "HOU"],
+      ["AFC-div-1", "LAC"],
+      ["AFC-div-2", "HOU"],
+    );
+    expect(teamIds(findMatchup(state, "AFC-champ"))).toEqual(["HOU", "LAC"]);
+  });
+});
+
+describe("cascading winner clears", () => {
+  const filled = pick(
+    initial,
+    ["AFC-wc-1", "LAC"],
+    ["AFC-wc-2", "JAX"],
+    ["AFC-wc-3", "HOU"],
+    ["AFC-div-1", "LAC"],
+    ["AFC-div-2", "JAX"],
+    ["AFC-champ", "LAC"],
+  );
+
+  it("clears every later pick that depended on a cleared winner", () => {
+    expect(filled.superBowl?.homeTeam?.id).toBe("LAC");
+
+    const state = bracketReducer(filled, { type: "CLEAR_WINNER", matchupId: "AFC-wc-1" });
+    expect(findMatchup(state, "AFC-div-1").winner).toBeNull();
+    // The divisional round can't be paired until every wild card game is picked again
+    expect(findMatchup(state, "AFC-div-2").winner).toBeNull();
+    expect(findMatchup(state, "AFC-champ").winner).toBeNull();
+    expect(state.superBowl?.homeTeam).toBeNull();
+  });
+
+  it("keeps later picks whose teams are still playing", () => {
+    // Swapping wild card 3 keeps the pairings for LAC and JAX: DEN-LAC, JAX-PIT
+    const state = pick(filled, ["AFC-wc-3", "PIT"]);
+    expect(findMatchup(state, "AFC-div-1").winner?.id).toBe("LAC");
+    expect(findMatchup(state, "AFC-div-2").winner?.id).toBe("JAX");
+    expect(findMatchup(state, "AFC-champ").winner?.id).toBe("LAC");
+  });
+
+  it("leaves the other conference alone", () => {
+    const state = pick(filled, ["NFC-wc-1", "CHI"]);
+    expect(state.afc).toEqual(filled.afc);
+  });
+});
+
+describe("lock application", () => {
+  const results = liveResults([liveResult("NE", "LAC", "NE")]);
+
+  it("applies live winners only once their round is locked", () => {
+    const state = bracketReducer(initial, { type: "SET_LIVE_RESULTS", results });
+    expect(findMatchup(state, "AFC-wc-1").winner).toBeNull();
+
+    const locked = bracketReducer(state, { type: "TOGGLE_ROUND_LOCK", round: "wildCard" });
+    expect(findMatchup(locked, "AFC-wc-1").winner?.id).toBe("NE");
+  });
+
+  it("overrides a conflicting prediction when the round locks", () => {
+    const predicted = pick(initial, ["AFC-wc-1", "LAC"]);
+    const state = lockCompletedRounds(predicted, results);
+    expect(findMatchup(state, "AFC-wc-1").winner?.id).toBe("NE");
+  });
+
+  it("locks only rounds that have completed games", () => {
+    const state = lockCompletedRounds(initial, results);
+    expect(state.lockedRounds).toEqual({
+      wildCard: true,
+      divisional: false,
+      conference: false,
+      superBowl: false,
+    });
+    expect(state.liveResults).toBe(results);
+  });
+});
+
+describe("undo/redo history", () => {
+  const session: BracketSession = { bracket: initial, history: EMPTY_HISTORY };
+
+  function selectAction(state: BracketState, matchupId: string, teamId: string): BracketAction {
+    const matchup = findMatchup(state, matchupId);
+    const winner = [matchup.homeTeam, matchup.awayTeam].find((t) => t?.id === teamId);
+    if (!winner) throw new Error(`${teamId} is not playing in ${matchupId}`);
+    return { type: "SELECT_WINNER", matchupId, winner };
+  }
+
+  it("undoes a pick along with everything its cascade cleared", () => {
+    let current = session;
+    for (const [matchupId, teamId] of [
+      ["AFC-wc-1", "LAC"],
+      ["AFC-wc-2", "JAX"],
+      ["AFC-wc-3", "HOU"],
+      ["AFC-div-1", "LAC"],
+    ] as const) {
+      current = bracketSessionReducer(current, selectAction(current.bracket, matchupId, teamId));
+    }
+
+    const cleared = bracketSessionReducer(current, { type: "CLEAR_WINNER", matchupId: "AFC-wc-1" });
+    expect(findMatchup(cleared.bracket, "AFC-div-1").winner).toBeNull();
+
+    const undone = bracketSessionReducer(cleared, { type: "UNDO" });
+    expect(findMatchup(undone.bracket, "AFC-wc-1").winner?.id).toBe("LAC");
+    expect(findMatchup(undone.bracket, "AFC-div-1").winner?.id).toBe("LAC");
+
+    const redone = bracketSessionReducer(undone, { type: "REDO" });
+    expect(findMatchup(redone.bracket, "AFC-div-1").winner).toBeNull();
+  });
+
+  it("drops the redo stack when a new pick is made", () => {
+    let current = bracketSessionReducer(session, selectAction(initial, "AFC-wc-1", "LAC"));
+    current = bracketSessionReducer(current, { type: "UNDO" });
+    expect(current.history.future).toHaveLength(1);
+
+    current = bracketSessionReducer(current, selectAction(current.bracket, "AFC-wc-1", "NE"));
+    expect(current.history.future).toHaveLength(0);
+  });
+
+  it("keeps at most HISTORY_LIMIT steps", () => {
+    let current = session;
+    for (let i = 0; i < HISTORY_LIMIT + 5; i++) {
+      const teamId = i % 2 === 0 ? "LAC" : "NE";
+      current = bracketSessionReducer(current, selectAction(current.bracket, "AFC-wc-1", teamId));
+    }
+    expect(current.history.past).toHaveLength(HISTORY_LIMIT);
+  });
+
+  it("does not record name changes and starts over for a different bracket", () => {
+    let current = bracketSessionReducer(session, selectAction(initial, "AFC-wc-1", "LAC"));
+    current = bracketSessionReducer(current, { type: "SET_BRACKET_NAME", name: "Chalk" });
+    expect(current.history.past).toHaveLength(1);
+
+    current = bracketSessionReducer(current, { type: "SET_SEASON", season: 2019 });
+    expect(current.history).toEqual(EMPTY_HISTORY);
+  });
+
+  it("keeps locked live results when undoing", () => {
+    const results = liveResults([liveResult("NE", "LAC", "NE")]);
+    let current = bracketSessionReducer(session, selectAction(initial, "AFC-wc-2", "JAX"));
+    current = {
+      ...current,
+      bracket: lockCompletedRounds(current.bracket, results),
+    };
+
+    const undone = bracketSessionReducer(current, { type: "UNDO" });
+    expect(findMatchup(undone.bracket, "AFC-wc-2").winner).toBeNull();
+    expect(findMatchup(undone.bracket, "AFC-wc-1").winner?.id).toBe("NE");
+  });
+
+  it("applies a whole set of picks as one undo step", () => {
+    const picked = pick(initial, ["AFC-wc-1", "LAC"], ["AFC-wc-2", "JAX"], ["AFC-wc-3", "HOU"]);
+    const applied = bracketSessionReducer(session, {
+      type: "APPLY_PICKS",
+      picks: getPicks(picked),
+    });
+    expect(hasSamePicks(applied.bracket, picked)).toBe(true);
+    expect(applied.history.past).toHaveLength(1);
+
+    const undone = bracketSessionReducer(applied, { type: "UNDO" });
+    expect(hasSamePicks(undone.bracket, initial)).toBe(true);
+  });
+
+  it("takes over another tab's bracket and history as they are", () => {
+    const mine = bracketSessionReducer(session, selectAction(initial, "AFC-wc-1", "LAC"));
+    const theirs = bracketSessionReducer(session, selectAction(initial, "AFC-wc-2", "JAX"));
+    expect(hasSamePicks(mine.bracket, theirs.bracket)).toBe(false);
+
+    const followed = bracketSessionReducer(mine, { type: "RESTORE_SESSION", session: theirs });
+    expect(followed).toBe(theirs);
+    expect(hasSamePicks(followed.bracket, theirs.bracket)).toBe(true);
+
+    const undone = bracketSessionReducer(followed, { type: "UNDO" });
+    expect(hasSamePicks(undone.bracket, initial)).toBe(true);
+  });
+});
+
+describe("contest mode", () => {
+  // NE-LAC has kicked off, JAX-BUF hasn't
+  const scheduled = (homeTeamId: string, awayTeamId: string, gameDate: string) => ({
+    ...liveResult(homeTeamId, awayTeamId, homeTeamId),
+    winnerId: null,
+    isComplete: false,
+    gameDate,
+  });
+  const results = liveResults([
+    scheduled("NE", "LAC", "2020-01-11T21:30:00Z"),
+    scheduled("JAX", "BUF", "2099-01-11T18:00:00Z"),
+  ]);
+  const contest: BracketState = { ...initial, contestMode: true, liveResults: results };
+
+  it("rejects picks for games that have kicked off", () => {
+    expect(isPickLocked(contest, "AFC-wc-1")).toBe(true);
+    expect(pick(contest, ["AFC-wc-1", "NE"])).toBe(contest);
+
+    const picked = pick(contest, ["AFC-wc-2", "JAX"]);
+    expect(findMatchup(picked, "AFC-wc-2").winner?.id).toBe("JAX");
+    expect(bracketReducer(picked, { type: "CLEAR_WINNER", matchupId: "AFC-wc-2" })).not.toBe(
+      picked,
+    );
+  });
+
+  it("stays on for a new season's bracket before kickoff", () => {
+    const switched = bracketReducer(
+      { ...contest, liveResults: null },
+      {
+        type: "SET_SEASON",
+        season: 2019,
+      },
+    );
+    expect(switched.season).toBe(2019);
+    expect(switched.contestMode).toBe(true);
+  });
+
+  it("only applies in contest mode", () => {
+    const casual = { ...contest, contestMode: false };
+    expect(isPickLocked(casual, "AFC-wc-1")).toBe(false);
+    expect(findMatchup(pick(casual, ["AFC-wc-1", "NE"]), "AFC-wc-1").winner?.id).toBe("NE");
+  });
+
+  it("keeps started picks out of reach of reset, undo, a season switch and contest mode off", () => {
+    const before = { ...contest, liveResults: null };
+    let current: BracketSession = {
+      bracket: pick(before, ["AFC-wc-1", "LAC"]),
+      history: { past: [before], future: [] },
+    };
+    current = bracketSessionReducer(current, { type: "SET_LIVE_RESULTS", results });
+
+    expect(bracketSessionReducer(current, { type: "UNDO" })).toBe(current);
+    expect(bracketSessionReducer(current, { type: "RESET_BRACKET" })).toBe(current);
+    expect(bracketSessionReducer(current, { type: "SET_SEASON", season: 2019 })).toBe(current);
+    expect(bracketSessionReducer(current, { type: "SET_CONTEST_MODE", enabled: false })).toBe(
+      current,
+    );
+  });
+});
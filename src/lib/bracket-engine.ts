@@ -0,0 +1,790 @@
+import { findSeasonTeam, getSeasonFormat, getSeasonSeeds } from "@/data/seasons";
+import { getMatchupDeadline, getStartedRounds, isMatchupPastDeadline } from "@/lib/deadlines";
+import { hasCompletedGames } from "@/lib/espn-api";
+import { migrateBracket } from "@/lib/migrations";
+import {
+  applyRoundTeams,
+  calculateRoundTeams,
+  createInitialBracket,
+  getRoundMatchups,
+  isBracketComplete,
+  setRoundMatchups,
+} from "@/lib/playoff-rules";
+import type {
+  BracketAction,
+  BracketHistory,
+  BracketPicks,
+  BracketSession,
+  BracketState,
+  Conference,
+  ConferenceRoundName,
+  LiveGameInfo,
+  LiveMatchupResult,
+  LiveResults,
+  Matchup,
+  RoundName,
+  SeededTeam,
+} from "@/types";
+
+/**
+ * Pure bracket state logic shared by BracketProvider, server routes and scripts.
+ * Nothing in here may touch React, the DOM or storage.
+ */
+
+const CONFERENCE_ROUNDS: ConferenceRoundName[] = ["wildCard", "divisional", "conference"];
+
+/**
+ * Find team by ID from the bracket season's seeds
+ */
+function findTeamById(teamId: string, season: number): SeededTeam | null {
+  return findSeasonTeam(season, teamId);
+}
+
+/**
+ * Apply live result winner to bracket matchups
+ */
+function applyLiveResultToMatchup(
+  state: BracketState,
+  liveResult: LiveMatchupResult,
+  matchups: BracketState["afc"]["wildCard"],
+): BracketState["afc"]["wildCard"] {
+  return matchups.map((matchup) => {
+    // Match by teams (not by ID since ESPN IDs differ)
+    const matchesHome =
+      matchup.homeTeam?.id === liveResult.homeTeamId ||
+      matchup.homeTeam?.id === liveResult.awayTeamId;
+    const matchesAway =
+      matchup.awayTeam?.id === liveResult.homeTeamId ||
+      matchup.awayTeam?.id === liveResult.awayTeamId;
+
+    if (matchesHome && matchesAway && liveResult.isComplete && liveResult.winnerId) {
+      const winner = findTeamById(liveResult.winnerId, state.season);
+      if (winner) {
+        return { ...matchup, winner };
+      }
+    }
+    return matchup;
+  });
+}
+
+/**
+ * Recalculate every round after the first from the results of the round before it
+ */
+function updateLaterRounds(state: BracketState, conference: Conference): BracketState {
+  const format = getSeasonFormat(state.season);
+  const seeds = getSeasonSeeds(state.season, conference);
+  let confState = conference === "AFC" ? state.afc : state.nfc;
+
+  for (let i = 1; i < format.rounds.length; i++) {
+    const { round } = format.rounds[i];
+    const previous = getRoundMatchups(confState, format.rounds[i - 1].round);
+    const teams = calculateRoundTeams(format.rounds[i], previous, seeds);
+    confState = setRoundMatchups(
+      confState,
+      round,
+      applyRoundTeams(getRoundMatchups(confState, round), teams),
+    );
+  }
+
+  if (conference === "AFC") {
+    return { ...state, afc: confState };
+  }
+  return { ...state, nfc: confState };
+}
+
+function updateSuperBowl(state: BracketState): BracketState {
+  if (!state.superBowl) return state;
+
+  const afcChamp = state.afc.championship?.winner || null;
+  const nfcChamp = state.nfc.championship?.winner || null;
+  const { homeConference } = getSeasonFormat(state.season).final;
+
+  const teams =
+    homeConference === "AFC"
+      ? { home: afcChamp, away: nfcChamp }
+      : { home: nfcChamp, away: afcChamp };
+  const [updatedSuperBowl] = applyRoundTeams([state.superBowl], [teams]);
+
+  return { ...state, superBowl: updatedSuperBowl };
+}
+
+/**
+ * Apply all live results to a bracket based on locked rounds
+ */
+export function applyAllLiveResults(state: BracketState): BracketState {
+  const { liveResults, lockedRounds } = state;
+  if (!liveResults) return state;
+
+  let newState = { ...state };
+
+  // Apply wild card results if locked
+  if (lockedRounds.wildCard) {
+    for (const result of liveResults.afc.wildCard) {
+      if (result.isComplete && result.winnerId) {
+        newState.afc = {
+          ...newState.afc,
+          wildCard: applyLiveResultToMatchup(newState, result, newState.afc.wildCard),
+        };
+      }
+    }
+    for (const result of liveResults.nfc.wildCard) {
+      if (result.isComplete && result.winnerId) {
+        newState.nfc = {
+          ...newState.nfc,
+          wildCard: applyLiveResultToMatchup(newState, result, newState.nfc.wildCard),
+        };
+      }
+    }
+    // Update subsequent rounds
+    newState = updateLaterRounds(newState, "AFC");
+    newState = updateLaterRounds(newState, "NFC");
+    newState = updateSuperBowl(newState);
+  }
+
+  // Apply divisional results if locked
+  if (lockedRounds.divisional) {
+    for (const result of liveResults.afc.divisional) {
+      if (result.isComplete && result.winnerId) {
+        newState.afc = {
+          ...newState.afc,
+          divisional: applyLiveResultToMatchup(newState, result, newState.afc.divisional),
+        };
+      }
+    }
+    for (const result of liveResults.nfc.divisional) {
+      if (result.isComplete && result.winnerId) {
+        newState.nfc = {
+          ...newState.nfc,
+          divisional: applyLiveResultToMatchup(newState, result, newState.nfc.divisional),
+        };
+      }
+    }
+    newState = updateLaterRounds(newState, "AFC");
+    newState = updateLaterRounds(newState, "NFC");
+    newState = updateSuperBowl(newState);
+  }
+
+  // Apply conference championship results if locked
+  if (lockedRounds.conference) {
+    if (liveResults.afc.championship?.isComplete && liveResults.afc.championship.winnerId) {
+      const winner = findTeamById(liveResults.afc.championship.winnerId, newState.season);
+      if (winner && newState.afc.championship) {
+        newState.afc = {
+          ...newState.afc,
+          championship: { ...newState.afc.championship, winner },
+        };
+      }
+    }
+    if (liveResults.nfc.championship?.isComplete && liveResults.nfc.championship.winnerId) {
+      const winner = findTeamById(liveResults.nfc.championship.winnerId, newState.season);
+      if (winner && newState.nfc.championship) {
+        newState.nfc = {
+          ...newState.nfc,
+          championship: { ...newState.nfc.championship, winner },
+        };
+      }
+    }
+    newState = updateSuperBowl(newState);
+  }
+
+  // Apply Super Bowl result if locked
+  if (
+    lockedRounds.superBowl &&
+    liveResults.superBowl?.isComplete &&
+    liveResults.superBowl.winnerId
+  ) {
+    const winner = findTeamById(liveResults.superBowl.winnerId, newState.season);
+    if (winner && newState.superBowl) {
+      newState.superBowl = { ...newState.superBowl, winner };
+    }
+  }
+
+  newState.isComplete = isBracketComplete(newState);
+  return newState;
+}
+
+/**
+ * Set (or clear, with null) a matchup's winner and cascade the change through later rounds
+ */
+export function setMatchupWinner(
+  state: BracketState,
+  matchupId: string,
+  winner: SeededTeam | null,
+): BracketState {
+  let newState = { ...state };
+
+  if (state.superBowl?.id === matchupId) {
+    newState.superBowl = { ...state.superBowl, winner };
+  }
+
+  for (const conference of ["AFC", "NFC"] as const) {
+    const confState = conference === "AFC" ? state.afc : state.nfc;
+    const round = CONFERENCE_ROUNDS.find((r) =>
+      getRoundMatchups(confState, r).some((m) => m.id === matchupId),
+    );
+    if (!round) continue;
+
+    const matchups = getRoundMatchups(confState, round).map((m) =>
+      m.id === matchupId ? { ...m, winner } : m,
+    );
+    const updated = setRoundMatchups(confState, round, matchups);
+    newState = conference === "AFC" ? { ...newState, afc: updated } : { ...newState, nfc: updated };
+    newState = updateLaterRounds(newState, conference);
+    newState = updateSuperBowl(newState);
+  }
+
+  newState.isComplete = isBracketComplete(newState);
+  newState.updatedAt = Date.now();
+  return newState;
+}
+
+/**
+ * Every matchup of a bracket, wild card round first and the Super Bowl last
+ */
+export function getAllMatchups(state: BracketState): Matchup[] {
+  return [
+    ...state.afc.wildCard,
+    ...state.afc.divisional,
+    state.afc.championship,
+    ...state.nfc.wildCard,
+    ...state.nfc.divisional,
+    state.nfc.championship,
+    state.superBowl,
+  ].filter((m): m is Matchup => m !== null);
+}
+
+/**
+ * A fresh bracket for the same season with `state`'s winners picked again in
+ * order, so each later round is rebuilt from the picks before it. It matches
+ * `state` wherever the season's seeds and its own earlier picks lead there.
+ */
+export function replayPicks(state: BracketState): BracketState {
+  return getAllMatchups(state).reduce(
+    (replayed, matchup) => setMatchupWinner(replayed, matchup.id, matchup.winner),
+    createInitialBracket(state.userName, state.season),
+  );
+}
+
+/**
+ * Check if any winner has been selected in the bracket
+ */
+export function hasAnyPicks(state: BracketState): boolean {
+  return getAllMatchups(state).some((m) => m.winner);
+}
+
+/**
+ * Whether two brackets have the same winner picked in every matchup
+ */
+export function hasSamePicks(a: BracketState, b: BracketState): boolean {
+  const picksOf = (state: BracketState) =>
+    getAllMatchups(state).map((m) => `${m.id}:${m.winner?.id ?? ""}`);
+  return picksOf(a).join() === picksOf(b).join();
+}
+
+/**
+ * In contest mode, whether a matchup's pick is frozen because its game has kicked off
+ */
+export function isPickLocked(state: BracketState, matchupId: string): boolean {
+  if (!state.contestMode) return false;
+  const matchup = getAllMatchups(state).find((m) => m.id === matchupId);
+  return matchup ? isMatchupPastDeadline(matchup, state.liveResults) : false;
+}
+
+/**
+ * When a matchup's pick locks in contest mode (null outside contest mode or before kickoffs are scheduled)
+ */
+export function getPickDeadline(state: BracketState, matchupId: string): number | null {
+  if (!state.contestMode) return null;
+  const matchup = getAllMatchups(state).find((m) => m.id === matchupId);
+  return matchup ? getMatchupDeadline(matchup, state.liveResults) : null;
+}
+
+/**
+ * In contest mode, whether replacing the picks would change any frozen pick
+ */
+export function changesLockedPicks(state: BracketState, picks: BracketPicks): boolean {
+  if (!state.contestMode) return false;
+  const next = getAllMatchups({ ...state, ...picks });
+  return getAllMatchups(state).some(
+    (m) =>
+      isMatchupPastDeadline(m, state.liveResults) &&
+      next.find((n) => n.id === m.id)?.winner?.id !== m.winner?.id,
+  );
+}
+
+/**
+ * A contest-mode bracket whose first game has kicked off
+ */
+export function isContestUnderway(state: BracketState): boolean {
+  return state.contestMode && getStartedRounds(state.liveResults).length > 0;
+}
+
+export function bracketReducer(state: BracketState, action: BracketAction): BracketState {
+  switch (action.type) {
+    case "SELECT_WINNER":
+    case "CLEAR_WINNER": {
+      if (isPickLocked(state, action.matchupId)) return state;
+      const winner = action.type === "SELECT_WINNER" ? action.winner : null;
+      return setMatchupWinner(state, action.matchupId, winner);
+    }
+
+    case "RESET_BRACKET": {
+      // Contest brackets can't be wiped once the first game has kicked off
+      if (isContestUnderway(state)) return state;
+      return {
+        ...createInitialBracket(state.userName, state.season),
+        contestMode: state.contestMode,
+      };
+    }
+
+    case "SET_SEASON": {
+      // A new season means a new bracket, so the same guard as a reset applies
+      if (isContestUnderway(state)) return state;
+      return {
+        ...createInitialBracket(state.userName, action.season),
+        contestMode: state.contestMode,
+      };
+    }
+
+    case "SEEDS_LOADED": {
+      // Fill in a bracket that was created before its season's seeds arrived
+      const hasTeams = state.afc.wildCard.some((m) => m.homeTeam);
+      if (action.season !== state.season || hasTeams) return state;
+
+      const seeded = createInitialBracket(state.userName, state.season);
+      return {
+        ...state,
+        afc: seeded.afc,
+        nfc: seeded.nfc,
+        superBowl: seeded.superBowl,
+        updatedAt: Date.now(),
+      };
+    }
+
+    case "LOAD_BRACKET": {
+      return migrateBracket(action.bracket);
+    }
+
+    case "SET_BRACKET_NAME": {
+      return { ...state, name: action.name, updatedAt: Date.now() };
+    }
+
+    case "SET_USER_NAME": {
+      return { ...state, userName: action.userName, updatedAt: Date.now() };
+    }
+
+    case "SET_SUBTITLE": {
+      return { ...state, subtitle: action.subtitle, updatedAt: Date.now() };
+    }
+
+    case "TOGGLE_ROUND_LOCK": {
+      const { round } = action;
+      const newLockedRounds = {
+        ...state.lockedRounds,
+        [round]: !state.lockedRounds[round],
+      };
+
+      let newState = {
+        ...state,
+        lockedRounds: newLockedRounds,
+        updatedAt: Date.now(),
+      };
+
+      // If we're locking a round, apply live results
+      if (newLockedRounds[round]) {
+        newState = applyAllLiveResults(newState);
+      }
+
+      return newState;
+    }
+
+    case "SET_CONTEST_MODE": {
+      // Turning it off after kickoff would unfreeze every locked pick
+      if (!action.enabled && isContestUnderway(state)) return state;
+      return { ...state, contestMode: action.enabled, updatedAt: Date.now() };
+    }
+
+    case "SET_LIVE_RESULTS": {
+      return {
+        ...state,
+        liveResults: action.results,
+        updatedAt: Date.now(),
+      };
+    }
+
+    case "APPLY_LIVE_RESULTS": {
+      return applyAllLiveResults(state);
+    }
+
+    case "APPLY_PICKS": {
+      if (changesLockedPicks(state, action.picks)) return state;
+      return restorePicks(state, action.picks);
+    }
+
+    case "RESTORE_SESSION": {
+      return action.session.bracket;
+    }
+
+    default:
+      return state;
+  }
+}
+
+// Undo steps kept per bracket
+export const HISTORY_LIMIT = 50;
+
+export const EMPTY_HISTORY: BracketHistory = { past: [], future: [] };
+
+// Actions that change picks and can be undone
+const UNDOABLE_ACTIONS = new Set<BracketAction["type"]>([
+  "SELECT_WINNER",
+  "CLEAR_WINNER",
+  "RESET_BRACKET",
+  "APPLY_PICKS",
+]);
+
+export function getPicks(state: BracketState): BracketPicks {
+  return {
+    afc: state.afc,
+    nfc: state.nfc,
+    superBowl: state.superBowl,
+    isComplete: state.isComplete,
+  };
+}
+
+/**
+ * Restore picks from history, re-applying live results for locked rounds on top
+ */
+function restorePicks(state: BracketState, picks: BracketPicks): BracketState {
+  return applyAllLiveResults({ ...state, ...picks, updatedAt: Date.now() });
+}
+
+function pushHistory(past: BracketPicks[], picks: BracketPicks): BracketPicks[] {
+  return [...past, picks].slice(-HISTORY_LIMIT);
+}
+
+/**
+ * bracketReducer wrapped with a bounded undo/redo history of picks
+ */
+export function bracketSessionReducer(
+  session: BracketSession,
+  action: BracketAction,
+): BracketSession {
+  const { bracket, history } = session;
+
+  if (action.type === "RESTORE_SESSION") {
+    return action.session;
+  }
+
+  if (action.type === "UNDO") {
+    const previous = history.past.at(-1);
+    if (!previous || changesLockedPicks(bracket, previous)) return session;
+    return {
+      bracket: restorePicks(bracket, previous),
+      history: {
+        past: history.past.slice(0, -1),
+        future: [getPicks(bracket), ...history.future],
+      },
+    };
+  }
+
+  if (action.type === "REDO") {
+    const [next, ...future] = history.future;
+    if (!next || changesLockedPicks(bracket, next)) return session;
+    return {
+      bracket: restorePicks(bracket, next),
+      history: { past: pushHistory(history.past, getPicks(bracket)), future },
+    };
+  }
+
+  const nextBracket = bracketReducer(bracket, action);
+  if (nextBracket === bracket) return session;
+
+  if (UNDOABLE_ACTIONS.has(action.type)) {
+    return {
+      bracket: nextBracket,
+      history: { past: pushHistory(history.past, getPicks(bracket)), future: [] },
+    };
+  }
+
+  // Switching to a different bracket (season change, load) starts a fresh history
+  if (nextBracket.id !== bracket.id) {
+    return { bracket: nextBracket, history: EMPTY_HISTORY };
+  }
+
+  return { bracket: nextBracket, history };
+}
+
+/**
+ * Get matchup round from matchup ID
+ */
+export function getMatchupRound(matchupId: string): RoundName | null {
+  if (matchupId.includes("-wc-")) return "wildCard";
+  if (matchupId.includes("-div-")) return "divisional";
+  if (matchupId.includes("-champ")) return "conference";
+  if (matchupId === "super-bowl") return "superBowl";
+  return null;
+}
+
+/**
+ * Lock every round that already has completed games and apply their results.
+ * Used the first time live results arrive for a bracket.
+ */
+export function lockCompletedRounds(state: BracketState, results: LiveResults): BracketState {
+  const lockedRounds = { ...state.lockedRounds };
+  const rounds: RoundName[] = [...CONFERENCE_ROUNDS, "superBowl"];
+  for (const round of rounds) {
+    if (hasCompletedGames(results, round)) {
+      lockedRounds[round] = true;
+    }
+  }
+
+  return applyAllLiveResults({ ...state, liveResults: results, lockedRounds });
+}
+
+/**
+ * Get live result for a specific matchup
+ */
+export function findLiveResult(bracket: BracketState, matchupId: string): LiveMatchupResult | null {
+  const { liveResults } = bracket;
+  if (!liveResults) return null;
+
+  // For Super Bowl and championship games, return the live result directly
+  // even if bracket teams haven't been filled in or don't match
+  if (matchupId === "super-bowl") {
+    return liveResults.superBowl ?? null;
+  }
+  if (matchupId === "AFC-champ") {
+    return liveResults.afc.championship ?? null;
+  }
+  if (matchupId === "NFC-champ") {
+    return liveResults.nfc.championship ?? null;
+  }
+
+  // Find the matchup in bracket to get teams
+  let matchup = null;
+
+  // Search through all matchups
+  matchup = bracket.afc.wildCard.find((m) => m.id === matchupId);
+  if (!matchup) matchup = bracket.nfc.wildCard.find((m) => m.id === matchupId);
+  if (!matchup) matchup = bracket.afc.divisional.find((m) => m.id === matchupId);
+  if (!matchup) matchup = bracket.nfc.divisional.find((m) => m.id === matchupId);
+  if (!matchup && bracket.afc.championship?.id === matchupId) matchup = bracket.afc.championship;
+  if (!matchup && bracket.nfc.championship?.id === matchupId) matchup = bracket.nfc.championship;
+  if (!matchup && bracket.superBowl?.id === matchupId) matchup = bracket.superBowl;
+
+  if (!matchup) return null;
+
+  const homeTeamId = matchup.homeTeam?.id;
+  const awayTeamId = matchup.awayTeam?.id;
+  if (!homeTeamId || !awayTeamId) return null;
+
+  // Find matching live result
+  const allResults = [
+    ...liveResults.afc.wildCard,
+    ...liveResults.nfc.wildCard,
+    ...liveResults.afc.divisional,
+    ...liveResults.nfc.divisional,
+    ...(liveResults.afc.championship ? [liveResults.afc.championship] : []),
+    ...(liveResults.nfc.championship ? [liveResults.nfc.championship] : []),
+    ...(liveResults.superBowl ? [liveResults.superBowl] : []),
+  ];
+
+  return (
+    allResults.find(
+      (r) =>
+        (r.homeTeamId === homeTeamId && r.awayTeamId === awayTeamId) ||
+        (r.homeTeamId === awayTeamId && r.awayTeamId === homeTeamId),
+    ) ?? null
+  );
+}
+
+/**
+ * Get all games with live data for Live Games view
+ */
+export function getLiveGames(bracket: BracketState): LiveGameInfo[] {
+  const { liveResults } = bracket;
+  if (!liveResults) return [];
+
+  const games: LiveGameInfo[] = [];
+
+  // Helper to find matchup by teams
+  const findMatchupByTeams = (
+    matchups: typeof bracket.afc.wildCard,
+    liveResult: LiveMatchupResult,
+  ) => {
+    return matchups.find(
+      (m) =>
+        m.homeTeam &&
+        m.awayTeam &&
+        ((m.homeTeam.id === liveResult.homeTeamId && m.awayTeam.id === liveResult.awayTeamId) ||
+          (m.homeTeam.id === liveResult.awayTeamId && m.awayTeam.id === liveResult.homeTeamId)),
+    );
+  };
+
+  // AFC Wild Card
+  for (const lr of liveResults.afc.wildCard) {
+    const matchup = findMatchupByTeams(bracket.afc.wildCard, lr);
+    if (matchup) {
+      games.push({
+        matchup,
+        liveResult: lr,
+        conference: "AFC",
+        round: "wildCard",
+      });
+    }
+  }
+
+  // NFC Wild Card
+  for (const lr of liveResults.nfc.wildCard) {
+    const matchup = findMatchupByTeams(bracket.nfc.wildCard, lr);
+    if (matchup) {
+      games.push({
+        matchup,
+        liveResult: lr,
+        conference: "NFC",
+        round: "wildCard",
+      });
+    }
+  }
+
+  // AFC Divisional
+  for (const lr of liveResults.afc.divisional) {
+    const matchup = findMatchupByTeams(bracket.afc.divisional, lr);
+    if (matchup) {
+      games.push({
+        matchup,
+        liveResult: lr,
+        conference: "AFC",
+        round: "divisional",
+      });
+    }
+  }
+
+  // NFC Divisional
+  for (const lr of liveResults.nfc.divisional) {
+    const matchup = findMatchupByTeams(bracket.nfc.divisional, lr);
+    if (matchup) {
+      games.push({
+        matchup,
+        liveResult: lr,
+        conference: "NFC",
+        round: "divisional",
+      });
+    }
+  }
+
+  // AFC Championship - show even if bracket teams don't match
+  if (liveResults.afc.championship && bracket.afc.championship) {
+    const lr = liveResults.afc.championship;
+    const matchup = bracket.afc.championship;
+    const teamsMatch =
+      matchup.homeTeam &&
+      matchup.awayTeam &&
+      ((matchup.homeTeam.id === lr.homeTeamId && matchup.awayTeam.id === lr.awayTeamId) ||
+        (matchup.homeTeam.id === lr.awayTeamId && matchup.awayTeam.id === lr.homeTeamId));
+
+    if (teamsMatch) {
+      games.push({
+        matchup,
+        liveResult: lr,
+        conference: "AFC",
+        round: "conference",
+      });
+    } else {
+      const homeTeam = findTeamById(lr.homeTeamId, bracket.season);
+      const awayTeam = findTeamById(lr.awayTeamId, bracket.season);
+      if (homeTeam && awayTeam) {
+        games.push({
+          matchup: { ...matchup, homeTeam, awayTeam },
+          liveResult: lr,
+          conference: "AFC",
+          round: "conference",
+        });
+      }
+    }
+  }
+
+  // NFC Championship - show even if bracket teams don't match
+  if (liveResults.nfc.championship && bracket.nfc.championship) {
+    const lr = liveResults.nfc.championship;
+    const matchup = bracket.nfc.championship;
+    const teamsMatch =
+      matchup.homeTeam &&
+      matchup.awayTeam &&
+      ((matchup.homeTeam.id === lr.homeTeamId && matchup.awayTeam.id === lr.awayTeamId) ||
+        (matchup.homeTeam.id === lr.awayTeamId && matchup.awayTeam.id === lr.homeTeamId));
+
+    if (teamsMatch) {
+      games.push({
+        matchup,
+        liveResult: lr,
+        conference: "NFC",
+        round: "conference",
+      });
+    } else {
+      const homeTeam = findTeamById(lr.homeTeamId, bracket.season);
+      const awayTeam = findTeamById(lr.awayTeamId, bracket.season);
+      if (homeTeam && awayTeam) {
+        games.push({
+          matchup: { ...matchup, homeTeam, awayTeam },
+          liveResult: lr,
+          conference: "NFC",
+          round: "conference",
+        });
+      }
+    }
+  }
+
+  // Super Bowl - always show if live data exists, even if bracket teams don't match
+  if (liveResults.superBowl && bracket.superBowl) {
+    const lr = liveResults.superBowl;
+    const matchup = bracket.superBowl;
+    const teamsMatch =
+      matchup.homeTeam &&
+      matchup.awayTeam &&
+      ((matchup.homeTeam.id === lr.homeTeamId && matchup.awayTeam.id === lr.awayTeamId) ||
+        (matchup.homeTeam.id === lr.awayTeamId && matchup.awayTeam.id === lr.homeTeamId));
+
+    if (teamsMatch) {
+      games.push({
+        matchup,
+        liveResult: lr,
+        conference: "superBowl",
+        round: "superBowl",
+      });
+    } else {
+      // Bracket teams don't match or are null - populate from live data
+      const homeTeam = findTeamById(lr.homeTeamId, bracket.season);
+      const awayTeam = findTeamById(lr.awayTeamId, bracket.season);
+      if (homeTeam && awayTeam) {
+        games.push({
+          matchup: {
+            ...matchup,
+            homeTeam,
+            awayTeam,
+          },
+          liveResult: lr,
+          conference: "superBowl",
+          round: "superBowl",
+        });
+      }
+    }
+  }
+
+  // Sort: in-progress first, then completed, then by round
+  const roundOrder: Record<string, number> = {
+    superBowl: 0,
+    conference: 1,
+    divisional: 2,
+    wildCard: 3,
+  };
+
+  return games.sort((a, b) => {
+    // In-progress games first
+    if (a.liveResult.isInProgress && !b.liveResult.isInProgress) return -1;
+    if (!a.liveResult.isInProgress && b.liveResult.isInProgress) return 1;
+    // Then by round (higher rounds first)
+    return roundOrder[a.round] - roundOrder[b.round];
+  });
+}
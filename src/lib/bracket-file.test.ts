@@ -0,0 +1,133 @@
+import { describe, expect, it } from "bun:test";
+import {
+  BRACKET_FILE_VERSION,
+  createBracketExport,
+  parseBracketExport,
+  resolveImportedBrackets,
+} from "@/lib/bracket-file";
+import { bracketReducer } from "@/lib/bracket-engine";
+import { createInitialBracket } from "@/lib/playoff-rules";
+import type { BracketState, SavedBracket } from "@/types";
+
+function toSaved(state: BracketState): SavedBracket {
+  return {
+    id: state.id,
+    schemaVersion: state.schemaVersion,
+    name: state.name,
+    userName: state.userName,
+    createdAt: state.createdAt,
+    updatedAt: state.updatedAt,
+    state,
+  };
+}
+
+function savedBracket(name: string, season = 2025): SavedBracket {
+  const initial = { ...createInitialBracket("Sam", season), name };
+  const [first] = initial.afc.wildCard;
+  return toSaved(
+    bracketReducer(initial, {
+      type: "SELECT_WINNER",
+      matchupId: first.id,
+      winner: first.awayTeam!,
+    }),
+  );
+}
+
+function exportText(brackets: SavedBracket[]): string {
+  return JSON.stringify(createBracketExport(brackets));
+}
+
+describe("bracket export files", () => {
+  it("round-trips saved brackets without their live results", () => {
+    const saved = savedBracket("Chalk", 2019);
+    const withResults = { ...saved, state: { ...saved.state, liveResults: {} as never } };
+    const [imported] = parseBracketExport(exportText([withResults]));
+
+    expect(imported.id).toBe(saved.id);
+    expect(imported.name).toBe("Chalk");
+    expect(imported.state.season).toBe(2019);
+    expect(imported.state.afc.wildCard[0].winner?.id).toBe(saved.state.afc.wildCard[0].winner?.id);
+    expect(imported.state.afc.divisional).toEqual(saved.state.afc.divisional);
+    expect(imported.state.liveResults).toBeNull();
+  });
+
+  it("rejects files that aren't bracket exports", () => {
+    expect(() => parseBracketExport("{not json")).toThrow("isn't valid JSON");
+    expect(() => parseBracketExport(JSON.stringify({ brackets: [] }))).toThrow(
+      "isn't an NFL bracket export",
+    );
+
+    const file = createBracketExport([savedBracket("Next")]);
+    expect(() =>
+      parseBracketExport(JSON.stringify({ ...file, version: BRACKET_FILE_VERSION + 1 })),
+    ).toThrow("newer version");
+    expect(() => parseBracketExport(JSON.stringify({ ...file, brackets: [] }))).toThrow(
+      "no brackets",
+    );
+  });
+
+  it("points at the first malformed field", () => {
+    const file = createBracketExport([savedBracket("Broken")]);
+    const state = file.brackets[0].state;
+
+    const wrongWinner = structuredClone(file);
+    wrongWinner.brackets[0].state.afc.wildCard[0].winner = state.nfc.wildCard[0].homeTeam;
+    expect(() => parseBracketExport(JSON.stringify(wrongWinner))).toThrow(
+      "brackets[0].state.afc.wildCard[0].winner",
+    );
+
+    const missingGame = structuredClone(file);
+    missingGame.brackets[0].state.nfc.wildCard.pop();
+    expect(() => parseBracketExport(JSON.stringify(missingGame))).toThrow(
+      "brackets[0].state.nfc.wildCard must list 3 matchups",
+    );
+
+    const unknownSeason = structuredClone(file);
+    unknownSeason.brackets[0].state.season = 1970;
+    expect(() => parseBracketExport(JSON.stringify(unknownSeason))).toThrow(
+      "brackets[0].state.season",
+    );
+  });
+
+  it("rejects later rounds that don't follow from the earlier picks", () => {
+    const file = createBracketExport([savedBracket("Forged")]);
+    const state = file.brackets[0].state;
+    // The wild card loser turns up in the divisional round anyway
+    const [first] = state.afc.wildCard;
+    state.afc.divisional[0] = {
+      ...state.afc.divisional[0],
+      awayTeam: first.homeTeam,
+      winner: first.homeTeam,
+    };
+
+    expect(() => parseBracketExport(JSON.stringify(file))).toThrow(
+      "brackets[0].state.afc.divisional[0] doesn't follow from the earlier picks",
+    );
+  });
+
+  it("rebuilds teams from our own team data", () => {
+    const file = createBracketExport([savedBracket("Logos")]);
+    file.brackets[0].state.afc.wildCard[0].homeTeam!.logoUrl = "https://example.com/evil.png";
+    const [imported] = parseBracketExport(JSON.stringify(file));
+
+    expect(imported.state.afc.wildCard[0].homeTeam?.logoUrl).not.toContain("example.com");
+  });
+});
+
+describe("resolveImportedBrackets", () => {
+  it("skips brackets already saved and copies ones whose id is taken", () => {
+    const same = savedBracket("Same");
+    const clash = savedBracket("Mine");
+    const theirs = { ...savedBracket("Theirs"), id: clash.id };
+    const fresh = savedBracket("Fresh");
+
+    const result = resolveImportedBrackets([same, theirs, fresh], [same, clash]);
+
+    expect(result.skipped).toBe(1);
+    expect(result.copied).toBe(1);
+    expect(result.added.map((b) => b.name)).toEqual(["Theirs", "Fresh"]);
+    expect(result.added[0].id).not.toBe(clash.id);
+    expect(result.added[0].state.id).toBe(result.added[0].id);
+    expect(result.added[1].id).toBe(fresh.id);
+  });
+});
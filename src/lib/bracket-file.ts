@@ -0,0 +1,379 @@
+import { nanoid } from "nanoid";
+import { getSeasonFormat, hasSeasonSeeds, isKnownSeason } from "@/data/seasons";
+import { NFL_TEAMS } from "@/data/teams";
+import { getAllMatchups, replayPicks } from "@/lib/bracket-engine";
+import { BRACKET_SCHEMA_VERSION, migrateBracket } from "@/lib/migrations";
+import { createInitialBracket, isBracketComplete } from "@/lib/playoff-rules";
+import type {
+  BracketExportFile,
+  BracketImportResult,
+  BracketState,
+  Conference,
+  Matchup,
+  RoundLockState,
+  SavedBracket,
+  SeededTeam,
+} from "@/types";
+
+export const BRACKET_FILE_FORMAT = "nfl-bracket-export";
+export const BRACKET_FILE_VERSION = 1;
+
+// Way more than any real export; anything bigger isn't one of ours
+export const MAX_BRACKET_FILE_BYTES = 1024 * 1024;
+
+/**
+ * An export file that can't be imported; the message is shown to the user
+ */
+export class BracketFileError extends Error {
+  // What's wrong without the "Invalid bracket file" framing, for brackets that didn't come from a file
+  readonly problem: string;
+
+  constructor(message: string, problem: string = message) {
+    super(message);
+    this.name = "BracketFileError";
+    this.problem = problem;
+  }
+}
+
+function invalid(path: string, problem: string): never {
+  throw new BracketFileError(`Invalid bracket file: ${path} ${problem}`, `${path} ${problem}`);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readRecord(value: unknown, path: string): Record<string, unknown> {
+  if (!isRecord(value)) invalid(path, "must be an object");
+  return value;
+}
+
+function readString(value: unknown, path: string): string {
+  if (typeof value !== "string") invalid(path, "must be a string");
+  return value;
+}
+
+function readTimestamp(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    invalid(path, "must be a timestamp");
+  }
+  return value;
+}
+
+function readBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== "boolean") invalid(path, "must be true or false");
+  return value;
+}
+
+/**
+ * Teams are rebuilt from our own team data, so only the id and seed are trusted
+ */
+function readTeam(
+  value: unknown,
+  path: string,
+  conference: Conference | "superBowl",
+  seedsPerConference: number,
+): SeededTeam | null {
+  if (value === null) return null;
+  const team = readRecord(value, path);
+  const id = readString(team.id, `${path}.id`);
+  const known = NFL_TEAMS[id];
+  if (!known) invalid(`${path}.id`, `"${id}" is not an NFL team`);
+  if (conference !== "superBowl" && known.conference !== conference) {
+    invalid(`${path}.id`, `"${id}" is not in the ${conference}`);
+  }
+  const { seed } = team;
+  if (
+    typeof seed !== "number" ||
+    !Number.isInteger(seed) ||
+    seed < 1 ||
+    seed > seedsPerConference
+  ) {
+    invalid(`${path}.seed`, `must be a seed from 1 to ${seedsPerConference}`);
+  }
+  return { ...known, seed };
+}
+
+function isSameTeam(a: SeededTeam | null, b: SeededTeam | null): boolean {
+  return a?.id === b?.id && a?.seed === b?.seed;
+}
+
+/**
+ * Check a matchup against the one the season's format puts in the same slot
+ */
+function readMatchup(
+  value: unknown,
+  path: string,
+  expected: Matchup,
+  seedsPerConference: number,
+): Matchup {
+  const matchup = readRecord(value, path);
+  if (matchup.id !== expected.id) invalid(`${path}.id`, `must be "${expected.id}"`);
+
+  const readSlot = (key: "homeTeam" | "awayTeam" | "winner") =>
+    readTeam(matchup[key], `${path}.${key}`, expected.conference, seedsPerConference);
+  const homeTeam = readSlot("homeTeam");
+  const awayTeam = readSlot("awayTeam");
+  const winner = readSlot("winner");
+  if (winner && !isSameTeam(winner, winner.id === homeTeam?.id ? homeTeam : awayTeam)) {
+    invalid(`${path}.winner`, "must be one of the matchup's teams");
+  }
+
+  return { ...expected, homeTeam, awayTeam, winner };
+}
+
+function readMatchupList(
+  value: unknown,
+  path: string,
+  expected: Matchup[],
+  seedsPerConference: number,
+): Matchup[] {
+  if (!Array.isArray(value) || value.length !== expected.length) {
+    invalid(path, `must list ${expected.length} matchups`);
+  }
+  return value.map((m, i) => readMatchup(m, `${path}[${i}]`, expected[i], seedsPerConference));
+}
+
+function readConference(
+  value: unknown,
+  path: string,
+  expected: BracketState["afc"],
+  seedsPerConference: number,
+): BracketState["afc"] {
+  const conf = readRecord(value, path);
+  return {
+    wildCard: readMatchupList(
+      conf.wildCard,
+      `${path}.wildCard`,
+      expected.wildCard,
+      seedsPerConference,
+    ),
+    divisional: readMatchupList(
+      conf.divisional,
+      `${path}.divisional`,
+      expected.divisional,
+      seedsPerConference,
+    ),
+    championship: readMatchup(
+      conf.championship,
+      `${path}.championship`,
+      expected.championship!,
+      seedsPerConference,
+    ),
+  };
+}
+
+function readLockedRounds(value: unknown, path: string): RoundLockState {
+  const locks = readRecord(value, path);
+  return {
+    wildCard: readBoolean(locks.wildCard, `${path}.wildCard`),
+    divisional: readBoolean(locks.divisional, `${path}.divisional`),
+    conference: readBoolean(locks.conference, `${path}.conference`),
+    superBowl: readBoolean(locks.superBowl, `${path}.superBowl`),
+  };
+}
+
+// Where a matchup sits in a bracket, e.g. "afc.divisional[1]"
+function getMatchupPath(matchup: Matchup): string {
+  if (matchup.conference === "superBowl") return "superBowl";
+  const conference = matchup.conference.toLowerCase();
+  if (matchup.round === "conference") return `${conference}.championship`;
+  return `${conference}.${matchup.round}[${matchup.gameNumber - 1}]`;
+}
+
+/**
+ * Check that every game is the one the season's seeds and the bracket's own
+ * earlier picks lead to, so a team can't turn up in a round after losing. The
+ * season's seeds must be known. Throws BracketFileError at the first that isn't.
+ */
+export function checkBracketPicks(bracket: BracketState, path: string): void {
+  const replayed = getAllMatchups(replayPicks(bracket));
+  getAllMatchups(bracket).forEach((matchup, i) => {
+    const expected = replayed[i];
+    if (
+      !isSameTeam(matchup.homeTeam, expected.homeTeam) ||
+      !isSameTeam(matchup.awayTeam, expected.awayTeam) ||
+      !isSameTeam(matchup.winner, expected.winner)
+    ) {
+      invalid(`${path}.${getMatchupPath(matchup)}`, "doesn't follow from the earlier picks");
+    }
+  });
+}
+
+/**
+ * Check a bracket from outside the app field by field and rebuild it from
+ * known teams. Throws BracketFileError naming the first thing that's wrong.
+ */
+export function readBracketState(value: unknown, path: string): BracketState {
+  const raw = readRecord(value, path);
+  const schemaVersion = raw.schemaVersion ?? 0;
+  if (typeof schemaVersion !== "number" || !Number.isInteger(schemaVersion)) {
+    invalid(`${path}.schemaVersion`, "must be a whole number");
+  }
+  if (schemaVersion > BRACKET_SCHEMA_VERSION) {
+    throw new BracketFileError("This file was exported by a newer version of the app");
+  }
+  // Brackets exported by older versions are upgraded before they're checked
+  const state = readRecord(migrateBracket(raw as unknown as BracketState), path);
+  const { season } = state;
+  if (typeof season !== "number" || !isKnownSeason(season)) {
+    invalid(`${path}.season`, "must be a season this app knows about");
+  }
+  const subtitle = state.subtitle === null ? null : readString(state.subtitle, `${path}.subtitle`);
+  const id = readString(state.id, `${path}.id`);
+  if (!id) invalid(`${path}.id`, "must not be empty");
+
+  // The season's format decides which matchups the bracket must have
+  const template = createInitialBracket("", season);
+  const { seedsPerConference } = getSeasonFormat(season);
+
+  const bracket: BracketState = {
+    id,
+    schemaVersion: BRACKET_SCHEMA_VERSION,
+    name: readString(state.name, `${path}.name`),
+    subtitle,
+    userName: readString(state.userName, `${path}.userName`),
+    season,
+    afc: readConference(state.afc, `${path}.afc`, template.afc, seedsPerConference),
+    nfc: readConference(state.nfc, `${path}.nfc`, template.nfc, seedsPerConference),
+    superBowl: readMatchup(
+      state.superBowl,
+      `${path}.superBowl`,
+      template.superBowl!,
+      seedsPerConference,
+    ),
+    createdAt: readTimestamp(state.createdAt, `${path}.createdAt`),
+    updatedAt: readTimestamp(state.updatedAt, `${path}.updatedAt`),
+    isComplete: false,
+    lockedRounds: readLockedRounds(state.lockedRounds, `${path}.lockedRounds`),
+    liveResults: null,
+    contestMode: readBoolean(state.contestMode, `${path}.contestMode`),
+  };
+  // A season still being played has no field to replay until its standings load;
+  // pool entries are checked again on the server once they have
+  if (hasSeasonSeeds(season)) checkBracketPicks(bracket, path);
+  return { ...bracket, isComplete: isBracketComplete(bracket) };
+}
+
+/**
+ * Check a saved bracket from outside the app, as readBracketState does
+ */
+export function readSavedBracket(value: unknown, path: string): SavedBracket {
+  const saved = readRecord(value, path);
+  const state = readBracketState(saved.state, `${path}.state`);
+  if (saved.id !== state.id) invalid(`${path}.id`, "must match the bracket's id");
+  return {
+    id: state.id,
+    schemaVersion: BRACKET_SCHEMA_VERSION,
+    name: readString(saved.name, `${path}.name`),
+    userName: readString(saved.userName, `${path}.userName`),
+    createdAt: readTimestamp(saved.createdAt, `${path}.createdAt`),
+    updatedAt: readTimestamp(saved.updatedAt, `${path}.updatedAt`),
+    state,
+  };
+}
+
+/**
+ * Build an export file for some saved brackets. Cached live results are left
+ * out; they're refetched after import.
+ */
+export function createBracketExport(
+  brackets: SavedBracket[],
+  now: number = Date.now(),
+): BracketExportFile {
+  return {
+    format: BRACKET_FILE_FORMAT,
+    version: BRACKET_FILE_VERSION,
+    exportedAt: now,
+    brackets: brackets.map((saved) => ({
+      ...saved,
+      schemaVersion: BRACKET_SCHEMA_VERSION,
+      state: { ...migrateBracket(saved.state), liveResults: null },
+    })),
+  };
+}
+
+/**
+ * File name for an export, e.g. "nfl-bracket-upset-city.json" or "nfl-brackets-2026-01-10.json"
+ */
+export function getExportFileName(brackets: SavedBracket[], now: number = Date.now()): string {
+  if (brackets.length === 1) {
+    const slug = brackets[0].name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "");
+    return `nfl-bracket-${slug || brackets[0].id}.json`;
+  }
+  return `nfl-brackets-${new Date(now).toISOString().slice(0, 10)}.json`;
+}
+
+/**
+ * Parse and validate the contents of an export file. Throws a BracketFileError
+ * saying what's wrong if it isn't a bracket export this version can read.
+ */
+export function parseBracketExport(text: string): SavedBracket[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BracketFileError("This file isn't valid JSON");
+  }
+
+  if (!isRecord(data) || data.format !== BRACKET_FILE_FORMAT) {
+    throw new BracketFileError("This file isn't an NFL bracket export");
+  }
+  if (typeof data.version !== "number" || !Number.isInteger(data.version) || data.version < 1) {
+    invalid("version", "must be a positive whole number");
+  }
+  if (data.version > BRACKET_FILE_VERSION) {
+    throw new BracketFileError("This file was exported by a newer version of the app");
+  }
+  if (!Array.isArray(data.brackets)) invalid("brackets", "must be a list");
+  if (data.brackets.length === 0) throw new BracketFileError("This file has no brackets in it");
+
+  return data.brackets.map((saved, i) => readSavedBracket(saved, `brackets[${i}]`));
+}
+
+function getPickIds(bracket: BracketState): (string | null)[] {
+  return getAllMatchups(bracket).map((m) => m.winner?.id ?? null);
+}
+
+function isSameBracket(a: SavedBracket, b: SavedBracket): boolean {
+  return (
+    a.name === b.name &&
+    a.state.season === b.state.season &&
+    getPickIds(a.state).join() === getPickIds(b.state).join()
+  );
+}
+
+/**
+ * Work out which imported brackets to store alongside the existing ones.
+ * A bracket already saved with the same picks is skipped; one whose id is taken
+ * by a different bracket is kept as a copy with a new id, so nothing is overwritten.
+ */
+export function resolveImportedBrackets(
+  imported: SavedBracket[],
+  existing: SavedBracket[],
+): BracketImportResult {
+  const known = [...existing];
+  const result: BracketImportResult = { added: [], copied: 0, skipped: 0 };
+
+  for (const saved of imported) {
+    const match = known.find((b) => b.id === saved.id);
+    if (match && isSameBracket(match, saved)) {
+      result.skipped++;
+      continue;
+    }
+
+    let bracket = saved;
+    if (match) {
+      const id = nanoid();
+      bracket = { ...saved, id, state: { ...saved.state, id } };
+      result.copied++;
+    }
+    known.push(bracket);
+    result.added.push(bracket);
+  }
+
+  return result;
+}
@@ -0,0 +1,66 @@
+import {
+  createFileJsonStore,
+  createMemoryJsonStore,
+  getConfiguredJsonStore,
+  type JsonStore,
+} from "@/lib/json-store";
+import type { SyncedBracket } from "@/types";
+
+/**
+ * Persistence for synced brackets, keyed by account; route handlers only talk to this interface
+ */
+export interface BracketStore {
+  // Every bracket of an account, deletions included
+  listBrackets(accountId: string): Promise<SyncedBracket[]>;
+  getBracket(accountId: string, id: string): Promise<SyncedBracket | null>;
+  // Adds the bracket, or replaces the one with the same id
+  putBracket(accountId: string, bracket: SyncedBracket): Promise<void>;
+}
+
+type BracketData = Record<string, SyncedBracket[]>;
+
+function emptyData(): BracketData {
+  return {};
+}
+
+function createBracketStore(json: JsonStore<BracketData>): BracketStore {
+  return {
+    async listBrackets(accountId) {
+      const data = await json.read();
+      return data[accountId] ?? [];
+    },
+    async getBracket(accountId, id) {
+      const data = await json.read();
+      return data[accountId]?.find((b) => b.id === id) ?? null;
+    },
+    putBracket(accountId, bracket) {
+      return json.update((data) => {
+        const brackets = (data[accountId] ??= []);
+        const index = brackets.findIndex((b) => b.id === bracket.id);
+        if (index === -1) brackets.push(bracket);
+        else brackets[index] = bracket;
+      });
+    },
+  };
+}
+
+export function createMemoryBracketStore(): BracketStore {
+  return createBracketStore(createMemoryJsonStore(emptyData));
+}
+
+export function createFileBracketStore(filePath: string): BracketStore {
+  return createBracketStore(createFileJsonStore(filePath, emptyData));
+}
+
+let bracketStore: BracketStore | null = null;
+
+/**
+ * The store used by the bracket sync routes (BRACKET_STORE=memory keeps nothing
+ * on disk, BRACKET_STORE_PATH moves the file from .data/brackets.json)
+ */
+export function getBracketStore(): BracketStore {
+  bracketStore ??= createBracketStore(
+    getConfiguredJsonStore("BRACKET_STORE", "brackets.json", emptyData),
+  );
+  return bracketStore;
+}
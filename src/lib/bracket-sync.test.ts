@@ -0,0 +1,159 @@
+import { describe, expect, it } from "bun:test";
+import { createMemoryBracketStore } from "@/lib/bracket-store";
+import {
+  createSyncedBracket,
+  deleteSyncedBracket,
+  generateSyncPassphrase,
+  getAccountId,
+  mergeSyncedBrackets,
+  saveSyncedBracket,
+  SyncConflictError,
+  SyncError,
+} from "@/lib/bracket-sync";
+import { createInitialBracket } from "@/lib/playoff-rules";
+import type { SavedBracket, SyncedBracket } from "@/types";
+
+function savedBracket(name: string, updatedAt: number, id = name): SavedBracket {
+  const state = { ...createInitialBracket("Sam", 2025), id, name, updatedAt };
+  return {
+    id,
+    schemaVersion: state.schemaVersion,
+    name,
+    userName: "Sam",
+    createdAt: 1,
+    updatedAt,
+    state,
+  };
+}
+
+function synced(bracket: SavedBracket): SyncedBracket {
+  return { id: bracket.id, updatedAt: bracket.updatedAt, bracket };
+}
+
+async function expectSyncError(promise: Promise<unknown>, status: number) {
+  const error = await promise.catch((e: unknown) => e);
+  expect(error).toBeInstanceOf(SyncError);
+  expect((error as SyncError).status).toBe(status);
+  return error;
+}
+
+describe("sync accounts", () => {
+  it("opens the same account whatever the passphrase's case or dashes", async () => {
+    const passphrase = generateSyncPassphrase();
+    expect(passphrase).toMatch(/^([2-9A-HJ-NP-Z]{4}-){3}[2-9A-HJ-NP-Z]{4}$/);
+
+    const accountId = await getAccountId(passphrase);
+    expect(accountId).toMatch(/^[0-9a-f]{64}$/);
+    expect(await getAccountId(passphrase.replace(/-/g, " ").toLowerCase())).toBe(accountId);
+    expect(await getAccountId(generateSyncPassphrase())).not.toBe(accountId);
+  });
+
+  it("rejects missing or short passphrases", async () => {
+    await expectSyncError(getAccountId(undefined), 401);
+    await expectSyncError(getAccountId("ABCD-EFGH"), 401);
+  });
+});
+
+describe("synced brackets", () => {
+  it("keeps the last write and turns down older ones", async () => {
+    const store = createMemoryBracketStore();
+    const first = await createSyncedBracket(store, "acct", savedBracket("Mine", 100));
+    expect(first.bracket?.state.liveResults).toBeNull();
+
+    await saveSyncedBracket(store, "acct", "Mine", savedBracket("Mine", 300));
+    const stale = await expectSyncError(
+      saveSyncedBracket(store, "acct", "Mine", savedBracket("Mine", 200)),
+      409,
+    );
+    expect((stale as SyncConflictError).current.updatedAt).toBe(300);
+
+    // Accounts don't see each other's brackets
+    expect(await store.listBrackets("other")).toEqual([]);
+    await expectSyncError(createSyncedBracket(store, "acct", savedBracket("Mine", 400)), 409);
+  });
+
+  it("keeps deletions so older copies don't come back", async () => {
+    const store = createMemoryBracketStore();
+    await saveSyncedBracket(store, "acct", "Mine", savedBracket("Mine", 100));
+    await deleteSyncedBracket(store, "acct", "Mine", 200);
+
+    await expectSyncError(saveSyncedBracket(store, "acct", "Mine", savedBracket("Mine", 150)), 409);
+    expect(await store.getBracket("acct", "Mine")).toEqual({
+      id: "Mine",
+      updatedAt: 200,
+      bracket: null,
+    });
+
+    // Saving again after the deletion brings it back
+    await saveSyncedBracket(store, "acct", "Mine", savedBracket("Mine", 250));
+    expect((await store.getBracket("acct", "Mine"))?.bracket?.updatedAt).toBe(250);
+  });
+
+  it("rejects brackets that don't match the URL or aren't brackets", async () => {
+    const store = createMemoryBracketStore();
+    await expectSyncError(saveSyncedBracket(store, "acct", "Other", savedBracket("Mine", 1)), 400);
+    await expectSyncError(saveSyncedBracket(store, "acct", "Mine", { id: "Mine" }), 400);
+
+    const fakeTeam = savedBracket("Mine", 1);
+    fakeTeam.state.afc.wildCard[0].homeTeam = {
+      ...fakeTeam.state.afc.wildCard[0].homeTeam!,
+      seed: 99,
+    };
+    await expectSyncError(saveSyncedBracket(store, "acct", "Mine", fakeTeam), 400);
+  });
+
+  it("stores only the fields a saved bracket has", async () => {
+    const store = createMemoryBracketStore();
+    const saved = savedBracket("Mine", 1);
+    const padded = {
+      ...saved,
+      extra: "x".repeat(1000),
+      state: { ...saved.state, notes: "hidden" },
+    };
+
+    const { bracket } = await saveSyncedBracket(store, "acct", "Mine", padded);
+    expect(bracket).not.toHaveProperty("extra");
+    expect(bracket?.state).not.toHaveProperty("notes");
+    expect((await store.getBracket("acct", "Mine"))?.bracket).toEqual(bracket);
+  });
+});
+
+describe("mergeSyncedBrackets", () => {
+  it("takes whichever side wrote last", () => {
+    const localNewer = savedBracket("A", 200);
+    const remoteNewer = savedBracket("B", 300);
+    const { brackets, uploads, pulled } = mergeSyncedBrackets(
+      [localNewer, savedBracket("B", 100), savedBracket("Local Only", 50)],
+      {},
+      [
+        synced(savedBracket("A", 100)),
+        synced(remoteNewer),
+        synced(savedBracket("Remote Only", 60)),
+      ],
+    );
+
+    expect(brackets.map((b) => [b.id, b.updatedAt])).toEqual([
+      ["A", 200],
+      ["B", 300],
+      ["Local Only", 50],
+      ["Remote Only", 60],
+    ]);
+    expect(uploads.map((u) => u.id)).toEqual(["A", "Local Only"]);
+    expect(pulled).toBe(2);
+  });
+
+  it("applies deletions from either side by time", () => {
+    const { brackets, uploads } = mergeSyncedBrackets(
+      [savedBracket("Deleted There", 100)],
+      { "Deleted Here": 500, "Saved Again There": 100 },
+      [
+        synced(savedBracket("Deleted Here", 400)),
+        { id: "Deleted There", updatedAt: 200, bracket: null },
+        synced(savedBracket("Saved Again There", 300)),
+      ],
+    );
+
+    expect(brackets.map((b) => b.id)).toEqual(["Saved Again There"]);
+    expect(uploads).toEqual([{ id: "Deleted Here", updatedAt: 500, bracket: null }]);
+  });
+});
@@ -0,0 +1,211 @@
+import { customAlphabet } from "nanoid";
+import { BracketFileError, readSavedBracket } from "@/lib/bracket-file";
+import type { BracketStore } from "@/lib/bracket-store";
+import type { SavedBracket, SyncedBracket } from "@/types";
+
+/**
+ * Cross-device sync of saved brackets. There are no user accounts: a sync
+ * passphrase is the account, and the server only ever sees its hash as the
+ * account id. Every copy of a bracket carries `updatedAt`, and the newest
+ * write wins, deletions included.
+ */
+
+// Passphrases skip 0/O and 1/I so they survive being copied by hand
+const PASSPHRASE_ALPHABET = "23456789ABCDEFGHJKLMNPQRSTUVWXYZ";
+const generatePassphraseChars = customAlphabet(PASSPHRASE_ALPHABET, 16);
+const MIN_PASSPHRASE_LENGTH = 12;
+
+// A saved bracket is a few kilobytes; the sync routes refuse bodies past this
+export const MAX_SYNCED_BRACKET_BYTES = 64 * 1024;
+
+/**
+ * A sync request that can't be carried out, with the HTTP status to answer with
+ */
+export class SyncError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "SyncError";
+    this.status = status;
+  }
+}
+
+/**
+ * A write turned down because the server's copy is newer; `current` is that copy
+ */
+export class SyncConflictError extends SyncError {
+  readonly current: SyncedBracket;
+
+  constructor(current: SyncedBracket) {
+    super("A newer copy of this bracket is already saved", 409);
+    this.name = "SyncConflictError";
+    this.current = current;
+  }
+}
+
+/**
+ * A new passphrase in groups of four, e.g. "7KQD-M2XA-PW9C-HT4E"
+ */
+export function generateSyncPassphrase(): string {
+  return generatePassphraseChars().match(/.{4}/g)!.join("-");
+}
+
+/**
+ * Passphrases are compared without case, spaces or dashes
+ */
+export function normalizeSyncPassphrase(value: unknown): string {
+  return typeof value === "string" ? value.replace(/[\s-]/g, "").toUpperCase() : "";
+}
+
+export function isValidSyncPassphrase(value: unknown): boolean {
+  return normalizeSyncPassphrase(value).length >= MIN_PASSPHRASE_LENGTH;
+}
+
+/**
+ * The account a passphrase opens: a SHA-256 hash, so the store never holds passphrases
+ */
+export async function getAccountId(passphrase: unknown): Promise<string> {
+  if (!isValidSyncPassphrase(passphrase)) {
+    throw new SyncError(
+      `A sync passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters is required`,
+      401,
+    );
+  }
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(`nfl-bracket:${normalizeSyncPassphrase(passphrase)}`),
+  );
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * The account of a request, from its `Authorization: Bearer <passphrase>` header
+ */
+export function getRequestAccountId(request: Request): Promise<string> {
+  const header = request.headers.get("authorization") ?? "";
+  return getAccountId(header.replace(/^Bearer\s+/i, ""));
+}
+
+/**
+ * Check a bracket from a client the way an imported file is checked, which
+ * rebuilds it from known teams and drops anything it doesn't know, cached
+ * live results included (each device fetches its own)
+ */
+function readSyncedBracket(id: string, value: unknown): SavedBracket {
+  let saved: SavedBracket;
+  try {
+    saved = readSavedBracket(value, "bracket");
+  } catch (error) {
+    if (error instanceof BracketFileError) {
+      throw new SyncError(`Invalid bracket: ${error.problem}`, 400);
+    }
+    throw error;
+  }
+  if (saved.id !== id) throw new SyncError("Bracket id doesn't match the URL", 400);
+  return saved;
+}
+
+/**
+ * Store a write unless the server already has a newer copy (equal timestamps
+ * are the same write retried, so they go through)
+ */
+async function writeBracket(
+  store: BracketStore,
+  accountId: string,
+  next: SyncedBracket,
+): Promise<SyncedBracket> {
+  const current = await store.getBracket(accountId, next.id);
+  if (current && current.updatedAt > next.updatedAt) throw new SyncConflictError(current);
+  await store.putBracket(accountId, next);
+  return next;
+}
+
+/**
+ * Add a bracket that the server doesn't have yet
+ */
+export async function createSyncedBracket(
+  store: BracketStore,
+  accountId: string,
+  input: unknown,
+): Promise<SyncedBracket> {
+  const id = (input as SavedBracket | null)?.id;
+  if (typeof id !== "string" || !id) throw new SyncError("Bracket id is required", 400);
+  const bracket = readSyncedBracket(id, input);
+
+  const current = await store.getBracket(accountId, id);
+  if (current?.bracket) throw new SyncConflictError(current);
+  return writeBracket(store, accountId, { id, updatedAt: bracket.updatedAt, bracket });
+}
+
+/**
+ * Create or replace a bracket, last write wins
+ */
+export async function saveSyncedBracket(
+  store: BracketStore,
+  accountId: string,
+  id: string,
+  input: unknown,
+): Promise<SyncedBracket> {
+  const bracket = readSyncedBracket(id, input);
+  return writeBracket(store, accountId, { id, updatedAt: bracket.updatedAt, bracket });
+}
+
+/**
+ * Delete a bracket as of `deletedAt`, unless it was saved again after that
+ */
+export async function deleteSyncedBracket(
+  store: BracketStore,
+  accountId: string,
+  id: string,
+  deletedAt: number,
+): Promise<SyncedBracket> {
+  if (!Number.isFinite(deletedAt)) throw new SyncError("Invalid deletion time", 400);
+  return writeBracket(store, accountId, { id, updatedAt: deletedAt, bracket: null });
+}
+
+/**
+ * Merge this device's brackets with the server's copies. Whichever side wrote
+ * last wins for each bracket; local wins are returned as uploads.
+ *
+ * @param deleted - When this device deleted each bracket, by id
+ */
+export function mergeSyncedBrackets(
+  local: SavedBracket[],
+  deleted: Record<string, number>,
+  remote: SyncedBracket[],
+): { brackets: SavedBracket[]; uploads: SyncedBracket[]; pulled: number } {
+  const remoteById = new Map(remote.map((r) => [r.id, r]));
+  const localCopies: SyncedBracket[] = [
+    ...local.map((bracket) => ({ id: bracket.id, updatedAt: bracket.updatedAt, bracket })),
+    ...Object.entries(deleted)
+      .filter(([id]) => !local.some((b) => b.id === id))
+      .map(([id, deletedAt]) => ({ id, updatedAt: deletedAt, bracket: null })),
+  ];
+
+  const uploads: SyncedBracket[] = [];
+  let pulled = 0;
+  const merged = localCopies.map((copy) => {
+    const server = remoteById.get(copy.id);
+    remoteById.delete(copy.id);
+    if (!server || copy.updatedAt > server.updatedAt) {
+      uploads.push(copy);
+      return copy;
+    }
+    if (server.updatedAt > copy.updatedAt) pulled++;
+    return server;
+  });
+
+  // Brackets saved on other devices that this one has never seen
+  for (const server of remoteById.values()) {
+    if (!server.bracket) continue;
+    merged.push(server);
+    pulled++;
+  }
+
+  return {
+    brackets: merged.flatMap((copy) => (copy.bracket ? [copy.bracket] : [])),
+    uploads,
+    pulled,
+  };
+}
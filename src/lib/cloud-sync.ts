@@ -0,0 +1,81 @@
+import { mergeSyncedBrackets } from "@/lib/bracket-sync";
+import {
+  getDeletedBrackets,
+  getSavedBrackets,
+  getSyncPassphrase,
+  pruneDeletedBrackets,
+  setSavedBrackets,
+} from "@/lib/storage";
+import type { BracketSyncResult, SavedBracket, SyncedBracket } from "@/types";
+
+async function syncFetch(passphrase: string, path: string, init: RequestInit = {}) {
+  return fetch(path, {
+    ...init,
+    headers: {
+      ...init.headers,
+      Authorization: `Bearer ${passphrase}`,
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+/**
+ * Send one local change; returns the server's copy instead if it's newer
+ */
+async function upload(passphrase: string, copy: SyncedBracket): Promise<SyncedBracket | null> {
+  const path = `/api/brackets/${encodeURIComponent(copy.id)}`;
+  const response = copy.bracket
+    ? await syncFetch(passphrase, path, { method: "PUT", body: JSON.stringify(copy.bracket) })
+    : await syncFetch(passphrase, `${path}?deletedAt=${copy.updatedAt}`, { method: "DELETE" });
+
+  const data = await response.json().catch(() => ({}));
+  if (response.status === 409) return data.current;
+  if (!response.ok) throw new Error(data.error ?? `Sync failed: ${response.status}`);
+  return null;
+}
+
+/**
+ * Two-way sync of the saved brackets with the server, newest write winning.
+ * Returns null when sync is turned off.
+ */
+export async function syncSavedBrackets(): Promise<BracketSyncResult | null> {
+  const passphrase = getSyncPassphrase();
+  if (!passphrase) return null;
+
+  const response = await syncFetch(passphrase, "/api/brackets");
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error ?? `Sync failed: ${response.status}`);
+
+  const local = getSavedBrackets();
+  const deleted = getDeletedBrackets();
+  const { brackets, uploads, pulled } = mergeSyncedBrackets(local, deleted, data.brackets);
+
+  // Another device may have saved in the meantime; its copy replaces ours
+  let merged: SavedBracket[] = brackets;
+  let conflicts = 0;
+  for (const copy of uploads) {
+    const newer = await upload(passphrase, copy);
+    if (!newer) continue;
+    conflicts++;
+    merged = merged.filter((b) => b.id !== newer.id);
+    if (newer.bracket) merged.push(newer.bracket);
+  }
+
+  // Keep brackets saved on this device while the sync was running
+  const savedMeanwhile = getSavedBrackets().filter(
+    (b) => !local.some((l) => l.id === b.id) && !merged.some((m) => m.id === b.id),
+  );
+  setSavedBrackets([...merged, ...savedMeanwhile]);
+  // The server holds every deletion now (its own copy if that was newer)
+  pruneDeletedBrackets(deleted);
+  return { pulled, pushed: uploads.length - conflicts, conflicts };
+}
+
+/**
+ * Sync after a local change without holding up the UI
+ */
+export function syncInBackground(): void {
+  syncSavedBrackets().catch((error) => {
+    console.error("Failed to sync brackets:", error);
+  });
+}
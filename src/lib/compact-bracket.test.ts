@@ -0,0 +1,97 @@
+import { describe, expect, it } from "bun:test";
+import { bracketReducer } from "@/lib/bracket-engine";
+import {
+  collectSeasonResults,
+  compactBracket,
+  compactPicks,
+  compactSavedBracket,
+  expandBracket,
+  expandPicks,
+} from "@/lib/compact-bracket";
+import { StoredBracketError } from "@/lib/migrations";
+import { createInitialBracket } from "@/lib/playoff-rules";
+import type { BracketState, LiveResults, SavedBracket } from "@/types";
+
+function liveResults(fetchedAt: number): LiveResults {
+  const empty = { wildCard: [], divisional: [], championship: null };
+  return { afc: empty, nfc: empty, superBowl: null, fetchedAt };
+}
+
+function pickFirstGame(state: BracketState): BracketState {
+  const matchup = state.afc.wildCard[0];
+  return bracketReducer(state, {
+    type: "SELECT_WINNER",
+    matchupId: matchup.id,
+    winner: matchup.awayTeam!,
+  });
+}
+
+describe("compact saved brackets", () => {
+  it("expands back to the same bracket", () => {
+    const bracket = pickFirstGame(createInitialBracket("Sam", 2025));
+    expect(expandBracket(compactBracket(bracket), null)).toEqual(bracket);
+  });
+
+  it("keeps only team ids and seeds, and leaves live results out", () => {
+    const bracket = { ...createInitialBracket("Sam", 2025), liveResults: liveResults(1) };
+    const compact = compactBracket(bracket);
+
+    expect(compact.afc.wildCard[0].homeTeam).toEqual({
+      id: bracket.afc.wildCard[0].homeTeam!.id,
+      seed: bracket.afc.wildCard[0].homeTeam!.seed,
+    });
+    expect("liveResults" in compact).toBe(false);
+    expect(JSON.stringify(compact).length).toBeLessThan(JSON.stringify(bracket).length / 2);
+  });
+
+  it("attaches the live results it's given", () => {
+    const results = liveResults(5);
+    const bracket = createInitialBracket("Sam", 2025);
+    expect(expandBracket(compactBracket(bracket), results).liveResults).toBe(results);
+  });
+
+  it("rejects a team it doesn't know", () => {
+    const saved: SavedBracket = {
+      id: "b1",
+      schemaVersion: 2,
+      name: "Test",
+      userName: "Sam",
+      createdAt: 1,
+      updatedAt: 1,
+      state: createInitialBracket("Sam", 2025),
+    };
+    const stored = compactSavedBracket(saved);
+    stored.state.afc.wildCard[0].homeTeam = { id: "XYZ", seed: 2 };
+
+    expect(() => expandBracket(stored.state, null)).toThrow(StoredBracketError);
+  });
+});
+
+describe("compact undo history", () => {
+  it("expands picks back to the same teams", () => {
+    const { afc, nfc, superBowl, isComplete } = pickFirstGame(createInitialBracket("Sam", 2025));
+    const picks = { afc, nfc, superBowl, isComplete };
+    const compact = compactPicks(picks);
+
+    expect(compact.afc.wildCard[0].winner).toEqual({
+      id: afc.wildCard[0].winner!.id,
+      seed: afc.wildCard[0].winner!.seed,
+    });
+    expect(expandPicks(compact)).toEqual(picks);
+    // History stored before compaction still reads
+    expect(expandPicks(picks)).toEqual(picks);
+  });
+});
+
+describe("collectSeasonResults", () => {
+  it("keeps the newest results for each season", () => {
+    const older = { ...createInitialBracket("Sam", 2025), liveResults: liveResults(10) };
+    const newer = { ...createInitialBracket("Sam", 2025), liveResults: liveResults(20) };
+    const other = { ...createInitialBracket("Sam", 2024), liveResults: null };
+
+    const results = collectSeasonResults([newer, older, other], { 2025: liveResults(15) });
+
+    expect(results[2025].fetchedAt).toBe(20);
+    expect(results[2024]).toBeUndefined();
+  });
+});
@@ -0,0 +1,126 @@
+import { NFL_TEAMS } from "@/data/teams";
+import { StoredBracketError } from "@/lib/migrations";
+import type {
+  BracketPicks,
+  BracketState,
+  CompactBracketPicks,
+  CompactBracketState,
+  CompactMatchup,
+  LiveResults,
+  Matchup,
+  SavedBracket,
+  SeededTeam,
+  StoredSavedBracket,
+  TeamRef,
+} from "@/types";
+
+/**
+ * Saved brackets are stored compactly: every matchup otherwise repeats each
+ * team's full details (names, colors, logo URLs), and every bracket its own
+ * copy of the live results.
+ */
+
+function toRef(team: SeededTeam | null): TeamRef | null {
+  return team && { id: team.id, seed: team.seed };
+}
+
+function compactMatchup(matchup: Matchup): CompactMatchup {
+  return {
+    ...matchup,
+    homeTeam: toRef(matchup.homeTeam),
+    awayTeam: toRef(matchup.awayTeam),
+    winner: toRef(matchup.winner),
+  };
+}
+
+// Full team objects from older saves expand the same way as references
+function fromRef(ref: TeamRef | null): SeededTeam | null {
+  if (!ref) return null;
+  const team = NFL_TEAMS[ref.id];
+  if (!team) throw new StoredBracketError(`Unknown team "${ref.id}"`);
+  return { ...team, seed: ref.seed };
+}
+
+function expandMatchup(matchup: CompactMatchup): Matchup {
+  return {
+    ...matchup,
+    homeTeam: fromRef(matchup.homeTeam),
+    awayTeam: fromRef(matchup.awayTeam),
+    winner: fromRef(matchup.winner),
+  };
+}
+
+function mapConference<From, To>(
+  conf: { wildCard: From[]; divisional: From[]; championship: From | null },
+  map: (matchup: From) => To,
+) {
+  return {
+    wildCard: conf.wildCard.map(map),
+    divisional: conf.divisional.map(map),
+    championship: conf.championship && map(conf.championship),
+  };
+}
+
+export function compactBracket(state: BracketState): CompactBracketState {
+  const { liveResults: _liveResults, ...rest } = state;
+  return {
+    ...rest,
+    afc: mapConference(state.afc, compactMatchup),
+    nfc: mapConference(state.nfc, compactMatchup),
+    superBowl: state.superBowl && compactMatchup(state.superBowl),
+  };
+}
+
+/**
+ * Rebuild a bracket's teams from our team data and attach its season's live results
+ */
+export function expandBracket(
+  state: CompactBracketState,
+  liveResults: LiveResults | null,
+): BracketState {
+  return {
+    ...state,
+    afc: mapConference(state.afc, expandMatchup),
+    nfc: mapConference(state.nfc, expandMatchup),
+    superBowl: state.superBowl && expandMatchup(state.superBowl),
+    liveResults,
+  };
+}
+
+export function compactPicks(picks: BracketPicks): CompactBracketPicks {
+  return {
+    afc: mapConference(picks.afc, compactMatchup),
+    nfc: mapConference(picks.nfc, compactMatchup),
+    superBowl: picks.superBowl && compactMatchup(picks.superBowl),
+    isComplete: picks.isComplete,
+  };
+}
+
+export function expandPicks(picks: CompactBracketPicks): BracketPicks {
+  return {
+    afc: mapConference(picks.afc, expandMatchup),
+    nfc: mapConference(picks.nfc, expandMatchup),
+    superBowl: picks.superBowl && expandMatchup(picks.superBowl),
+    isComplete: picks.isComplete,
+  };
+}
+
+export function compactSavedBracket(saved: SavedBracket): StoredSavedBracket {
+  return { ...saved, state: compactBracket(saved.state) };
+}
+
+/**
+ * The newest live results per season across some brackets, on top of `known`
+ */
+export function collectSeasonResults(
+  brackets: BracketState[],
+  known: Record<number, LiveResults> = {},
+): Record<number, LiveResults> {
+  const results = { ...known };
+  for (const { season, liveResults } of brackets) {
+    if (liveResults && liveResults.fetchedAt > (results[season]?.fetchedAt ?? 0)) {
+      results[season] = liveResults;
+    }
+  }
+  return results;
+}
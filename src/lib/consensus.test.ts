@@ -0,0 +1,53 @@
+import { describe, expect, it } from "bun:test";
+import { pick } from "@/lib/__fixtures__/brackets";
+import { buildConsensusBracket, getPickShare, getPickShares } from "@/lib/consensus";
+import { createInitialBracket } from "@/lib/playoff-rules";
+
+// 2025 AFC seeds: DEN, NE, JAX, PIT, HOU, BUF, LAC
+const brackets = [
+  pick(createInitialBracket("A", 2025), ["AFC-wc-1", "LAC"], ["AFC-wc-2", "BUF"]),
+  pick(createInitialBracket("B", 2025), ["AFC-wc-1", "LAC"], ["AFC-wc-2", "JAX"]),
+  pick(createInitialBracket("C", 2025), ["AFC-wc-1", "NE"], ["AFC-wc-2", "BUF"]),
+  pick(createInitialBracket("D", 2025), ["AFC-wc-1", "NE"]),
+];
+
+describe("getPickShares", () => {
+  it("gives the share of brackets picking each team in each round", () => {
+    const shares = getPickShares(brackets);
+
+    expect(shares.wildCard.LAC).toBe(0.5);
+    expect(shares.wildCard.BUF).toBe(0.5);
+    expect(shares.wildCard.JAX).toBe(0.25);
+    expect(getPickShare(shares, "AFC-wc-3", "PIT")).toBe(0);
+  });
+});
+
+describe("buildConsensusBracket", () => {
+  it("picks the crowd's favorite in every game", () => {
+    const { bracket, bracketCount } = buildConsensusBracket(
+      [...brackets, pick(createInitialBracket("E", 2025), ["AFC-wc-1", "LAC"])],
+      2025,
+    );
+
+    expect(bracketCount).toBe(5);
+    expect(bracket.afc.wildCard[0].winner?.id).toBe("LAC");
+    expect(bracket.afc.wildCard[1].winner?.id).toBe("BUF");
+    expect(bracket.isComplete).toBe(true);
+  });
+
+  it("breaks ties with the better seed", () => {
+    const { bracket } = buildConsensusBracket(brackets, 2025);
+
+    // LAC and NE have two picks each; nobody picked PIT-HOU
+    expect(bracket.afc.wildCard[0].winner?.id).toBe("NE");
+    expect(bracket.afc.wildCard[2].winner?.id).toBe("PIT");
+  });
+
+  it("leaves out brackets from other seasons", () => {
+    const { bracketCount } = buildConsensusBracket(
+      [...brackets, createInitialBracket("F", 2024)],
+      2025,
+    );
+    expect(bracketCount).toBe(4);
+  });
+});
@@ -0,0 +1,83 @@
+import { bracketReducer, getAllMatchups, getMatchupRound } from "@/lib/bracket-engine";
+import { createInitialBracket } from "@/lib/playoff-rules";
+import type {
+  BracketState,
+  ConsensusBracket,
+  Matchup,
+  PickShares,
+  RoundName,
+  SeededTeam,
+} from "@/types";
+
+const ROUNDS: RoundName[] = ["wildCard", "divisional", "conference", "superBowl"];
+
+/**
+ * How many of the brackets pick each team to win a game in each round. Shares
+ * are per round rather than per slot: reseeding can put the same team in a
+ * different divisional slot from one bracket to the next.
+ */
+export function getPickShares(brackets: BracketState[]): PickShares {
+  const shares: PickShares = { wildCard: {}, divisional: {}, conference: {}, superBowl: {} };
+  if (brackets.length === 0) return shares;
+
+  for (const bracket of brackets) {
+    for (const matchup of getAllMatchups(bracket)) {
+      const round = getMatchupRound(matchup.id);
+      if (!round || !matchup.winner) continue;
+      const counts = shares[round];
+      counts[matchup.winner.id] = (counts[matchup.winner.id] ?? 0) + 1;
+    }
+  }
+  for (const counts of Object.values(shares)) {
+    for (const teamId of Object.keys(counts)) counts[teamId] /= brackets.length;
+  }
+  return shares;
+}
+
+/**
+ * The share of brackets picking a team to win the round of a matchup
+ */
+export function getPickShare(shares: PickShares, matchupId: string, teamId: string): number {
+  const round = getMatchupRound(matchupId);
+  return round ? (shares[round][teamId] ?? 0) : 0;
+}
+
+// The crowd's favorite; ties (including games nobody picked this way) go chalk
+function pickFavorite(matchup: Matchup, shares: PickShares): SeededTeam {
+  const home = matchup.homeTeam!;
+  const away = matchup.awayTeam!;
+  const homeShare = getPickShare(shares, matchup.id, home.id);
+  const awayShare = getPickShare(shares, matchup.id, away.id);
+  if (homeShare !== awayShare) return homeShare > awayShare ? home : away;
+  return home.seed <= away.seed ? home : away;
+}
+
+/**
+ * Build the consensus bracket of some brackets from the same season: round by
+ * round, every game goes to the team most of them picked to win that round
+ */
+export function buildConsensusBracket(
+  brackets: BracketState[],
+  season: number,
+  name = "Crowd Bracket",
+): ConsensusBracket {
+  const seasonBrackets = brackets.filter((b) => b.season === season);
+  const shares = getPickShares(seasonBrackets);
+  let bracket: BracketState = { ...createInitialBracket("", season), name };
+
+  // Later rounds only get their teams once the round before is picked
+  for (const round of ROUNDS) {
+    const matchups = getAllMatchups(bracket).filter((m) => getMatchupRound(m.id) === round);
+    for (const { id } of matchups) {
+      const matchup = getAllMatchups(bracket).find((m) => m.id === id);
+      if (!matchup?.homeTeam || !matchup.awayTeam) continue;
+      bracket = bracketReducer(bracket, {
+        type: "SELECT_WINNER",
+        matchupId: id,
+        winner: pickFavorite(matchup, shares),
+      });
+    }
+  }
+
+  return { bracket, shares, bracketCount: seasonBrackets.length };
+}
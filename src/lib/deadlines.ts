@@ -0,0 +1,106 @@
+import { getRoundResults } from "@/lib/espn-api";
+import type { LiveMatchupResult, LiveResults, Matchup, RoundName } from "@/types";
+
+const ROUNDS: RoundName[] = ["wildCard", "divisional", "conference", "superBowl"];
+
+/**
+ * Kickoff time of a game as a timestamp, if ESPN has scheduled it
+ */
+export function getKickoffTime(result: LiveMatchupResult): number | null {
+  if (!result.gameDate) return null;
+  const time = Date.parse(result.gameDate);
+  return Number.isNaN(time) ? null : time;
+}
+
+export function hasGameStarted(result: LiveMatchupResult, now: number = Date.now()): boolean {
+  if (result.isInProgress || result.isComplete) return true;
+  const kickoff = getKickoffTime(result);
+  return kickoff !== null && kickoff <= now;
+}
+
+/**
+ * Earliest kickoff of a round, across both conferences
+ */
+export function getRoundKickoff(liveResults: LiveResults | null, round: RoundName): number | null {
+  const kickoffs = getRoundResults(liveResults, round)
+    .map(getKickoffTime)
+    .filter((time): time is number => time !== null);
+  return kickoffs.length > 0 ? Math.min(...kickoffs) : null;
+}
+
+export function hasRoundStarted(
+  liveResults: LiveResults | null,
+  round: RoundName,
+  now: number = Date.now(),
+): boolean {
+  return getRoundResults(liveResults, round).some((result) => hasGameStarted(result, now));
+}
+
+/**
+ * Whether a season's playoffs could be under way: January 1 to the end of
+ * February of the following year. Kickoff times can't be known without live
+ * results then, so pick deadlines can't be checked without them.
+ */
+export function isPlayoffWindow(season: number, now: number = Date.now()): boolean {
+  return now >= Date.UTC(season + 1, 0, 1) && now < Date.UTC(season + 1, 2, 1);
+}
+
+/**
+ * Whether live results list any playoff games at all
+ */
+export function hasPlayoffGames(liveResults: LiveResults | null): boolean {
+  return ROUNDS.some((round) => getRoundResults(liveResults, round).length > 0);
+}
+
+/**
+ * Rounds whose first game has kicked off
+ */
+export function getStartedRounds(
+  liveResults: LiveResults | null,
+  now: number = Date.now(),
+): RoundName[] {
+  return ROUNDS.filter((round) => hasRoundStarted(liveResults, round, now));
+}
+
+/**
+ * The real game a predicted matchup is decided by: the one in the same round
+ * and conference that either of its teams plays in
+ */
+function findMatchupGame(
+  matchup: Matchup,
+  liveResults: LiveResults | null,
+): LiveMatchupResult | null {
+  if (!liveResults) return null;
+  if (matchup.round === "superBowl") return liveResults.superBowl;
+
+  const confResults = matchup.conference === "AFC" ? liveResults.afc : liveResults.nfc;
+  if (matchup.round === "conference") return confResults.championship;
+
+  const games = matchup.round === "wildCard" ? confResults.wildCard : confResults.divisional;
+  const teamIds = [matchup.homeTeam?.id, matchup.awayTeam?.id].filter(Boolean);
+  return (
+    games.find((g) => teamIds.includes(g.homeTeamId) || teamIds.includes(g.awayTeamId)) ?? null
+  );
+}
+
+/**
+ * When picks for a matchup lock: kickoff of its game, or of the round's first
+ * game when none of its teams are playing (e.g. both were picked to advance but lost)
+ */
+export function getMatchupDeadline(
+  matchup: Matchup,
+  liveResults: LiveResults | null,
+): number | null {
+  const game = findMatchupGame(matchup, liveResults);
+  return (game && getKickoffTime(game)) ?? getRoundKickoff(liveResults, matchup.round);
+}
+
+export function isMatchupPastDeadline(
+  matchup: Matchup,
+  liveResults: LiveResults | null,
+  now: number = Date.now(),
+): boolean {
+  const game = findMatchupGame(matchup, liveResults);
+  if (game) return hasGameStarted(game, now);
+  return hasRoundStarted(liveResults, matchup.round, now);
+}
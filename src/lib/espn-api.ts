@@ -1,84 +1,14 @@
-import type { LiveMatchupResult, LiveResults, RoundName } from "@/types";
-
-// ESPN API endpoint for NFL playoff scoreboard
-const ESPN_SCOREBOARD_URL = "https://site.api.espn.com/apis/site/v2/sports/football/nfl/scoreboard";
-
-// Map ESPN team abbreviations to our team IDs
-// ESPN uses mostly the same abbreviations, but some differ
-const ESPN_TO_TEAM_ID: Record<string, string> = {
-  DEN: "DEN",
-  NE: "NE",
-  JAX: "JAX",
-  PIT: "PIT",
-  HOU: "HOU",
-  BUF: "BUF",
-  LAC: "LAC",
-  SEA: "SEA",
-  CHI: "CHI",
-  PHI: "PHI",
-  CAR: "CAR",
-  LA: "LAR", // ESPN uses "LA" for Rams
-  LAR: "LAR",
-  SF: "SF",
-  GB: "GB",
-  // Additional NFL teams that might appear
-  KC: "KC",
-  BAL: "BAL",
-  CIN: "CIN",
-  MIA: "MIA",
-  CLE: "CLE",
-  LV: "LV",
-  TEN: "TEN",
-  IND: "IND",
-  NYJ: "NYJ",
-  DAL: "DAL",
-  DET: "DET",
-  MIN: "MIN",
-  TB: "TB",
-  NO: "NO",
-  ATL: "ATL",
-  ARI: "ARI",
-  WAS: "WAS",
-  WSH: "WAS", // ESPN uses WSH for Washington
-  NYG: "NYG",
-};
-
-// Map ESPN numeric team IDs to abbreviations
-// ESPN's situation.lastPlay.team.id uses numeric IDs
-const ESPN_NUMERIC_ID_TO_ABBR: Record<string, string> = {
-  "22": "ARI",
-  "1": "ATL",
-  "33": "BAL",
-  "2": "BUF",
-  "29": "CAR",
-  "3": "CHI",
-  "4": "CIN",
-  "5": "CLE",
-  "6": "DAL",
-  "7": "DEN",
-  "8": "DET",
-  "9": "GB",
-  "34": "HOU",
-  "11": "IND",
-  "30": "JAX",
-  "12": "KC",
-  "13": "LV",
-  "24": "LAC",
-  "14": "LAR",
-  "15": "MIA",
-  "16": "MIN",
-  "17": "NE",
-  "18": "NO",
-  "19": "NYG",
-  "20": "NYJ",
-  "21": "PHI",
-  "23": "PIT",
-  "25": "SF",
-  "26": "SEA",
-  "27": "TB",
-  "10": "TEN",
-  "28": "WAS",
-};
+import { DEFAULT_SEASON, getSeason } from "@/data/seasons";
+import { getTeamConference, getTeamIdByEspnId, mapTeamAbbreviation } from "@/data/teams";
+import {
+  countErrors,
+  createFieldChecker,
+  formatPath,
+  getDataQuality,
+  getPath,
+} from "@/lib/espn-validation";
+import type { ScoresProvider } from "@/lib/scores-provider";
+import type { LiveMatchupResult, LiveResults, ParseIssue, ParseResult, RoundName } from "@/types";
 
 // ESPN playoff week to round name mapping
 // Wild Card = week 1 of playoffs (seasontype=3)
@@ -166,68 +96,84 @@ interface ESPNScoreboardResponse {
   };
 }
 
-function mapTeamAbbreviation(espnAbbr: string): string {
-  return ESPN_TO_TEAM_ID[espnAbbr.toUpperCase()] || espnAbbr.toUpperCase();
-}
-
 function determineConference(homeTeamId: string, awayTeamId: string): "AFC" | "NFC" | "superBowl" {
-  // AFC teams in our current data
-  const afcTeams = [
-    "DEN",
-    "NE",
-    "JAX",
-    "PIT",
-    "HOU",
-    "BUF",
-    "LAC",
-    "KC",
-    "BAL",
-    "CIN",
-    "MIA",
-    "CLE",
-    "LV",
-    "TEN",
-    "IND",
-    "NYJ",
-  ];
-  // NFC teams in our current data
-  const nfcTeams = [
-    "SEA",
-    "CHI",
-    "PHI",
-    "CAR",
-    "LAR",
-    "SF",
-    "GB",
-    "DAL",
-    "DET",
-    "MIN",
-    "TB",
-    "NO",
-    "ATL",
-    "ARI",
-    "WAS",
-    "NYG",
-  ];
-
-  const homeIsAFC = afcTeams.includes(homeTeamId);
-  const awayIsAFC = afcTeams.includes(awayTeamId);
-  const homeIsNFC = nfcTeams.includes(homeTeamId);
-  const awayIsNFC = nfcTeams.includes(awayTeamId);
+  const homeConference = getTeamConference(homeTeamId);
+  const awayConference = getTeamConference(awayTeamId);
 
   // Super Bowl: one team from each conference
-  if ((homeIsAFC && awayIsNFC) || (homeIsNFC && awayIsAFC)) {
+  if (homeConference && awayConference && homeConference !== awayConference) {
     return "superBowl";
   }
 
   // Both teams from same conference
-  if (homeIsAFC || awayIsAFC) {
+  if (homeConference === "AFC" || awayConference === "AFC") {
     return "AFC";
   }
 
   return "NFC";
 }
 
+/**
+ * Check an event has what parseESPNEvent relies on. Bad game details are
+ * warnings with defaults standing in; an event missing its teams, status or
+ * week can't be placed in the bracket, so it's an error and gets skipped.
+ */
+function validateEvent(event: unknown, path: string, issues: ParseIssue[]): event is ESPNEvent {
+  const errors = countErrors(issues);
+  const check = createFieldChecker(event, path, issues);
+  const warn = { severity: "warning", optional: true } as const;
+  const competition = ["competitions", 0];
+
+  if (!check([], "object") || !check(competition, "object")) return false;
+  check(["id"], "string");
+  check(["week", "number"], "number");
+  check([...competition, "date"], "string");
+  check([...competition, "status", "type", "state"], "string");
+  check([...competition, "status", "type", "completed"], "boolean");
+  check([...competition, "status", "type", "description"], "string", warn);
+  check([...competition, "status", "period"], "number", warn);
+  check([...competition, "status", "displayClock"], "string", warn);
+  check([...competition, "situation", "down"], "number", warn);
+  check([...competition, "situation", "isRedZone"], "boolean", warn);
+  check([...competition, "situation", "lastPlay", "team", "id"], "string", warn);
+
+  if (check([...competition, "competitors"], "array")) {
+    const competitors = getPath(event, [...competition, "competitors"]) as unknown[];
+    for (const side of ["home", "away"]) {
+      const index = competitors.findIndex((c) => getPath(c, ["homeAway"]) === side);
+      const competitorPath = [...competition, "competitors", index];
+      if (index === -1) {
+        issues.push({
+          path: formatPath(path, [...competition, "competitors"]),
+          problem: `has no ${side} team`,
+          severity: "error",
+        });
+        continue;
+      }
+      if (check([...competitorPath, "team", "abbreviation"], "string")) {
+        const abbreviation = getPath(event, [...competitorPath, "team", "abbreviation"]) as string;
+        if (!getTeamConference(mapTeamAbbreviation(abbreviation))) {
+          issues.push({
+            path: formatPath(path, [...competitorPath, "team", "abbreviation"]),
+            problem: `"${abbreviation}" is not an NFL team`,
+            severity: "error",
+          });
+        }
+      }
+      const score = getPath(event, [...competitorPath, "score"]);
+      if (typeof score !== "string" || !/^\d+$/.test(score)) {
+        issues.push({
+          path: formatPath(path, [...competitorPath, "score"]),
+          problem: "must be a whole number",
+          severity: "warning",
+        });
+      }
+    }
+  }
+
+  return countErrors(issues) === errors;
+}
+
 function parseESPNEvent(event: ESPNEvent): LiveMatchupResult | null {
   const competition = event.competitions[0];
   if (!competition) return null;
@@ -281,9 +227,7 @@ function parseESPNEvent(event: ESPNEvent): LiveMatchupResult | null {
   // Only show possession during active play (down > 0)
   const numericTeamId = competition.situation?.lastPlay?.team?.id;
   const isActiveDrive = (competition.situation?.down ?? -1) > 0;
-  const possessionAbbr = numericTeamId ? ESPN_NUMERIC_ID_TO_ABBR[numericTeamId] : null;
-  const possessionTeamId =
-    isActiveDrive && possessionAbbr ? mapTeamAbbreviation(possessionAbbr) : null;
+  const possessionTeamId = isActiveDrive && numericTeamId ? getTeamIdByEspnId(numericTeamId) : null;
   const isRedZone = competition.situation?.isRedZone ?? false;
 
   return {
@@ -302,38 +246,79 @@ function parseESPNEvent(event: ESPNEvent): LiveMatchupResult | null {
     isRedZone,
     isHalftime,
     isEndOfQuarter,
+    // Filled in from the game's boxscore by addWinProbabilities
+    homeWinPct: null,
   };
 }
 
-export async function fetchPlayoffScoreboard(week?: number): Promise<ESPNScoreboardResponse> {
-  const params = new URLSearchParams({
-    seasontype: "3", // Playoffs
-  });
-
-  if (week) {
-    params.set("week", week.toString());
-  }
+export async function fetchPlayoffScoreboard(
+  provider: ScoresProvider,
+  week?: number,
+  season: number = DEFAULT_SEASON,
+): Promise<unknown> {
+  // Left unchecked until parsePlayoffResults validates it
+  return provider.getScoreboard(season, week);
+}
 
-  const response = await fetch(`${ESPN_SCOREBOARD_URL}?${params.toString()}`);
+// Weeks that have returned games, by provider and season. Once a week has had
+// games, failing to fetch it would drop them from the results, so it's an error.
+const weeksWithEvents = new WeakMap<ScoresProvider, Map<number, Set<number>>>();
 
-  if (!response.ok) {
-    throw new Error(`ESPN API error: ${response.status}`);
+function getWeeksWithEvents(provider: ScoresProvider, season: number): Set<number> {
+  let seasons = weeksWithEvents.get(provider);
+  if (!seasons) {
+    seasons = new Map();
+    weeksWithEvents.set(provider, seasons);
   }
-
-  return response.json();
+  let weeks = seasons.get(season);
+  if (!weeks) {
+    weeks = new Set();
+    seasons.set(season, weeks);
+  }
+  return weeks;
 }
 
-export async function fetchAllPlayoffWeeks(): Promise<ESPNScoreboardResponse[]> {
+/**
+ * Scoreboards for every playoff week. Weeks that haven't been scheduled may
+ * fail and are left out, but if every week fails, or a week that had games
+ * does, this throws so callers can serve their last good results instead.
+ */
+export async function fetchAllPlayoffWeeks(
+  provider: ScoresProvider,
+  season: number = DEFAULT_SEASON,
+): Promise<unknown[]> {
   // Fetch all playoff weeks (1-5)
   // Super Bowl can be week 4 or 5 depending on the season
   const weeks = [1, 2, 3, 4, 5];
-  const results = await Promise.all(
-    weeks.map((week) => fetchPlayoffScoreboard(week).catch(() => null)),
+  const settled = await Promise.allSettled(
+    weeks.map((week) => fetchPlayoffScoreboard(provider, week, season)),
+  );
+
+  const withEvents = getWeeksWithEvents(provider, season);
+  const failures = settled.flatMap((result, i) =>
+    result.status === "rejected" ? [{ week: weeks[i], reason: result.reason as unknown }] : [],
   );
-  return results.filter((r): r is ESPNScoreboardResponse => r !== null);
+  const missed = failures.find((failure) => withEvents.has(failure.week));
+  if (failures.length === weeks.length || missed) {
+    throw (missed ?? failures[0]).reason;
+  }
+
+  const responses: unknown[] = [];
+  settled.forEach((result, i) => {
+    if (result.status !== "fulfilled") return;
+    const events = getPath(result.value, ["events"]);
+    if (Array.isArray(events) && events.length > 0) withEvents.add(weeks[i]);
+    responses.push(result.value);
+  });
+  return responses;
 }
 
-export function parsePlayoffResults(responses: ESPNScoreboardResponse[]): LiveResults {
+/**
+ * Read every playoff game out of scoreboard responses, one per week. Events
+ * that fail validation are left out and reported with everything else in `issues`.
+ */
+export function parsePlayoffResults(responses: unknown[]): ParseResult<LiveResults> {
+  const issues: ParseIssue[] = [];
   const results: LiveResults = {
     afc: {
       wildCard: [],
@@ -349,13 +334,17 @@ export function parsePlayoffResults(responses: ESPNScoreboardResponse[]): LiveRe
     fetchedAt: Date.now(),
   };
 
-  for (const response of responses) {
-    for (const event of response.events) {
+  responses.forEach((response, r) => {
+    const path = `scoreboard[${r}]`;
+    if (!createFieldChecker(response, path, issues)(["events"], "array")) return;
+
+    (response as ESPNScoreboardResponse).events.forEach((event, i) => {
+      if (!validateEvent(event, `${path}.events[${i}]`, issues)) return;
       const matchup = parseESPNEvent(event);
-      if (!matchup) continue;
+      if (!matchup) return;
 
       const round = getPlayoffRound(event.week.number);
-      if (!round) continue;
+      if (!round) return;
 
       const conference = determineConference(matchup.homeTeamId, matchup.awayTeamId);
 
@@ -380,15 +369,26 @@ export function parsePlayoffResults(responses: ESPNScoreboardResponse[]): LiveRe
       } else if (round === "superBowl") {
         results.superBowl = matchup;
       }
-    }
-  }
+    });
+  });
 
-  return results;
+  return { data: results, issues };
 }
 
-export async function fetchLiveResults(): Promise<LiveResults> {
-  const responses = await fetchAllPlayoffWeeks();
-  return parsePlayoffResults(responses);
+export async function fetchLiveResults(
+  provider: ScoresProvider,
+  season: number = DEFAULT_SEASON,
+): Promise<LiveResults> {
+  // ESPN's games for a what-if season aren't the ones in its bracket
+  if (getSeason(season).hypothetical) {
+    return { ...parsePlayoffResults([]).data, dataQuality: getDataQuality([]) };
+  }
+  const responses = await fetchAllPlayoffWeeks(provider, season);
+  const { data, issues } = parsePlayoffResults(responses);
+  if (issues.length > 0) {
+    console.warn(`ESPN scoreboard for ${season} didn't parse cleanly:`, issues);
+  }
+  return { ...data, dataQuality: getDataQuality(issues) };
 }
 
 /**
@@ -410,6 +410,29 @@ export function hasInProgressGames(liveResults: LiveResults | null): boolean {
   return allMatchups.some((m) => m.isInProgress);
 }
 
+/**
+ * All of a round's games, both conferences together
+ */
+export function getRoundResults(
+  liveResults: LiveResults | null,
+  round: RoundName,
+): LiveMatchupResult[] {
+  if (!liveResults) return [];
+
+  switch (round) {
+    case "wildCard":
+      return [...liveResults.afc.wildCard, ...liveResults.nfc.wildCard];
+    case "divisional":
+      return [...liveResults.afc.divisional, ...liveResults.nfc.divisional];
+    case "conference":
+      return [liveResults.afc.championship, liveResults.nfc.championship].filter(
+        (r): r is LiveMatchupResult => r !== null,
+      );
+    case "superBowl":
+      return liveResults.superBowl ? [liveResults.superBowl] : [];
+  }
+}
+
 /**
  * Check if a specific round has any completed games
  */
@@ -437,33 +460,6 @@ export function hasCompletedGames(liveResults: LiveResults | null, round: RoundN
   }
 }
 
-/**
- * Check if all games in a round are complete
- */
-export function isRoundComplete(liveResults: LiveResults | null, round: RoundName): boolean {
-  if (!liveResults) return false;
-
-  switch (round) {
-    case "wildCard": {
-      // 6 wild card games total (3 per conference)
-      const wcGames = [...liveResults.afc.wildCard, ...liveResults.nfc.wildCard];
-      return wcGames.length >= 6 && wcGames.every((m) => m.isComplete);
-    }
-    case "divisional": {
-      // 4 divisional games total (2 per conference)
-      const divGames = [...liveResults.afc.divisional, ...liveResults.nfc.divisional];
-      return divGames.length >= 4 && divGames.every((m) => m.isComplete);
-    }
-    case "conference":
-      return (
-        (liveResults.afc.championship?.isComplete ?? false) &&
-        (liveResults.nfc.championship?.isComplete ?? false)
-      );
-    case "superBowl":
-      return liveResults.superBowl?.isComplete ?? false;
-  }
-}
-
 /**
  * Get the live result for a specific matchup by matching teams
  */
@@ -1,8 +1,21 @@
+import { mapTeamAbbreviation } from "@/data/teams";
+import {
+  createFieldChecker,
+  EspnParseError,
+  formatPath,
+  getDataQuality,
+  getPath,
+} from "@/lib/espn-validation";
+import type { ScoresProvider } from "@/lib/scores-provider";
 import type {
   Drive,
   GameBoxscore,
   KeyMoment,
+  LiveMatchupResult,
+  LiveResults,
   MomentumData,
+  ParseIssue,
+  ParseResult,
   Play,
   PlayerLeaders,
   PlayerStatLine,
@@ -11,51 +24,6 @@ import type {
   WinProbabilityPoint,
 } from "@/types";
 
-// ESPN Summary API endpoint
-const ESPN_SUMMARY_URL = "https://site.api.espn.com/apis/site/v2/sports/football/nfl/summary";
-
-// Map ESPN team abbreviations to our team IDs
-const ESPN_TO_TEAM_ID: Record<string, string> = {
-  DEN: "DEN",
-  NE: "NE",
-  JAX: "JAX",
-  PIT: "PIT",
-  HOU: "HOU",
-  BUF: "BUF",
-  LAC: "LAC",
-  SEA: "SEA",
-  CHI: "CHI",
-  PHI: "PHI",
-  CAR: "CAR",
-  LA: "LAR",
-  LAR: "LAR",
-  SF: "SF",
-  GB: "GB",
-  KC: "KC",
-  BAL: "BAL",
-  CIN: "CIN",
-  MIA: "MIA",
-  CLE: "CLE",
-  LV: "LV",
-  TEN: "TEN",
-  IND: "IND",
-  NYJ: "NYJ",
-  DAL: "DAL",
-  DET: "DET",
-  MIN: "MIN",
-  TB: "TB",
-  NO: "NO",
-  ATL: "ATL",
-  ARI: "ARI",
-  WAS: "WAS",
-  WSH: "WAS",
-  NYG: "NYG",
-};
-
-function mapTeamAbbreviation(espnAbbr: string): string {
-  return ESPN_TO_TEAM_ID[espnAbbr.toUpperCase()] || espnAbbr.toUpperCase();
-}
-
 // ESPN API response types for summary endpoint
 interface ESPNSummaryResponse {
   boxscore?: {
@@ -508,7 +476,7 @@ function parseWinProbability(
   const totalPoints = winProbData.length;
 
   return winProbData
-    .filter((wp) => wp.playId && typeof wp.homeWinPercentage === "number")
+    .filter((wp) => wp?.playId && typeof wp.homeWinPercentage === "number")
     .map((wp, index) => {
       // Try to look up play info from drives data
       const playInfo = playLookup.get(wp.playId);
@@ -545,7 +513,10 @@ function parseWinProbability(
     .sort((a, b) => a.secondsElapsed - b.secondsElapsed);
 }
 
-function identifyKeyMoments(winProbPoints: WinProbabilityPoint[], swingThreshold = 10): KeyMoment[] {
+function identifyKeyMoments(
+  winProbPoints: WinProbabilityPoint[],
+  swingThreshold = 10,
+): KeyMoment[] {
   if (winProbPoints.length < 2) return [];
 
   const keyMoments: KeyMoment[] = [];
@@ -594,30 +565,91 @@ function parseMomentumData(
   };
 }
 
-export async function fetchGameBoxscore(eventId: string): Promise<GameBoxscore> {
-  const response = await fetch(`${ESPN_SUMMARY_URL}?event=${eventId}`);
-
-  if (!response.ok) {
-    throw new Error(`ESPN API error: ${response.status}`);
+/**
+ * Read a game summary. One without the game's header and both teams can't be
+ * shown at all and throws EspnParseError; any other section that doesn't fit
+ * is reported in `issues` and left empty.
+ */
+export function parseGameBoxscore(input: unknown, eventId: string): ParseResult<GameBoxscore> {
+  const issues: ParseIssue[] = [];
+  const check = createFieldChecker(input, "summary", issues);
+  const warn = { severity: "warning" } as const;
+  const competitionPath = ["header", "competitions", 0];
+
+  if (!check(competitionPath, "object") || !check([...competitionPath, "competitors"], "array")) {
+    throw new EspnParseError("No competition data found", issues);
   }
 
-  const data: ESPNSummaryResponse = await response.json();
-
-  // Get competition header for scores and status
-  const competition = data.header?.competitions?.[0];
-  if (!competition) {
-    throw new Error("No competition data found");
-  }
+  const data = input as ESPNSummaryResponse;
+  const competition = data.header!.competitions![0];
 
-  const homeCompetitor = competition.competitors.find((c) => c.homeAway === "home");
-  const awayCompetitor = competition.competitors.find((c) => c.homeAway === "away");
+  const findCompetitor = (side: "home" | "away") => {
+    const index = competition.competitors.findIndex((c) => getPath(c, ["homeAway"]) === side);
+    if (index === -1) {
+      issues.push({
+        path: formatPath("summary", [...competitionPath, "competitors"]),
+        problem: `has no ${side} team`,
+        severity: "error",
+      });
+      return null;
+    }
+    const competitorPath = [...competitionPath, "competitors", index];
+    if (!check([...competitorPath, "team", "abbreviation"], "string")) return null;
+    if (!/^\d+$/.test(String(getPath(input, [...competitorPath, "score"])))) {
+      issues.push({
+        path: formatPath("summary", [...competitorPath, "score"]),
+        problem: "must be a whole number",
+        severity: "warning",
+      });
+    }
+    return competition.competitors[index];
+  };
+  const homeCompetitor = findCompetitor("home");
+  const awayCompetitor = findCompetitor("away");
 
   if (!homeCompetitor || !awayCompetitor) {
-    throw new Error("Missing competitor data");
+    throw new EspnParseError("Missing competitor data", issues);
+  }
+
+  const statusPath = [...competitionPath, "status"];
+  const isComplete = check([...statusPath, "type", "completed"], "boolean", warn)
+    ? competition.status.type.completed
+    : false;
+  const state = check([...statusPath, "type", "state"], "string", warn)
+    ? competition.status.type.state
+    : "pre";
+  const quarter = check([...statusPath, "period"], "number", { ...warn, optional: true })
+    ? competition.status.period
+    : null;
+  const timeRemaining = check([...statusPath, "displayClock"], "string", {
+    ...warn,
+    optional: true,
+  })
+    ? competition.status.displayClock
+    : null;
+
+  // Sections that are there but aren't lists are treated as missing
+  const getList = <T>(keys: string[]): T[] | undefined =>
+    check(keys, "array", { ...warn, optional: true }) ? (getPath(input, keys) as T[]) : undefined;
+  const boxscoreTeams = getList<ESPNBoxscoreTeam>(["boxscore", "teams"]) ?? [];
+  const leaders = getList<ESPNTeamLeaders>(["leaders"]);
+  const scoringPlays = getList<ESPNScoringPlay>(["scoringPlays"]);
+  const drives = getList<ESPNDrive>(["drives", "previous"]);
+  const winProbability = getList<ESPNWinProbability>(["winprobability"]);
+
+  const unreadablePoints =
+    winProbability?.filter(
+      (wp) => typeof wp?.playId !== "string" || typeof wp.homeWinPercentage !== "number",
+    ).length ?? 0;
+  if (unreadablePoints > 0) {
+    issues.push({
+      path: "summary.winprobability",
+      problem: `${unreadablePoints} of ${winProbability!.length} points can't be read`,
+      severity: "warning",
+    });
   }
 
   // Get boxscore team stats
-  const boxscoreTeams = data.boxscore?.teams || [];
   const homeBoxscore = boxscoreTeams.find((t) => t.homeAway === "home");
   const awayBoxscore = boxscoreTeams.find((t) => t.homeAway === "away");
 
@@ -641,30 +673,43 @@ export async function fetchGameBoxscore(eventId: string): Promise<GameBoxscore>
     fumbles: 0,
   };
 
-  return {
+  const boxscore: GameBoxscore = {
     eventId,
     homeTeamId,
     awayTeamId,
     homeScore: Number.parseInt(homeCompetitor.score, 10) || 0,
     awayScore: Number.parseInt(awayCompetitor.score, 10) || 0,
-    isComplete: competition.status.type.completed,
-    isInProgress: competition.status.type.state === "in",
-    quarter: competition.status.period || null,
-    timeRemaining: competition.status.displayClock || null,
+    isComplete,
+    isInProgress: state === "in",
+    quarter: quarter || null,
+    timeRemaining: timeRemaining || null,
     teamStats: {
       home: homeBoxscore ? parseTeamStats(homeBoxscore) : { ...emptyStats, teamId: homeTeamId },
       away: awayBoxscore ? parseTeamStats(awayBoxscore) : { ...emptyStats, teamId: awayTeamId },
     },
     playerLeaders: {
-      home: parsePlayerLeaders(data.leaders, homeCompetitor.team.abbreviation),
-      away: parsePlayerLeaders(data.leaders, awayCompetitor.team.abbreviation),
+      home: parsePlayerLeaders(leaders, homeCompetitor.team.abbreviation),
+      away: parsePlayerLeaders(leaders, awayCompetitor.team.abbreviation),
     },
-    scoringPlays: parseScoringPlays(data.scoringPlays),
-    drives: parseDrives(data.drives?.previous),
+    scoringPlays: parseScoringPlays(scoringPlays),
+    drives: parseDrives(drives),
     lastPlay: data.drives?.current?.description || null,
     fetchedAt: Date.now(),
-    momentum: parseMomentumData(data.winprobability, data.drives?.previous),
+    momentum: parseMomentumData(winProbability, drives),
+    dataQuality: getDataQuality(issues),
   };
+  return { data: boxscore, issues };
+}
+
+export async function fetchGameBoxscore(
+  provider: ScoresProvider,
+  eventId: string,
+): Promise<GameBoxscore> {
+  const { data, issues } = parseGameBoxscore(await provider.getSummary(eventId), eventId);
+  if (issues.length > 0) {
+    console.warn(`ESPN summary for ${eventId} didn't parse cleanly:`, issues);
+  }
+  return data;
 }
 
 /**
@@ -680,3 +725,52 @@ export function extractEventId(matchupId: string): string | null {
   }
   return null;
 }
+
+/**
+ * Fill in the live win probability of every game underway from its boxscore
+ * (`momentum.currentHomeWinPct`). A boxscore that can't be fetched leaves the
+ * game without one rather than failing the whole update.
+ */
+export async function addWinProbabilities(
+  provider: ScoresProvider,
+  results: LiveResults,
+): Promise<LiveResults> {
+  const withWinPct = async (result: LiveMatchupResult): Promise<LiveMatchupResult> => {
+    const eventId = extractEventId(result.matchupId);
+    if (!result.isInProgress || !eventId) return result;
+    try {
+      const { momentum } = await fetchGameBoxscore(provider, eventId);
+      return momentum ? { ...result, homeWinPct: momentum.currentHomeWinPct / 100 } : result;
+    } catch (error) {
+      console.error(`Failed to fetch win probability for ${eventId}:`, error);
+      return result;
+    }
+  };
+  const withWinPctOrNull = (result: LiveMatchupResult | null) =>
+    result ? withWinPct(result) : Promise.resolve(null);
+
+  const [
+    afcWildCard,
+    afcDivisional,
+    afcChampionship,
+    nfcWildCard,
+    nfcDivisional,
+    nfcChampionship,
+    superBowl,
+  ] = await Promise.all([
+    Promise.all(results.afc.wildCard.map(withWinPct)),
+    Promise.all(results.afc.divisional.map(withWinPct)),
+    withWinPctOrNull(results.afc.championship),
+    Promise.all(results.nfc.wildCard.map(withWinPct)),
+    Promise.all(results.nfc.divisional.map(withWinPct)),
+    withWinPctOrNull(results.nfc.championship),
+    withWinPctOrNull(results.superBowl),
+  ]);
+
+  return {
+    ...results,
+    afc: { wildCard: afcWildCard, divisional: afcDivisional, championship: afcChampionship },
+    nfc: { wildCard: nfcWildCard, divisional: nfcDivisional, championship: nfcChampionship },
+    superBowl,
+  };
+}
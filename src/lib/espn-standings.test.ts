@@ -0,0 +1,59 @@
+import { describe, expect, it } from "bun:test";
+import {
+  computeConferenceSeeds,
+  type ESPNStandingsResponse,
+  parseStandings,
+  parseStandingsSeeds,
+} from "@/lib/espn-standings";
+import standingsFixture from "./__fixtures__/espn-standings.json";
+
+const response = standingsFixture as ESPNStandingsResponse;
+
+describe("parseStandings", () => {
+  it("reads every team with its conference and division", () => {
+    const standings = parseStandings(response);
+    expect(standings).toHaveLength(32);
+
+    const rams = standings.find((t) => t.teamId === "LAR");
+    expect(rams).toMatchObject({
+      conference: "NFC",
+      division: "NFC West",
+      divisionWinPercent: 0.5,
+      conferenceWinPercent: 8 / 12,
+      pointDifferential: -19,
+    });
+  });
+});
+
+describe("parseStandingsSeeds", () => {
+  it("seeds division winners ahead of better wild card records", () => {
+    const seeds = parseStandingsSeeds(response);
+    expect(seeds.AFC).toEqual(["KC", "BUF", "BAL", "HOU", "PIT", "LAC", "DEN"]);
+  });
+
+  it("settles ties within a division before comparing across divisions", () => {
+    // WAS has the best conference record of the 10-7 teams, but loses the
+    // division tiebreak to DAL first; DAL then loses to LAR on conference record
+    const seeds = parseStandingsSeeds(response);
+    expect(seeds.NFC).toEqual(["DET", "PHI", "TB", "SEA", "MIN", "GB", "LAR"]);
+  });
+});
+
+describe("computeConferenceSeeds", () => {
+  it("breaks a division title tie on division record", () => {
+    // BAL and PIT are both 12-5; BAL went 5-1 in the division
+    const seeds = computeConferenceSeeds(parseStandings(response), "AFC");
+    expect(seeds.indexOf("BAL")).toBe(2);
+    expect(seeds.indexOf("PIT")).toBe(4);
+  });
+
+  it("falls back to point differential when records match", () => {
+    // Level DEN and CIN on conference record; CIN (+38) then out-scores DEN (+20)
+    const standings = parseStandings(response).map((t) => {
+      if (t.teamId === "CIN") return { ...t, conferenceWinPercent: 0.5 };
+      if (t.teamId === "DEN") return { ...t, conferenceWinPercent: 0.5, pointDifferential: 20 };
+      return t;
+    });
+    expect(computeConferenceSeeds(standings, "AFC")[6]).toBe("CIN");
+  });
+});
@@ -0,0 +1,261 @@
+import { getBracketFormat } from "@/data/formats";
+import { DEFAULT_SEASON, getSeasonFormat } from "@/data/seasons";
+import { mapTeamAbbreviation } from "@/data/teams";
+import { getEspnFetcher } from "@/lib/resilient-fetch";
+import type { Conference, SeasonSeeds } from "@/types";
+
+// ESPN standings endpoint (level=3 groups teams by conference and division)
+const ESPN_STANDINGS_URL = "https://site.api.espn.com/apis/v2/sports/football/nfl/standings";
+
+// Division winners take the top seeds; the rest of the field are wild cards
+const DIVISION_WINNERS = 4;
+
+// Seeds per conference in the current format
+const DEFAULT_SEEDS_PER_CONFERENCE = getBracketFormat(undefined).seedsPerConference;
+
+// ESPN API response types (simplified, only what we need)
+interface ESPNStandingsStat {
+  name?: string;
+  type?: string;
+  value?: number;
+  summary?: string;
+  displayValue?: string;
+}
+
+interface ESPNStandingsEntry {
+  team: {
+    id: string;
+    abbreviation: string;
+    displayName?: string;
+  };
+  stats: ESPNStandingsStat[];
+}
+
+interface ESPNStandingsGroup {
+  name: string;
+  abbreviation?: string;
+  children?: ESPNStandingsGroup[];
+  standings?: {
+    entries: ESPNStandingsEntry[];
+  };
+}
+
+export interface ESPNStandingsResponse {
+  children: ESPNStandingsGroup[];
+}
+
+/**
+ * A team's record as far as the standings payload describes it
+ */
+export interface TeamStanding {
+  teamId: string;
+  conference: Conference;
+  division: string;
+  winPercent: number;
+  divisionWinPercent: number;
+  conferenceWinPercent: number;
+  pointDifferential: number;
+  pointsFor: number;
+}
+
+type Tiebreaker = (team: TeamStanding) => number;
+
+/**
+ * NFL tiebreak steps the standings payload has data for, in rulebook order.
+ * Head-to-head, common games, strength of victory and strength of schedule
+ * need game-level results, so they are skipped. Net points stands in for the
+ * net-points steps and team ID stands in for the coin toss.
+ */
+const DIVISION_TIEBREAKERS: Tiebreaker[] = [
+  (t) => t.divisionWinPercent,
+  (t) => t.conferenceWinPercent,
+  (t) => t.pointDifferential,
+  (t) => t.pointsFor,
+];
+
+const CONFERENCE_TIEBREAKERS: Tiebreaker[] = [
+  (t) => t.conferenceWinPercent,
+  (t) => t.pointDifferential,
+  (t) => t.pointsFor,
+];
+
+/**
+ * Parse a "W-L" or "W-L-T" record summary into a win percentage (ties count half)
+ */
+function parseRecordPercent(summary: string | undefined): number {
+  if (!summary) return 0;
+  const [wins = 0, losses = 0, ties = 0] = summary
+    .split("-")
+    .map((part) => Number.parseInt(part, 10) || 0);
+  const games = wins + losses + ties;
+  return games > 0 ? (wins + ties / 2) / games : 0;
+}
+
+function getStatValue(stats: ESPNStandingsStat[], ...names: string[]): number {
+  const stat = stats.find((s) => s.name && names.includes(s.name));
+  return stat?.value ?? 0;
+}
+
+function getRecordSummary(stats: ESPNStandingsStat[], type: string): string | undefined {
+  const stat = stats.find((s) => s.type === type);
+  return stat?.summary ?? stat?.displayValue;
+}
+
+function parseEntry(
+  entry: ESPNStandingsEntry,
+  conference: Conference,
+  division: string,
+): TeamStanding {
+  const { stats } = entry;
+  const wins = getStatValue(stats, "wins");
+  const losses = getStatValue(stats, "losses");
+  const ties = getStatValue(stats, "ties");
+  const games = wins + losses + ties;
+  const pointsFor = getStatValue(stats, "pointsFor");
+  const pointsAgainst = getStatValue(stats, "pointsAgainst");
+
+  return {
+    teamId: mapTeamAbbreviation(entry.team.abbreviation),
+    conference,
+    division,
+    // Computed from the record so equal records compare exactly equal
+    winPercent: games > 0 ? (wins + ties / 2) / games : getStatValue(stats, "winPercent"),
+    divisionWinPercent: parseRecordPercent(getRecordSummary(stats, "vsdiv")),
+    conferenceWinPercent: parseRecordPercent(getRecordSummary(stats, "vsconf")),
+    pointDifferential: pointsFor - pointsAgainst,
+    pointsFor,
+  };
+}
+
+/**
+ * Flatten the conference/division tree into team standings
+ */
+export function parseStandings(response: ESPNStandingsResponse): TeamStanding[] {
+  const standings: TeamStanding[] = [];
+
+  for (const conferenceGroup of response.children ?? []) {
+    const conference = conferenceGroup.abbreviation?.toUpperCase();
+    if (conference !== "AFC" && conference !== "NFC") continue;
+
+    for (const divisionGroup of conferenceGroup.children ?? []) {
+      for (const entry of divisionGroup.standings?.entries ?? []) {
+        standings.push(parseEntry(entry, conference, divisionGroup.name));
+      }
+    }
+  }
+
+  return standings;
+}
+
+/**
+ * Narrow a tied group step by step until one team is left
+ */
+function breakTie(tied: TeamStanding[], tiebreakers: Tiebreaker[]): TeamStanding {
+  let remaining = tied;
+
+  for (const tiebreaker of tiebreakers) {
+    if (remaining.length === 1) break;
+    const best = Math.max(...remaining.map(tiebreaker));
+    remaining = remaining.filter((t) => tiebreaker(t) === best);
+  }
+
+  // Coin toss stand-in: deterministic by team ID
+  return [...remaining].sort((a, b) => a.teamId.localeCompare(b.teamId))[0];
+}
+
+/**
+ * Pick the best team from a group, breaking ties the way the NFL does:
+ * ties within a division are settled first, then the survivors are compared
+ * with the conference tiebreakers.
+ */
+function pickBest(candidates: TeamStanding[]): TeamStanding {
+  const bestPercent = Math.max(...candidates.map((t) => t.winPercent));
+  const tied = candidates.filter((t) => t.winPercent === bestPercent);
+
+  const byDivision = new Map<string, TeamStanding[]>();
+  for (const team of tied) {
+    byDivision.set(team.division, [...(byDivision.get(team.division) ?? []), team]);
+  }
+
+  const divisionLeaders = [...byDivision.values()].map((group) =>
+    breakTie(group, DIVISION_TIEBREAKERS),
+  );
+
+  return breakTie(divisionLeaders, CONFERENCE_TIEBREAKERS);
+}
+
+/**
+ * Rank teams by repeatedly taking the best one; after each pick the
+ * remaining teams go back through the tiebreakers from the first step
+ */
+function rankTeams(teams: TeamStanding[], count: number): TeamStanding[] {
+  const ranked: TeamStanding[] = [];
+  let remaining = teams;
+
+  while (ranked.length < count && remaining.length > 0) {
+    const best = pickBest(remaining);
+    ranked.push(best);
+    remaining = remaining.filter((t) => t !== best);
+  }
+
+  return ranked;
+}
+
+/**
+ * Compute one conference's seeds: division winners take #1-#4, the best
+ * remaining teams take the wild card spots (#5-#7 in the 14-team format)
+ */
+export function computeConferenceSeeds(
+  standings: TeamStanding[],
+  conference: Conference,
+  seedsPerConference: number = DEFAULT_SEEDS_PER_CONFERENCE,
+): string[] {
+  const teams = standings.filter((t) => t.conference === conference);
+  const divisions = [...new Set(teams.map((t) => t.division))];
+
+  const divisionWinners = divisions.map(
+    (division) =>
+      rankTeams(
+        teams.filter((t) => t.division === division),
+        1,
+      )[0],
+  );
+  const wildCardPool = teams.filter((t) => !divisionWinners.includes(t));
+
+  return [
+    ...rankTeams(divisionWinners, DIVISION_WINNERS),
+    ...rankTeams(wildCardPool, seedsPerConference - DIVISION_WINNERS),
+  ].map((t) => t.teamId);
+}
+
+/**
+ * Derive both conferences' playoff seeds from an ESPN standings payload
+ */
+export function parseStandingsSeeds(
+  response: ESPNStandingsResponse,
+  seedsPerConference: number = DEFAULT_SEEDS_PER_CONFERENCE,
+): SeasonSeeds {
+  const standings = parseStandings(response);
+  return {
+    AFC: computeConferenceSeeds(standings, "AFC", seedsPerConference),
+    NFC: computeConferenceSeeds(standings, "NFC", seedsPerConference),
+  };
+}
+
+export async function fetchStandings(
+  season: number = DEFAULT_SEASON,
+): Promise<ESPNStandingsResponse> {
+  const params = new URLSearchParams({
+    season: season.toString(),
+    seasontype: "2", // Regular season
+    level: "3", // Conference > division > teams
+  });
+
+  const fetchJson = getEspnFetcher();
+  return (await fetchJson(`${ESPN_STANDINGS_URL}?${params.toString()}`)) as ESPNStandingsResponse;
+}
+
+export async function fetchStandingsSeeds(season: number = DEFAULT_SEASON): Promise<SeasonSeeds> {
+  const response = await fetchStandings(season);
+  return parseStandingsSeeds(response, getSeasonFormat(season).seedsPerConference);
+}
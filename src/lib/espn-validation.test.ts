@@ -0,0 +1,164 @@
+import { describe, expect, it } from "bun:test";
+import { parsePlayoffResults } from "@/lib/espn-api";
+import { parseGameBoxscore } from "@/lib/espn-boxscore";
+import {
+  createFieldChecker,
+  EspnParseError,
+  getDataQuality,
+  MAX_DATA_QUALITY_ISSUES,
+} from "@/lib/espn-validation";
+import type { ParseIssue } from "@/types";
+
+// ESPN's scoreboard event for the NE-LAC wild card game, trimmed to what we parse
+function event(id = "401772901") {
+  return {
+    id,
+    date: "2026-01-10T21:30Z",
+    week: { number: 1 },
+    competitions: [
+      {
+        id,
+        date: "2026-01-10T21:30Z",
+        competitors: [
+          { id: "17", homeAway: "home", score: "24", team: { abbreviation: "NE" } },
+          { id: "24", homeAway: "away", score: "17", team: { abbreviation: "LAC" } },
+        ],
+        status: {
+          displayClock: "0:00",
+          period: 4,
+          type: { state: "post", completed: true, description: "Final" },
+        },
+      },
+    ],
+  };
+}
+
+// The same game's summary header, with optional sections added per test
+function summary(extra: Record<string, unknown> = {}) {
+  const { competitors, status } = event().competitions[0];
+  return { header: { competitions: [{ competitors, status }] }, ...extra };
+}
+
+describe("createFieldChecker", () => {
+  it("records missing and mistyped fields under their full path", () => {
+    const issues: ParseIssue[] = [];
+    const check = createFieldChecker({ a: { b: [1, "x"] } }, "root", issues);
+
+    expect(check(["a", "b", 0], "number")).toBe(true);
+    expect(check(["a", "b", 1], "number", { severity: "warning" })).toBe(false);
+    expect(check(["a", "c"], "string")).toBe(false);
+    expect(check(["a", "d"], "string", { optional: true })).toBe(true);
+
+    expect(issues).toEqual([
+      { path: "root.a.b[1]", problem: "must be a number, not string", severity: "warning" },
+      { path: "root.a.c", problem: "is missing", severity: "error" },
+    ]);
+  });
+
+  it("calls data degraded only when something was wrong", () => {
+    expect(getDataQuality([]).status).toBe("ok");
+    expect(getDataQuality([{ path: "x", problem: "is missing", severity: "warning" }]).status).toBe(
+      "degraded",
+    );
+  });
+
+  it("counts every issue but only lists the first few", () => {
+    const issues: ParseIssue[] = Array.from({ length: 12 }, (_, i) => ({
+      path: `events[${i}]`,
+      problem: "is missing",
+      severity: i % 3 === 0 ? "error" : "warning",
+    }));
+    const quality = getDataQuality(issues);
+
+    expect(quality).toMatchObject({ status: "degraded", errorCount: 4, warningCount: 8 });
+    expect(quality.issues).toEqual(issues.slice(0, MAX_DATA_QUALITY_ISSUES));
+  });
+});
+
+describe("parsePlayoffResults", () => {
+  it("parses a well-formed scoreboard without issues", () => {
+    const { data, issues } = parsePlayoffResults([{ events: [event()] }]);
+    expect(issues).toEqual([]);
+    expect(data.afc.wildCard).toHaveLength(1);
+    expect(data.afc.wildCard[0]).toMatchObject({ homeScore: 24, awayScore: 17, isComplete: true });
+  });
+
+  it("skips events it can't place and keeps the rest", () => {
+    const noTeams = event("2");
+    noTeams.competitions[0].competitors = [];
+    const unknownTeam = event("3");
+    unknownTeam.competitions[0].competitors[1].team.abbreviation = "XFL";
+
+    const { data, issues } = parsePlayoffResults([{ events: [noTeams, unknownTeam, event()] }]);
+
+    expect(data.afc.wildCard.map((m) => m.matchupId)).toEqual(["afc-wildCard-401772901"]);
+    expect(issues).toContainEqual({
+      path: "scoreboard[0].events[0].competitions[0].competitors",
+      problem: "has no home team",
+      severity: "error",
+    });
+    expect(issues).toContainEqual({
+      path: "scoreboard[0].events[1].competitions[0].competitors[1].team.abbreviation",
+      problem: '"XFL" is not an NFL team',
+      severity: "error",
+    });
+  });
+
+  it("keeps events with bad details and warns about them", () => {
+    const badScore = event();
+    badScore.competitions[0].competitors[0].score = "";
+
+    const { data, issues } = parsePlayoffResults([{ events: [badScore] }]);
+
+    expect(data.afc.wildCard[0].homeScore).toBeNull();
+    expect(issues).toEqual([
+      {
+        path: "scoreboard[0].events[0].competitions[0].competitors[0].score",
+        problem: "must be a whole number",
+        severity: "warning",
+      },
+    ]);
+  });
+
+  it("reports a response without events", () => {
+    const { issues } = parsePlayoffResults([{ events: [event()] }, { error: "Not found" }]);
+    expect(issues).toEqual([
+      { path: "scoreboard[1].events", problem: "is missing", severity: "error" },
+    ]);
+  });
+});
+
+describe("parseGameBoxscore", () => {
+  it("parses a well-formed summary without issues", () => {
+    const { data, issues } = parseGameBoxscore(summary(), "401772901");
+    expect(issues).toEqual([]);
+    expect(data).toMatchObject({ homeTeamId: "NE", awayTeamId: "LAC", homeScore: 24 });
+    expect(data.dataQuality).toEqual({ status: "ok", errorCount: 0, warningCount: 0, issues: [] });
+  });
+
+  it("throws EspnParseError for a summary without its header", () => {
+    expect(() => parseGameBoxscore({ boxscore: {} }, "401772901")).toThrow(EspnParseError);
+  });
+
+  it("leaves out sections that aren't lists and marks the data degraded", () => {
+    const { data, issues } = parseGameBoxscore(
+      summary({
+        scoringPlays: "none",
+        winprobability: [{ playId: "1", homeWinPercentage: 0.6 }, { playId: "2" }],
+      }),
+      "401772901",
+    );
+
+    expect(data.scoringPlays).toEqual([]);
+    expect(data.momentum?.currentHomeWinPct).toBe(60);
+    expect(data.dataQuality.status).toBe("degraded");
+    expect(issues).toEqual([
+      { path: "summary.scoringPlays", problem: "must be a list, not string", severity: "warning" },
+      {
+        path: "summary.winprobability",
+        problem: "1 of 2 points can't be read",
+        severity: "warning",
+      },
+    ]);
+  });
+});
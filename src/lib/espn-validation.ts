@@ -0,0 +1,111 @@
+import type { DataQuality, ParseIssue } from "@/types";
+
+/**
+ * Runtime checks for ESPN responses. The ESPN* interfaces only describe what
+ * the API used to send, so parsers check the fields they rely on first and
+ * record a ParseIssue for anything that doesn't fit, instead of quietly
+ * producing NaN scores or empty lists.
+ */
+
+// Response header telling clients whether the data in the body parsed cleanly
+export const DATA_QUALITY_HEADER = "X-Data-Quality";
+
+// Issues sent to clients with the data; the full list only goes to the server log
+export const MAX_DATA_QUALITY_ISSUES = 5;
+
+/**
+ * A response too broken to use at all; `issues` says what was wrong with it
+ */
+export class EspnParseError extends Error {
+  readonly issues: ParseIssue[];
+
+  constructor(message: string, issues: ParseIssue[]) {
+    super(message);
+    this.name = "EspnParseError";
+    this.issues = issues;
+  }
+}
+
+type PathKey = string | number;
+type FieldKind = "string" | "number" | "boolean" | "object" | "array";
+
+interface FieldOptions {
+  // Missing is fine, the wrong type isn't
+  optional?: boolean;
+  severity?: ParseIssue["severity"];
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The value at `keys` inside a response, or undefined if anything on the way is missing
+ */
+export function getPath(value: unknown, keys: PathKey[]): unknown {
+  return keys.reduce<unknown>((current, key) => {
+    if (Array.isArray(current) && typeof key === "number") return current[key];
+    if (isRecord(current) && typeof key === "string") return current[key];
+    return undefined;
+  }, value);
+}
+
+/**
+ * e.g. formatPath("events[0]", ["competitions", 0, "date"]) is "events[0].competitions[0].date"
+ */
+export function formatPath(base: string, keys: PathKey[]): string {
+  return keys.reduce<string>(
+    (path, key) => (typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key),
+    base,
+  );
+}
+
+function getKind(value: unknown): string {
+  if (Array.isArray(value)) return "array";
+  if (value === null) return "null";
+  return typeof value;
+}
+
+/**
+ * A checker for the fields under one part of a response. Each call checks the
+ * value at `keys`, records an issue under its full path if it doesn't fit, and
+ * says whether it did.
+ */
+export function createFieldChecker(root: unknown, basePath: string, issues: ParseIssue[]) {
+  return (keys: PathKey[], kind: FieldKind, options: FieldOptions = {}): boolean => {
+    const value = getPath(root, keys);
+    if (value === undefined && options.optional) return true;
+
+    const actual = getKind(value);
+    const fits =
+      kind === "number" ? actual === "number" && Number.isFinite(value) : actual === kind;
+    if (!fits) {
+      issues.push({
+        path: formatPath(basePath, keys),
+        problem:
+          value === undefined
+            ? "is missing"
+            : `must be ${kind === "array" ? "a list" : `a ${kind}`}, not ${actual}`,
+        severity: options.severity ?? "error",
+      });
+    }
+    return fits;
+  };
+}
+
+export function countErrors(issues: ParseIssue[]): number {
+  return issues.filter((issue) => issue.severity === "error").length;
+}
+
+/**
+ * A summary of the parse that's small enough to send with every response, however broken ESPN's is
+ */
+export function getDataQuality(issues: ParseIssue[]): DataQuality {
+  const errorCount = countErrors(issues);
+  return {
+    status: issues.length > 0 ? "degraded" : "ok",
+    errorCount,
+    warningCount: issues.length - errorCount,
+    issues: issues.slice(0, MAX_DATA_QUALITY_ISSUES),
+  };
+}
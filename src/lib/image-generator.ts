@@ -1,3 +1,4 @@
+import { downloadBlob } from "@/lib/utils";
 import type { BracketState } from "@/types";
 
 export interface GenerateImageOptions {
@@ -33,14 +34,7 @@ export async function generateBracketImage(
 }
 
 export async function downloadImage(blob: Blob, filename: string): Promise<void> {
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement("a");
-  link.href = url;
-  link.download = filename;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+  downloadBlob(blob, filename);
 }
 
 export async function copyImageToClipboard(blob: Blob): Promise<void> {
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "bun:test";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { createFileJsonStore, createMemoryJsonStore } from "@/lib/json-store";
+
+describe("createMemoryJsonStore", () => {
+  it("runs concurrent updates one after another", async () => {
+    const store = createMemoryJsonStore(() => ({ count: 0 }));
+    await Promise.all(
+      Array.from({ length: 5 }, () =>
+        store.update((data) => {
+          data.count++;
+        }),
+      ),
+    );
+    expect(await store.read()).toEqual({ count: 5 });
+  });
+
+  it("keeps going after a failed update", async () => {
+    const store = createMemoryJsonStore(() => ({ count: 0 }));
+    const failed = store.update(() => {
+      throw new Error("bad write");
+    });
+    const next = store.update((data) => {
+      data.count++;
+    });
+
+    await expect(failed).rejects.toThrow("bad write");
+    await next;
+    expect(await store.read()).toEqual({ count: 1 });
+  });
+});
+
+describe("createFileJsonStore", () => {
+  it("starts empty and creates the file and its directory on the first write", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "json-store-"));
+    try {
+      const filePath = path.join(dir, "nested", "data.json");
+      const store = createFileJsonStore<string[]>(filePath, () => []);
+      expect(await store.read()).toEqual([]);
+
+      await store.update((data) => {
+        data.push("a");
+      });
+      expect(JSON.parse(await readFile(filePath, "utf8"))).toEqual(["a"]);
+      expect(await createFileJsonStore<string[]>(filePath, () => []).read()).toEqual(["a"]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,84 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * One JSON document, read and written whole: what the pool and bracket stores
+ * keep their data in until a database-backed store replaces them
+ */
+export interface JsonStore<T> {
+  read(): Promise<T>;
+  // Writes are queued so concurrent requests never read a snapshot another is about to overwrite
+  update(mutate: (data: T) => void): Promise<void>;
+}
+
+function createJsonStore<T>(
+  load: () => Promise<T>,
+  save: (data: T) => Promise<void>,
+): JsonStore<T> {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return {
+    read: load,
+    update(mutate) {
+      const next = queue.then(async () => {
+        const data = await load();
+        mutate(data);
+        await save(data);
+      });
+      // Keep the queue going after a failed write; the caller still sees the error
+      queue = next.catch(() => undefined);
+      return next;
+    },
+  };
+}
+
+/**
+ * In-memory store, for tests and throwaway deployments
+ */
+export function createMemoryJsonStore<T>(empty: () => T): JsonStore<T> {
+  let data = empty();
+  return createJsonStore(
+    async () => structuredClone(data),
+    async (next) => {
+      data = next;
+    },
+  );
+}
+
+/**
+ * Store kept in one JSON file. Fine for a local server or a single office
+ * pool; writes go to a temp file first so a crash mid-write can't corrupt it.
+ */
+export function createFileJsonStore<T>(filePath: string, empty: () => T): JsonStore<T> {
+  const load = async (): Promise<T> => {
+    try {
+      return JSON.parse(await readFile(filePath, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return empty();
+      throw error;
+    }
+  };
+
+  const save = async (data: T) => {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    await writeFile(tempPath, JSON.stringify(data));
+    await rename(tempPath, filePath);
+  };
+
+  return createJsonStore(load, save);
+}
+
+/**
+ * The store a server setting picks: `<name>=memory` keeps nothing on disk,
+ * otherwise it's the file at `<name>_PATH`, or `.data/<fileName>`
+ */
+export function getConfiguredJsonStore<T>(
+  name: string,
+  fileName: string,
+  empty: () => T,
+): JsonStore<T> {
+  if (process.env[name] === "memory") return createMemoryJsonStore(empty);
+  const filePath = process.env[`${name}_PATH`] ?? path.join(process.cwd(), ".data", fileName);
+  return createFileJsonStore(filePath, empty);
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "bun:test";
+import {
+  applyLiveResultsDelta,
+  createLiveResultsLog,
+  diffLiveResults,
+  formatStreamEvent,
+} from "@/lib/live-results-stream";
+import type { LiveMatchupResult, LiveResults } from "@/types";
+
+function game(matchupId: string, homeScore: number | null = null): LiveMatchupResult {
+  return {
+    matchupId,
+    homeTeamId: "NE",
+    awayTeamId: "LAC",
+    homeScore,
+    awayScore: homeScore === null ? null : 0,
+    winnerId: null,
+    isComplete: false,
+    isInProgress: homeScore !== null,
+    gameDate: null,
+    quarter: null,
+    timeRemaining: null,
+    possession: null,
+    isRedZone: false,
+    isHalftime: false,
+    isEndOfQuarter: false,
+    homeWinPct: null,
+  };
+}
+
+function liveResults(wildCard: LiveMatchupResult[], fetchedAt = 1000): LiveResults {
+  return {
+    afc: { wildCard, divisional: [], championship: null },
+    nfc: { wildCard: [game("nfc-wildCard-2")], divisional: [], championship: null },
+    superBowl: null,
+    fetchedAt,
+  };
+}
+
+describe("diffLiveResults", () => {
+  it("sends only the games that changed", () => {
+    const prev = liveResults([game("afc-wildCard-1"), game("afc-wildCard-3")]);
+    const next = liveResults([game("afc-wildCard-1", 7), game("afc-wildCard-3")], 2000);
+
+    expect(diffLiveResults(prev, next)).toEqual({
+      games: [{ slot: "afc.wildCard", game: game("afc-wildCard-1", 7) }],
+      fetchedAt: 2000,
+      dataQuality: null,
+      stale: null,
+    });
+  });
+
+  it("can't describe a game that went away", () => {
+    const prev = liveResults([game("afc-wildCard-1"), game("afc-wildCard-3")]);
+    expect(diffLiveResults(prev, liveResults([game("afc-wildCard-1")]))).toBeNull();
+  });
+});
+
+describe("applyLiveResultsDelta", () => {
+  it("rebuilds the next results and keeps unchanged games as they were", () => {
+    const prev = liveResults([game("afc-wildCard-1"), game("afc-wildCard-3")]);
+    const next: LiveResults = {
+      ...liveResults([game("afc-wildCard-1", 7), game("afc-wildCard-3"), game("afc-wildCard-5")]),
+      superBowl: game("super-bowl-9"),
+      stale: { since: 1500, reason: "ESPN API error: 503" },
+    };
+
+    const applied = applyLiveResultsDelta(prev, diffLiveResults(prev, next)!);
+
+    expect(applied).toEqual(next);
+    expect(applied.afc.wildCard[1]).toBe(prev.afc.wildCard[1]);
+    expect(applied.nfc.wildCard).toBe(prev.nfc.wildCard);
+  });
+
+  it("clears staleness once results come through again", () => {
+    const prev = { ...liveResults([]), stale: { since: 1500, reason: "timeout" } };
+    const next = liveResults([], 2000);
+    expect(applyLiveResultsDelta(prev, diffLiveResults(prev, next)!)).toEqual(next);
+  });
+});
+
+describe("createLiveResultsLog", () => {
+  it("starts with a snapshot, then sends deltas only when something changed", () => {
+    const log = createLiveResultsLog("e1");
+
+    expect(log.update(liveResults([game("afc-wildCard-1")]))?.type).toBe("snapshot");
+    expect(log.update(liveResults([game("afc-wildCard-1")], 2000))).toBeNull();
+
+    const event = log.update(liveResults([game("afc-wildCard-1", 3)], 3000));
+    expect(event).toMatchObject({ id: "e1-2", type: "delta" });
+  });
+
+  it("sends a snapshot when a game goes away", () => {
+    const log = createLiveResultsLog("e1");
+    log.update(liveResults([game("afc-wildCard-1"), game("afc-wildCard-3")]));
+    expect(log.update(liveResults([game("afc-wildCard-1")]))?.type).toBe("snapshot");
+  });
+
+  it("resumes a client from its last event id, or sends a snapshot", () => {
+    const log = createLiveResultsLog("e2", 2);
+    expect(log.catchUp(null)).toEqual([]);
+
+    log.update(liveResults([game("afc-wildCard-1")]));
+    log.update(liveResults([game("afc-wildCard-1", 3)]));
+    log.update(liveResults([game("afc-wildCard-1", 7)]));
+
+    expect(log.catchUp("e2-3")).toEqual([]);
+    expect(log.catchUp("e2-2").map((event) => event.id)).toEqual(["e2-3"]);
+
+    // Too old to resume from (only two events kept), from an earlier server, or none at all
+    for (const lastEventId of ["e2-1", "e1-2", null]) {
+      const events = log.catchUp(lastEventId);
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ id: "e2-3", type: "snapshot" });
+    }
+  });
+});
+
+describe("formatStreamEvent", () => {
+  it("writes the id, event type and data lines", () => {
+    const event = { id: "e1-4", type: "snapshot" as const, data: liveResults([]) };
+    expect(formatStreamEvent(event)).toBe(
+      `id: e1-4\nevent: snapshot\ndata: ${JSON.stringify(event.data)}\n\n`,
+    );
+  });
+});
@@ -0,0 +1,170 @@
+import type { LiveMatchupResult, LiveResults, LiveResultsDelta, LiveResultsSlot } from "@/types";
+
+/**
+ * The live results stream protocol. Every SSE event has an id and is either a
+ * `snapshot` (the whole LiveResults) or a `delta` (only the games that
+ * changed). A client that reconnects with the Last-Event-ID header gets the
+ * deltas it missed, or a fresh snapshot if they're no longer kept.
+ */
+
+export type LiveResultsStreamEvent =
+  | { id: string; type: "snapshot"; data: LiveResults }
+  | { id: string; type: "delta"; data: LiveResultsDelta };
+
+const SLOTS: LiveResultsSlot[] = [
+  "afc.wildCard",
+  "afc.divisional",
+  "afc.championship",
+  "nfc.wildCard",
+  "nfc.divisional",
+  "nfc.championship",
+  "superBowl",
+];
+
+function getSlotGames(results: LiveResults, slot: LiveResultsSlot): LiveMatchupResult[] {
+  if (slot === "superBowl") return results.superBowl ? [results.superBowl] : [];
+  const [conference, round] = slot.split(".") as ["afc" | "nfc", keyof LiveResults["afc"]];
+  const games = results[conference][round];
+  return Array.isArray(games) ? games : games ? [games] : [];
+}
+
+/**
+ * The delta that turns `prev` into `next`, or null if one can't: a game
+ * disappeared or moved, which only a snapshot can say. A delta with no games
+ * whose dataQuality and stale are unchanged means only `fetchedAt` moved on.
+ */
+export function diffLiveResults(prev: LiveResults, next: LiveResults): LiveResultsDelta | null {
+  const games: LiveResultsDelta["games"] = [];
+
+  for (const slot of SLOTS) {
+    const before = new Map(getSlotGames(prev, slot).map((game) => [game.matchupId, game]));
+    const after = getSlotGames(next, slot);
+    const afterIds = new Set(after.map((game) => game.matchupId));
+    // A championship or Super Bowl can be swapped for another game, not taken away
+    const isRemoved =
+      slot.includes("wildCard") || slot.includes("divisional")
+        ? [...before.keys()].some((id) => !afterIds.has(id))
+        : before.size > after.length;
+    if (isRemoved) return null;
+
+    for (const game of after) {
+      const previous = before.get(game.matchupId);
+      if (!previous || JSON.stringify(previous) !== JSON.stringify(game)) {
+        games.push({ slot, game });
+      }
+    }
+  }
+
+  return {
+    games,
+    fetchedAt: next.fetchedAt,
+    dataQuality: next.dataQuality ?? null,
+    stale: next.stale ?? null,
+  };
+}
+
+/**
+ * Whether a delta has anything besides a new `fetchedAt` worth sending
+ */
+export function hasLiveResultsChanges(prev: LiveResults, delta: LiveResultsDelta): boolean {
+  return (
+    delta.games.length > 0 ||
+    JSON.stringify(prev.dataQuality ?? null) !== JSON.stringify(delta.dataQuality) ||
+    JSON.stringify(prev.stale ?? null) !== JSON.stringify(delta.stale)
+  );
+}
+
+/**
+ * Apply a delta. Games it doesn't mention keep their identity, so only what
+ * changed re-renders.
+ */
+export function applyLiveResultsDelta(results: LiveResults, delta: LiveResultsDelta): LiveResults {
+  const next: LiveResults = {
+    ...results,
+    afc: { ...results.afc },
+    nfc: { ...results.nfc },
+    fetchedAt: delta.fetchedAt,
+  };
+  delete next.dataQuality;
+  delete next.stale;
+  if (delta.dataQuality) next.dataQuality = delta.dataQuality;
+  if (delta.stale) next.stale = delta.stale;
+
+  for (const { slot, game } of delta.games) {
+    if (slot === "superBowl") {
+      next.superBowl = game;
+      continue;
+    }
+    const [conference, round] = slot.split(".") as ["afc" | "nfc", keyof LiveResults["afc"]];
+    if (round === "championship") {
+      next[conference].championship = game;
+      continue;
+    }
+    const games = next[conference][round];
+    const index = games.findIndex((g) => g.matchupId === game.matchupId);
+    next[conference][round] =
+      index === -1 ? [...games, game] : games.map((g, i) => (i === index ? game : g));
+  }
+
+  return next;
+}
+
+export interface LiveResultsLog {
+  /**
+   * Record the latest results and return the event to send to every client,
+   * or null when nothing but `fetchedAt` changed
+   */
+  update(results: LiveResults): LiveResultsStreamEvent | null;
+  /**
+   * What a client connecting now should be sent: the events after
+   * `lastEventId` if they're all still kept, otherwise a snapshot
+   */
+  catchUp(lastEventId: string | null): LiveResultsStreamEvent[];
+}
+
+/**
+ * The event history of one season's stream. Ids start with `epoch` so an id
+ * from before a server restart is never mistaken for a current one.
+ *
+ * @param historySize - Events kept for clients resuming after a reconnect
+ */
+export function createLiveResultsLog(epoch: string, historySize = 100): LiveResultsLog {
+  let sequence = 0;
+  let current: LiveResults | null = null;
+  const history: LiveResultsStreamEvent[] = [];
+
+  const getLastId = () => `${epoch}-${sequence}`;
+
+  return {
+    update(results) {
+      const delta = current ? diffLiveResults(current, results) : null;
+      if (current && delta && !hasLiveResultsChanges(current, delta)) {
+        current = results;
+        return null;
+      }
+
+      current = results;
+      sequence++;
+      const event: LiveResultsStreamEvent = delta
+        ? { id: getLastId(), type: "delta", data: delta }
+        : { id: getLastId(), type: "snapshot", data: results };
+      history.push(event);
+      if (history.length > historySize) history.shift();
+      return event;
+    },
+    catchUp(lastEventId) {
+      if (!current) return [];
+      if (lastEventId === getLastId()) return [];
+      const index = lastEventId ? history.findIndex((event) => event.id === lastEventId) : -1;
+      if (index !== -1) return history.slice(index + 1);
+      return [{ id: getLastId(), type: "snapshot", data: current }];
+    },
+  };
+}
+
+/**
+ * An event in SSE wire format
+ */
+export function formatStreamEvent(event: LiveResultsStreamEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "bun:test";
+import {
+  BRACKET_SCHEMA_VERSION,
+  migrateBracket,
+  readStoredBracket,
+  readStoredSavedBracket,
+} from "@/lib/migrations";
+import { createInitialBracket } from "@/lib/playoff-rules";
+import type { BracketState } from "@/types";
+
+const initial = createInitialBracket("Test User", 2025);
+
+describe("migrateBracket", () => {
+  it("fills in fields missing from brackets saved by older versions", () => {
+    const {
+      schemaVersion: _version,
+      season: _season,
+      lockedRounds: _locked,
+      liveResults: _live,
+      contestMode: _contest,
+      ...legacy
+    } = initial;
+    const migrated = migrateBracket(legacy as BracketState);
+
+    expect(migrated.schemaVersion).toBe(BRACKET_SCHEMA_VERSION);
+    expect(migrated.season).toBe(2025);
+    expect(migrated.lockedRounds).toEqual({
+      wildCard: false,
+      divisional: false,
+      conference: false,
+      superBowl: false,
+    });
+    expect(migrated.liveResults).toBeNull();
+    expect(migrated.contestMode).toBe(false);
+  });
+
+  it("only runs migrations newer than the bracket's schema", () => {
+    const { contestMode: _contest, ...partial } = initial;
+    const atVersion1 = { ...partial, schemaVersion: 1, season: 2019 } as BracketState;
+    const migrated = migrateBracket(atVersion1);
+
+    expect(migrated.season).toBe(2019);
+    expect(migrated.contestMode).toBe(false);
+    expect(migrated.schemaVersion).toBe(BRACKET_SCHEMA_VERSION);
+  });
+
+  it("leaves current brackets untouched", () => {
+    expect(migrateBracket(initial)).toEqual(initial);
+  });
+});
+
+describe("readStoredBracket", () => {
+  it("rejects entries that aren't brackets", () => {
+    expect(() => readStoredBracket(null)).toThrow("Not a bracket");
+    expect(() => readStoredBracket({ id: "abc", afc: {} })).toThrow("Not a bracket");
+  });
+
+  it("rejects brackets saved by a newer version", () => {
+    const future = { ...initial, schemaVersion: BRACKET_SCHEMA_VERSION + 1 };
+    expect(() => readStoredBracket(future)).toThrow("newer version");
+  });
+
+  it("upgrades saved brackets and their wrapper together", () => {
+    const { schemaVersion: _version, contestMode: _contest, ...legacy } = initial;
+    const saved = readStoredSavedBracket({
+      id: initial.id,
+      name: "Old",
+      userName: "Test User",
+      createdAt: 1,
+      updatedAt: 2,
+      state: legacy,
+    });
+
+    expect(saved.schemaVersion).toBe(BRACKET_SCHEMA_VERSION);
+    expect(saved.state.schemaVersion).toBe(BRACKET_SCHEMA_VERSION);
+    expect(saved.state.contestMode).toBe(false);
+  });
+});
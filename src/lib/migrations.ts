@@ -0,0 +1,104 @@
+import { LEGACY_SEASON } from "@/data/seasons";
+import type { BracketState, SavedBracket } from "@/types";
+
+/**
+ * Schema of stored brackets. Bump it and append a migration whenever a field is
+ * added to or changed in BracketState, so brackets saved by older versions
+ * (localStorage, export files) are upgraded step by step when read.
+ */
+export const BRACKET_SCHEMA_VERSION = 3;
+
+interface Migration {
+  version: number; // Schema version the bracket is at after this migration
+  description: string;
+  // Old brackets are typed as current ones, so every field read here may be missing
+  migrate: (bracket: BracketState) => BracketState;
+}
+
+// In version order; brackets saved before versioning are at version 0
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Add the season, round locks and cached live results",
+    migrate: (bracket) => ({
+      ...bracket,
+      season: bracket.season ?? LEGACY_SEASON,
+      lockedRounds: bracket.lockedRounds || {
+        wildCard: false,
+        divisional: false,
+        conference: false,
+        superBowl: false,
+      },
+      liveResults: bracket.liveResults || null,
+    }),
+  },
+  {
+    version: 2,
+    description: "Add contest mode",
+    migrate: (bracket) => ({ ...bracket, contestMode: bracket.contestMode ?? false }),
+  },
+  {
+    version: 3,
+    description: "Store teams as id and seed references, and live results once per season",
+    // Only storage changed: expandBracket reads full teams and references alike,
+    // and live results move out of the bracket the next time it's written. The
+    // bump is so older versions set these brackets aside instead of misreading them.
+    migrate: (bracket) => bracket,
+  },
+];
+
+/**
+ * A stored bracket that can't be read by this version of the app
+ */
+export class StoredBracketError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StoredBracketError";
+  }
+}
+
+/**
+ * Just enough of a shape check to migrate, score and render a bracket
+ */
+export function isBracketState(value: unknown): value is BracketState {
+  if (!value || typeof value !== "object") return false;
+  const bracket = value as Partial<BracketState>;
+  return (
+    typeof bracket.id === "string" &&
+    Array.isArray(bracket.afc?.wildCard) &&
+    Array.isArray(bracket.afc?.divisional) &&
+    Array.isArray(bracket.nfc?.wildCard) &&
+    Array.isArray(bracket.nfc?.divisional)
+  );
+}
+
+/**
+ * Run every migration newer than the bracket's schema version. Brackets from a
+ * newer version of the app are returned as they are.
+ */
+export function migrateBracket(bracket: BracketState): BracketState {
+  const from = bracket.schemaVersion ?? 0;
+  return MIGRATIONS.filter((m) => m.version > from).reduce(
+    (migrated, m) => ({ ...m.migrate(migrated), schemaVersion: m.version }),
+    bracket,
+  );
+}
+
+/**
+ * Read a bracket from storage, upgrading it to the current schema. Throws a
+ * StoredBracketError if it isn't a bracket or was saved by a newer version.
+ */
+export function readStoredBracket(value: unknown): BracketState {
+  if (!isBracketState(value)) throw new StoredBracketError("Not a bracket");
+  if ((value.schemaVersion ?? 0) > BRACKET_SCHEMA_VERSION) {
+    throw new StoredBracketError(`Saved by a newer version (schema ${value.schemaVersion})`);
+  }
+  return migrateBracket(value);
+}
+
+export function readStoredSavedBracket(value: unknown): SavedBracket {
+  if (!value || typeof value !== "object") throw new StoredBracketError("Not a saved bracket");
+  const saved = value as SavedBracket;
+  const state = readStoredBracket(saved.state);
+  return { ...saved, id: state.id, schemaVersion: BRACKET_SCHEMA_VERSION, state };
+}
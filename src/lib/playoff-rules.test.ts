@@ -0,0 +1,95 @@
+import { describe, expect, it } from "bun:test";
+import { BRACKET_FORMATS } from "@/data/formats";
+import { getSeasonSeeds } from "@/data/seasons";
+import { calculateRoundTeams, createInitialBracket, isBracketComplete } from "@/lib/playoff-rules";
+import type { Matchup, SeededTeam } from "@/types";
+
+const ids = (teams: { home: SeededTeam | null; away: SeededTeam | null }[]) =>
+  teams.map(({ home, away }) => [home?.id ?? null, away?.id ?? null]);
+
+const withWinners = (matchups: Matchup[], winnerIds: string[]): Matchup[] =>
+  matchups.map((m, i) => ({
+    ...m,
+    winner: [m.homeTeam, m.awayTeam].find((t) => t?.id === winnerIds[i]) ?? null,
+  }));
+
+describe("createInitialBracket", () => {
+  it("builds the 14-team layout with the #1 seed waiting on a bye", () => {
+    const bracket = createInitialBracket("Test", 2025);
+    expect(bracket.afc.wildCard.map((m) => m.id)).toEqual(["AFC-wc-1", "AFC-wc-2", "AFC-wc-3"]);
+    expect(bracket.afc.divisional[0].homeTeam?.id).toBe("DEN");
+    expect(bracket.afc.divisional[1].homeTeam).toBeNull();
+    expect(bracket.afc.championship?.id).toBe("AFC-champ");
+  });
+
+  it("builds the 12-team layout with two byes for pre-2020 seasons", () => {
+    const bracket = createInitialBracket("Test", 2019);
+    expect(ids(bracket.afc.wildCard.map((m) => ({ home: m.homeTeam, away: m.awayTeam })))).toEqual([
+      ["NE", "TEN"],
+      ["HOU", "BUF"],
+    ]);
+    expect(bracket.afc.divisional.map((m) => m.homeTeam?.id)).toEqual(["BAL", "KC"]);
+  });
+
+  it("builds the 16-team layout with no byes for the expansion what-if", () => {
+    const bracket = createInitialBracket("Test", 2024);
+    expect(ids(bracket.nfc.wildCard.map((m) => ({ home: m.homeTeam, away: m.awayTeam })))).toEqual([
+      ["DET", "SEA"],
+      ["PHI", "GB"],
+      ["TB", "WAS"],
+      ["LAR", "MIN"],
+    ]);
+    expect(bracket.nfc.divisional.map((m) => [m.homeTeam, m.awayTeam])).toEqual([
+      [null, null],
+      [null, null],
+    ]);
+  });
+});
+
+describe("isBracketComplete", () => {
+  it("doesn't count a missing championship or Super Bowl as decided", () => {
+    const empty = { wildCard: [], divisional: [], championship: null };
+    const bracket = createInitialBracket("Test", 2025);
+    expect(isBracketComplete({ ...bracket, afc: empty, nfc: empty, superBowl: null })).toBe(false);
+  });
+});
+
+describe("calculateRoundTeams", () => {
+  it("reseeds so the top seed plays the lowest remaining seed", () => {
+    const bracket = createInitialBracket("Test", 2019);
+    const [, divisional] = BRACKET_FORMATS["nfl-12"].rounds;
+    const seeds = getSeasonSeeds(2019, "AFC");
+
+    // TEN (#6) and HOU (#4) advance: BAL hosts TEN, KC hosts HOU
+    const wildCard = withWinners(bracket.afc.wildCard, ["TEN", "HOU"]);
+    expect(ids(calculateRoundTeams(divisional, wildCard, seeds))).toEqual([
+      ["BAL", "TEN"],
+      ["KC", "HOU"],
+    ]);
+  });
+
+  it("waits for every wild card game before reseeding", () => {
+    const bracket = createInitialBracket("Test", 2025);
+    const [, divisional] = BRACKET_FORMATS["nfl-14"].rounds;
+    const seeds = getSeasonSeeds(2025, "AFC");
+
+    const wildCard = withWinners(bracket.afc.wildCard, ["LAC"]);
+    expect(ids(calculateRoundTeams(divisional, wildCard, seeds))).toEqual([
+      ["DEN", null],
+      [null, null],
+    ]);
+  });
+
+  it("follows fixed paths and lets the higher seed host", () => {
+    const bracket = createInitialBracket("Test", 2024);
+    const [, divisional] = BRACKET_FORMATS["nfl-16"].rounds;
+    const seeds = getSeasonSeeds(2024, "NFC");
+
+    // Winner of 1/8 meets winner of 4/5; #5 MIN hosts #8 SEA
+    const wildCard = withWinners(bracket.nfc.wildCard, ["SEA", "PHI", "WAS", "MIN"]);
+    expect(ids(calculateRoundTeams(divisional, wildCard, seeds))).toEqual([
+      ["MIN", "SEA"],
+      ["PHI", "WAS"],
+    ]);
+  });
+});
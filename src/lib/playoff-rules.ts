@@ -1,196 +1,195 @@
 import { nanoid } from "nanoid";
-import { AFC_SEEDS, NFC_SEEDS } from "@/data/teams";
-import type { BracketState, Conference, Matchup, SeededTeam } from "@/types";
+import { DEFAULT_SEASON, getSeasonFormat, getSeasonSeeds } from "@/data/seasons";
+import { BRACKET_SCHEMA_VERSION } from "@/lib/migrations";
+import type {
+  BracketState,
+  Conference,
+  ConferenceRoundName,
+  Matchup,
+  RoundFormat,
+  SeededTeam,
+  SlotSource,
+} from "@/types";
 
 /**
- * NFL Playoff Rules:
+ * NFL Playoff Rules (14-team format; see src/data/formats.ts for the others):
  * 1. Wild Card Round: #2 vs #7, #3 vs #6, #4 vs #5 (higher seed hosts)
  * 2. Divisional Round: #1 seed (BYE) plays lowest remaining seed, other two play each other
  * 3. Conference Championship: Winners from divisional, higher seed hosts
  * 4. Super Bowl: AFC champion vs NFC champion
  */
 
-export function createWildCardMatchups(conference: Conference): Matchup[] {
-  const seeds = conference === "AFC" ? AFC_SEEDS : NFC_SEEDS;
-
-  // Get teams by seed
-  const seed2 = seeds.find((t) => t.seed === 2)!;
-  const seed3 = seeds.find((t) => t.seed === 3)!;
-  const seed4 = seeds.find((t) => t.seed === 4)!;
-  const seed5 = seeds.find((t) => t.seed === 5)!;
-  const seed6 = seeds.find((t) => t.seed === 6)!;
-  const seed7 = seeds.find((t) => t.seed === 7)!;
-
-  return [
-    {
-      id: `${conference}-wc-1`,
-      round: "wildCard",
-      conference,
-      homeTeam: seed2,
-      awayTeam: seed7,
-      winner: null,
-      gameNumber: 1,
-    },
-    {
-      id: `${conference}-wc-2`,
-      round: "wildCard",
-      conference,
-      homeTeam: seed3,
-      awayTeam: seed6,
-      winner: null,
-      gameNumber: 2,
-    },
-    {
-      id: `${conference}-wc-3`,
-      round: "wildCard",
-      conference,
-      homeTeam: seed4,
-      awayTeam: seed5,
-      winner: null,
-      gameNumber: 3,
-    },
-  ];
+type ConferenceState = BracketState["afc"];
+
+export interface RoundTeams {
+  home: SeededTeam | null;
+  away: SeededTeam | null;
 }
 
-export function createDivisionalMatchups(conference: Conference): Matchup[] {
-  const seeds = conference === "AFC" ? AFC_SEEDS : NFC_SEEDS;
-  const byeTeam = seeds.find((t) => t.seed === 1)!;
-
-  return [
-    {
-      id: `${conference}-div-1`,
-      round: "divisional",
-      conference,
-      // #1 seed has a BYE and is pre-filled, waiting for lowest remaining seed
-      homeTeam: byeTeam,
-      awayTeam: null,
-      winner: null,
-      gameNumber: 1,
-    },
-    {
-      id: `${conference}-div-2`,
-      round: "divisional",
-      conference,
-      // Other two wild card winners will play here
-      homeTeam: null,
-      awayTeam: null,
-      winner: null,
-      gameNumber: 2,
-    },
-  ];
+/**
+ * Build a matchup ID, e.g. "AFC-wc-1" (there's only one championship per conference)
+ */
+function getMatchupId(conference: Conference, round: ConferenceRoundName, gameNumber: number) {
+  if (round === "conference") return `${conference}-champ`;
+  return `${conference}-${round === "wildCard" ? "wc" : "div"}-${gameNumber}`;
 }
 
-export function createChampionshipMatchup(conference: Conference): Matchup {
-  return {
-    id: `${conference}-champ`,
-    round: "conference",
-    conference,
-    homeTeam: null,
-    awayTeam: null,
-    winner: null,
-    gameNumber: 1,
-  };
+/**
+ * Get a conference's matchups for a round (the championship is stored as a single matchup)
+ */
+export function getRoundMatchups(
+  confState: ConferenceState,
+  round: ConferenceRoundName,
+): Matchup[] {
+  if (round === "conference") return confState.championship ? [confState.championship] : [];
+  return confState[round];
 }
 
-export function createSuperBowlMatchup(): Matchup {
-  return {
-    id: "super-bowl",
-    round: "superBowl",
-    conference: "superBowl",
-    homeTeam: null,
-    awayTeam: null,
-    winner: null,
-    gameNumber: 1,
-  };
+export function setRoundMatchups(
+  confState: ConferenceState,
+  round: ConferenceRoundName,
+  matchups: Matchup[],
+): ConferenceState {
+  if (round === "conference") return { ...confState, championship: matchups[0] ?? null };
+  return { ...confState, [round]: matchups };
 }
 
 /**
- * Calculate divisional round matchups based on wild card winners
- *
- * IMPORTANT: We can ONLY determine matchups when ALL 3 wild card games are complete.
- * This is because the #1 seed plays the LOWEST remaining seed, which we can't know
- * until all games are decided.
+ * Higher seed hosts once both teams are known
+ */
+function orderByHost(home: SeededTeam | null, away: SeededTeam | null): RoundTeams {
+  if (home && away && away.seed < home.seed) return { home: away, away: home };
+  return { home, away };
+}
+
+function resolveSlot(
+  slot: SlotSource,
+  previous: Matchup[],
+  seeds: SeededTeam[],
+): SeededTeam | null {
+  if ("seed" in slot) return seeds.find((t) => t.seed === slot.seed) ?? null;
+  return previous[slot.winnerOf]?.winner ?? null;
+}
+
+/**
+ * Calculate the teams for each game of a round from the previous round's matchups
  *
- * Rules:
- * - #1 seed (BYE) plays the lowest remaining seed (highest seed number among winners)
- * - The other two winners play each other
- * - Higher seed always hosts
+ * IMPORTANT: A reseeded round can ONLY be paired when ALL games of the previous
+ * round are complete. This is because the top seed plays the LOWEST remaining
+ * seed, which we can't know until all games are decided. Until then bye teams
+ * are shown as hosts with their opponents TBD.
  */
-export function calculateDivisionalMatchups(
-  conference: Conference,
-  wildCardWinners: (SeededTeam | null)[],
-): {
-  matchup1: { home: SeededTeam; away: SeededTeam | null };
-  matchup2: { home: SeededTeam | null; away: SeededTeam | null };
-} {
-  const seeds = conference === "AFC" ? AFC_SEEDS : NFC_SEEDS;
-  const byeTeam = seeds.find((t) => t.seed === 1)!;
-
-  // Filter out null winners
-  const winners = wildCardWinners.filter((w): w is SeededTeam => w !== null);
-
-  // If not all 3 wild card games are decided, we can't determine matchups yet
-  // #1 seed is always shown but opponent is TBD
-  if (winners.length < 3) {
-    return {
-      matchup1: { home: byeTeam, away: null },
-      matchup2: { home: null, away: null },
-    };
+export function calculateRoundTeams(
+  roundFormat: RoundFormat,
+  previous: Matchup[],
+  seeds: SeededTeam[],
+): RoundTeams[] {
+  if (roundFormat.pairing === "fixed") {
+    return roundFormat.games.map(([home, away]) =>
+      orderByHost(resolveSlot(home, previous, seeds), resolveSlot(away, previous, seeds)),
+    );
   }
 
-  // All 3 wild card games decided - now we can calculate proper matchups
-  // Sort by seed (highest seed number = lowest seed = plays #1)
-  const sorted = [...winners].sort((a, b) => b.seed - a.seed);
-  const lowestSeed = sorted[0]; // Highest seed number - plays #1
-  const middleSeed = sorted[1];
-  const highestSeed = sorted[2]; // Lowest seed number - hosts other game
+  const byes = roundFormat.byes ?? [];
+  const byeTeams = byes
+    .map((seed) => seeds.find((t) => t.seed === seed))
+    .filter((t): t is SeededTeam => t !== undefined);
+  const winners = previous.map((m) => m.winner).filter((w): w is SeededTeam => w !== null);
+  const gameCount = (byes.length + previous.length) / 2;
 
-  // #1 plays lowest remaining seed
-  // Other two play each other, higher seed (lower number) hosts
-  return {
-    matchup1: { home: byeTeam, away: lowestSeed },
-    matchup2: { home: highestSeed, away: middleSeed },
-  };
+  // Sort by seed (lowest seed number = highest seed)
+  const entrants = [...byeTeams, ...winners].sort((a, b) => a.seed - b.seed);
+
+  if (winners.length < previous.length) {
+    // A lone game can show whoever is already through
+    if (gameCount === 1) return [{ home: entrants[0] ?? null, away: entrants[1] ?? null }];
+    return Array.from({ length: gameCount }, (_, i) => ({ home: byeTeams[i] ?? null, away: null }));
+  }
+
+  // Highest remaining seed plays the lowest, next highest plays next lowest, ...
+  return Array.from({ length: gameCount }, (_, i) => ({
+    home: entrants[i] ?? null,
+    away: entrants[entrants.length - 1 - i] ?? null,
+  }));
 }
 
 /**
- * Calculate conference championship matchup
- * Higher seed hosts
+ * Put a round's calculated teams into its matchups, clearing winners who are
+ * no longer playing in that game
  */
-export function calculateChampionshipMatchup(divisionalWinners: (SeededTeam | null)[]): {
-  home: SeededTeam | null;
-  away: SeededTeam | null;
-} {
-  const winners = divisionalWinners.filter((w): w is SeededTeam => w !== null);
+export function applyRoundTeams(matchups: Matchup[], teams: RoundTeams[]): Matchup[] {
+  return matchups.map((matchup, index) => {
+    const { home, away } = teams[index] ?? { home: null, away: null };
+    const winnerStillPlaying =
+      matchup.winner && (matchup.winner.id === home?.id || matchup.winner.id === away?.id);
+
+    return {
+      ...matchup,
+      homeTeam: home,
+      awayTeam: away,
+      winner: winnerStillPlaying ? matchup.winner : null,
+    };
+  });
+}
 
-  if (winners.length < 2) {
-    return { home: winners[0] || null, away: null };
+/**
+ * Create every round of a conference's bracket for a season's format
+ */
+export function createConferenceBracket(conference: Conference, season: number): ConferenceState {
+  const format = getSeasonFormat(season);
+  const seeds = getSeasonSeeds(season, conference);
+
+  let confState: ConferenceState = { wildCard: [], divisional: [], championship: null };
+  let previous: Matchup[] = [];
+
+  for (const roundFormat of format.rounds) {
+    const { round } = roundFormat;
+    const matchups = calculateRoundTeams(roundFormat, previous, seeds).map(
+      ({ home, away }, index): Matchup => ({
+        id: getMatchupId(conference, round, index + 1),
+        round,
+        conference,
+        homeTeam: home,
+        awayTeam: away,
+        winner: null,
+        gameNumber: index + 1,
+      }),
+    );
+    confState = setRoundMatchups(confState, round, matchups);
+    previous = matchups;
   }
 
-  // Sort by seed - lower seed number is higher seed
-  const sorted = [...winners].sort((a, b) => a.seed - b.seed);
-  return { home: sorted[0], away: sorted[1] };
+  return confState;
+}
+
+export function createSuperBowlMatchup(): Matchup {
+  return {
+    id: "super-bowl",
+    round: "superBowl",
+    conference: "superBowl",
+    homeTeam: null,
+    awayTeam: null,
+    winner: null,
+    gameNumber: 1,
+  };
 }
 
 /**
- * Create initial bracket state
+ * Create initial bracket state for a season's playoff field
  */
-export function createInitialBracket(userName: string): BracketState {
+export function createInitialBracket(
+  userName: string,
+  season: number = DEFAULT_SEASON,
+): BracketState {
   return {
     id: nanoid(),
+    schemaVersion: BRACKET_SCHEMA_VERSION,
     name: "",
     subtitle: null,
     userName,
-    afc: {
-      wildCard: createWildCardMatchups("AFC"),
-      divisional: createDivisionalMatchups("AFC"),
-      championship: createChampionshipMatchup("AFC"),
-    },
-    nfc: {
-      wildCard: createWildCardMatchups("NFC"),
-      divisional: createDivisionalMatchups("NFC"),
-      championship: createChampionshipMatchup("NFC"),
-    },
+    season,
+    afc: createConferenceBracket("AFC", season),
+    nfc: createConferenceBracket("NFC", season),
     superBowl: createSuperBowlMatchup(),
     createdAt: Date.now(),
     updatedAt: Date.now(),
@@ -203,6 +202,7 @@ export function createInitialBracket(userName: string): BracketState {
       superBowl: false,
     },
     liveResults: null,
+    contestMode: false,
   };
 }
 
@@ -212,13 +212,13 @@ export function createInitialBracket(userName: string): BracketState {
 export function isBracketComplete(bracket: BracketState): boolean {
   const afcWildCardComplete = bracket.afc.wildCard.every((m) => m.winner !== null);
   const afcDivisionalComplete = bracket.afc.divisional.every((m) => m.winner !== null);
-  const afcChampionshipComplete = bracket.afc.championship?.winner !== null;
+  const afcChampionshipComplete = !!bracket.afc.championship?.winner;
 
   const nfcWildCardComplete = bracket.nfc.wildCard.every((m) => m.winner !== null);
   const nfcDivisionalComplete = bracket.nfc.divisional.every((m) => m.winner !== null);
-  const nfcChampionshipComplete = bracket.nfc.championship?.winner !== null;
+  const nfcChampionshipComplete = !!bracket.nfc.championship?.winner;
 
-  const superBowlComplete = bracket.superBowl?.winner !== null;
+  const superBowlComplete = !!bracket.superBowl?.winner;
 
   return (
     afcWildCardComplete &&
@@ -0,0 +1,84 @@
+import {
+  createFileJsonStore,
+  createMemoryJsonStore,
+  getConfiguredJsonStore,
+  type JsonStore,
+} from "@/lib/json-store";
+import type { Pool, PoolEntry } from "@/types";
+
+/**
+ * Persistence for pools and their entries; route handlers only talk to this interface
+ */
+export interface PoolStore {
+  getPool(id: string): Promise<Pool | null>;
+  findPoolByInviteCode(inviteCode: string): Promise<Pool | null>;
+  createPool(pool: Pool): Promise<void>;
+  // Replaces the pool with the same id
+  updatePool(pool: Pool): Promise<void>;
+  listEntries(poolId: string): Promise<PoolEntry[]>;
+  // Adds the entry, or replaces the one with the same id
+  saveEntry(entry: PoolEntry): Promise<void>;
+}
+
+interface PoolData {
+  pools: Pool[];
+  entries: PoolEntry[];
+}
+
+function emptyData(): PoolData {
+  return { pools: [], entries: [] };
+}
+
+function createPoolStore(json: JsonStore<PoolData>): PoolStore {
+  return {
+    async getPool(id) {
+      const { pools } = await json.read();
+      return pools.find((p) => p.id === id) ?? null;
+    },
+    async findPoolByInviteCode(inviteCode) {
+      const { pools } = await json.read();
+      return pools.find((p) => p.inviteCode === inviteCode) ?? null;
+    },
+    createPool(pool) {
+      return json.update((data) => {
+        data.pools.push(pool);
+      });
+    },
+    updatePool(pool) {
+      return json.update((data) => {
+        const index = data.pools.findIndex((p) => p.id === pool.id);
+        if (index !== -1) data.pools[index] = pool;
+      });
+    },
+    async listEntries(poolId) {
+      const { entries } = await json.read();
+      return entries.filter((e) => e.poolId === poolId);
+    },
+    saveEntry(entry) {
+      return json.update((data) => {
+        const index = data.entries.findIndex((e) => e.id === entry.id);
+        if (index === -1) data.entries.push(entry);
+        else data.entries[index] = entry;
+      });
+    },
+  };
+}
+
+export function createMemoryPoolStore(): PoolStore {
+  return createPoolStore(createMemoryJsonStore(emptyData));
+}
+
+export function createFilePoolStore(filePath: string): PoolStore {
+  return createPoolStore(createFileJsonStore(filePath, emptyData));
+}
+
+let poolStore: PoolStore | null = null;
+
+/**
+ * The store used by the pool API routes (POOL_STORE=memory keeps nothing on
+ * disk, POOL_STORE_PATH moves the file from .data/pools.json)
+ */
+export function getPoolStore(): PoolStore {
+  poolStore ??= createPoolStore(getConfiguredJsonStore("POOL_STORE", "pools.json", emptyData));
+  return poolStore;
+}
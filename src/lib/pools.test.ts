@@ -0,0 +1,354 @@
+import { describe, expect, it } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { game } from "@/lib/__fixtures__/brackets";
+import { bracketReducer, getAllMatchups } from "@/lib/bracket-engine";
+import { createInitialBracket } from "@/lib/playoff-rules";
+import { createFilePoolStore, createMemoryPoolStore } from "@/lib/pool-store";
+import {
+  buildLeaderboard,
+  createPool,
+  getPoolWinChances,
+  joinPool,
+  PoolError,
+  submitEntry,
+} from "@/lib/pools";
+import type { BracketState, LiveResults } from "@/types";
+
+/**
+ * Fill a bracket by always taking the home team (or the away team with `upsets`)
+ */
+function completeBracket(upsets = false): BracketState {
+  let state = createInitialBracket("Tester", 2025);
+  for (;;) {
+    const next = getAllMatchups(state).find((m) => m.homeTeam && m.awayTeam && !m.winner);
+    if (!next) return state;
+    const winner = (upsets ? next.awayTeam : next.homeTeam)!;
+    state = bracketReducer(state, { type: "SELECT_WINNER", matchupId: next.id, winner });
+  }
+}
+
+async function expectPoolError(promise: Promise<unknown>, status: number) {
+  const error = await promise.catch((e: unknown) => e);
+  expect(error).toBeInstanceOf(PoolError);
+  expect((error as PoolError).status).toBe(status);
+}
+
+describe("pools", () => {
+  it("creates a pool and finds it by invite code in any case", async () => {
+    const store = createMemoryPoolStore();
+    const pool = await createPool(store, { name: "  Office Pool ", season: 2025 });
+
+    expect(pool.name).toBe("Office Pool");
+    expect(pool.inviteCode).toMatch(/^[A-Z2-9]{8}$/);
+    expect(await joinPool(store, ` ${pool.inviteCode.toLowerCase()} `)).toEqual(pool);
+    await expectPoolError(joinPool(store, "NOPE"), 404);
+  });
+
+  it("rejects pools without a name or for unknown seasons", async () => {
+    const store = createMemoryPoolStore();
+    await expectPoolError(createPool(store, { name: " ", season: 2025 }), 400);
+    await expectPoolError(createPool(store, { name: "Pool", season: 1999 }), 400);
+  });
+
+  it("updates an entry only for the holder of its entry token", async () => {
+    const store = createMemoryPoolStore();
+    const pool = await createPool(store, { name: "Pool", season: 2025 });
+    const bracket = completeBracket();
+    const input = { inviteCode: pool.inviteCode, displayName: "Sam", bracket };
+
+    const { entry, entryToken } = await submitEntry(store, pool.id, input, null);
+    expect(entry.bracket.liveResults).toBeNull();
+    expect(entry).not.toHaveProperty("tokenHash");
+    const [stored] = await store.listEntries(pool.id);
+    expect(stored.tokenHash).not.toContain(entryToken);
+
+    const updated = await submitEntry(
+      store,
+      pool.id,
+      { ...input, displayName: "Samantha", entryToken },
+      null,
+    );
+    expect(updated.entry.id).toBe(entry.id);
+    expect(updated.entryToken).toBe(entryToken);
+    expect((await store.listEntries(pool.id)).map((e) => e.displayName)).toEqual(["Samantha"]);
+
+    // Knowing the bracket's id isn't enough to take over its entry
+    const other = await submitEntry(store, pool.id, { ...input, entryToken: "guessed" }, null);
+    expect(other.entry.id).not.toBe(entry.id);
+    expect(other.entryToken).not.toBe(entryToken);
+    expect(await store.listEntries(pool.id)).toHaveLength(2);
+  });
+
+  it("freezes picks for rounds that have kicked off", async () => {
+    const store = createMemoryPoolStore();
+    const pool = await createPool(store, { name: "Pool", season: 2025 });
+    const chalk = completeBracket();
+    const first = { inviteCode: pool.inviteCode, displayName: "Sam", bracket: chalk };
+    const { entryToken } = await submitEntry(store, pool.id, first, null);
+    const input = { ...first, entryToken };
+
+    // The wild card round kicked off at noon; the divisional round is next week
+    const noon = Date.parse("2026-01-10T17:00:00Z");
+    const results: LiveResults = {
+      afc: {
+        wildCard: [game("NE", "LAC", null, "2026-01-10T17:00:00Z")],
+        divisional: [game("DEN", "HOU", null, "2026-01-17T17:00:00Z")],
+        championship: null,
+      },
+      nfc: { wildCard: [], divisional: [], championship: null },
+      superBowl: null,
+      fetchedAt: 0,
+    };
+
+    // Before kickoff anything goes
+    const upsets = { ...completeBracket(true), id: chalk.id };
+    await submitEntry(store, pool.id, { ...input, bracket: upsets }, results, noon - 1);
+    await submitEntry(store, pool.id, input, results, noon - 1);
+
+    // After kickoff: no new entries, and wild card picks can't change
+    await expectPoolError(
+      submitEntry(store, pool.id, { ...first, bracket: completeBracket() }, results, noon),
+      403,
+    );
+    await expectPoolError(
+      submitEntry(store, pool.id, { ...input, bracket: upsets }, results, noon),
+      409,
+    );
+
+    // Later rounds are still open (chalk has the home team winning the Super Bowl)
+    const newChampion = bracketReducer(chalk, {
+      type: "SELECT_WINNER",
+      matchupId: "super-bowl",
+      winner: chalk.superBowl!.awayTeam!,
+    });
+    const { entry } = await submitEntry(
+      store,
+      pool.id,
+      { ...input, bracket: newChampion },
+      results,
+      noon,
+    );
+    expect(entry.bracket.superBowl?.winner?.id).not.toBe(chalk.superBowl?.winner?.id);
+  });
+
+  it("keeps rounds frozen once seen, and refuses entries it can't check", async () => {
+    const store = createMemoryPoolStore();
+    const pool = await createPool(store, { name: "Pool", season: 2025 });
+    const chalk = completeBracket();
+    const first = { inviteCode: pool.inviteCode, displayName: "Sam", bracket: chalk };
+    const december = Date.parse("2025-12-20T12:00:00Z");
+    const { entryToken } = await submitEntry(store, pool.id, first, null, december);
+    const input = { ...first, entryToken };
+
+    const noon = Date.parse("2026-01-10T17:00:00Z");
+    const results: LiveResults = {
+      afc: {
+        wildCard: [game("NE", "LAC", null, "2026-01-10T17:00:00Z")],
+        divisional: [],
+        championship: null,
+      },
+      nfc: { wildCard: [], divisional: [], championship: null },
+      superBowl: null,
+      fetchedAt: 0,
+    };
+    await submitEntry(store, pool.id, input, results, noon);
+    expect((await store.getPool(pool.id))?.startedRounds).toEqual(["wildCard"]);
+
+    // ESPN is down during the playoffs: nothing to check deadlines against
+    const upsets = { ...completeBracket(true), id: chalk.id };
+    const empty: LiveResults = { ...results, afc: { ...results.afc, wildCard: [] } };
+    await expectPoolError(submitEntry(store, pool.id, input, null, noon + 1), 503);
+    await expectPoolError(submitEntry(store, pool.id, input, empty, noon + 1), 503);
+
+    // After the playoffs, the rounds seen kicking off stay frozen without results
+    const spring = Date.parse("2026-04-01T12:00:00Z");
+    await expectPoolError(
+      submitEntry(store, pool.id, { ...input, bracket: upsets }, null, spring),
+      409,
+    );
+  });
+
+  it("rejects entries that can't be scored in the pool", async () => {
+    const store = createMemoryPoolStore();
+    const pool = await createPool(store, { name: "Pool", season: 2025 });
+    const entry = { inviteCode: pool.inviteCode, displayName: "Sam", bracket: completeBracket() };
+
+    await expectPoolError(submitEntry(store, "missing", entry, null), 404);
+    await expectPoolError(
+      submitEntry(store, pool.id, { ...entry, inviteCode: "WRONG" }, null),
+      403,
+    );
+    await expectPoolError(
+      submitEntry(store, pool.id, { ...entry, bracket: { id: "x" } }, null),
+      400,
+    );
+    await expectPoolError(
+      submitEntry(store, pool.id, { ...entry, bracket: createInitialBracket("Sam", 2025) }, null),
+      400,
+    );
+    await expectPoolError(
+      submitEntry(store, pool.id, { ...entry, bracket: createInitialBracket("Sam", 2019) }, null),
+      400,
+    );
+  });
+
+  it("rejects brackets with teams the season didn't seed there", async () => {
+    const store = createMemoryPoolStore();
+    const pool = await createPool(store, { name: "Pool", season: 2025 });
+    const input = { inviteCode: pool.inviteCode, displayName: "Sam" };
+
+    // The champion claims to be a #1 seed
+    const bracket = completeBracket(true);
+    const champion = bracket.superBowl!.winner!;
+    const boosted = { ...champion, seed: champion.seed === 1 ? 2 : 1 };
+    const fakeSeed: BracketState = {
+      ...bracket,
+      superBowl: { ...bracket.superBowl!, winner: boosted },
+    };
+    await expectPoolError(submitEntry(store, pool.id, { ...input, bracket: fakeSeed }, null), 400);
+
+    // A wild card game the season never had
+    const swapped = completeBracket();
+    const [first, second] = swapped.afc.wildCard;
+    const fakeGame: BracketState = {
+      ...swapped,
+      afc: {
+        ...swapped.afc,
+        wildCard: [
+          { ...first, awayTeam: second.awayTeam },
+          { ...second, awayTeam: first.awayTeam },
+          ...swapped.afc.wildCard.slice(2),
+        ],
+      },
+    };
+    await expectPoolError(submitEntry(store, pool.id, { ...input, bracket: fakeGame }, null), 400);
+
+    // A championship and Super Bowl between two teams the bracket knocked out in the wild card round
+    const chalk = completeBracket();
+    const [loser, otherLoser] = chalk.afc.wildCard.map((m) => m.awayTeam!);
+    const fakeRun: BracketState = {
+      ...chalk,
+      afc: {
+        ...chalk.afc,
+        championship: {
+          ...chalk.afc.championship!,
+          homeTeam: loser,
+          awayTeam: otherLoser,
+          winner: loser,
+        },
+      },
+      superBowl: { ...chalk.superBowl!, homeTeam: loser, winner: loser },
+    };
+    await expectPoolError(submitEntry(store, pool.id, { ...input, bracket: fakeRun }, null), 400);
+
+    // Missing a round entirely
+    const { superBowl: _superBowl, ...noSuperBowl } = completeBracket();
+    await expectPoolError(
+      submitEntry(store, pool.id, { ...input, bracket: noSuperBowl }, null),
+      400,
+    );
+  });
+});
+
+describe("buildLeaderboard", () => {
+  it("ranks entries by points and shares ranks on ties", async () => {
+    const store = createMemoryPoolStore();
+    const pool = await createPool(store, { name: "Pool", season: 2025 });
+    const chalk = completeBracket();
+    const submit = (displayName: string, bracket: BracketState) =>
+      submitEntry(store, pool.id, { inviteCode: pool.inviteCode, displayName, bracket }, null);
+
+    await submit("Chalk", chalk);
+    await submit("Chalk Again", { ...chalk, id: "copy" });
+    await submit("Upsets", completeBracket(true));
+
+    // #2 NE beats #7 LAC
+    const results: LiveResults = {
+      afc: { wildCard: [game("NE", "LAC", "NE")], divisional: [], championship: null },
+      nfc: { wildCard: [], divisional: [], championship: null },
+      superBowl: null,
+      fetchedAt: 0,
+    };
+
+    const { rows } = buildLeaderboard(pool, await store.listEntries(pool.id), results);
+    expect(rows.map((r) => [r.rank, r.displayName, r.score.points])).toEqual([
+      [1, "Chalk", 1],
+      [1, "Chalk Again", 1],
+      [3, "Upsets", 0],
+    ]);
+    expect(rows[0].championId).toBe(chalk.superBowl?.winner?.id ?? null);
+    expect(rows[0].winChance).toBeNull();
+  });
+
+  it("gives each entry its chance of winning the pool", async () => {
+    const store = createMemoryPoolStore();
+    const pool = await createPool(store, { name: "Pool", season: 2025 });
+    for (const [displayName, bracket] of [
+      ["Chalk", completeBracket()],
+      ["Upsets", completeBracket(true)],
+    ] as const) {
+      await submitEntry(
+        store,
+        pool.id,
+        { inviteCode: pool.inviteCode, displayName, bracket },
+        null,
+      );
+    }
+
+    const entries = await store.listEntries(pool.id);
+    const winChances = await getPoolWinChances(pool, entries, null);
+    const { rows } = buildLeaderboard(pool, entries, null, undefined, winChances);
+    const chances = rows.map((r) => r.winChance ?? 0);
+
+    expect(chances[0] + chances[1]).toBeCloseTo(1);
+    expect(rows.find((r) => r.displayName === "Chalk")!.winChance).toBeGreaterThan(0.5);
+
+    // Simulated again only when the entries or results change
+    expect(await getPoolWinChances(pool, entries, null)).toBe(winChances);
+    expect(await getPoolWinChances(pool, entries.slice(1), null)).not.toBe(winChances);
+  });
+});
+
+describe("createFilePoolStore", () => {
+  it("keeps pools and entries across store instances", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "pools-"));
+    try {
+      const filePath = path.join(dir, "nested", "pools.json");
+      const store = createFilePoolStore(filePath);
+      const pool = await createPool(store, { name: "Pool", season: 2025 });
+      await Promise.all([
+        submitEntry(
+          store,
+          pool.id,
+          {
+            inviteCode: pool.inviteCode,
+            displayName: "A",
+            bracket: completeBracket(),
+          },
+          null,
+        ),
+        submitEntry(
+          store,
+          pool.id,
+          {
+            inviteCode: pool.inviteCode,
+            displayName: "B",
+            bracket: completeBracket(true),
+          },
+          null,
+        ),
+      ]);
+
+      const reopened = createFilePoolStore(filePath);
+      expect(await reopened.getPool(pool.id)).toEqual(pool);
+      expect((await reopened.listEntries(pool.id)).map((e) => e.displayName).sort()).toEqual([
+        "A",
+        "B",
+      ]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
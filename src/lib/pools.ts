@@ -0,0 +1,320 @@
+import { customAlphabet, nanoid } from "nanoid";
+import { getSeasonFormat, getSeasonSeeds, isKnownSeason } from "@/data/seasons";
+import { BracketFileError, checkBracketPicks, readBracketState } from "@/lib/bracket-file";
+import { getStartedRounds, hasPlayoffGames, isPlayoffWindow } from "@/lib/deadlines";
+import { getRoundMatchups } from "@/lib/playoff-rules";
+import type { PoolStore } from "@/lib/pool-store";
+import { DEFAULT_SCORING_RULES, scoreBracket } from "@/lib/scoring";
+import { loadServerSeasonSeeds } from "@/lib/season-seeds";
+import { getSeedRatings, simulateBracketOdds } from "@/lib/simulation";
+import type {
+  BracketState,
+  LeaderboardRow,
+  LiveResults,
+  Pool,
+  PoolEntry,
+  PoolEntrySubmission,
+  PoolLeaderboard,
+  RoundName,
+  ScoringRules,
+} from "@/types";
+
+const MAX_NAME_LENGTH = 60;
+
+// A complete bracket is a few kilobytes; the entries route refuses bodies past this
+export const MAX_ENTRY_BYTES = 64 * 1024;
+
+// Fewer runs than the simulator page: a leaderboard is rebuilt on every refresh
+const WIN_CHANCE_ITERATIONS = 2_000;
+// Fixed so unchanged results give unchanged chances from one refresh to the next
+const WIN_CHANCE_RANDOM_SEED = 1;
+
+// Invite codes skip 0/O and 1/I so they survive being read out loud
+const generateInviteCode = customAlphabet("23456789ABCDEFGHJKLMNPQRSTUVWXYZ", 8);
+
+/**
+ * A pool request that can't be carried out, with the HTTP status to answer with
+ */
+export class PoolError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "PoolError";
+    this.status = status;
+  }
+}
+
+function requireName(value: unknown, label: string): string {
+  const name = typeof value === "string" ? value.trim() : "";
+  if (!name) throw new PoolError(`${label} is required`, 400);
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new PoolError(`${label} must be ${MAX_NAME_LENGTH} characters or fewer`, 400);
+  }
+  return name;
+}
+
+/**
+ * Invite codes are matched case-insensitively and ignore surrounding whitespace
+ */
+export function normalizeInviteCode(code: unknown): string {
+  return typeof code === "string" ? code.trim().toUpperCase() : "";
+}
+
+export async function createPool(
+  store: PoolStore,
+  input: { name: unknown; season: unknown },
+): Promise<Pool> {
+  const name = requireName(input.name, "Pool name");
+  if (typeof input.season !== "number" || !isKnownSeason(input.season)) {
+    throw new PoolError("Unknown season", 400);
+  }
+
+  const pool: Pool = {
+    id: nanoid(),
+    name,
+    season: input.season,
+    inviteCode: generateInviteCode(),
+    createdAt: Date.now(),
+  };
+  await store.createPool(pool);
+  return pool;
+}
+
+/**
+ * Look up the pool an invite code belongs to
+ */
+export async function joinPool(store: PoolStore, inviteCode: unknown): Promise<Pool> {
+  const code = normalizeInviteCode(inviteCode);
+  const pool = code ? await store.findPoolByInviteCode(code) : null;
+  if (!pool) throw new PoolError("No pool found for that invite code", 404);
+  return pool;
+}
+
+const ROUND_LABELS: Record<RoundName, string> = {
+  wildCard: "Wild Card",
+  divisional: "Divisional",
+  conference: "Championship",
+  superBowl: "Super Bowl",
+};
+
+function getRoundPickIds(bracket: BracketState, round: RoundName): (string | null)[] {
+  const matchups =
+    round === "superBowl"
+      ? [bracket.superBowl]
+      : [...getRoundMatchups(bracket.afc, round), ...getRoundMatchups(bracket.nfc, round)];
+  return matchups.map((m) => m?.winner?.id ?? null);
+}
+
+/**
+ * Rounds that have kicked off for a pool: those seen before, kept on the pool,
+ * plus any the live results show now. Newly seen rounds are saved, so a
+ * round's picks can't unfreeze when results are missing later. Throws a 503
+ * during the playoffs when there are no results to check deadlines against.
+ */
+async function getPoolStartedRounds(
+  store: PoolStore,
+  pool: Pool,
+  liveResults: LiveResults | null,
+  now: number,
+): Promise<RoundName[]> {
+  if (isPlayoffWindow(pool.season, now) && !hasPlayoffGames(liveResults)) {
+    throw new PoolError("Can't check pick deadlines right now, try again shortly", 503);
+  }
+
+  const seen = pool.startedRounds ?? [];
+  const started = getStartedRounds(liveResults, now);
+  const newlyStarted = started.filter((round) => !seen.includes(round));
+  if (newlyStarted.length > 0) {
+    await store.updatePool({ ...pool, startedRounds: [...seen, ...newlyStarted] });
+  }
+  return [...seen, ...newlyStarted];
+}
+
+/**
+ * The entry token as stored: a SHA-256 hash, so the store never holds tokens
+ */
+async function hashEntryToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// A bracket check failing is the client's fault
+function readPoolBracket<T>(read: () => T): T {
+  try {
+    return read();
+  } catch (error) {
+    if (error instanceof BracketFileError) {
+      throw new PoolError(`Invalid bracket: ${error.problem}`, 400);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check a bracket from a client the way an imported file is checked, then
+ * replay its picks from the season's seeds, so no one can enter a bracket with
+ * made-up seeds or matchups, or teams that lost earlier in it
+ */
+async function readEntryBracket(value: unknown): Promise<BracketState> {
+  const bracket = readPoolBracket(() => readBracketState(value, "bracket"));
+  if (!(await loadServerSeasonSeeds(bracket.season))) {
+    throw new PoolError("Can't check the season's playoff field right now, try again shortly", 503);
+  }
+  // The seeds may have only just loaded, so the picks weren't necessarily replayed yet
+  readPoolBracket(() => checkBracketPicks(bracket, "bracket"));
+  return bracket;
+}
+
+/**
+ * Enter a completed bracket into a pool, or update the entry `entryToken`
+ * belongs to. The token is issued on first entry and only its hash is kept.
+ * Picks freeze round by round: once a round's first game has kicked off, new
+ * entries are closed and an entry's picks for that round can't change.
+ */
+export async function submitEntry(
+  store: PoolStore,
+  poolId: string,
+  input: { inviteCode: unknown; displayName: unknown; bracket: unknown; entryToken?: unknown },
+  liveResults: LiveResults | null,
+  now: number = Date.now(),
+): Promise<PoolEntrySubmission> {
+  const pool = await store.getPool(poolId);
+  if (!pool) throw new PoolError("Pool not found", 404);
+  if (normalizeInviteCode(input.inviteCode) !== pool.inviteCode) {
+    throw new PoolError("Invalid invite code", 403);
+  }
+
+  const displayName = requireName(input.displayName, "Display name");
+  const bracket = await readEntryBracket(input.bracket);
+  if (bracket.season !== pool.season) {
+    throw new PoolError(`This pool is for the ${pool.season} season`, 400);
+  }
+  if (!bracket.isComplete) {
+    throw new PoolError("Only completed brackets can be entered", 400);
+  }
+
+  const startedRounds = await getPoolStartedRounds(store, pool, liveResults, now);
+  // An unknown token (or none) makes a new entry with a new token
+  const tokenHash =
+    typeof input.entryToken === "string" && input.entryToken
+      ? await hashEntryToken(input.entryToken)
+      : null;
+  const existing = tokenHash
+    ? (await store.listEntries(pool.id)).find((e) => e.tokenHash === tokenHash)
+    : undefined;
+
+  if (!existing && startedRounds.length > 0) {
+    throw new PoolError("Entries closed when the playoffs kicked off", 403);
+  }
+
+  if (existing) {
+    const frozenRound = startedRounds.find(
+      (round) =>
+        getRoundPickIds(existing.bracket, round).join() !== getRoundPickIds(bracket, round).join(),
+    );
+    if (frozenRound) {
+      throw new PoolError(`${ROUND_LABELS[frozenRound]} picks are locked`, 409);
+    }
+  }
+
+  const entryToken = existing ? (input.entryToken as string) : nanoid(32);
+  const entry: PoolEntry = {
+    id: existing?.id ?? nanoid(),
+    poolId: pool.id,
+    displayName,
+    // readBracketState already dropped the client's live results; scores come from the live feed
+    bracket,
+    submittedAt: existing?.submittedAt ?? now,
+    tokenHash: existing?.tokenHash ?? (await hashEntryToken(entryToken)),
+  };
+  await store.saveEntry(entry);
+  const { tokenHash: _tokenHash, ...publicEntry } = entry;
+  return { entry: publicEntry, entryToken };
+}
+
+// Each pool's last win chances and what they were worked out from
+const winChanceCache = new Map<string, { key: string; winChances: Record<string, number> }>();
+
+// Everything the simulation depends on: the entries' picks, the results' fetch time, the rules
+function getWinChanceKey(
+  entries: PoolEntry[],
+  liveResults: LiveResults | null,
+  rules: ScoringRules,
+): string {
+  const rounds = Object.keys(ROUND_LABELS) as RoundName[];
+  const picks = entries.map((entry) => [
+    entry.id,
+    rounds.map((round) => getRoundPickIds(entry.bracket, round).join()),
+  ]);
+  return JSON.stringify([picks, liveResults?.fetchedAt ?? null, rules]);
+}
+
+/**
+ * Each entry's chance of winning the pool, by entry id, from simulating the
+ * rest of the playoffs with seed-based ratings and live win probabilities.
+ * Null when the season's seeds can't be worked out right now. Reused until the
+ * entries, the results or the rules change, since every leaderboard refresh asks.
+ */
+export async function getPoolWinChances(
+  pool: Pool,
+  entries: PoolEntry[],
+  liveResults: LiveResults | null,
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+): Promise<Record<string, number> | null> {
+  if (!(await loadServerSeasonSeeds(pool.season))) return null;
+  const key = getWinChanceKey(entries, liveResults, rules);
+  const cached = winChanceCache.get(pool.id);
+  if (cached?.key === key) return cached.winChances;
+
+  const seeds = {
+    AFC: getSeasonSeeds(pool.season, "AFC"),
+    NFC: getSeasonSeeds(pool.season, "NFC"),
+  };
+  const odds = simulateBracketOdds({
+    format: getSeasonFormat(pool.season),
+    seeds,
+    ratings: getSeedRatings([...seeds.AFC, ...seeds.NFC]),
+    liveResults,
+    iterations: WIN_CHANCE_ITERATIONS,
+    randomSeed: WIN_CHANCE_RANDOM_SEED,
+    brackets: entries.map((entry) => entry.bracket),
+    rules,
+  });
+  const winChances = Object.fromEntries(entries.map((entry, i) => [entry.id, odds[i].winChance]));
+  winChanceCache.set(pool.id, { key, winChances });
+  return winChances;
+}
+
+/**
+ * Rank a pool's entries by points, then by points still reachable, then by
+ * who entered first. Equal points share a rank (1, 1, 3).
+ */
+export function buildLeaderboard(
+  pool: Pool,
+  entries: PoolEntry[],
+  liveResults: LiveResults | null,
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+  winChances: Record<string, number> | null = null,
+): PoolLeaderboard {
+  const scored = entries
+    .map((entry) => ({ entry, score: scoreBracket(entry.bracket, liveResults, rules) }))
+    .sort(
+      (a, b) =>
+        b.score.points - a.score.points ||
+        b.score.maxPossible - a.score.maxPossible ||
+        a.entry.submittedAt - b.entry.submittedAt,
+    );
+
+  const rows: LeaderboardRow[] = scored.map(({ entry, score }) => ({
+    rank: scored.findIndex((s) => s.score.points === score.points) + 1,
+    entryId: entry.id,
+    displayName: entry.displayName,
+    bracketName: entry.bracket.name,
+    championId: entry.bracket.superBowl?.winner?.id ?? null,
+    score,
+    winChance: winChances?.[entry.id] ?? null,
+  }));
+
+  return { pool, rows, updatedAt: Date.now() };
+}
@@ -0,0 +1,186 @@
+import { describe, expect, it } from "bun:test";
+import {
+  CircuitOpenError,
+  createCircuitBreaker,
+  createResilientFetcher,
+  createStaleWhileErrorCache,
+  getRetryDelay,
+  isRetryableError,
+  UpstreamError,
+} from "@/lib/resilient-fetch";
+
+// A fetch that answers with each of `statuses` in turn and counts its calls
+function scriptedFetch(statuses: number[]) {
+  const calls: string[] = [];
+  const fetchFn = (async (url: string) => {
+    const status = statuses[Math.min(calls.length, statuses.length - 1)];
+    calls.push(url);
+    return new Response(JSON.stringify({ status }), { status });
+  }) as typeof fetch;
+  return { fetchFn, calls };
+}
+
+function clock(start = 0) {
+  let time = start;
+  return {
+    now: () => time,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+const noSleep = async () => {};
+
+describe("isRetryableError", () => {
+  it("retries timeouts, dropped connections, 5xx and 429 only", () => {
+    expect(isRetryableError(new UpstreamError("down", 503))).toBe(true);
+    expect(isRetryableError(new UpstreamError("slow down", 429))).toBe(true);
+    expect(isRetryableError(new TypeError("fetch failed"))).toBe(true);
+    expect(isRetryableError(new DOMException("timed out", "TimeoutError"))).toBe(true);
+    expect(isRetryableError(new UpstreamError("not found", 404))).toBe(false);
+    expect(isRetryableError(new SyntaxError("Unexpected token"))).toBe(false);
+  });
+});
+
+describe("getRetryDelay", () => {
+  it("waits a random share of a doubling cap", () => {
+    expect(getRetryDelay(0, 300, 2000, () => 1)).toBe(300);
+    expect(getRetryDelay(2, 300, 2000, () => 0.5)).toBe(600);
+    expect(getRetryDelay(5, 300, 2000, () => 1)).toBe(2000);
+    expect(getRetryDelay(3, 300, 2000, () => 0)).toBe(0);
+  });
+});
+
+describe("createCircuitBreaker", () => {
+  const fail = () => Promise.reject(new Error("down"));
+
+  it("opens after repeated failures and lets one trial through after the cooldown", async () => {
+    const time = clock();
+    const breaker = createCircuitBreaker("ESPN", {
+      failureThreshold: 2,
+      cooldownMs: 1000,
+      now: time.now,
+    });
+
+    await expect(breaker.run(fail)).rejects.toThrow("down");
+    await expect(breaker.run(fail)).rejects.toThrow("down");
+    expect(breaker.getState()).toBe("open");
+    await expect(breaker.run(async () => "ok")).rejects.toBeInstanceOf(CircuitOpenError);
+
+    time.advance(1000);
+    expect(breaker.getState()).toBe("half-open");
+    await expect(breaker.run(fail)).rejects.toThrow("down");
+    expect(breaker.getState()).toBe("open");
+
+    time.advance(1000);
+    expect(await breaker.run(async () => "ok")).toBe("ok");
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("ignores errors that aren't the upstream's fault", async () => {
+    const breaker = createCircuitBreaker("ESPN", {
+      failureThreshold: 1,
+      cooldownMs: 1000,
+      isFailure: isRetryableError,
+    });
+    await expect(
+      breaker.run(() => Promise.reject(new UpstreamError("gone", 404))),
+    ).rejects.toThrow();
+    expect(breaker.getState()).toBe("closed");
+  });
+});
+
+describe("createResilientFetcher", () => {
+  it("retries failures worth retrying until one works", async () => {
+    const { fetchFn, calls } = scriptedFetch([502, 503, 200]);
+    const fetchJson = createResilientFetcher(
+      "ESPN",
+      { retries: 2 },
+      { fetch: fetchFn, sleep: noSleep },
+    );
+
+    expect(await fetchJson("https://espn.test/scores")).toEqual({ status: 200 });
+    expect(calls).toHaveLength(3);
+  });
+
+  it("gives up straight away on a 404", async () => {
+    const { fetchFn, calls } = scriptedFetch([404]);
+    const fetchJson = createResilientFetcher(
+      "ESPN",
+      { retries: 2 },
+      { fetch: fetchFn, sleep: noSleep },
+    );
+
+    await expect(fetchJson("https://espn.test/scores")).rejects.toMatchObject({ status: 404 });
+    expect(calls).toHaveLength(1);
+  });
+
+  it("stops calling the upstream once the circuit opens", async () => {
+    const { fetchFn, calls } = scriptedFetch([500]);
+    const fetchJson = createResilientFetcher(
+      "ESPN",
+      { retries: 1, failureThreshold: 2 },
+      { fetch: fetchFn, sleep: noSleep },
+    );
+
+    await expect(fetchJson("https://espn.test/scores")).rejects.toBeInstanceOf(UpstreamError);
+    await expect(fetchJson("https://espn.test/scores")).rejects.toBeInstanceOf(UpstreamError);
+    await expect(fetchJson("https://espn.test/scores")).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(calls).toHaveLength(4);
+  });
+
+  it("times out a request that never answers", async () => {
+    const hang = ((_url: string, init?: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+      })) as typeof fetch;
+    const fetchJson = createResilientFetcher(
+      "ESPN",
+      { timeoutMs: 10, retries: 0 },
+      { fetch: hang, sleep: noSleep },
+    );
+
+    await expect(fetchJson("https://espn.test/scores")).rejects.toMatchObject({
+      name: "TimeoutError",
+    });
+  });
+});
+
+describe("createStaleWhileErrorCache", () => {
+  it("serves the last good value, marked stale, while loading fails", async () => {
+    const time = clock(1000);
+    const cache = createStaleWhileErrorCache<number, string>(5000, time.now);
+    const down = () => Promise.reject(new Error("ESPN API error: 503"));
+
+    expect(await cache.get(2025, async () => "first")).toEqual({ value: "first", stale: null });
+    // Still fresh, so the failing load isn't called
+    expect(await cache.get(2025, down)).toEqual({ value: "first", stale: null });
+
+    time.advance(5000);
+    expect(await cache.get(2025, down)).toEqual({
+      value: "first",
+      stale: { since: 6000, reason: "ESPN API error: 503" },
+    });
+    time.advance(5000);
+    expect((await cache.get(2025, down)).stale?.since).toBe(6000);
+
+    expect(await cache.get(2025, async () => "second")).toEqual({ value: "second", stale: null });
+  });
+
+  it("throws when there's nothing to fall back to", async () => {
+    const cache = createStaleWhileErrorCache<number, string>(5000);
+    await expect(cache.get(2025, () => Promise.reject(new Error("down")))).rejects.toThrow("down");
+  });
+
+  it("shares a load between concurrent requests", async () => {
+    const cache = createStaleWhileErrorCache<number, string>(5000);
+    let loads = 0;
+    const load = async () => `load ${++loads}`;
+
+    const [a, b] = await Promise.all([cache.get(2025, load), cache.get(2025, load)]);
+    expect(a.value).toBe("load 1");
+    expect(b.value).toBe("load 1");
+    expect(loads).toBe(1);
+  });
+});
@@ -0,0 +1,266 @@
+import type { Staleness } from "@/types";
+
+/**
+ * Fetching from ESPN without letting its bad days take the app down: every
+ * request has a timeout, failures worth retrying are retried after a jittered
+ * backoff, and a circuit breaker stops calling ESPN for a while once it keeps
+ * failing. Callers cache with createStaleWhileErrorCache so a failure serves
+ * the last good data, marked stale, instead of an error.
+ */
+
+/**
+ * An upstream answer that wasn't a success; `status` is null when no response arrived
+ */
+export class UpstreamError extends Error {
+  readonly status: number | null;
+
+  constructor(message: string, status: number | null) {
+    super(message);
+    this.name = "UpstreamError";
+    this.status = status;
+  }
+}
+
+/**
+ * A request turned away without trying because the upstream has been failing
+ */
+export class CircuitOpenError extends Error {
+  readonly retryAt: number;
+
+  constructor(name: string, retryAt: number) {
+    super(`${name} is failing, not retrying until ${new Date(retryAt).toISOString()}`);
+    this.name = "CircuitOpenError";
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Timeouts, dropped connections, 5xx and 429 may go away on their own; other
+ * answers (a 404, an unreadable body) would only come back the same
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof UpstreamError) {
+    return error.status === null || error.status === 429 || error.status >= 500;
+  }
+  return error instanceof TypeError || (error instanceof Error && error.name === "TimeoutError");
+}
+
+/**
+ * How long to wait before retry number `attempt` (from 0): "full jitter", a
+ * random wait up to an exponential cap, so clients that failed together don't
+ * all come back at once
+ */
+export function getRetryDelay(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  random: () => number = Math.random,
+): number {
+  return Math.round(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreaker {
+  run<T>(task: () => Promise<T>): Promise<T>;
+  getState(): CircuitState;
+}
+
+/**
+ * After `failureThreshold` failures in a row the circuit opens and every call
+ * fails fast for `cooldownMs`. Then one call is let through as a trial: if it
+ * works the circuit closes, if not it opens for another cooldown. Only errors
+ * `isFailure` accepts count, so an upstream that answers "not found" stays closed.
+ */
+export function createCircuitBreaker(
+  name: string,
+  options: {
+    failureThreshold: number;
+    cooldownMs: number;
+    isFailure?: (error: unknown) => boolean;
+    now?: () => number;
+  },
+): CircuitBreaker {
+  const { failureThreshold, cooldownMs, isFailure = () => true, now = Date.now } = options;
+  let failures = 0;
+  let openUntil = 0;
+  let trialRunning = false;
+
+  const getState = (): CircuitState => {
+    if (failures < failureThreshold) return "closed";
+    return now() < openUntil || trialRunning ? "open" : "half-open";
+  };
+
+  return {
+    async run(task) {
+      const state = getState();
+      if (state === "open") throw new CircuitOpenError(name, openUntil);
+
+      const isTrial = state === "half-open";
+      if (isTrial) trialRunning = true;
+      try {
+        const result = await task();
+        failures = 0;
+        return result;
+      } catch (error) {
+        if (isFailure(error)) {
+          failures++;
+          if (failures >= failureThreshold) openUntil = now() + cooldownMs;
+        }
+        throw error;
+      } finally {
+        if (isTrial) trialRunning = false;
+      }
+    },
+    getState,
+  };
+}
+
+export interface ResilientFetchOptions {
+  // Per attempt, so a retried request can take (retries + 1) times this
+  timeoutMs: number;
+  // Attempts after the first
+  retries: number;
+  retryDelayMs: number;
+  maxRetryDelayMs: number;
+  // Failed requests in a row (after their retries) that open the circuit
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+const DEFAULT_FETCH_OPTIONS: ResilientFetchOptions = {
+  timeoutMs: 8 * 1000,
+  retries: 2,
+  retryDelayMs: 300,
+  maxRetryDelayMs: 2 * 1000,
+  failureThreshold: 5,
+  cooldownMs: 30 * 1000,
+};
+
+export type JsonFetcher = (url: string) => Promise<unknown>;
+
+/**
+ * A JSON fetcher for one upstream, with one circuit breaker shared by all its requests
+ */
+export function createResilientFetcher(
+  name: string,
+  options: Partial<ResilientFetchOptions> = {},
+  deps: {
+    fetch?: typeof fetch;
+    sleep?: (ms: number) => Promise<void>;
+    random?: () => number;
+    now?: () => number;
+  } = {},
+): JsonFetcher {
+  const { timeoutMs, retries, retryDelayMs, maxRetryDelayMs, failureThreshold, cooldownMs } = {
+    ...DEFAULT_FETCH_OPTIONS,
+    ...options,
+  };
+  const {
+    fetch: fetchFn = fetch,
+    sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+    random = Math.random,
+    now = Date.now,
+  } = deps;
+  const breaker = createCircuitBreaker(name, {
+    failureThreshold,
+    cooldownMs,
+    isFailure: isRetryableError,
+    now,
+  });
+
+  const attempt = async (url: string): Promise<unknown> => {
+    const response = await fetchFn(url, { signal: AbortSignal.timeout(timeoutMs) });
+    if (!response.ok) {
+      throw new UpstreamError(`${name} API error: ${response.status}`, response.status);
+    }
+    return response.json();
+  };
+
+  return (url) =>
+    breaker.run(async () => {
+      for (let i = 0; ; i++) {
+        try {
+          return await attempt(url);
+        } catch (error) {
+          if (i >= retries || !isRetryableError(error)) throw error;
+          await sleep(getRetryDelay(i, retryDelayMs, maxRetryDelayMs, random));
+        }
+      }
+    });
+}
+
+let espnFetcher: JsonFetcher | null = null;
+
+/**
+ * The fetcher behind every ESPN request, so they all share one circuit breaker
+ */
+export function getEspnFetcher(): JsonFetcher {
+  espnFetcher ??= createResilientFetcher("ESPN");
+  return espnFetcher;
+}
+
+export interface CachedValue<T> {
+  value: T;
+  // Set when the value is being served because refreshing it failed
+  stale: Staleness | null;
+}
+
+export interface StaleWhileErrorCache<K, T> {
+  /**
+   * The cached value if it's younger than the TTL, otherwise a fresh one from
+   * `load`. If `load` fails, the last good value is served as stale; it only
+   * throws when there has never been one. Concurrent loads of a key are shared.
+   */
+  get(key: K, load: () => Promise<T>): Promise<CachedValue<T>>;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  loadedAt: number;
+  // When refreshing started failing, null while it works
+  failingSince: number | null;
+}
+
+export function createStaleWhileErrorCache<K, T>(
+  ttl: number,
+  now: () => number = Date.now,
+): StaleWhileErrorCache<K, T> {
+  const entries = new Map<K, CacheEntry<T>>();
+  const loading = new Map<K, Promise<CachedValue<T>>>();
+
+  const refresh = async (key: K, load: () => Promise<T>): Promise<CachedValue<T>> => {
+    const entry = entries.get(key);
+    try {
+      const value = await load();
+      entries.set(key, { value, loadedAt: now(), failingSince: null });
+      return { value, stale: null };
+    } catch (error) {
+      if (!entry) throw error;
+      entry.failingSince ??= now();
+      return {
+        value: entry.value,
+        stale: {
+          since: entry.failingSince,
+          reason: error instanceof Error ? error.message : "Upstream request failed",
+        },
+      };
+    }
+  };
+
+  return {
+    get(key, load) {
+      const entry = entries.get(key);
+      if (entry && entry.failingSince === null && now() - entry.loadedAt < ttl) {
+        return Promise.resolve({ value: entry.value, stale: null });
+      }
+
+      let pending = loading.get(key);
+      if (!pending) {
+        pending = refresh(key, load).finally(() => loading.delete(key));
+        loading.set(key, pending);
+      }
+      return pending;
+    },
+  };
+}
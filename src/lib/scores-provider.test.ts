@@ -0,0 +1,225 @@
+import { describe, expect, it } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fetchLiveResults } from "@/lib/espn-api";
+import { createStaleWhileErrorCache } from "@/lib/resilient-fetch";
+import {
+  buildScoresRecording,
+  createCapturingScoresProvider,
+  createFileReplayScoresProvider,
+  createReplayClock,
+  createReplayScoresProvider,
+  readCapturedPayloads,
+  readScoresRecording,
+  SCORES_RECORDING_FORMAT,
+  SCORES_RECORDING_VERSION,
+} from "@/lib/scores-provider";
+import type { LiveResults, RecordedPayload, ScoresRecording } from "@/types";
+
+const KICKOFF = Date.parse("2026-01-10T21:30:00Z");
+const MINUTE = 60 * 1000;
+
+// ESPN's scoreboard for the NE-LAC wild card game, trimmed to what we parse
+function scoreboard(homeScore: number, awayScore: number, state: "pre" | "in" | "post") {
+  return {
+    events: [
+      {
+        id: "401772901",
+        name: "Los Angeles Chargers at New England Patriots",
+        shortName: "LAC @ NE",
+        date: "2026-01-10T21:30Z",
+        week: { number: 1 },
+        competitions: [
+          {
+            id: "401772901",
+            date: "2026-01-10T21:30Z",
+            competitors: [
+              { id: "17", homeAway: "home", score: `${homeScore}`, team: { abbreviation: "NE" } },
+              { id: "24", homeAway: "away", score: `${awayScore}`, team: { abbreviation: "LAC" } },
+            ],
+            status: {
+              clock: 0,
+              displayClock: "0:00",
+              period: state === "pre" ? 0 : 4,
+              type: { id: "1", name: state, state, completed: state === "post" },
+            },
+          },
+        ],
+      },
+    ],
+  };
+}
+
+function frame(minutes: number, body: unknown): RecordedPayload {
+  return {
+    kind: "scoreboard",
+    season: 2025,
+    week: 1,
+    recordedAt: KICKOFF + minutes * MINUTE,
+    body,
+  };
+}
+
+const recording: ScoresRecording = {
+  format: SCORES_RECORDING_FORMAT,
+  version: SCORES_RECORDING_VERSION,
+  payloads: [
+    frame(0, scoreboard(0, 0, "pre")),
+    frame(90, scoreboard(14, 10, "in")),
+    frame(200, scoreboard(24, 17, "post")),
+  ],
+};
+
+describe("createReplayScoresProvider", () => {
+  it("answers with the newest payload recorded by the replay clock's time", async () => {
+    let time = KICKOFF + 100 * MINUTE;
+    const provider = createReplayScoresProvider(recording, () => time);
+
+    const live = await fetchLiveResults(provider, 2025);
+    expect(live.afc.wildCard[0]).toMatchObject({
+      homeTeamId: "NE",
+      homeScore: 14,
+      isInProgress: true,
+    });
+
+    time = KICKOFF + 240 * MINUTE;
+    const final = await fetchLiveResults(provider, 2025);
+    expect(final.afc.wildCard[0]).toMatchObject({ winnerId: "NE", isComplete: true });
+  });
+
+  it("has nothing to replay before the first payload or for other weeks", async () => {
+    const provider = createReplayScoresProvider(recording, () => KICKOFF - MINUTE);
+    await expect(provider.getScoreboard(2025, 1)).rejects.toThrow("No recorded scoreboard");
+    await expect(provider.getSummary("401772901")).rejects.toThrow("No recorded summary");
+
+    const later = createReplayScoresProvider(recording, () => KICKOFF);
+    expect((await fetchLiveResults(later, 2025)).afc.divisional).toEqual([]);
+  });
+});
+
+describe("createFileReplayScoresProvider", () => {
+  it("reads the file again after a failed read", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "replay-"));
+    try {
+      const filePath = path.join(dir, "recording.json");
+      const provider = createFileReplayScoresProvider(filePath, { speed: 1, startAt: KICKOFF });
+      await expect(provider.getScoreboard(2025, 1)).rejects.toThrow();
+
+      await writeFile(filePath, JSON.stringify(recording));
+      expect(await provider.getScoreboard(2025, 1)).toEqual(scoreboard(0, 0, "pre"));
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("fetchLiveResults when ESPN fails", () => {
+  // Week 1 has the game, later weeks aren't scheduled yet; `isDown` fails every week
+  function flakyProvider() {
+    const state: { isDown: boolean; failingWeek: number | null } = {
+      isDown: false,
+      failingWeek: null,
+    };
+    const provider = {
+      async getScoreboard(_season: number, week?: number) {
+        if (state.isDown) throw new Error("ESPN API error: 503");
+        if (week === state.failingWeek) throw new Error(`week ${week} timed out`);
+        return week === 1 ? scoreboard(14, 10, "in") : { events: [] };
+      },
+      getSummary: async () => ({}),
+    };
+    return { provider, state };
+  }
+
+  it("throws rather than returning empty results", async () => {
+    const { provider, state } = flakyProvider();
+    state.isDown = true;
+    await expect(fetchLiveResults(provider, 2025)).rejects.toThrow("ESPN API error: 503");
+  });
+
+  it("throws when a week that had games fails", async () => {
+    const { provider, state } = flakyProvider();
+    await fetchLiveResults(provider, 2025);
+
+    // Unscheduled weeks may fail, but not one whose games would go missing
+    state.failingWeek = 1;
+    await expect(fetchLiveResults(provider, 2025)).rejects.toThrow("week 1 timed out");
+    state.failingWeek = 3;
+    expect((await fetchLiveResults(provider, 2025)).afc.wildCard).toHaveLength(1);
+  });
+
+  it("lets the stale cache keep serving the last good results, marked stale", async () => {
+    const { provider, state } = flakyProvider();
+    const cache = createStaleWhileErrorCache<number, LiveResults>(0);
+    const load = () => fetchLiveResults(provider, 2025);
+
+    const fresh = await cache.get(2025, load);
+    expect(fresh.stale).toBeNull();
+
+    state.isDown = true;
+    const { value, stale } = await cache.get(2025, load);
+    expect(stale?.reason).toBe("ESPN API error: 503");
+    expect(value.afc.wildCard[0]).toMatchObject({ homeTeamId: "NE", homeScore: 14 });
+  });
+
+  it("doesn't ask ESPN about a what-if season", async () => {
+    const { provider, state } = flakyProvider();
+    state.isDown = true;
+    const results = await fetchLiveResults(provider, 2024);
+    expect(results.afc.wildCard).toEqual([]);
+    expect(results.dataQuality?.status).toBe("ok");
+  });
+});
+
+describe("createCapturingScoresProvider", () => {
+  it("records every response and compresses them into a replayable timeline", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "scores-"));
+    try {
+      // Polling ESPN: the game is unchanged for a while, then the score moves
+      let time = KICKOFF;
+      const bodies = [scoreboard(0, 0, "pre"), scoreboard(0, 0, "pre"), scoreboard(7, 0, "in")];
+      const espn = {
+        getScoreboard: async () => bodies.shift(),
+        getSummary: async () => ({}),
+      };
+      const capturing = createCapturingScoresProvider(espn, dir, () => time);
+      for (let i = 0; i < 3; i++) {
+        await capturing.getScoreboard(2025, 1);
+        time += 5000;
+      }
+
+      const captured = await readCapturedPayloads(dir);
+      expect(captured).toHaveLength(3);
+
+      const recording = buildScoresRecording(captured);
+      expect(recording.payloads.map((p) => p.recordedAt)).toEqual([KICKOFF, KICKOFF + 10000]);
+
+      const replay = createReplayScoresProvider(recording, () => KICKOFF + 10000);
+      const live = await fetchLiveResults(replay, 2025);
+      expect(live.afc.wildCard[0]).toMatchObject({ homeScore: 7, isInProgress: true });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("createReplayClock", () => {
+  it("runs from the start time at the given speed", () => {
+    let now = 1_000;
+    const clock = createReplayClock(KICKOFF, 60, () => now);
+    expect(clock()).toBe(KICKOFF);
+    now += 1_000;
+    expect(clock()).toBe(KICKOFF + MINUTE);
+  });
+});
+
+describe("readScoresRecording", () => {
+  it("rejects files that aren't recordings or are too new", () => {
+    expect(readScoresRecording(recording)).toBe(recording);
+    expect(() => readScoresRecording({ payloads: [] })).toThrow("Not a scores recording");
+    expect(() =>
+      readScoresRecording({ ...recording, version: SCORES_RECORDING_VERSION + 1 }),
+    ).toThrow("Unsupported");
+  });
+});
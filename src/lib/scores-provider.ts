@@ -0,0 +1,251 @@
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { getEspnFetcher, type JsonFetcher } from "@/lib/resilient-fetch";
+import type { RecordedPayload, ScoresRecording } from "@/types";
+
+const ESPN_SCOREBOARD_URL = "https://site.api.espn.com/apis/site/v2/sports/football/nfl/scoreboard";
+const ESPN_SUMMARY_URL = "https://site.api.espn.com/apis/site/v2/sports/football/nfl/summary";
+
+// Where the replay provider reads its recording unless SCORES_REPLAY_PATH says otherwise
+const DEFAULT_RECORDING_PATH = path.join(process.cwd(), ".data", "scores-recording.json");
+
+export const SCORES_RECORDING_FORMAT = "nfl-scores-recording";
+export const SCORES_RECORDING_VERSION = 1;
+
+/**
+ * Where live scores come from. Providers hand back ESPN's JSON as it is, so the
+ * parsing in espn-api and espn-boxscore works the same for every provider.
+ */
+export interface ScoresProvider {
+  // Playoff scoreboard for a week (ESPN's current week when none is given)
+  getScoreboard(season: number, week?: number): Promise<unknown>;
+  // Game summary: boxscore, plays and win probability
+  getSummary(eventId: string): Promise<unknown>;
+}
+
+/**
+ * The live provider: ESPN's public site API, through the shared ESPN fetcher
+ * (timeouts, retries and circuit breaker)
+ */
+export function createEspnScoresProvider(
+  fetchJson: JsonFetcher = getEspnFetcher(),
+): ScoresProvider {
+  return {
+    getScoreboard(season, week) {
+      const params = new URLSearchParams({
+        seasontype: "3", // Playoffs
+        dates: season.toString(), // ESPN keys seasons by the year they started
+      });
+      if (week) {
+        params.set("week", week.toString());
+      }
+      return fetchJson(`${ESPN_SCOREBOARD_URL}?${params.toString()}`);
+    },
+    getSummary(eventId) {
+      return fetchJson(`${ESPN_SUMMARY_URL}?event=${eventId}`);
+    },
+  };
+}
+
+/**
+ * File a captured response is written to, e.g. "1768080600000-scoreboard-2025-1.json";
+ * the timestamp first so a directory listing is in recording order
+ */
+function getCaptureFileName(payload: RecordedPayload): string {
+  const key =
+    payload.kind === "scoreboard"
+      ? `scoreboard-${payload.season}-${payload.week ?? "current"}`
+      : `summary-${payload.eventId}`;
+  return `${payload.recordedAt}-${key}.json`;
+}
+
+/**
+ * Capture mode: pass requests through to another provider and write every
+ * response, with the time it arrived, to its own file in `dir`. A failed write
+ * is logged and never fails the request.
+ */
+export function createCapturingScoresProvider(
+  inner: ScoresProvider,
+  dir: string,
+  now: () => number = Date.now,
+): ScoresProvider {
+  const capture = async (payload: RecordedPayload) => {
+    try {
+      await mkdir(dir, { recursive: true });
+      await writeFile(path.join(dir, getCaptureFileName(payload)), JSON.stringify(payload));
+    } catch (error) {
+      console.error("Failed to capture scores response:", error);
+    }
+  };
+
+  return {
+    async getScoreboard(season, week) {
+      const body = await inner.getScoreboard(season, week);
+      await capture({ kind: "scoreboard", season, week: week ?? null, recordedAt: now(), body });
+      return body;
+    },
+    async getSummary(eventId) {
+      const body = await inner.getSummary(eventId);
+      await capture({ kind: "summary", eventId, recordedAt: now(), body });
+      return body;
+    },
+  };
+}
+
+/**
+ * Every response captured into a directory, in no particular order
+ */
+export async function readCapturedPayloads(dir: string): Promise<RecordedPayload[]> {
+  // Only files named by capture mode, so a recording kept alongside isn't read as one
+  const files = (await readdir(dir)).filter((file) =>
+    /^\d+-(scoreboard|summary)-.+\.json$/.test(file),
+  );
+  return Promise.all(
+    files.map(async (file) => JSON.parse(await readFile(path.join(dir, file), "utf8"))),
+  );
+}
+
+/**
+ * Turn captured responses (and/or earlier recordings' payloads) into one
+ * timeline. Polling captures the same response over and over, so a payload is
+ * only kept when it differs from the last one kept for the same request.
+ */
+export function buildScoresRecording(payloads: RecordedPayload[]): ScoresRecording {
+  const lastBodies = new Map<string, string>();
+  const timeline = [...payloads]
+    .sort((a, b) => a.recordedAt - b.recordedAt)
+    .filter((payload) => {
+      const key =
+        payload.kind === "scoreboard"
+          ? `scoreboard:${payload.season}:${payload.week}`
+          : `summary:${payload.eventId}`;
+      const body = JSON.stringify(payload.body);
+      if (lastBodies.get(key) === body) return false;
+      lastBodies.set(key, body);
+      return true;
+    });
+
+  return { format: SCORES_RECORDING_FORMAT, version: SCORES_RECORDING_VERSION, payloads: timeline };
+}
+
+/**
+ * A clock that starts at `startAt` (recording time) and runs `speed` times
+ * faster than the real one
+ */
+export function createReplayClock(
+  startAt: number,
+  speed: number,
+  now: () => number = Date.now,
+): () => number {
+  const realStart = now();
+  return () => startAt + (now() - realStart) * speed;
+}
+
+/**
+ * Play a recording back: every request gets the newest matching payload
+ * recorded at or before the clock's time, as if ESPN had answered then
+ */
+export function createReplayScoresProvider(
+  recording: ScoresRecording,
+  clock: () => number,
+): ScoresProvider {
+  const latest = (matches: (payload: RecordedPayload) => boolean, what: string) => {
+    const time = clock();
+    const payload = recording.payloads.findLast((p) => p.recordedAt <= time && matches(p));
+    if (!payload) throw new Error(`No recorded ${what} yet`);
+    return payload.body;
+  };
+
+  return {
+    async getScoreboard(season, week) {
+      return latest(
+        (p) => p.kind === "scoreboard" && p.season === season && p.week === (week ?? null),
+        `scoreboard for ${season} week ${week ?? "(current)"}`,
+      );
+    },
+    async getSummary(eventId) {
+      return latest((p) => p.kind === "summary" && p.eventId === eventId, `summary for ${eventId}`);
+    },
+  };
+}
+
+/**
+ * Check that parsed JSON is a recording this version can play
+ */
+export function readScoresRecording(data: unknown): ScoresRecording {
+  const recording = data as Partial<ScoresRecording> | null;
+  if (recording?.format !== SCORES_RECORDING_FORMAT || !Array.isArray(recording.payloads)) {
+    throw new Error("Not a scores recording");
+  }
+  if (typeof recording.version !== "number" || recording.version > SCORES_RECORDING_VERSION) {
+    throw new Error(`Unsupported scores recording version ${recording.version}`);
+  }
+  return recording as ScoresRecording;
+}
+
+/**
+ * Replay a recording file. It's read on the first request, and the replay
+ * clock starts then, at `startAt` or else the first recorded payload.
+ */
+export function createFileReplayScoresProvider(
+  filePath: string,
+  options: { speed: number; startAt: number | null },
+): ScoresProvider {
+  let provider: Promise<ScoresProvider> | null = null;
+  const load = () => {
+    provider ??= readFile(filePath, "utf8").then((text) => {
+      const recording = readScoresRecording(JSON.parse(text));
+      const startAt = options.startAt ?? recording.payloads[0]?.recordedAt ?? 0;
+      return createReplayScoresProvider(recording, createReplayClock(startAt, options.speed));
+    });
+    // A file that couldn't be read is tried again on the next request
+    provider.catch(() => {
+      provider = null;
+    });
+    return provider;
+  };
+
+  return {
+    async getScoreboard(season, week) {
+      return (await load()).getScoreboard(season, week);
+    },
+    async getSummary(eventId) {
+      return (await load()).getSummary(eventId);
+    },
+  };
+}
+
+function readReplayStart(value: string | undefined): number | null {
+  if (!value) return null;
+  const startAt = Date.parse(value);
+  if (Number.isNaN(startAt)) throw new Error(`SCORES_REPLAY_START is not a date: ${value}`);
+  return startAt;
+}
+
+let scoresProvider: ScoresProvider | null = null;
+
+/**
+ * The provider behind every live score fetch. SCORES_PROVIDER=replay plays back
+ * SCORES_REPLAY_PATH instead of calling ESPN, SCORES_REPLAY_SPEED times as fast,
+ * from SCORES_REPLAY_START (a date-time) if given. Otherwise ESPN is called, and
+ * SCORES_CAPTURE_DIR turns on capture mode.
+ */
+export function getScoresProvider(): ScoresProvider {
+  if (!scoresProvider) {
+    if (process.env.SCORES_PROVIDER === "replay") {
+      scoresProvider = createFileReplayScoresProvider(
+        process.env.SCORES_REPLAY_PATH ?? DEFAULT_RECORDING_PATH,
+        {
+          speed: Number(process.env.SCORES_REPLAY_SPEED) || 1,
+          startAt: readReplayStart(process.env.SCORES_REPLAY_START),
+        },
+      );
+    } else {
+      const captureDir = process.env.SCORES_CAPTURE_DIR;
+      scoresProvider = captureDir
+        ? createCapturingScoresProvider(createEspnScoresProvider(), captureDir)
+        : createEspnScoresProvider();
+    }
+  }
+  return scoresProvider;
+}
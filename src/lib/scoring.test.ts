@@ -0,0 +1,42 @@
+import { describe, expect, it } from "bun:test";
+import { afcResults, pick } from "@/lib/__fixtures__/brackets";
+import { createInitialBracket } from "@/lib/playoff-rules";
+import { DEFAULT_SCORING_RULES, scoreBracket } from "@/lib/scoring";
+
+// 2025 AFC seeds: DEN, NE, JAX, PIT, HOU, BUF, LAC
+const bracket = pick(
+  createInitialBracket("Test", 2025),
+  ["AFC-wc-1", "LAC"],
+  ["AFC-wc-2", "JAX"],
+  ["AFC-wc-3", "HOU"],
+  ["AFC-div-1", "DEN"],
+  ["AFC-div-2", "JAX"],
+  ["AFC-champ", "DEN"],
+);
+
+describe("scoreBracket", () => {
+  it("scores correct picks by round and tracks what is still reachable", () => {
+    expect(scoreBracket(bracket, afcResults)).toEqual({
+      points: 4, // JAX + HOU (1 each) and DEN in the divisional round (2)
+      correctPicks: 3,
+      decidedPicks: 4, // LAC is out
+      maxPossible: 10, // JAX can still win a divisional game (2), DEN the AFC (4)
+      gamesPlayed: 4,
+    });
+  });
+
+  it("adds an upset bonus per seed of difference", () => {
+    const score = scoreBracket(bracket, afcResults, {
+      ...DEFAULT_SCORING_RULES,
+      upsetBonusPerSeed: 1,
+    });
+    // #5 HOU beating #4 PIT is worth one extra point
+    expect(score.points).toBe(5);
+    expect(score.maxPossible).toBe(11);
+  });
+
+  it("counts every pick as still possible before any games are played", () => {
+    const score = scoreBracket(bracket, null);
+    expect(score).toMatchObject({ points: 0, gamesPlayed: 0, maxPossible: 3 + 4 + 4 });
+  });
+});
@@ -0,0 +1,112 @@
+import { findSeasonTeam } from "@/data/seasons";
+import { getRoundResults } from "@/lib/espn-api";
+import { getRoundMatchups } from "@/lib/playoff-rules";
+import type {
+  BracketScore,
+  BracketState,
+  LiveMatchupResult,
+  LiveResults,
+  Matchup,
+  PickGrade,
+  RoundName,
+  ScoringRules,
+  SeededTeam,
+} from "@/types";
+
+// Classic doubling bracket scoring, no upset bonus
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  roundPoints: { wildCard: 1, divisional: 2, conference: 4, superBowl: 8 },
+  upsetBonusPerSeed: 0,
+};
+
+const ROUNDS: RoundName[] = ["wildCard", "divisional", "conference", "superBowl"];
+
+function getRoundPicks(bracket: BracketState, round: RoundName): Matchup[] {
+  if (round === "superBowl") return bracket.superBowl ? [bracket.superBowl] : [];
+  return [...getRoundMatchups(bracket.afc, round), ...getRoundMatchups(bracket.nfc, round)];
+}
+
+function isDecided(result: LiveMatchupResult): boolean {
+  return result.isComplete && result.winnerId !== null;
+}
+
+function getLoserId(result: LiveMatchupResult): string {
+  return result.winnerId === result.homeTeamId ? result.awayTeamId : result.homeTeamId;
+}
+
+function getUpsetBonus(
+  winner: SeededTeam | null | undefined,
+  loser: SeededTeam | null | undefined,
+  rules: ScoringRules,
+): number {
+  if (!winner || !loser || winner.seed <= loser.seed) return 0;
+  return (winner.seed - loser.seed) * rules.upsetBonusPerSeed;
+}
+
+/**
+ * How a pick for a round has turned out: correct once its team wins a game in
+ * that round, wrong once the team is out, pending until then
+ */
+export function gradePick(
+  pickId: string,
+  round: RoundName,
+  liveResults: LiveResults | null,
+): PickGrade {
+  const decided = ROUNDS.flatMap((r) => getRoundResults(liveResults, r)).filter(isDecided);
+  if (getRoundResults(liveResults, round).some((r) => isDecided(r) && r.winnerId === pickId)) {
+    return "correct";
+  }
+  return decided.some((r) => getLoserId(r) === pickId) ? "wrong" : "pending";
+}
+
+/**
+ * Grade a bracket's picks against actual results
+ *
+ * A pick scores when its team won a game in the round it was picked for. A pick
+ * whose team is still alive counts toward the max possible score; picks for
+ * eliminated teams can no longer score.
+ */
+export function scoreBracket(
+  bracket: BracketState,
+  liveResults: LiveResults | null = bracket.liveResults,
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+): BracketScore {
+  const score: BracketScore = {
+    points: 0,
+    correctPicks: 0,
+    decidedPicks: 0,
+    maxPossible: 0,
+    gamesPlayed: 0,
+  };
+
+  const decided = ROUNDS.flatMap((round) => getRoundResults(liveResults, round)).filter(isDecided);
+  const eliminated = new Set(decided.map(getLoserId));
+  score.gamesPlayed = decided.length;
+
+  for (const round of ROUNDS) {
+    const roundResults = getRoundResults(liveResults, round).filter(isDecided);
+
+    for (const matchup of getRoundPicks(bracket, round)) {
+      const pick = matchup.winner;
+      if (!pick) continue;
+
+      const result = roundResults.find((r) => r.winnerId === pick.id);
+      if (result) {
+        const loser = findSeasonTeam(bracket.season, getLoserId(result));
+        const points = rules.roundPoints[round] + getUpsetBonus(pick, loser, rules);
+        score.points += points;
+        score.maxPossible += points;
+        score.correctPicks++;
+        score.decidedPicks++;
+      } else if (eliminated.has(pick.id)) {
+        score.decidedPicks++;
+      } else {
+        // Still alive: assume the picked matchup happens and the pick wins it
+        const opponent = matchup.homeTeam?.id === pick.id ? matchup.awayTeam : matchup.homeTeam;
+        score.maxPossible += rules.roundPoints[round] + getUpsetBonus(pick, opponent, rules);
+      }
+    }
+  }
+
+  return score;
+}
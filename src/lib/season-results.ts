@@ -0,0 +1,27 @@
+import { fetchLiveResults } from "@/lib/espn-api";
+import { addWinProbabilities } from "@/lib/espn-boxscore";
+import { createStaleWhileErrorCache } from "@/lib/resilient-fetch";
+import { getScoresProvider } from "@/lib/scores-provider";
+import type { LiveResults } from "@/types";
+
+// Results are shared by every pool in a season, refreshed at most every 30 seconds
+const cache = createStaleWhileErrorCache<number, LiveResults>(30 * 1000);
+
+/**
+ * Server-side playoff results for a season. Falls back to the last good
+ * results, marked stale (or null if there never were any), when ESPN can't be reached.
+ */
+export async function getSeasonResults(season: number): Promise<LiveResults | null> {
+  try {
+    const { value, stale } = await cache.get(season, async () => {
+      const provider = getScoresProvider();
+      return addWinProbabilities(provider, await fetchLiveResults(provider, season));
+    });
+    if (!stale) return value;
+    console.error(`Failed to fetch ${season} results, serving stale ones:`, stale.reason);
+    return { ...value, stale };
+  } catch (error) {
+    console.error(`Failed to fetch ${season} results:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,45 @@
+import { getSeason, registerSeasonSeeds } from "@/data/seasons";
+import { fetchStandingsSeeds } from "@/lib/espn-standings";
+import { createStaleWhileErrorCache } from "@/lib/resilient-fetch";
+import type { SeedsResponse, Staleness } from "@/types";
+
+// Standings only change once games finish, so derived seeds are kept for 10 minutes per season
+const cache = createStaleWhileErrorCache<number, SeedsResponse>(10 * 60 * 1000);
+
+/**
+ * Server-side seeds for a season: from its seed file, or derived from ESPN's
+ * standings when it has none (a season still being played). Derived seeds are
+ * registered, so findSeasonTeam and the rest of @/data/seasons see them too.
+ * Falls back to the last derived seeds, marked stale, when ESPN can't be
+ * reached; throws only when there never were any.
+ */
+export async function getServerSeasonSeeds(
+  season: number,
+): Promise<SeedsResponse & { stale: Staleness | null }> {
+  const { seeds } = getSeason(season);
+  if (seeds) return { season, seeds, fetchedAt: Date.now(), stale: null };
+
+  const { value, stale } = await cache.get(season, async () => ({
+    season,
+    seeds: await fetchStandingsSeeds(season),
+    fetchedAt: Date.now(),
+  }));
+  registerSeasonSeeds(season, value.seeds);
+  return { ...value, stale };
+}
+
+/**
+ * Make sure a season's seeds are known on the server before anything looks
+ * teams up by seed. False when they can't be worked out right now.
+ */
+export async function loadServerSeasonSeeds(season: number): Promise<boolean> {
+  try {
+    const { stale } = await getServerSeasonSeeds(season);
+    if (stale)
+      console.error(`Failed to fetch ${season} standings, using stale seeds:`, stale.reason);
+    return true;
+  } catch (error) {
+    console.error(`Failed to fetch ${season} standings for seeds:`, error);
+    return false;
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "bun:test";
+import { bracketReducer, getAllMatchups } from "@/lib/bracket-engine";
+import { createInitialBracket } from "@/lib/playoff-rules";
+import {
+  decodeShareCode,
+  encodeShareCode,
+  forkBracket,
+  parseShareCode,
+  SHARE_CODE_VERSION,
+} from "@/lib/share-code";
+import type { BracketState } from "@/types";
+
+/**
+ * Pick every open game, alternating home and away so reseeding comes into play
+ */
+function fillBracket(state: BracketState, limit = Infinity): BracketState {
+  for (let i = 0; i < limit; i++) {
+    const next = getAllMatchups(state).find((m) => m.homeTeam && m.awayTeam && !m.winner);
+    if (!next) break;
+    const winner = (i % 2 === 0 ? next.awayTeam : next.homeTeam)!;
+    state = bracketReducer(state, { type: "SELECT_WINNER", matchupId: next.id, winner });
+  }
+  return state;
+}
+
+function winners(state: BracketState) {
+  return getAllMatchups(state).map((m) => m.winner?.id ?? null);
+}
+
+describe("share codes", () => {
+  it("round-trips a complete bracket with its name and subtitle", () => {
+    const bracket = {
+      ...fillBracket(createInitialBracket("Sam", 2025)),
+      name: "Upset City 🏈",
+      subtitle: "Chaos reigns",
+    };
+    const decoded = decodeShareCode(encodeShareCode(bracket));
+
+    expect(decoded).not.toBeNull();
+    expect(winners(decoded!)).toEqual(winners(bracket));
+    expect(decoded?.isComplete).toBe(true);
+    expect(decoded?.name).toBe("Upset City 🏈");
+    expect(decoded?.subtitle).toBe("Chaos reigns");
+    expect(decoded?.userName).toBe("");
+  });
+
+  it("round-trips a partial bracket in an older format", () => {
+    const bracket = fillBracket(createInitialBracket("Sam", 2019), 5);
+    const decoded = decodeShareCode(encodeShareCode(bracket));
+
+    expect(decoded?.season).toBe(2019);
+    expect(winners(decoded!)).toEqual(winners(bracket));
+    expect(decoded?.subtitle).toBeNull();
+  });
+
+  it("stays short enough for a URL", () => {
+    const code = encodeShareCode(fillBracket(createInitialBracket("Sam", 2025)));
+    expect(code).toMatch(/^[\w-]+$/);
+    expect(code.length).toBeLessThan(20);
+  });
+
+  it("rejects malformed codes", () => {
+    const code = encodeShareCode(createInitialBracket("Sam", 2025));
+    const bytes = Uint8Array.from(atob(code.replace(/-/g, "+").replace(/_/g, "/")), (c) =>
+      c.charCodeAt(0),
+    );
+    bytes[0] = SHARE_CODE_VERSION + 1;
+    const futureVersion = btoa(String.fromCharCode(...bytes)).replace(/=+$/, "");
+
+    expect(parseShareCode(code)).not.toBeNull();
+    expect(parseShareCode("not a code!")).toBeNull();
+    expect(parseShareCode(code.slice(0, 4))).toBeNull();
+    expect(parseShareCode(futureVersion)).toBeNull();
+  });
+
+  it("forks into a new bracket owned by the recipient", () => {
+    const shared = decodeShareCode(encodeShareCode(fillBracket(createInitialBracket("Sam", 2025))));
+    const forked = forkBracket(shared!, "Alex");
+
+    expect(forked.id).not.toBe(shared!.id);
+    expect(forked.userName).toBe("Alex");
+    expect(winners(forked)).toEqual(winners(shared!));
+  });
+});
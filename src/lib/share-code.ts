@@ -0,0 +1,162 @@
+import { nanoid } from "nanoid";
+import { hasSeasonSeeds, isKnownSeason } from "@/data/seasons";
+import { setMatchupWinner } from "@/lib/bracket-engine";
+import { createInitialBracket, getRoundMatchups } from "@/lib/playoff-rules";
+import type { BracketState, ConferenceRoundName, Matchup } from "@/types";
+
+/**
+ * Compact, URL-safe encoding of a bracket's picks for share links (/b/<code>).
+ *
+ * v1 layout, base64url encoded:
+ *   [version] [season - 2000] [pick count] [picks, 2 bits each] [name] [subtitle]
+ * Picks are listed round by round (AFC then NFC, then the Super Bowl) as
+ * 0 = no pick, 1 = home team, 2 = away team. Home and away depend on earlier
+ * picks, so decoding replays them in order. Texts are length-prefixed UTF-8.
+ */
+export const SHARE_CODE_VERSION = 1;
+
+const SEASON_BASE = 2000;
+const MAX_TEXT_LENGTH = 60;
+
+const CONFERENCE_ROUNDS: ConferenceRoundName[] = ["wildCard", "divisional", "conference"];
+
+type PickChoice = 0 | 1 | 2;
+
+// What a share code carries, before it is turned back into a bracket
+export interface SharedPicks {
+  season: number;
+  name: string;
+  subtitle: string | null;
+  picks: PickChoice[];
+}
+
+function getPickOrder(bracket: BracketState): Matchup[] {
+  const matchups = CONFERENCE_ROUNDS.flatMap((round) => [
+    ...getRoundMatchups(bracket.afc, round),
+    ...getRoundMatchups(bracket.nfc, round),
+  ]);
+  return bracket.superBowl ? [...matchups, bracket.superBowl] : matchups;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(code: string): Uint8Array | null {
+  if (!/^[\w-]+$/.test(code)) return null;
+  try {
+    const binary = atob(code.replace(/-/g, "+").replace(/_/g, "/"));
+    return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+function encodeText(text: string): number[] {
+  const bytes = new TextEncoder().encode(text.slice(0, MAX_TEXT_LENGTH));
+  return [bytes.length, ...bytes];
+}
+
+export function encodeShareCode(bracket: BracketState): string {
+  const picks = getPickOrder(bracket).map((m): PickChoice => {
+    if (!m.winner) return 0;
+    return m.winner.id === m.homeTeam?.id ? 1 : 2;
+  });
+
+  const packed = Array.from({ length: Math.ceil(picks.length / 4) }, () => 0);
+  picks.forEach((choice, i) => {
+    packed[i >> 2] |= choice << ((i & 3) * 2);
+  });
+
+  return toBase64Url(
+    Uint8Array.from([
+      SHARE_CODE_VERSION,
+      bracket.season - SEASON_BASE,
+      picks.length,
+      ...packed,
+      ...encodeText(bracket.name),
+      ...encodeText(bracket.subtitle ?? ""),
+    ]),
+  );
+}
+
+/**
+ * Read a share code without needing the season's seeds (null if it's malformed)
+ */
+export function parseShareCode(code: string): SharedPicks | null {
+  const bytes = fromBase64Url(code);
+  if (!bytes || bytes.length < 3 || bytes[0] !== SHARE_CODE_VERSION) return null;
+
+  const season = SEASON_BASE + bytes[1];
+  const pickCount = bytes[2];
+  if (!isKnownSeason(season)) return null;
+
+  let offset = 3;
+  const packed = bytes.subarray(offset, offset + Math.ceil(pickCount / 4));
+  offset += packed.length;
+
+  const picks: PickChoice[] = [];
+  for (let i = 0; i < pickCount; i++) {
+    const choice = (packed[i >> 2] >> ((i & 3) * 2)) & 3;
+    if (choice === 3) return null;
+    picks.push(choice as PickChoice);
+  }
+
+  const readText = (): string | null => {
+    const length = bytes[offset];
+    if (length === undefined || offset + 1 + length > bytes.length) return null;
+    const text = new TextDecoder().decode(bytes.subarray(offset + 1, offset + 1 + length));
+    offset += 1 + length;
+    return text;
+  };
+
+  const name = readText();
+  const subtitle = readText();
+  if (name === null || subtitle === null) return null;
+
+  return { season, name, subtitle: subtitle || null, picks };
+}
+
+/**
+ * Replay shared picks onto a fresh bracket. Needs the season's seeds to be
+ * loaded; returns null if the picks don't fit the season's bracket.
+ */
+export function buildSharedBracket(shared: SharedPicks): BracketState | null {
+  if (!hasSeasonSeeds(shared.season)) return null;
+
+  let bracket: BracketState = {
+    ...createInitialBracket("", shared.season),
+    name: shared.name,
+    subtitle: shared.subtitle,
+  };
+  if (getPickOrder(bracket).length !== shared.picks.length) return null;
+
+  for (const [i, choice] of shared.picks.entries()) {
+    if (choice === 0) continue;
+    const matchup = getPickOrder(bracket)[i];
+    const winner = choice === 1 ? matchup.homeTeam : matchup.awayTeam;
+    if (!winner) return null;
+    bracket = setMatchupWinner(bracket, matchup.id, winner);
+  }
+
+  return bracket;
+}
+
+/**
+ * Decode a share code straight into a bracket (null if malformed or seeds aren't loaded)
+ */
+export function decodeShareCode(code: string): BracketState | null {
+  const shared = parseShareCode(code);
+  return shared ? buildSharedBracket(shared) : null;
+}
+
+/**
+ * Copy a shared bracket into a new bracket owned by the recipient
+ */
+export function forkBracket(bracket: BracketState, userName: string): BracketState {
+  const now = Date.now();
+  return { ...bracket, id: nanoid(), userName, createdAt: now, updatedAt: now };
+}
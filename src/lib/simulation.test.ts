@@ -0,0 +1,134 @@
+import { describe, expect, it } from "bun:test";
+import { getSeasonFormat, getSeasonSeeds } from "@/data/seasons";
+import { game } from "@/lib/__fixtures__/brackets";
+import { autofillBracket } from "@/lib/autofill";
+import { createInitialBracket } from "@/lib/playoff-rules";
+import { DEFAULT_SCORING_RULES } from "@/lib/scoring";
+import {
+  getSeedRatings,
+  getWinProbability,
+  simulateBracketOdds,
+  simulatePlayoffs,
+} from "@/lib/simulation";
+import type { LiveResults, SimulationInput } from "@/types";
+
+const seeds = { AFC: getSeasonSeeds(2025, "AFC"), NFC: getSeasonSeeds(2025, "NFC") };
+
+function input(overrides: Partial<SimulationInput> = {}): SimulationInput {
+  return {
+    format: getSeasonFormat(2025),
+    seeds,
+    ratings: getSeedRatings([...seeds.AFC, ...seeds.NFC]),
+    liveResults: null,
+    iterations: 2000,
+    randomSeed: 42,
+    ...overrides,
+  };
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+describe("getWinProbability", () => {
+  it("follows the Elo curve with a home field edge", () => {
+    expect(getWinProbability(1500, 1500, true)).toBe(0.5);
+    expect(getWinProbability(1500, 1500)).toBeGreaterThan(0.5);
+    expect(getWinProbability(1600, 1500, true)).toBeCloseTo(0.64, 2);
+  });
+});
+
+describe("simulatePlayoffs", () => {
+  it("gives every team its chance of reaching each round", () => {
+    const { odds } = simulatePlayoffs(input());
+    const all = Object.values(odds);
+
+    // 2025 AFC seeds: DEN, NE, JAX, PIT, HOU, BUF, LAC
+    expect(odds.DEN.divisional).toBe(1); // Bye
+    expect(sum(all.map((o) => o.divisional))).toBeCloseTo(8);
+    expect(sum(all.map((o) => o.superBowl))).toBeCloseTo(2);
+    expect(sum(all.map((o) => o.champion))).toBeCloseTo(1);
+    expect(odds.DEN.champion).toBeGreaterThan(odds.LAC.champion);
+  });
+
+  it("plays completed games as they finished", () => {
+    const liveResults: LiveResults = {
+      afc: { wildCard: [game("NE", "LAC", "LAC")], divisional: [], championship: null },
+      nfc: { wildCard: [], divisional: [], championship: null },
+      superBowl: null,
+      fetchedAt: 0,
+    };
+    const { odds } = simulatePlayoffs(input({ liveResults }));
+
+    expect(odds.LAC.divisional).toBe(1);
+    expect(odds.NE.divisional).toBe(0);
+    expect(odds.NE.champion).toBe(0);
+  });
+
+  it("plays games underway by their live win probability", () => {
+    const underway = (homeWinPct: number): LiveResults => ({
+      afc: {
+        wildCard: [{ ...game("NE", "LAC", null), isInProgress: true, homeWinPct }],
+        divisional: [],
+        championship: null,
+      },
+      nfc: { wildCard: [], divisional: [], championship: null },
+      superBowl: null,
+      fetchedAt: 0,
+    });
+
+    expect(simulatePlayoffs(input({ liveResults: underway(1) })).odds.NE.divisional).toBe(1);
+    expect(simulatePlayoffs(input({ liveResults: underway(0) })).odds.LAC.divisional).toBe(1);
+  });
+
+  it("follows the ratings", () => {
+    const ratings = { ...input().ratings, LAC: 3000 };
+    expect(simulatePlayoffs(input({ ratings })).odds.LAC.champion).toBeGreaterThan(0.95);
+  });
+
+  it("repeats a run with the same random seed", () => {
+    expect(simulatePlayoffs(input())).toEqual(simulatePlayoffs(input()));
+  });
+});
+
+describe("simulateBracketOdds", () => {
+  const initial = createInitialBracket("Test", 2025);
+  const chalk = autofillBracket(initial, {
+    strategy: "chalk",
+    onlyUnpicked: false,
+    randomSeed: 1,
+    ratings: {},
+  });
+  // LAC picked to win it all, from the 7 seed
+  const lac = autofillBracket(initial, {
+    strategy: "weighted",
+    onlyUnpicked: false,
+    randomSeed: 1,
+    ratings: { LAC: 100_000 },
+  });
+
+  it("scores every bracket against each simulated run", () => {
+    const ratings = { ...input().ratings, LAC: 100_000 };
+    const [chalkOdds, lacOdds] = simulateBracketOdds({
+      ...input({ ratings }),
+      brackets: [chalk, { ...lac, id: "lac" }],
+      rules: DEFAULT_SCORING_RULES,
+    });
+
+    expect(lacOdds.bracketId).toBe("lac");
+    // LAC winning four games is worth 1 + 2 + 4 + 8 points
+    expect(lacOdds.pointsAtLeast[15]).toBe(1);
+    expect(lacOdds.winChance).toBeGreaterThan(0.95);
+    expect(chalkOdds.winChance + lacOdds.winChance).toBeCloseTo(1);
+    expect(chalkOdds.pointsAtLeast[0]).toBe(1);
+    expect(chalkOdds.expectedPoints).toBeLessThan(lacOdds.expectedPoints);
+  });
+
+  it("gives chances that fall as the target rises", () => {
+    const [odds] = simulateBracketOdds({
+      ...input(),
+      brackets: [chalk],
+      rules: DEFAULT_SCORING_RULES,
+    });
+    const chances = odds.pointsAtLeast;
+    expect(chances.every((chance, n) => n === 0 || chance <= chances[n - 1])).toBe(true);
+  });
+});
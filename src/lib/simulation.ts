@@ -0,0 +1,260 @@
+import { getAllMatchups } from "@/lib/bracket-engine";
+import { getRoundResults } from "@/lib/espn-api";
+import { calculateRoundTeams } from "@/lib/playoff-rules";
+import type {
+  BracketOdds,
+  BracketOddsInput,
+  Conference,
+  LiveMatchupResult,
+  LiveResults,
+  Matchup,
+  RoundName,
+  SeededTeam,
+  SimulationInput,
+  SimulationResult,
+  SimulationStage,
+  TeamRatings,
+} from "@/types";
+
+/**
+ * Monte Carlo playoff simulations. Every run plays the bracket out with the
+ * season's real pairing rules (reseeding included), so a team's path depends
+ * on who else survives. Games underway are decided by ESPN's live win
+ * probability when there is one. Pure and free of app state so it can run in a worker.
+ */
+
+export const DEFAULT_ITERATIONS = 10_000;
+
+// Rating of an average playoff team; seeds spread out from it
+const BASE_RATING = 1500;
+const SEED_RATING_STEP = 30;
+// Home teams win about 57% of evenly matched games
+const HOME_FIELD_ADVANTAGE = 48;
+
+const CONFERENCES: Conference[] = ["AFC", "NFC"];
+
+/**
+ * Starting ratings when nobody has set any: better seeds rate higher
+ */
+export function getSeedRatings(seeds: SeededTeam[]): TeamRatings {
+  const middle = (Math.max(...seeds.map((t) => t.seed)) + 1) / 2;
+  return Object.fromEntries(
+    seeds.map((team) => [team.id, BASE_RATING + (middle - team.seed) * SEED_RATING_STEP]),
+  );
+}
+
+/**
+ * Chance that the home team wins, from the two ratings (Elo's logistic curve)
+ */
+export function getWinProbability(
+  homeRating: number,
+  awayRating: number,
+  neutralSite = false,
+): number {
+  const edge = homeRating - awayRating + (neutralSite ? 0 : HOME_FIELD_ADVANTAGE);
+  return 1 / (1 + 10 ** (-edge / 400));
+}
+
+/**
+ * A chance as a rounded percentage, "<1%" when it's tiny and "–" when it's none
+ */
+export function formatOdds(chance: number): string {
+  if (chance === 0) return "–";
+  if (chance < 0.005) return "<1%";
+  return `${Math.round(chance * 100)}%`;
+}
+
+/**
+ * Seeded pseudo-random numbers in [0, 1) (mulberry32), so runs can be repeated
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * The real game between these teams in a round, if it has been scheduled
+ */
+function findGame(
+  liveResults: LiveResults | null,
+  round: RoundName,
+  home: SeededTeam,
+  away: SeededTeam,
+): LiveMatchupResult | undefined {
+  return getRoundResults(liveResults, round).find(
+    (r) =>
+      [r.homeTeamId, r.awayTeamId].includes(home.id) &&
+      [r.homeTeamId, r.awayTeamId].includes(away.id),
+  );
+}
+
+// One game of a simulated run; a team without an opponent goes through
+interface SimulatedGame {
+  round: RoundName;
+  home: SeededTeam | null;
+  away: SeededTeam | null;
+  winner: SeededTeam;
+}
+
+/**
+ * Play the playoffs out `iterations` times, handing each run's games to `visit`
+ */
+function runSimulations(input: SimulationInput, visit: (games: SimulatedGame[]) => void) {
+  const { format, seeds, ratings, liveResults, iterations } = input;
+  const random = createRandom(input.randomSeed);
+  const rating = (team: SeededTeam) => ratings[team.id] ?? BASE_RATING;
+
+  const playGame = (
+    round: RoundName,
+    home: SeededTeam,
+    away: SeededTeam,
+    neutralSite = false,
+  ): SeededTeam => {
+    const game = findGame(liveResults, round, home, away);
+    if (game?.isComplete && game.winnerId !== null) return game.winnerId === home.id ? home : away;
+    let chance = getWinProbability(rating(home), rating(away), neutralSite);
+    // Results cached before win probabilities were tracked have no homeWinPct at all
+    if (game?.isInProgress && typeof game.homeWinPct === "number") {
+      chance = game.homeTeamId === home.id ? game.homeWinPct : 1 - game.homeWinPct;
+    }
+    return random() < chance ? home : away;
+  };
+
+  for (let i = 0; i < iterations; i++) {
+    const games: SimulatedGame[] = [];
+    const champions: Partial<Record<Conference, SeededTeam>> = {};
+
+    for (const conference of CONFERENCES) {
+      let previous: Matchup[] = [];
+      for (const roundFormat of format.rounds) {
+        const { round } = roundFormat;
+        previous = calculateRoundTeams(roundFormat, previous, seeds[conference]).map(
+          ({ home, away }, index): Matchup => {
+            const winner = home && away ? playGame(round, home, away) : (home ?? away);
+            if (winner) games.push({ round, home, away, winner });
+            return {
+              id: `${conference}-${round}-${index + 1}`,
+              round,
+              conference,
+              homeTeam: home,
+              awayTeam: away,
+              winner,
+              gameNumber: index + 1,
+            };
+          },
+        );
+      }
+      const champion = previous[0]?.winner;
+      if (champion) champions[conference] = champion;
+    }
+
+    const home = champions[format.final.homeConference];
+    const away = champions[format.final.homeConference === "AFC" ? "NFC" : "AFC"];
+    if (home && away) {
+      games.push({
+        round: "superBowl",
+        home,
+        away,
+        winner: playGame("superBowl", home, away, true),
+      });
+    }
+    visit(games);
+  }
+}
+
+export function simulatePlayoffs(input: SimulationInput): SimulationResult {
+  const { seeds, iterations } = input;
+
+  const counts: Record<string, Record<SimulationStage, number>> = {};
+  for (const team of [...seeds.AFC, ...seeds.NFC]) {
+    counts[team.id] = { divisional: 0, conference: 0, superBowl: 0, champion: 0 };
+  }
+  const reach = (team: SeededTeam | null, stage: SimulationStage) => {
+    if (team) counts[team.id][stage]++;
+  };
+
+  runSimulations(input, (games) => {
+    for (const { round, home, away, winner } of games) {
+      if (round === "wildCard") continue;
+      reach(home, round);
+      reach(away, round);
+      if (round === "superBowl") reach(winner, "champion");
+    }
+  });
+
+  const odds: SimulationResult["odds"] = {};
+  for (const [teamId, stages] of Object.entries(counts)) {
+    odds[teamId] = {
+      divisional: stages.divisional / iterations,
+      conference: stages.conference / iterations,
+      superBowl: stages.superBowl / iterations,
+      champion: stages.champion / iterations,
+    };
+  }
+  return { iterations, odds };
+}
+
+/**
+ * Score brackets against every simulated run: each bracket's expected points,
+ * its chance of reaching any point total, and its chance of finishing on top
+ * of the others. Picks score as in `scoreBracket`, upset bonus included.
+ */
+export function simulateBracketOdds(input: BracketOddsInput): BracketOdds[] {
+  const { brackets, rules, iterations } = input;
+  if (brackets.length === 0) return [];
+  const picks = brackets.map((bracket) =>
+    getAllMatchups(bracket).flatMap((m) => (m.winner ? [{ round: m.round, team: m.winner }] : [])),
+  );
+  const totals = brackets.map(() => 0);
+  const wins = brackets.map(() => 0);
+  // How many runs ended on each point total (rounded down), per bracket
+  const histograms: number[][] = brackets.map(() => []);
+
+  runSimulations(input, (games) => {
+    // Loser of the game each team won in a round, keyed by round and winner
+    const losers = new Map<string, SeededTeam>();
+    for (const { round, home, away, winner } of games) {
+      if (home && away) losers.set(`${round}:${winner.id}`, winner === home ? away : home);
+    }
+
+    const points = picks.map((bracketPicks) =>
+      bracketPicks.reduce((total, { round, team }) => {
+        const loser = losers.get(`${round}:${team.id}`);
+        if (!loser) return total;
+        const upsetBonus = Math.max(0, team.seed - loser.seed) * rules.upsetBonusPerSeed;
+        return total + rules.roundPoints[round] + upsetBonus;
+      }, 0),
+    );
+
+    const best = Math.max(...points);
+    const leaders = points.filter((p) => p === best).length;
+    points.forEach((p, index) => {
+      totals[index] += p;
+      if (p === best) wins[index] += 1 / leaders;
+      const bin = Math.floor(p);
+      histograms[index][bin] = (histograms[index][bin] ?? 0) + 1;
+    });
+  });
+
+  return brackets.map((bracket, index) => {
+    const histogram = histograms[index];
+    const pointsAtLeast: number[] = [];
+    let atLeast = 0;
+    for (let n = histogram.length - 1; n >= 0; n--) {
+      atLeast += histogram[n] ?? 0;
+      pointsAtLeast[n] = atLeast / iterations;
+    }
+    return {
+      bracketId: bracket.id,
+      expectedPoints: totals[index] / iterations,
+      pointsAtLeast,
+      winChance: wins[index] / iterations,
+    };
+  });
+}
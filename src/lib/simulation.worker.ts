@@ -0,0 +1,33 @@
+import { simulateBracketOdds, simulatePlayoffs } from "@/lib/simulation";
+import type { BracketOdds, BracketOddsInput, SimulationInput, SimulationResult } from "@/types";
+
+/**
+ * Runs simulations off the main thread. Each request carries an id, echoed
+ * back so the page can ignore answers to requests it has since replaced.
+ */
+
+export type SimulationRequest =
+  | { id: number; task: "playoffs"; input: SimulationInput }
+  | { id: number; task: "brackets"; input: BracketOddsInput };
+
+export type SimulationResponse =
+  | { id: number; result: SimulationResult | BracketOdds[] }
+  | { id: number; error: string };
+
+self.addEventListener("message", (event: MessageEvent<SimulationRequest>) => {
+  const request = event.data;
+  let response: SimulationResponse;
+  try {
+    const result =
+      request.task === "brackets"
+        ? simulateBracketOdds(request.input)
+        : simulatePlayoffs(request.input);
+    response = { id: request.id, result };
+  } catch (error) {
+    response = {
+      id: request.id,
+      error: error instanceof Error ? error.message : "Simulation failed",
+    };
+  }
+  self.postMessage(response);
+});
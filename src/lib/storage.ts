@@ -1,14 +1,87 @@
-import type { BracketState, SavedBracket } from "@/types";
+import {
+  collectSeasonResults,
+  compactBracket,
+  compactPicks,
+  compactSavedBracket,
+  expandBracket,
+  expandPicks,
+} from "@/lib/compact-bracket";
+import {
+  BRACKET_SCHEMA_VERSION,
+  readStoredBracket,
+  readStoredSavedBracket,
+} from "@/lib/migrations";
+import type {
+  BracketHistory,
+  BracketState,
+  LiveResults,
+  QuarantinedEntry,
+  SavedBracket,
+  SeasonSeeds,
+  TeamRatings,
+} from "@/types";
 
 const STORAGE_PREFIX = "nfl-bracket:";
 const USER_KEY = `${STORAGE_PREFIX}user`;
 const BRACKETS_KEY = `${STORAGE_PREFIX}brackets`;
 const CURRENT_KEY = `${STORAGE_PREFIX}current`;
+const SEEDS_KEY = `${STORAGE_PREFIX}seeds`;
+const HISTORY_KEY = `${STORAGE_PREFIX}history`;
+const QUARANTINE_KEY = `${STORAGE_PREFIX}quarantine`;
+const SYNC_KEY = `${STORAGE_PREFIX}sync`;
+const DELETED_KEY = `${STORAGE_PREFIX}deleted`;
+const RESULTS_KEY = `${STORAGE_PREFIX}results`;
+const RATINGS_KEY = `${STORAGE_PREFIX}ratings`;
+const POOL_ENTRIES_KEY = `${STORAGE_PREFIX}pool-entries`;
 
 function isClient(): boolean {
   return typeof window !== "undefined";
 }
 
+/**
+ * The browser's storage for this site is full
+ */
+export class StorageQuotaError extends Error {
+  constructor() {
+    super("Browser storage is full");
+    this.name = "StorageQuotaError";
+  }
+}
+
+function isQuotaError(error: unknown): boolean {
+  return (
+    error instanceof DOMException &&
+    // Firefox used its own name before standardizing
+    (error.name === "QuotaExceededError" || error.name === "NS_ERROR_DOM_QUOTA_REACHED")
+  );
+}
+
+/**
+ * Write a value as JSON, turning a full storage into a StorageQuotaError
+ */
+function writeItem(key: string, value: unknown): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    if (isQuotaError(error)) throw new StorageQuotaError();
+    throw error;
+  }
+}
+
+/**
+ * Roughly how many bytes the app keeps in this site's storage (stored as UTF-16)
+ */
+export function getStorageUsage(): number {
+  if (!isClient()) return 0;
+  let chars = 0;
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(STORAGE_PREFIX))
+      chars += key.length + (localStorage.getItem(key)?.length ?? 0);
+  }
+  return chars * 2;
+}
+
 // User storage
 export function getStoredUser(): { name: string } | null {
   if (!isClient()) return null;
@@ -30,17 +103,158 @@ export function clearStoredUser(): void {
   localStorage.removeItem(USER_KEY);
 }
 
-// Saved brackets storage
-export function getSavedBrackets(): SavedBracket[] {
+// Entries that couldn't be read are kept here so they can still be recovered
+export function getQuarantinedEntries(): QuarantinedEntry[] {
   if (!isClient()) return [];
   try {
-    const data = localStorage.getItem(BRACKETS_KEY);
+    const data = localStorage.getItem(QUARANTINE_KEY);
     return data ? JSON.parse(data) : [];
   } catch {
     return [];
   }
 }
 
+export function clearQuarantinedEntries(): void {
+  if (!isClient()) return;
+  localStorage.removeItem(QUARANTINE_KEY);
+}
+
+function quarantine(key: string, data: unknown, error: unknown): void {
+  const reason = error instanceof Error ? error.message : String(error);
+  console.warn(`Setting aside unreadable ${key} entry:`, reason);
+  const entry: QuarantinedEntry = {
+    key,
+    reason,
+    data: typeof data === "string" ? data : JSON.stringify(data),
+    quarantinedAt: Date.now(),
+  };
+  try {
+    localStorage.setItem(QUARANTINE_KEY, JSON.stringify([...getQuarantinedEntries(), entry]));
+  } catch (storageError) {
+    console.error("Failed to quarantine storage entry:", storageError);
+  }
+}
+
+// Latest live results per season, shared by every saved bracket of that season
+function getStoredResults(): Record<number, LiveResults> {
+  try {
+    const data = localStorage.getItem(RESULTS_KEY);
+    return data ? JSON.parse(data) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Write the live results first, then the brackets that use them. If the
+ * brackets can't be written the old results are put back, so the two never
+ * disagree.
+ */
+function writeWithResults(key: string, value: unknown, results: Record<number, LiveResults>): void {
+  const previous = localStorage.getItem(RESULTS_KEY);
+  const isChanged = JSON.stringify(results) !== previous;
+  if (isChanged) writeItem(RESULTS_KEY, results);
+  try {
+    writeItem(key, value);
+  } catch (error) {
+    if (isChanged) {
+      localStorage.removeItem(RESULTS_KEY);
+      if (previous !== null) localStorage.setItem(RESULTS_KEY, previous);
+    }
+    throw error;
+  }
+}
+
+// The season of the autosaved bracket, whose live results are kept too
+function getCurrentSeason(): number | null {
+  try {
+    return JSON.parse(localStorage.getItem(CURRENT_KEY) ?? "null")?.season ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store saved brackets compactly, keeping live results once per season
+ */
+function writeSavedBrackets(brackets: SavedBracket[]): void {
+  const seasons = new Set(brackets.map((b) => b.state.season));
+  const currentSeason = getCurrentSeason();
+  if (currentSeason !== null) seasons.add(currentSeason);
+  const results = collectSeasonResults(
+    brackets.map((b) => b.state),
+    getStoredResults(),
+  );
+  writeWithResults(
+    BRACKETS_KEY,
+    brackets.map(compactSavedBracket),
+    Object.fromEntries(Object.entries(results).filter(([season]) => seasons.has(Number(season)))),
+  );
+}
+
+// Saved brackets storage
+export function getSavedBrackets(): SavedBracket[] {
+  if (!isClient()) return [];
+  const data = localStorage.getItem(BRACKETS_KEY);
+  if (!data) return [];
+
+  let stored: unknown;
+  try {
+    stored = JSON.parse(data);
+    if (!Array.isArray(stored)) throw new Error("Saved brackets aren't a list");
+  } catch (error) {
+    quarantine(BRACKETS_KEY, data, error);
+    localStorage.removeItem(BRACKETS_KEY);
+    return [];
+  }
+
+  // Migrate each bracket on its own so one bad entry doesn't cost the rest
+  const migrated: SavedBracket[] = [];
+  let changed = false;
+  for (const entry of stored) {
+    try {
+      const saved = readStoredSavedBracket(entry);
+      migrated.push(saved);
+      // Saves from before compact storage carry their own live results
+      changed ||= entry.schemaVersion !== BRACKET_SCHEMA_VERSION || !!saved.state.liveResults;
+    } catch (error) {
+      quarantine(BRACKETS_KEY, entry, error);
+      changed = true;
+    }
+  }
+
+  const results = collectSeasonResults(
+    migrated.map((b) => b.state),
+    getStoredResults(),
+  );
+  const brackets: SavedBracket[] = [];
+  for (const saved of migrated) {
+    try {
+      brackets.push({
+        ...saved,
+        state: expandBracket(saved.state, results[saved.state.season] ?? null),
+      });
+    } catch (error) {
+      quarantine(BRACKETS_KEY, saved, error);
+      changed = true;
+    }
+  }
+
+  // Write migrations back so they only run once
+  if (changed) {
+    try {
+      writeSavedBrackets(brackets);
+    } catch (error) {
+      console.error("Failed to store migrated brackets:", error);
+    }
+  }
+  return brackets;
+}
+
+/**
+ * Save a bracket, or update the saved copy with the same id. Throws a
+ * StorageQuotaError when browser storage is full.
+ */
 export function saveBracket(bracket: BracketState): string {
   if (!isClient()) return bracket.id;
 
@@ -49,6 +263,7 @@ export function saveBracket(bracket: BracketState): string {
 
   const savedBracket: SavedBracket = {
     id: bracket.id,
+    schemaVersion: BRACKET_SCHEMA_VERSION,
     name: bracket.name,
     userName: bracket.userName,
     createdAt: bracket.createdAt,
@@ -62,10 +277,26 @@ export function saveBracket(bracket: BracketState): string {
     brackets.push(savedBracket);
   }
 
-  localStorage.setItem(BRACKETS_KEY, JSON.stringify(brackets));
+  writeSavedBrackets(brackets);
   return bracket.id;
 }
 
+/**
+ * Replace the saved list, e.g. with the result of a sync
+ */
+export function setSavedBrackets(brackets: SavedBracket[]): void {
+  if (!isClient()) return;
+  writeSavedBrackets(brackets);
+}
+
+/**
+ * Add brackets to the saved list as-is (ids must already be unique)
+ */
+export function addSavedBrackets(added: SavedBracket[]): void {
+  if (!isClient() || added.length === 0) return;
+  writeSavedBrackets([...getSavedBrackets(), ...added]);
+}
+
 export function loadBracket(id: string): BracketState | null {
   const brackets = getSavedBrackets();
   const saved = brackets.find((b) => b.id === id);
@@ -74,28 +305,188 @@ export function loadBracket(id: string): BracketState | null {
 
 export function deleteBracket(id: string): void {
   if (!isClient()) return;
-  const brackets = getSavedBrackets();
-  const filtered = brackets.filter((b) => b.id !== id);
-  localStorage.setItem(BRACKETS_KEY, JSON.stringify(filtered));
+  // Remembered so sync can delete the server copy too; written first so a
+  // bracket is never gone locally without sync knowing
+  writeItem(DELETED_KEY, { ...getDeletedBrackets(), [id]: Date.now() });
+  writeSavedBrackets(getSavedBrackets().filter((b) => b.id !== id));
+}
+
+// When each saved bracket was deleted, by id
+export function getDeletedBrackets(): Record<string, number> {
+  if (!isClient()) return {};
+  try {
+    const data = localStorage.getItem(DELETED_KEY);
+    return data ? JSON.parse(data) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Forget deletions a sync has settled with the server, unless the bracket was
+ * deleted again since
+ */
+export function pruneDeletedBrackets(synced: Record<string, number>): void {
+  if (!isClient()) return;
+  const deleted = getDeletedBrackets();
+  const remaining = Object.fromEntries(
+    Object.entries(deleted).filter(([id, deletedAt]) => synced[id] !== deletedAt),
+  );
+  if (Object.keys(remaining).length === 0) localStorage.removeItem(DELETED_KEY);
+  else writeItem(DELETED_KEY, remaining);
+}
+
+// Passphrase for syncing saved brackets across devices (null when sync is off)
+export function getSyncPassphrase(): string | null {
+  if (!isClient()) return null;
+  return localStorage.getItem(SYNC_KEY);
+}
+
+export function setSyncPassphrase(passphrase: string): void {
+  if (!isClient()) return;
+  localStorage.setItem(SYNC_KEY, passphrase);
+}
+
+export function clearSyncPassphrase(): void {
+  if (!isClient()) return;
+  localStorage.removeItem(SYNC_KEY);
+}
+
+// Autosaves from before compact storage carry their own live results
+function readCurrentBracket(data: string): BracketState {
+  const state = readStoredBracket(JSON.parse(data));
+  return expandBracket(
+    state,
+    collectSeasonResults([state], getStoredResults())[state.season] ?? null,
+  );
 }
 
-// Current session storage (auto-save)
+// Current session storage (auto-save), compact like saved brackets
 export function getCurrentBracket(): BracketState | null {
   if (!isClient()) return null;
+  const data = localStorage.getItem(CURRENT_KEY);
+  if (!data) return null;
   try {
-    const data = localStorage.getItem(CURRENT_KEY);
-    return data ? JSON.parse(data) : null;
-  } catch {
+    return readCurrentBracket(data);
+  } catch (error) {
+    quarantine(CURRENT_KEY, data, error);
+    clearCurrentBracket();
     return null;
   }
 }
 
 export function saveCurrentBracket(bracket: BracketState): void {
   if (!isClient()) return;
-  localStorage.setItem(CURRENT_KEY, JSON.stringify({ ...bracket, updatedAt: Date.now() }));
+  writeWithResults(
+    CURRENT_KEY,
+    compactBracket({ ...bracket, updatedAt: Date.now() }),
+    collectSeasonResults([bracket], getStoredResults()),
+  );
+}
+
+/**
+ * Listen for another tab changing the autosaved bracket (storage events only
+ * reach the other tabs, never the one that wrote). Returns an unsubscribe function.
+ */
+export function onCurrentBracketChange(listener: (bracket: BracketState) => void): () => void {
+  if (!isClient()) return () => {};
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== CURRENT_KEY || !event.newValue) return;
+    try {
+      listener(readCurrentBracket(event.newValue));
+    } catch (error) {
+      // Most likely a tab running a newer version; leave it to that tab
+      console.warn("Ignoring unreadable bracket from another tab:", error);
+    }
+  };
+  window.addEventListener("storage", handleStorage);
+  return () => window.removeEventListener("storage", handleStorage);
 }
 
 export function clearCurrentBracket(): void {
   if (!isClient()) return;
   localStorage.removeItem(CURRENT_KEY);
+  localStorage.removeItem(HISTORY_KEY);
+}
+
+// Undo/redo history for the current bracket
+export function getStoredHistory(bracketId: string): BracketHistory | null {
+  if (!isClient()) return null;
+  try {
+    const data = localStorage.getItem(HISTORY_KEY);
+    const stored = data ? JSON.parse(data) : null;
+    // History only applies to the bracket it was recorded for
+    if (stored?.bracketId !== bracketId) return null;
+    return { past: stored.past.map(expandPicks), future: stored.future.map(expandPicks) };
+  } catch {
+    return null;
+  }
+}
+
+export function saveBracketHistory(bracketId: string, history: BracketHistory): void {
+  if (!isClient()) return;
+  writeItem(HISTORY_KEY, {
+    bracketId,
+    past: history.past.map(compactPicks),
+    future: history.future.map(compactPicks),
+  });
+}
+
+// Seeds derived from standings, keyed by season
+export function getStoredSeeds(): Record<number, SeasonSeeds> {
+  if (!isClient()) return {};
+  try {
+    const data = localStorage.getItem(SEEDS_KEY);
+    return data ? JSON.parse(data) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function setStoredSeeds(season: number, seeds: SeasonSeeds): void {
+  if (!isClient()) return;
+  localStorage.setItem(SEEDS_KEY, JSON.stringify({ ...getStoredSeeds(), [season]: seeds }));
+}
+
+// Team ratings the user adjusted for simulations, per season
+export function getStoredRatings(season: number): TeamRatings | null {
+  if (!isClient()) return null;
+  try {
+    const data = localStorage.getItem(RATINGS_KEY);
+    return (data ? JSON.parse(data)[season] : null) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export function setStoredRatings(season: number, ratings: TeamRatings | null): void {
+  if (!isClient()) return;
+  let all: Record<number, TeamRatings> = {};
+  try {
+    all = JSON.parse(localStorage.getItem(RATINGS_KEY) ?? "{}");
+  } catch {
+    // Start over from unreadable ratings
+  }
+  if (ratings) all[season] = ratings;
+  else delete all[season];
+  writeItem(RATINGS_KEY, all);
+}
+
+// Tokens for updating pool entries, keyed by `${poolId}:${bracketId}`
+function getPoolEntryTokens(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(POOL_ENTRIES_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+}
+
+export function getPoolEntryToken(poolId: string, bracketId: string): string | null {
+  if (!isClient()) return null;
+  return getPoolEntryTokens()[`${poolId}:${bracketId}`] ?? null;
+}
+
+export function setPoolEntryToken(poolId: string, bracketId: string, token: string): void {
+  if (!isClient()) return;
+  writeItem(POOL_ENTRIES_KEY, { ...getPoolEntryTokens(), [`${poolId}:${bracketId}`]: token });
 }
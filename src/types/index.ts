@@ -1,7 +1,38 @@
 export type Conference = "AFC" | "NFC";
 
+export type Division = "East" | "North" | "South" | "West";
+
 export type RoundName = "wildCard" | "divisional" | "conference" | "superBowl";
 
+// Rounds played within a conference (the final is played between conferences)
+export type ConferenceRoundName = Exclude<RoundName, "superBowl">;
+
+export type BracketFormatId = "nfl-12" | "nfl-14" | "nfl-16";
+
+// Where a matchup slot's team comes from: a seed, or the winner of a game
+// (by index) in the previous round
+export type SlotSource = { seed: number } | { winnerOf: number };
+
+/**
+ * How a conference round is paired:
+ * - fixed: every game lists its two slots, so paths through the bracket never change
+ * - reseed: the bye seeds and the previous round's winners are sorted by seed,
+ *   and the best remaining seed plays the worst
+ */
+export type RoundFormat =
+  | { round: ConferenceRoundName; pairing: "fixed"; games: [SlotSource, SlotSource][] }
+  | { round: ConferenceRoundName; pairing: "reseed"; byes?: number[] };
+
+export interface BracketFormat {
+  id: BracketFormatId;
+  label: string;
+  seedsPerConference: number;
+  // Wild card, divisional and conference rounds in order; the last has a single game
+  rounds: RoundFormat[];
+  // The final pairs the conference champions; this conference is the home team
+  final: { homeConference: Conference };
+}
+
 export type ViewMode = "bracket" | "live-games";
 
 // Flattened game info for Live Games view
@@ -17,6 +48,9 @@ export interface Team {
   name: string;
   city: string;
   conference: Conference;
+  division: Division;
+  espnId: string; // ESPN numeric team ID
+  espnAliases?: string[]; // ESPN abbreviations that differ from `id` (e.g. "WSH")
   primaryColor: string;
   secondaryColor: string;
   logoUrl: string;
@@ -26,6 +60,29 @@ export interface SeededTeam extends Team {
   seed: number;
 }
 
+// Team IDs per conference ordered by seed (index 0 is the #1 seed)
+export type SeasonSeeds = Record<Conference, string[]>;
+
+// Season definition loaded from src/data/seasons/<year>.json
+export interface SeasonDefinition {
+  year: number; // Year the regular season started (2025 for the 2025-26 playoffs)
+  label: string; // e.g. "2025-26"
+  superBowl: string; // e.g. "Super Bowl LX"
+  // null until the field is set; seeds are then derived from ESPN standings
+  seeds: SeasonSeeds | null;
+  // Playoff format, defaults to the 14-team format used since 2020
+  format?: BracketFormatId;
+  // A what-if season that was never played this way, so it has no live results
+  hypothetical?: boolean;
+}
+
+// Response from /api/seeds
+export interface SeedsResponse {
+  season: number;
+  seeds: SeasonSeeds;
+  fetchedAt: number;
+}
+
 export interface Matchup {
   id: string;
   round: RoundName;
@@ -38,9 +95,13 @@ export interface Matchup {
 
 export interface BracketState {
   id: string;
+  // Storage schema the bracket was saved with (see src/lib/migrations.ts)
+  schemaVersion: number;
   name: string;
   subtitle: string | null;
   userName: string;
+  // Season the bracket's seeds come from (see src/data/seasons)
+  season: number;
   afc: {
     wildCard: Matchup[];
     divisional: Matchup[];
@@ -59,10 +120,13 @@ export interface BracketState {
   lockedRounds: RoundLockState;
   // Cached live results from ESPN
   liveResults: LiveResults | null;
+  // Contest mode: picks can't change once a matchup's game has kicked off
+  contestMode: boolean;
 }
 
 export interface SavedBracket {
   id: string;
+  schemaVersion: number; // Matches the schema of `state`
   name: string;
   userName: string;
   createdAt: number;
@@ -70,17 +134,269 @@ export interface SavedBracket {
   state: BracketState;
 }
 
+// Server copy of a saved bracket for cross-device sync. A null bracket marks
+// one deleted at `updatedAt`, so the deletion wins over older copies elsewhere.
+export interface SyncedBracket {
+  id: string;
+  updatedAt: number;
+  bracket: SavedBracket | null;
+}
+
+export interface BracketSyncResult {
+  pulled: number; // Local brackets added, updated or removed from the server copy
+  pushed: number; // Local changes sent to the server
+  conflicts: number; // Pushes the server turned down because its copy was newer
+}
+
+// A stored entry that couldn't be read, set aside instead of being thrown away
+export interface QuarantinedEntry {
+  key: string; // localStorage key it was read from
+  reason: string;
+  data: string; // Raw JSON as it was stored
+  quarantinedAt: number;
+}
+
+// Versioned JSON file for moving saved brackets between browsers
+export interface BracketExportFile {
+  format: "nfl-bracket-export";
+  version: number;
+  exportedAt: number;
+  brackets: SavedBracket[]; // Exported without cached live results
+}
+
+// Outcome of importing an export file into the saved brackets
+export interface BracketImportResult {
+  added: SavedBracket[]; // Brackets to store, including copies given a new id
+  copied: number; // Brackets whose id was taken by a different bracket
+  skipped: number; // Brackets already saved with the same picks
+}
+
+// Team kept by reference in saved brackets; the rest is rebuilt from src/data/teams
+export type TeamRef = Pick<SeededTeam, "id" | "seed">;
+
+export interface CompactMatchup extends Omit<Matchup, "homeTeam" | "awayTeam" | "winner"> {
+  homeTeam: TeamRef | null;
+  awayTeam: TeamRef | null;
+  winner: TeamRef | null;
+}
+
+interface CompactConference {
+  wildCard: CompactMatchup[];
+  divisional: CompactMatchup[];
+  championship: CompactMatchup | null;
+}
+
+// How saved brackets are kept in localStorage: teams by reference, and live
+// results left out (one snapshot per season is stored separately)
+export interface CompactBracketState extends Omit<
+  BracketState,
+  "afc" | "nfc" | "superBowl" | "liveResults"
+> {
+  afc: CompactConference;
+  nfc: CompactConference;
+  superBowl: CompactMatchup | null;
+}
+
+export interface StoredSavedBracket extends Omit<SavedBracket, "state"> {
+  state: CompactBracketState;
+}
+
+// Undo/redo history entries as stored, with teams by reference
+export type CompactBracketPicks = Pick<
+  CompactBracketState,
+  "afc" | "nfc" | "superBowl" | "isComplete"
+>;
+
 export type BracketAction =
   | { type: "SELECT_WINNER"; matchupId: string; winner: SeededTeam }
   | { type: "CLEAR_WINNER"; matchupId: string }
   | { type: "RESET_BRACKET" }
+  | { type: "SET_SEASON"; season: number }
+  | { type: "SEEDS_LOADED"; season: number }
   | { type: "LOAD_BRACKET"; bracket: BracketState }
   | { type: "SET_BRACKET_NAME"; name: string }
   | { type: "SET_USER_NAME"; userName: string }
   | { type: "SET_SUBTITLE"; subtitle: string | null }
   | { type: "TOGGLE_ROUND_LOCK"; round: RoundName }
+  | { type: "SET_CONTEST_MODE"; enabled: boolean }
   | { type: "SET_LIVE_RESULTS"; results: LiveResults }
-  | { type: "APPLY_LIVE_RESULTS" };
+  | { type: "APPLY_LIVE_RESULTS" }
+  // Replace every pick at once as one undo step (autofill)
+  | { type: "APPLY_PICKS"; picks: BracketPicks }
+  | { type: "UNDO" }
+  | { type: "REDO" }
+  // Replace the bracket and its history, e.g. with another tab's
+  | { type: "RESTORE_SESSION"; session: BracketSession };
+
+// The parts of a bracket that undo/redo restores
+export type BracketPicks = Pick<BracketState, "afc" | "nfc" | "superBowl" | "isComplete">;
+
+export interface BracketHistory {
+  past: BracketPicks[]; // Oldest first
+  future: BracketPicks[]; // Next redo first
+}
+
+// Bracket plus its undo/redo history, as held by BracketProvider
+export interface BracketSession {
+  bracket: BracketState;
+  history: BracketHistory;
+}
+
+// Points for each correct pick, by the round the pick was made in
+export interface ScoringRules {
+  roundPoints: Record<RoundName, number>;
+  // Bonus per seed of difference when a correct pick beat a higher seed (0 disables)
+  upsetBonusPerSeed: number;
+}
+
+export interface BracketScore {
+  points: number;
+  correctPicks: number;
+  decidedPicks: number; // Picks whose game has been played (or whose team is out)
+  maxPossible: number; // Points so far plus every point still reachable
+  gamesPlayed: number; // Completed playoff games the score is based on
+}
+
+// How a pick has turned out so far
+export type PickGrade = "correct" | "wrong" | "pending";
+
+// One matchup of two brackets side by side: "a" is the bracket shown, "b" the one it's compared with
+export interface MatchupComparison {
+  matchupId: string;
+  round: RoundName;
+  status: "agree" | "disagree" | "unpicked"; // unpicked: at least one bracket has no pick yet
+  pickA: SeededTeam | null;
+  pickB: SeededTeam | null;
+  gradeA: PickGrade | null;
+  gradeB: PickGrade | null;
+  points: number; // What a correct pick in this round is worth
+}
+
+export interface BracketComparison {
+  matchups: Record<string, MatchupComparison>;
+  agreements: number;
+  divergences: number;
+  scoreA: BracketScore;
+  scoreB: BracketScore;
+  // Points each bracket can still gain on picks the other didn't make
+  swingA: number;
+  swingB: number;
+}
+
+// Share of brackets (0 to 1) picking each team to win a game in each round, by team id
+export type PickShares = Record<RoundName, Record<string, number>>;
+
+// The crowd's bracket: majority picks across many brackets of one season
+export interface ConsensusBracket {
+  bracket: BracketState;
+  shares: PickShares;
+  bracketCount: number;
+}
+
+// Team strength for simulations, Elo-style: 100 points is about a 64% favorite on a neutral field
+export type TeamRatings = Record<string, number>;
+
+// How far a team gets: playing in a round, or winning the Super Bowl
+export type SimulationStage = "divisional" | "conference" | "superBowl" | "champion";
+
+export interface SimulationInput {
+  format: BracketFormat;
+  seeds: Record<Conference, SeededTeam[]>;
+  ratings: TeamRatings;
+  // Completed games are played out as they ended, games underway by their live win probability
+  liveResults: LiveResults | null;
+  iterations: number;
+  randomSeed: number;
+}
+
+export interface SimulationResult {
+  iterations: number;
+  // Chance of reaching each stage, by team id
+  odds: Record<string, Record<SimulationStage, number>>;
+}
+
+// Simulations that score brackets against every simulated outcome
+export interface BracketOddsInput extends SimulationInput {
+  brackets: BracketState[];
+  rules: ScoringRules;
+}
+
+// A bracket's chances over the rest of the playoffs ("what are my chances")
+export interface BracketOdds {
+  bracketId: string;
+  expectedPoints: number;
+  // Chance of finishing with at least N points, at index N
+  pointsAtLeast: number[];
+  // Chance of finishing first among the brackets simulated together (ties split it)
+  winChance: number;
+}
+
+// How autofill picks winners: better seed, coin flip, or odds from team ratings
+export type AutofillStrategy = "chalk" | "random" | "weighted";
+
+export interface AutofillOptions {
+  strategy: AutofillStrategy;
+  onlyUnpicked: boolean; // Keep picks already made and fill in the rest
+  randomSeed: number; // Same seed, same bracket (random and weighted)
+  ratings: TeamRatings; // Used by weighted
+}
+
+// Private pools: a group of brackets for one season ranked on a shared leaderboard
+export interface Pool {
+  id: string;
+  name: string;
+  season: number;
+  inviteCode: string; // Needed to join and submit entries
+  createdAt: number;
+  // Rounds seen to have kicked off, kept so picks stay frozen when live results can't be fetched
+  startedRounds?: RoundName[];
+}
+
+export interface PoolEntry {
+  id: string;
+  poolId: string;
+  displayName: string;
+  bracket: BracketState; // Frozen at submission, stored without live results
+  submittedAt: number;
+  tokenHash: string; // SHA-256 of the entry token its submitter updates it with
+}
+
+/**
+ * What entering a bracket answers with. The token is only ever sent here, and
+ * must be sent back to update the entry.
+ */
+export interface PoolEntrySubmission {
+  entry: Omit<PoolEntry, "tokenHash">;
+  entryToken: string;
+}
+
+export interface LeaderboardRow {
+  rank: number; // Entries with equal points share a rank
+  entryId: string;
+  displayName: string;
+  bracketName: string;
+  championId: string | null; // Team picked to win the Super Bowl
+  score: BracketScore;
+  winChance: number | null; // Chance of winning the pool, if the season can be simulated
+}
+
+export interface PoolLeaderboard {
+  pool: Pool;
+  rows: LeaderboardRow[];
+  updatedAt: number;
+}
+
+// One ESPN response as it was seen at `recordedAt` (week null is ESPN's current week)
+export type RecordedPayload =
+  | { kind: "scoreboard"; season: number; week: number | null; recordedAt: number; body: unknown }
+  | { kind: "summary"; eventId: string; recordedAt: number; body: unknown };
+
+// ESPN responses captured over a game day, oldest first, for the replay scores provider
+export interface ScoresRecording {
+  format: "nfl-scores-recording";
+  version: number;
+  payloads: RecordedPayload[];
+}
 
 // Live standings types for fetching real NFL playoff results
 export interface LiveMatchupResult {
@@ -100,6 +416,8 @@ export interface LiveMatchupResult {
   isRedZone: boolean;
   isHalftime: boolean;
   isEndOfQuarter: boolean;
+  // Home team's chance of winning (0-1) from ESPN's live model, for games underway
+  homeWinPct: number | null;
 }
 
 export interface LiveResults {
@@ -115,6 +433,55 @@ export interface LiveResults {
   };
   superBowl: LiveMatchupResult | null;
   fetchedAt: number;
+  // How cleanly ESPN's responses parsed (absent on results cached before it was tracked)
+  dataQuality?: DataQuality;
+  // Set while ESPN can't be reached and these are the last results that came through
+  stale?: Staleness;
+}
+
+// Where a game sits in LiveResults
+export type LiveResultsSlot =
+  | `${"afc" | "nfc"}.${"wildCard" | "divisional" | "championship"}`
+  | "superBowl";
+
+// What changed in live results since the previous live stream event
+export interface LiveResultsDelta {
+  // Games that are new or changed, and where each goes
+  games: { slot: LiveResultsSlot; game: LiveMatchupResult }[];
+  fetchedAt: number;
+  // null when the results no longer have one
+  dataQuality: DataQuality | null;
+  stale: Staleness | null;
+}
+
+// Something in an upstream response that wasn't the shape the parser expects
+export interface ParseIssue {
+  path: string; // Where in the response, e.g. "scoreboard[0].events[2].week.number"
+  problem: string; // e.g. "is missing", "must be a number"
+  // error: the game or response couldn't be used; warning: a default stood in for a detail
+  severity: "error" | "warning";
+}
+
+// What a parser could read, along with everything it couldn't
+export interface ParseResult<T> {
+  data: T;
+  issues: ParseIssue[];
+}
+
+// Whether data can be trusted as is, sent with live results and game stats
+export interface DataQuality {
+  status: "ok" | "degraded";
+  errorCount: number;
+  warningCount: number;
+  // The first few issues only; the server logs every one
+  issues: ParseIssue[];
+}
+
+// Data served from cache because refreshing it from upstream keeps failing
+export interface Staleness {
+  // When refreshing started failing
+  since: number;
+  reason: string;
 }
 
 export interface RoundLockState {
@@ -148,6 +515,7 @@ export interface GameBoxscore {
   lastPlay: string | null;
   fetchedAt: number;
   momentum: MomentumData | null;
+  dataQuality: DataQuality;
 }
 
 export interface TeamGameStats {